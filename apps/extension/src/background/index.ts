@@ -3,13 +3,25 @@
  * Handles extension-wide events, message passing, and persistent storage
  *
  * KEY DESIGN DECISION: No external server dependencies.
- * - AI calls go directly from the extension to OpenAI/Anthropic using the
- *   user's API key stored in chrome.storage.sync
+ * - AI calls go directly from the extension to the chosen provider (OpenAI,
+ *   Anthropic, an OpenAI-compatible URL, or a local Ollama / LM Studio)
+ *   using the user's API key stored in chrome.storage.sync
  * - Job data is stored entirely in chrome.storage (sync + local fallback)
  * - No localhost proxy, no Next.js backend needed
  */
 
-import type { JobData } from '@job-bodyguard/types';
+import {
+    AI_PROVIDER_LABELS, AnalysisResultSchema, DEFAULT_AI_PROVIDER_SETTINGS, EMPTY_ANALYSIS_RESULT, DEFAULT_COMPANY_LISTS, DEFAULT_COMPENSATION_PREFERENCES, DEFAULT_TOXICITY_WEIGHTS,
+    KEYED_AI_PROVIDERS, buildRepairPrompt, checkAiResponse, formatToxicityFactor, isJobPageUrl, resolveAiProviderId,
+    resolveAiProviderSettings, salvageAiResponse,
+} from '@job-bodyguard/types';
+import type { AiProviderId, AiProviderSettings, AnalysisResult, CompanyLists, CompensationPreferences, JobData, JobSource, ToxicityWeights } from '@job-bodyguard/types';
+import { companyListStatus, findDuplicateJob, mergeJobData, parsePartialJson } from '@job-bodyguard/parsers';
+import { RequestCancelledError, complete, testConnection } from './providers';
+import type { RequestOptions } from './providers';
+import { ANALYSIS_PORT } from '../shared/analysisStream';
+import type { AnalysisStreamMessage, AnalysisStreamRequest } from '../shared/analysisStream';
+import contentScript from '../content/index.tsx?script';
 
 // Message types for internal communication
 export type MessageType =
@@ -23,9 +35,11 @@ export type MessageType =
     | 'GET_CURRENT_JOB'
     | 'SAVE_TO_DASHBOARD'
     | 'GET_SAVED_JOBS'
+    | 'FIND_SAVED_DUPLICATE'
     | 'DELETE_JOB'
     | 'GET_SETTINGS'
-    | 'SAVE_SETTINGS';
+    | 'SAVE_SETTINGS'
+    | 'TEST_AI_CONNECTION';
 
 export interface ExtensionMessage<T = unknown> {
     type: MessageType;
@@ -38,14 +52,28 @@ export interface SavedJob extends JobData {
     savedAt: string;
     status: 'saved' | 'applied' | 'interview' | 'rejected' | 'offer';
     notes?: string;
+    /** Every listing of this job, oldest first; absent on jobs saved from one board */
+    sources?: JobSource[];
+}
+
+export interface SaveJobResult {
+    job: SavedJob;
+    /** The earlier saved job this listing was merged into, before the merge */
+    mergedInto: SavedJob | null;
+    /** Set when the employer is on the blocked list; the job is saved all the same */
+    warning: string | null;
 }
 
 export interface ExtensionSettings {
     apiKey: string;
-    apiProvider: 'openai' | 'anthropic' | 'custom';
-    customApiUrl: string;
+    apiProvider: AiProviderId;
+    /** Model, sampling and timeout options for each provider */
+    aiProviders: AiProviderSettings;
     customPrompt: string;
     resumeText: string;
+    compensation: CompensationPreferences;
+    toxicityWeights: ToxicityWeights;
+    companyLists: CompanyLists;
 }
 
 // Store current job data in memory
@@ -97,8 +125,8 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
             console.log('[Background] SAVE_TO_DASHBOARD received');
             handleSaveJob(message.payload as JobData)
                 .then((result) => {
-                    console.log('[Background] Job saved successfully:', result.title);
-                    sendResponse({ success: true, data: result });
+                    console.log('[Background] Job saved successfully:', result.job.title);
+                    sendResponse({ success: true, data: result.job, mergedInto: result.mergedInto, warning: result.warning });
                 })
                 .catch((error: Error) => {
                     console.error('[Background] Failed to save job:', error);
@@ -112,6 +140,12 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
                 .catch((error: Error) => sendResponse({ success: false, error: error.message }));
             return true;
 
+        case 'FIND_SAVED_DUPLICATE':
+            findSavedDuplicate(message.payload as JobData)
+                .then((job) => sendResponse({ success: true, data: job }))
+                .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+            return true;
+
         case 'DELETE_JOB':
             handleDeleteJob(message.payload as string)
                 .then(() => sendResponse({ success: true }))
@@ -120,7 +154,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
 
         case 'GET_SETTINGS':
             chrome.storage.sync.get('settings', (result) => {
-                sendResponse({ success: true, data: result.settings || getDefaultSettings() });
+                sendResponse({ success: true, data: resolveSettings(result.settings) });
             });
             return true;
 
@@ -130,6 +164,14 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
             });
             return true;
 
+        case 'TEST_AI_CONNECTION': {
+            // Tests the unsaved settings from the form, not the stored ones
+            const settings = resolveSettings(message.payload as Partial<ExtensionSettings>);
+            testConnection(settings.apiProvider, settings.apiKey, settings.aiProviders[settings.apiProvider])
+                .then((result) => sendResponse({ success: true, data: result }));
+            return true;
+        }
+
         case 'REQUEST_ANALYSIS':
             // Direct AI call — no proxy server needed
             handleAnalysisRequest(message.payload as JobData)
@@ -144,43 +186,123 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
     return true;
 });
 
+// Side panel analyses stream over a port (shared/analysisStream.ts); the
+// panel disconnecting cancels the request
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== ANALYSIS_PORT) return;
+    const controller = new AbortController();
+    port.onDisconnect.addListener(() => controller.abort());
+
+    const post = (message: AnalysisStreamMessage) => {
+        if (!controller.signal.aborted) port.postMessage(message);
+    };
+
+    port.onMessage.addListener((message: AnalysisStreamRequest) => {
+        if (message.type !== 'start') return;
+        handleAnalysisRequest(message.jobData, {
+            signal: controller.signal,
+            onPartial: (partial) => post({ type: 'partial', partial }),
+        })
+            .then((result) => post({ type: 'done', result }))
+            .catch((error: Error) => {
+                if (!(error instanceof RequestCancelledError)) post({ type: 'error', error: error.message });
+            });
+    });
+});
+
 // ─── Settings ───────────────────────────────────────────────
 
 function getDefaultSettings(): ExtensionSettings {
     return {
         apiKey: '',
         apiProvider: 'openai',
-        customApiUrl: '',
+        aiProviders: DEFAULT_AI_PROVIDER_SETTINGS,
         customPrompt: '',
         resumeText: '',
+        compensation: DEFAULT_COMPENSATION_PREFERENCES,
+        toxicityWeights: DEFAULT_TOXICITY_WEIGHTS,
+        companyLists: DEFAULT_COMPANY_LISTS,
+    };
+}
+
+/**
+ * Stored settings over the defaults. Settings saved before the provider
+ * layer have `apiProvider: 'custom'` and a single `customApiUrl`.
+ */
+function resolveSettings(stored: (Partial<ExtensionSettings> & { customApiUrl?: string }) | undefined): ExtensionSettings {
+    return {
+        ...getDefaultSettings(),
+        ...stored,
+        apiProvider: resolveAiProviderId(stored?.apiProvider),
+        aiProviders: resolveAiProviderSettings(stored?.aiProviders, stored?.customApiUrl),
     };
 }
 
 async function getSettings(): Promise<ExtensionSettings> {
     const result = await chrome.storage.sync.get('settings');
-    return result.settings || getDefaultSettings();
+    return resolveSettings(result.settings);
 }
 
 // ─── Job Storage ─────────────────────────────────────────────
 
-async function handleSaveJob(jobData: JobData): Promise<SavedJob> {
-    const jobs = await handleGetSavedJobs();
+function jobSources(job: SavedJob): JobSource[] {
+    return job.sources ?? [{ platform: job.platform, url: job.url, savedAt: job.savedAt }];
+}
 
-    // Check if job already exists (by URL)
-    const existingIndex = jobData.url
-        ? jobs.findIndex((j: SavedJob) => j.url === jobData.url)
-        : -1;
+/**
+ * The saved job this listing belongs to: the same URL, or the same role
+ * saved from another board
+ */
+function matchSavedJob(jobData: JobData, jobs: SavedJob[]): { index: number; sameListing: boolean } | null {
+    if (jobData.url) {
+        const index = jobs.findIndex((j) => jobSources(j).some((source) => source.url === jobData.url));
+        if (index >= 0) return { index, sameListing: true };
+    }
+    const duplicate = findDuplicateJob(jobData, jobs);
+    return duplicate ? { index: jobs.indexOf(duplicate.job), sameListing: false } : null;
+}
 
-    const newJob: SavedJob = {
-        ...jobData,
-        id: existingIndex >= 0 ? jobs[existingIndex].id : crypto.randomUUID(),
-        savedAt: new Date().toISOString(),
-        status: existingIndex >= 0 ? jobs[existingIndex].status : 'saved',
-    };
+async function findSavedDuplicate(jobData: JobData): Promise<SavedJob | null> {
+    const jobs = await handleGetSavedJobs();
+    const match = matchSavedJob(jobData, jobs);
+    return match ? jobs[match.index] : null;
+}
+
+async function handleSaveJob(jobData: JobData): Promise<SaveJobResult> {
+    const jobs = await handleGetSavedJobs();
+    const now = new Date().toISOString();
 
-    if (existingIndex >= 0) {
-        jobs[existingIndex] = newJob;
+    const settings = await getSettings();
+    const blocked = companyListStatus(jobData.company, { ...DEFAULT_COMPANY_LISTS, ...settings.companyLists }) === 'blocked';
+    const warning = blocked ? `${jobData.company} is on your blocked companies list` : null;
+    if (warning) console.warn('[Background]', warning);
+
+    // Re-saving a listing refreshes its data; another board's listing of a
+    // saved job is merged into it as an extra source
+    const match = matchSavedJob(jobData, jobs);
+    const existing = match ? jobs[match.index] : null;
+
+    let newJob: SavedJob;
+    if (existing && match) {
+        const sources = jobSources(existing);
+        const merged = existing.url === jobData.url
+            ? mergeJobData({ ...existing, ...jobData }, existing, { refresh: true })
+            : mergeJobData(existing, jobData);
+        newJob = {
+            ...merged,
+            savedAt: now,
+            sources: sources.some((source) => source.url === jobData.url)
+                ? sources
+                : [...sources, { platform: jobData.platform, url: jobData.url, savedAt: now }],
+        };
+        jobs[match.index] = newJob;
     } else {
+        newJob = {
+            ...jobData,
+            id: crypto.randomUUID(),
+            savedAt: now,
+            status: 'saved',
+        };
         jobs.unshift(newJob);
     }
 
@@ -190,7 +312,7 @@ async function handleSaveJob(jobData: JobData): Promise<SavedJob> {
     await saveJobsToStorage(trimmed);
 
     console.log('[Background] Job saved:', newJob.title, '| Total:', trimmed.length);
-    return newJob;
+    return { job: newJob, mergedInto: match && !match.sameListing ? existing : null, warning };
 }
 
 async function handleGetSavedJobs(): Promise<SavedJob[]> {
@@ -232,26 +354,42 @@ const ANALYSIS_SYSTEM_PROMPT = `You are "Job Decoder" — a sarcastic but insigh
 Analyze job postings and identify red flags, green flags, and provide honest feedback.
 Be witty but genuinely helpful. Always respond with valid JSON matching the exact schema requested.`;
 
-async function handleAnalysisRequest(jobData: JobData): Promise<unknown> {
+interface AnalysisProgress {
+    signal: AbortSignal;
+    /** The fields of the reply that are readable so far */
+    onPartial: (partial: Partial<AnalysisResult>) => void;
+}
+
+async function handleAnalysisRequest(jobData: JobData, progress?: AnalysisProgress): Promise<AnalysisResult> {
     const settings = await getSettings();
 
-    if (!settings.apiKey) {
-        throw new Error('No API key configured. Please go to Settings to add your OpenAI/Anthropic API key.');
+    if (!settings.apiKey && KEYED_AI_PROVIDERS.includes(settings.apiProvider)) {
+        throw new Error(`No API key configured. Please go to Settings to add your ${AI_PROVIDER_LABELS[settings.apiProvider]} API key.`);
     }
 
     const resumeSection = settings.resumeText
         ? `\n\n## MY RESUME\n${settings.resumeText}`
         : '';
 
+    const reputationSection = jobData.employerRating != null
+        ? `Employer rating: ${jobData.employerRating}/5${jobData.employerReviewCount != null ? ` (${jobData.employerReviewCount} employee reviews)` : ''}\n`
+        : '';
+
+    const baselineSection = jobData.localToxicity
+        ? `\n## BASELINE TOXICITY\nA rule-based check scored this posting ${jobData.localToxicity.score}/100:\n` +
+          (jobData.localToxicity.factors.map((factor) => `- ${formatToxicityFactor(factor)}`).join('\n') || '- Nothing notable') +
+          `\nStart from this score. If your toxicityScore differs from it by more than 10 points, say why in verdictText.\n`
+        : '';
+
     const userPrompt = `## JOB POSTING
 
 Title: ${jobData.title}
 Company: ${jobData.company}
 Location: ${jobData.location || 'Not specified'}
-
+${reputationSection}
 Description:
 ${jobData.description.substring(0, 4000)}
-
+${baselineSection}
 ${resumeSection}
 
 ## YOUR TASK
@@ -273,7 +411,7 @@ Analyze this job posting. Return a JSON object with:
 }`;
 
     try {
-        const result = await callAI(settings, ANALYSIS_SYSTEM_PROMPT, userPrompt);
+        const result = await callAI(settings, ANALYSIS_SYSTEM_PROMPT, userPrompt, progress);
         return result;
     } catch (error) {
         console.error('[Background] AI call failed:', error);
@@ -282,134 +420,133 @@ Analyze this job posting. Return a JSON object with:
     }
 }
 
-/**
- * Resolve a full /chat/completions URL from a base URL.
- * Handles cases where user pastes just https://openrouter.ai/api/v1 (without the path).
- */
-function resolveApiUrl(base: string): string {
-    const trimmed = base.replace(/\/+$/, '');
-    if (trimmed.endsWith('/chat/completions')) return trimmed;
-    return `${trimmed}/chat/completions`;
+const PARTIAL_INTERVAL_MS = 150;
+
+// Fields that haven't arrived yet are left out of a partial analysis, not defaulted
+const NO_DEFAULTS: Partial<AnalysisResult> = {};
+
+/** The fields of a reply still streaming in that already validate */
+function partialAnalysis(text: string): Partial<AnalysisResult> {
+    const { incompleteFields: _, ...fields } = salvageAiResponse(parsePartialJson(text), AnalysisResultSchema, NO_DEFAULTS);
+    return fields;
 }
 
 /**
- * Parse an API response, detecting HTML error pages before attempting JSON.parse.
- * This gives clear error messages instead of "Unexpected token '<'".
+ * Ask the provider and validate the reply. A reply that doesn't match the
+ * schema gets one repair attempt with the validation errors sent back;
+ * if that fails too, whatever validates is kept and the rest is listed in
+ * `incompleteFields`.
  */
-async function parseApiResponse(response: Response): Promise<unknown> {
-    const text = await response.text();
-
-    // HTML response = wrong URL or server error page
-    if (text.trimStart().startsWith('<')) {
-        throw new Error(
-            `API returned an HTML page (HTTP ${response.status}). ` +
-            `Your Custom API URL may be wrong — try adding /chat/completions ` +
-            `(e.g. https://openrouter.ai/api/v1/chat/completions).`
-        );
-    }
+async function callAI(
+    settings: ExtensionSettings,
+    systemPrompt: string,
+    userPrompt: string,
+    progress?: AnalysisProgress,
+): Promise<AnalysisResult> {
+    const provider = settings.apiProvider;
+    const ask = (prompt: string, stream?: RequestOptions) => complete(
+        provider,
+        settings.apiKey,
+        settings.aiProviders[provider],
+        { system: settings.customPrompt || systemPrompt, prompt },
+        stream,
+    );
+
+    // Re-reading the reply on every token is wasted work; a few times a second is enough
+    let lastPartial = 0;
+    const stream: RequestOptions | undefined = progress && {
+        signal: progress.signal,
+        onProgress: (text: string) => {
+            if (Date.now() - lastPartial < PARTIAL_INTERVAL_MS) return;
+            lastPartial = Date.now();
+            progress.onPartial(partialAnalysis(text));
+        },
+    };
 
-    let parsed: Record<string, unknown>;
+    const reply = await ask(userPrompt, stream);
+    let check = checkAiResponse(reply, AnalysisResultSchema);
+    if (check.ok) return check.data;
+
+    console.warn('[Background] AI reply failed validation, asking for a repair:', check.errors);
+    const firstValue = check.value;
     try {
-        parsed = JSON.parse(text);
-    } catch {
-        throw new Error(`API returned invalid JSON (HTTP ${response.status}): ${text.substring(0, 200)}`);
+        const repaired = await ask(buildRepairPrompt(userPrompt, reply, check.errors), { signal: progress?.signal });
+        check = checkAiResponse(repaired, AnalysisResultSchema);
+        if (check.ok) return check.data;
+    } catch (error) {
+        if (error instanceof RequestCancelledError) throw error;
+        console.warn('[Background] Repair request failed:', error);
     }
 
-    if (!response.ok) {
-        const errMsg =
-            (parsed?.error as Record<string, unknown>)?.message as string ||
-            parsed?.message as string ||
-            text.substring(0, 300);
-        throw new Error(`API error ${response.status}: ${errMsg}`);
+    // Salvage from the repaired reply when there is one, else the first
+    const salvageable = !check.ok && check.value !== null ? check.value : firstValue;
+    const partial = salvageAiResponse(salvageable, AnalysisResultSchema, EMPTY_ANALYSIS_RESULT);
+    if (partial.incompleteFields.length === Object.keys(AnalysisResultSchema.shape).length) {
+        throw new Error(`${AI_PROVIDER_LABELS[provider]} did not return a readable analysis. Try again or pick another model.`);
     }
-
-    return parsed;
+    return partial;
 }
 
-async function callAI(
-    settings: ExtensionSettings,
-    systemPrompt: string,
-    userPrompt: string
-): Promise<unknown> {
-    const systemToUse = settings.customPrompt || systemPrompt;
-
-    // ── Anthropic ────────────────────────────────────────────
-    if (settings.apiProvider === 'anthropic') {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': settings.apiKey,
-                'anthropic-version': '2023-06-01',
-                'anthropic-dangerous-direct-browser-access': 'true',
-            },
-            body: JSON.stringify({
-                model: 'claude-haiku-20240307',
-                max_tokens: 2000,
-                system: systemToUse,
-                messages: [{ role: 'user', content: userPrompt }],
-            }),
-        });
-
-        const data = await parseApiResponse(response) as Record<string, unknown>;
-        const content = (data.content as Array<{ text: string }>)[0]?.text || '{}';
-        return JSON.parse(content);
-    }
+// ─── Opt-in Career Sites ──────────────────────────────────────
+// Any https origin the user grants from Settings gets the content script,
+// where the generic schema.org JobPosting parser takes over.
 
-    // ── OpenAI / OpenRouter / Custom (OpenAI-compatible) ────
-    let url: string;
-    const extraHeaders: Record<string, string> = {};
+const CAREER_SITES_SCRIPT_ID = 'jbg-career-sites';
 
-    if (settings.apiProvider === 'custom' && settings.customApiUrl) {
-        url = resolveApiUrl(settings.customApiUrl);
+/** Optional host permissions granted by the user (excludes the built-in job boards) */
+async function getCareerSiteOrigins(): Promise<string[]> {
+    const { origins = [] } = await chrome.permissions.getAll();
+    const builtIn = new Set(chrome.runtime.getManifest().host_permissions ?? []);
+    return origins.filter((origin) => !builtIn.has(origin));
+}
 
-        // OpenRouter requires these headers to accept requests
-        if (url.includes('openrouter.ai')) {
-            extraHeaders['HTTP-Referer'] = 'https://job-bodyguard.app';
-            extraHeaders['X-Title'] = 'Job Bodyguard';
-        }
-    } else {
-        url = 'https://api.openai.com/v1/chat/completions';
+async function syncCareerSiteScripts(): Promise<void> {
+    const origins = await getCareerSiteOrigins();
+
+    const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [CAREER_SITES_SCRIPT_ID] });
+    if (registered.length > 0) {
+        await chrome.scripting.unregisterContentScripts({ ids: [CAREER_SITES_SCRIPT_ID] });
     }
+    if (origins.length === 0) return;
+
+    await chrome.scripting.registerContentScripts([{
+        id: CAREER_SITES_SCRIPT_ID,
+        matches: origins,
+        js: [contentScript],
+        runAt: 'document_idle',
+        persistAcrossSessions: true,
+    }]);
+    console.log('[Background] Career sites registered:', origins);
+}
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${settings.apiKey}`,
-            ...extraHeaders,
-        },
-        body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-                { role: 'system', content: systemToUse },
-                { role: 'user', content: userPrompt },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.7,
-            max_tokens: 2000,
-        }),
-    });
+chrome.permissions.onAdded.addListener(() => {
+    syncCareerSiteScripts().catch(err => console.error('[Background] Career site sync failed:', err));
+});
+chrome.permissions.onRemoved.addListener(() => {
+    syncCareerSiteScripts().catch(err => console.error('[Background] Career site sync failed:', err));
+});
+chrome.runtime.onInstalled.addListener(() => {
+    syncCareerSiteScripts().catch(err => console.error('[Background] Career site sync failed:', err));
+});
 
-    const data = await parseApiResponse(response) as Record<string, unknown>;
-    const choices = data.choices as Array<{ message: { content: string } }>;
-    const content = choices[0]?.message?.content || '{}';
-    return JSON.parse(content);
+async function isCareerSiteUrl(url: string): Promise<boolean> {
+    const origins = await getCareerSiteOrigins();
+    return origins.some((pattern) => {
+        try {
+            return new URL(url).host === new URL(pattern.replace('/*', '/')).host;
+        } catch {
+            return false;
+        }
+    });
 }
 
 // ─── Extension Setup ──────────────────────────────────────────
 
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: false });
 
-chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
     if (changeInfo.status === 'complete' && tab.url) {
-        const isJobPage =
-            tab.url.includes('linkedin.com/jobs') ||
-            tab.url.includes('indeed.com/viewjob') ||
-            tab.url.includes('indeed.com/rc/clk') ||
-            tab.url.includes('indeed.com/jobs') ||
-            /indeed\.com\/.*[?&](vjk|jk)=/.test(tab.url) ||
-            tab.url.includes('hh.ru/vacancy');
+        const isJobPage = isJobPageUrl(tab.url) || await isCareerSiteUrl(tab.url);
 
         if (isJobPage) {
             chrome.sidePanel.setOptions({
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_AI_PROVIDER_SETTINGS } from '@job-bodyguard/types';
+import type { AiProviderId, AiProviderOptions } from '@job-bodyguard/types';
+import { RequestCancelledError, complete, testConnection } from './providers';
+
+const REQUEST = { system: 'You are a recruiter.', prompt: 'Analyze this job.' };
+
+function options(id: AiProviderId, overrides: Partial<AiProviderOptions> = {}): AiProviderOptions {
+    return { ...DEFAULT_AI_PROVIDER_SETTINGS[id], ...overrides };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** A server-sent event stream cut into `chunkSize`-byte reads, so lines and characters are split across them */
+function eventStream(events: string[], chunkSize = 7): Response {
+    const bytes = new TextEncoder().encode(events.map((event) => `${event}\n\n`).join(''));
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < bytes.length; i += chunkSize) controller.enqueue(bytes.slice(i, i + chunkSize));
+            controller.close();
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream; charset=utf-8' } });
+}
+
+function openAiDelta(content: string): string {
+    return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+}
+
+function mockFetch(response: () => Response | Promise<Response>) {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => response());
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+/** URL, headers and parsed body of the one request sent */
+function sentRequest(fetchMock: ReturnType<typeof mockFetch>) {
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    return { url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+}
+
+describe('providers', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('should send OpenAI a /chat/completions request asking for JSON', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ choices: [{ message: { content: '{"roast":"ok"}' } }] }));
+
+        const reply = await complete('openai', 'sk-test', options('openai'), REQUEST);
+
+        const { url, headers, body } = sentRequest(fetchMock);
+        expect(reply).toBe('{"roast":"ok"}');
+        expect(url).toBe('https://api.openai.com/v1/chat/completions');
+        expect(headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer sk-test' });
+        expect(body).toEqual({
+            model: 'gpt-4o-mini',
+            messages: [
+                { role: 'system', content: REQUEST.system },
+                { role: 'user', content: REQUEST.prompt },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.7,
+            max_tokens: 2000,
+        });
+    });
+
+    it('should add the OpenRouter headers and complete a bare base URL', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ choices: [{ message: { content: '{}' } }] }));
+
+        await complete('openai-compatible', 'or-key', options('openai-compatible', {
+            baseUrl: 'https://openrouter.ai/api/v1/',
+            model: 'meta-llama/llama-3.1-70b-instruct',
+        }), REQUEST);
+
+        const { url, headers } = sentRequest(fetchMock);
+        expect(url).toBe('https://openrouter.ai/api/v1/chat/completions');
+        expect(headers).toMatchObject({ 'HTTP-Referer': 'https://job-bodyguard.app', 'X-Title': 'Job Bodyguard' });
+    });
+
+    it('should leave response_format, the model and the key out for LM Studio', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ choices: [{ message: { content: '{}' } }] }));
+
+        await complete('lmstudio', '', options('lmstudio'), REQUEST);
+
+        const { url, headers, body } = sentRequest(fetchMock);
+        expect(url).toBe('http://localhost:1234/v1/chat/completions');
+        expect(headers).toEqual({ 'Content-Type': 'application/json' });
+        expect(body).not.toHaveProperty('response_format');
+        expect(body).not.toHaveProperty('model');
+    });
+
+    it('should send Anthropic a /messages request with the system prompt apart', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ content: [{ type: 'text', text: '{"roast":"ok"}' }] }));
+
+        const reply = await complete('anthropic', 'sk-ant', options('anthropic', { temperature: 1.4 }), REQUEST);
+
+        const { url, headers, body } = sentRequest(fetchMock);
+        expect(reply).toBe('{"roast":"ok"}');
+        expect(url).toBe('https://api.anthropic.com/v1/messages');
+        expect(headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+        expect(body).toEqual({
+            model: 'claude-3-5-haiku-latest',
+            max_tokens: 2000,
+            // Anthropic takes 0-1
+            temperature: 1,
+            system: REQUEST.system,
+            messages: [{ role: 'user', content: REQUEST.prompt }],
+        });
+    });
+
+    it('should send Ollama a native /api/chat request without streaming', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ message: { role: 'assistant', content: '{"roast":"ok"}' } }));
+
+        const reply = await complete('ollama', '', options('ollama'), REQUEST);
+
+        const { url, body } = sentRequest(fetchMock);
+        expect(reply).toBe('{"roast":"ok"}');
+        expect(url).toBe('http://localhost:11434/api/chat');
+        expect(body).toMatchObject({
+            model: 'llama3.1',
+            stream: false,
+            format: 'json',
+            options: { temperature: 0.7, num_predict: 2000 },
+        });
+    });
+
+    it('should report the API error message', async () => {
+        mockFetch(() => jsonResponse({ error: { message: 'Incorrect API key provided' } }, 401));
+
+        await expect(complete('openai', 'sk-bad', options('openai'), REQUEST))
+            .rejects.toThrow('API error 401: Incorrect API key provided');
+    });
+
+    it('should say how long it waited when the provider times out', async () => {
+        vi.useFakeTimers();
+        vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+        })));
+
+        const reply = complete('ollama', '', options('ollama'), REQUEST);
+        const assertion = expect(reply).rejects.toThrow('Ollama did not answer within 180s');
+        await vi.advanceTimersByTimeAsync(180_000);
+        await assertion;
+    });
+
+    it('should ask whether a local server is running when it cannot be reached', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+        await expect(complete('lmstudio', '', options('lmstudio'), REQUEST))
+            .rejects.toThrow('Could not reach LM Studio at http://localhost:1234/v1. Is it running?');
+        await expect(complete('openai', 'sk-test', options('openai'), REQUEST))
+            .rejects.toThrow('fetch failed');
+    });
+
+    it('should need a base URL', async () => {
+        await expect(complete('openai-compatible', 'key', options('openai-compatible'), REQUEST))
+            .rejects.toThrow('No API base URL configured for OpenAI-compatible');
+    });
+});
+
+describe('testConnection', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should send a tiny request and report the model', async () => {
+        const fetchMock = mockFetch(() => jsonResponse({ choices: [{ message: { content: '{"ok": true}' } }] }));
+
+        const result = await testConnection('openai', 'sk-test', options('openai'));
+
+        expect(result).toMatchObject({ ok: true, model: 'gpt-4o-mini', error: null });
+        expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(sentRequest(fetchMock).body.max_tokens).toBe(20);
+    });
+
+    it('should report the model as picked by the server when none is set', async () => {
+        mockFetch(() => jsonResponse({ choices: [{ message: { content: '{"ok": true}' } }] }));
+        expect(await testConnection('lmstudio', '', options('lmstudio'))).toMatchObject({ ok: true, model: null });
+    });
+
+    it('should fail on errors and empty replies instead of throwing', async () => {
+        mockFetch(() => jsonResponse({ choices: [{ message: { content: '  ' } }] }));
+        expect(await testConnection('openai', 'sk-test', options('openai'))).toMatchObject({
+            ok: false,
+            error: 'The provider answered with an empty reply',
+        });
+
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+        expect(await testConnection('ollama', '', options('ollama'))).toMatchObject({
+            ok: false,
+            error: 'Could not reach Ollama at http://localhost:11434. Is it running?',
+        });
+    });
+});
+
+describe('streaming', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should put together an OpenAI-style stream read in small pieces', async () => {
+        const fetchMock = mockFetch(() => eventStream([
+            ': keep-alive',
+            openAiDelta('{"roast": "Café'),
+            openAiDelta(' culture, '),
+            'data: {"choices": [{"delta": {}}]}',
+            openAiDelta('long hours"}'),
+            'data: [DONE]',
+        ]));
+        const progress: string[] = [];
+
+        const reply = await complete('openai', 'sk-test', options('openai'), REQUEST, { onProgress: (text) => progress.push(text) });
+
+        expect(sentRequest(fetchMock).body.stream).toBe(true);
+        expect(reply).toBe('{"roast": "Café culture, long hours"}');
+        expect(progress).toEqual(['{"roast": "Café', '{"roast": "Café culture, ', reply]);
+    });
+
+    it('should skip stream lines that are not JSON', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        mockFetch(() => eventStream([openAiDelta('{"ok":'), 'data: <html>proxy notice</html>', openAiDelta(' true}')]));
+
+        await expect(complete('openai', 'sk-test', options('openai'), REQUEST, { onProgress: () => undefined }))
+            .resolves.toBe('{"ok": true}');
+    });
+
+    it('should report an error event in an OpenAI-style stream', async () => {
+        mockFetch(() => eventStream([
+            openAiDelta('{"roast": "'),
+            `data: ${JSON.stringify({ error: { message: 'Rate limit reached for gpt-4o-mini' } })}`,
+        ]));
+
+        await expect(complete('openai', 'sk-test', options('openai'), REQUEST, { onProgress: () => undefined }))
+            .rejects.toThrow('API error: Rate limit reached for gpt-4o-mini');
+    });
+
+    it('should read Anthropic text deltas and report its error events', async () => {
+        const anthropicEvent = (event: Record<string, unknown>) => `event: ${event.type}\ndata: ${JSON.stringify(event)}`;
+        mockFetch(() => eventStream([
+            anthropicEvent({ type: 'message_start', message: { id: 'msg_1' } }),
+            anthropicEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '{"roast": ' } }),
+            anthropicEvent({ type: 'ping' }),
+            anthropicEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '"ok"}' } }),
+            anthropicEvent({ type: 'message_stop' }),
+        ]));
+        await expect(complete('anthropic', 'sk-ant', options('anthropic'), REQUEST, { onProgress: () => undefined }))
+            .resolves.toBe('{"roast": "ok"}');
+
+        mockFetch(() => eventStream([anthropicEvent({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })]));
+        await expect(complete('anthropic', 'sk-ant', options('anthropic'), REQUEST, { onProgress: () => undefined }))
+            .rejects.toThrow('API error: Overloaded');
+    });
+
+    it('should take the whole reply from a server that ignores `stream`', async () => {
+        mockFetch(() => jsonResponse({ choices: [{ message: { content: '{"roast":"ok"}' } }] }));
+        const onProgress = vi.fn();
+
+        await expect(complete('lmstudio', '', options('lmstudio'), REQUEST, { onProgress })).resolves.toBe('{"roast":"ok"}');
+        expect(onProgress).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the caller cancels', async () => {
+        vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+        })));
+        const controller = new AbortController();
+
+        const reply = complete('openai', 'sk-test', options('openai'), REQUEST, { signal: controller.signal });
+        controller.abort();
+
+        await expect(reply).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+});
@@ -0,0 +1,333 @@
+/**
+ * AI providers behind one interface: a system prompt and a user prompt in,
+ * the model's text out. OpenAI, OpenAI-compatible servers (OpenRouter,
+ * vLLM, ...) and LM Studio share the /chat/completions dialect; Anthropic
+ * and Ollama (native /api/chat) have their own. The /chat/completions and
+ * Anthropic providers can stream the reply as server-sent events.
+ */
+
+import { AI_PROVIDER_LABELS, LOCAL_AI_PROVIDERS } from '@job-bodyguard/types';
+import type { AiProviderId, AiProviderOptions } from '@job-bodyguard/types';
+
+export interface AiRequest {
+    system: string;
+    prompt: string;
+}
+
+/** Called with the reply so far, each time more of it arrives */
+export type ProgressCallback = (text: string) => void;
+
+export interface AiProvider {
+    id: AiProviderId;
+    /**
+     * The model's reply as text; rejects on HTTP, network and timeout
+     * errors. With `onProgress` the reply is streamed where the provider
+     * supports it.
+     */
+    complete(request: AiRequest, signal: AbortSignal, onProgress?: ProgressCallback): Promise<string>;
+}
+
+export interface ConnectionTestResult {
+    ok: boolean;
+    /** The configured model; null when the server picks the loaded one */
+    model: string | null;
+    latencyMs: number;
+    error: string | null;
+}
+
+/**
+ * Resolve a full /chat/completions URL from a base URL.
+ * Handles cases where user pastes just https://openrouter.ai/api/v1 (without the path).
+ */
+function resolveApiUrl(base: string, path = '/chat/completions'): string {
+    const trimmed = base.replace(/\/+$/, '');
+    if (trimmed.endsWith(path)) return trimmed;
+    return `${trimmed}${path}`;
+}
+
+/**
+ * Parse an API response, detecting HTML error pages before attempting JSON.parse.
+ * This gives clear error messages instead of "Unexpected token '<'".
+ */
+async function parseApiResponse(response: Response): Promise<Record<string, unknown>> {
+    const text = await response.text();
+
+    // HTML response = wrong URL or server error page
+    if (text.trimStart().startsWith('<')) {
+        throw new Error(
+            `API returned an HTML page (HTTP ${response.status}). ` +
+            `Your API base URL may be wrong — try adding /v1 ` +
+            `(e.g. https://openrouter.ai/api/v1).`
+        );
+    }
+
+    let parsed: Record<string, unknown>;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error(`API returned invalid JSON (HTTP ${response.status}): ${text.substring(0, 200)}`);
+    }
+
+    if (!response.ok) {
+        const error = parsed?.error;
+        const errMsg =
+            (typeof error === 'string' ? error : (error as Record<string, unknown>)?.message as string) ||
+            parsed?.message as string ||
+            text.substring(0, 300);
+        throw new Error(`API error ${response.status}: ${errMsg}`);
+    }
+
+    return parsed;
+}
+
+function isEventStream(response: Response): boolean {
+    return response.ok && (response.headers.get('content-type') ?? '').includes('text/event-stream');
+}
+
+/**
+ * Server-sent events: `onEvent` gets the JSON payload of every `data:`
+ * line. `[DONE]` and lines that aren't JSON (keep-alive comments, a proxy's
+ * own notices) are skipped; `onEvent` throwing stops the stream.
+ */
+async function readEvents(response: Response, onEvent: (event: Record<string, unknown>) => void): Promise<void> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = done ? '' : lines.pop()!;
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice(5).trim();
+                if (data === '[DONE]') continue;
+                let event: unknown;
+                try {
+                    event = JSON.parse(data);
+                } catch {
+                    console.warn('[Providers] Skipping a stream event that is not JSON:', data.substring(0, 200));
+                    continue;
+                }
+                if (event && typeof event === 'object') onEvent(event as Record<string, unknown>);
+            }
+            if (done) return;
+        }
+    } catch (error) {
+        await reader.cancel().catch(() => undefined);
+        throw error;
+    }
+}
+
+/** The message of an error event sent mid-stream: `{"error": {"message": ...}}` or `{"error": "..."}` */
+function streamError(event: Record<string, unknown>): string | null {
+    const error = event.error;
+    if (!error) return null;
+    if (typeof error === 'string') return error;
+    return ((error as Record<string, unknown>).message as string | undefined) ?? 'stream failed';
+}
+
+function openAiProvider(id: AiProviderId, apiKey: string, options: AiProviderOptions): AiProvider {
+    const url = resolveApiUrl(options.baseUrl);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    // OpenRouter requires these headers to accept requests
+    if (url.includes('openrouter.ai')) {
+        headers['HTTP-Referer'] = 'https://job-bodyguard.app';
+        headers['X-Title'] = 'Job Bodyguard';
+    }
+
+    return {
+        id,
+        async complete({ system, prompt }, signal, onProgress) {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers,
+                signal,
+                body: JSON.stringify({
+                    // LM Studio answers with the loaded model when none is named
+                    ...(options.model ? { model: options.model } : {}),
+                    messages: [
+                        { role: 'system', content: system },
+                        { role: 'user', content: prompt },
+                    ],
+                    // LM Studio only takes json_schema formats; the prompt asks for JSON anyway
+                    ...(id === 'lmstudio' ? {} : { response_format: { type: 'json_object' } }),
+                    temperature: options.temperature,
+                    max_tokens: options.maxTokens,
+                    ...(onProgress ? { stream: true } : {}),
+                }),
+            });
+
+            // Servers that ignore `stream` answer with the whole reply instead
+            if (onProgress && isEventStream(response)) {
+                let text = '';
+                await readEvents(response, (event) => {
+                    const error = streamError(event);
+                    if (error) throw new Error(`API error: ${error}`);
+                    const choices = event.choices as Array<{ delta?: { content?: string } }> | undefined;
+                    const delta = choices?.[0]?.delta?.content;
+                    if (!delta) return;
+                    text += delta;
+                    onProgress(text);
+                });
+                return text;
+            }
+
+            const data = await parseApiResponse(response);
+            const choices = data.choices as Array<{ message: { content: string } }> | undefined;
+            return choices?.[0]?.message?.content || '';
+        },
+    };
+}
+
+function anthropicProvider(apiKey: string, options: AiProviderOptions): AiProvider {
+    return {
+        id: 'anthropic',
+        async complete({ system, prompt }, signal, onProgress) {
+            const response = await fetch(resolveApiUrl(options.baseUrl, '/messages'), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': apiKey,
+                    'anthropic-version': '2023-06-01',
+                    'anthropic-dangerous-direct-browser-access': 'true',
+                },
+                signal,
+                body: JSON.stringify({
+                    model: options.model,
+                    max_tokens: options.maxTokens,
+                    temperature: Math.min(options.temperature, 1),
+                    system,
+                    messages: [{ role: 'user', content: prompt }],
+                    ...(onProgress ? { stream: true } : {}),
+                }),
+            });
+
+            if (onProgress && isEventStream(response)) {
+                let text = '';
+                await readEvents(response, (event) => {
+                    if (event.type === 'error') throw new Error(`API error: ${streamError(event) ?? 'stream failed'}`);
+                    const delta = event.delta as { type?: string; text?: string } | undefined;
+                    if (event.type !== 'content_block_delta' || delta?.type !== 'text_delta' || !delta.text) return;
+                    text += delta.text;
+                    onProgress(text);
+                });
+                return text;
+            }
+
+            const data = await parseApiResponse(response);
+            const content = data.content as Array<{ type: string; text?: string }> | undefined;
+            return content?.find((block) => block.type === 'text')?.text || '';
+        },
+    };
+}
+
+function ollamaProvider(options: AiProviderOptions): AiProvider {
+    return {
+        id: 'ollama',
+        async complete({ system, prompt }, signal) {
+            const response = await fetch(resolveApiUrl(options.baseUrl, '/api/chat'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                signal,
+                body: JSON.stringify({
+                    model: options.model,
+                    messages: [
+                        { role: 'system', content: system },
+                        { role: 'user', content: prompt },
+                    ],
+                    stream: false,
+                    format: 'json',
+                    options: { temperature: options.temperature, num_predict: options.maxTokens },
+                }),
+            });
+
+            const data = await parseApiResponse(response);
+            return (data.message as { content?: string } | undefined)?.content || '';
+        },
+    };
+}
+
+export function createProvider(id: AiProviderId, apiKey: string, options: AiProviderOptions): AiProvider {
+    switch (id) {
+        case 'anthropic':
+            return anthropicProvider(apiKey, options);
+        case 'ollama':
+            return ollamaProvider(options);
+        default:
+            return openAiProvider(id, apiKey, options);
+    }
+}
+
+export interface RequestOptions {
+    /** Stream the reply, reporting it as it arrives */
+    onProgress?: ProgressCallback;
+    /** Aborting it cancels the request */
+    signal?: AbortSignal;
+}
+
+export class RequestCancelledError extends Error {
+    constructor() {
+        super('Request cancelled');
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * One request with the provider's timeout. Timeouts and unreachable local
+ * servers get messages that say what to check. With `onProgress` the reply
+ * is reported as it arrives (Ollama reports nothing until it is done).
+ */
+export async function complete(
+    id: AiProviderId,
+    apiKey: string,
+    options: AiProviderOptions,
+    request: AiRequest,
+    requestOptions?: RequestOptions,
+): Promise<string> {
+    const label = AI_PROVIDER_LABELS[id];
+    if (!options.baseUrl) throw new Error(`No API base URL configured for ${label}. Set it in Settings → AI Provider.`);
+    if (requestOptions?.signal?.aborted) throw new RequestCancelledError();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    const cancel = () => controller.abort();
+    requestOptions?.signal?.addEventListener('abort', cancel);
+    try {
+        return await createProvider(id, apiKey, options).complete(request, controller.signal, requestOptions?.onProgress);
+    } catch (error) {
+        if (requestOptions?.signal?.aborted) throw new RequestCancelledError();
+        if (controller.signal.aborted) {
+            throw new Error(`${label} did not answer within ${Math.round(options.timeoutMs / 1000)}s`);
+        }
+        // fetch() only throws a TypeError when the server can't be reached at all
+        if (error instanceof TypeError && LOCAL_AI_PROVIDERS.includes(id)) {
+            throw new Error(`Could not reach ${label} at ${options.baseUrl}. Is it running?`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        requestOptions?.signal?.removeEventListener('abort', cancel);
+    }
+}
+
+/** A tiny request through the full path, for Settings → AI Provider → Test connection */
+export async function testConnection(
+    id: AiProviderId,
+    apiKey: string,
+    options: AiProviderOptions,
+): Promise<ConnectionTestResult> {
+    const started = Date.now();
+    try {
+        const reply = await complete(id, apiKey, { ...options, maxTokens: 20 }, {
+            system: 'You are a connection check. Always respond with valid JSON.',
+            prompt: 'Reply with {"ok": true}',
+        });
+        if (!reply.trim()) throw new Error('The provider answered with an empty reply');
+        return { ok: true, model: options.model || null, latencyMs: Date.now() - started, error: null };
+    } catch (error) {
+        return { ok: false, model: null, latencyMs: Date.now() - started, error: (error as Error).message };
+    }
+}
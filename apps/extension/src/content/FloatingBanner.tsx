@@ -1,15 +1,56 @@
 import React, { useState } from 'react';
-import type { JobData } from '@job-bodyguard/types';
-import { Briefcase, Search, Bookmark, CheckCircle, AlertTriangle, Clock, MapPin, DollarSign, Flag } from 'lucide-react';
+import {
+    EMPLOYMENT_TYPE_LABELS, GHOST_JOB_LABELS, SALARY_COMPARISON_LABELS, SENIORITY_LABELS, VISA_SPONSORSHIP_LABELS,
+    compareToTarget, formatAnnualSalary, formatToxicityFactor, normalizeSalary, toxicityLevel, formatWorkMode,
+} from '@job-bodyguard/types';
+import type { CompanyListStatus, CompensationPreferences, JobData, SalaryData } from '@job-bodyguard/types';
+import type { FlagKind } from '@job-bodyguard/parsers';
+import { Briefcase, Search, Bookmark, CheckCircle, AlertTriangle, Clock, MapPin, DollarSign, Flag, Star, Target, Ghost, ShieldAlert, Building2, Plane, Ban } from 'lucide-react';
 
 type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', RUB: '₽' };
+const RATE_SUFFIXES: Record<string, string> = { HOUR: '/hr', DAY: '/day', WEEK: '/wk' };
+
+/** Format a salary range, respecting the pay period */
+function formatSalary(salary: SalaryData): string | null {
+    const text = formatAmounts(salary);
+    return text && salary.taxBasis === 'NET' ? `${text} net` : text;
+}
+
+function formatAmounts({ min, max, currency, period }: SalaryData): string | null {
+    const sym = CURRENCY_SYMBOLS[currency] ?? currency ?? '';
+
+    if (period in RATE_SUFFIXES) {
+        const unit = RATE_SUFFIXES[period];
+        if (min && max) return `${sym}${min}–${sym}${max}${unit}`;
+        if (min) return `${sym}${min}+${unit}`;
+        if (max) return `Up to ${sym}${max}${unit}`;
+    } else if (period === 'MONTH') {
+        const fmt = (v: number) => v >= 1000 ? `${Math.round(v / 1000)}k` : String(v);
+        if (min && max) return `${sym}${fmt(min)}–${sym}${fmt(max)}/mo`;
+        if (min) return `${sym}${fmt(min)}+/mo`;
+        if (max) return `Up to ${sym}${fmt(max)}/mo`;
+    } else {
+        if (min && max) return `${sym}${Math.round(min / 1000)}k–${sym}${Math.round(max / 1000)}k`;
+        if (min) return `${sym}${Math.round(min / 1000)}k+`;
+        if (max) return `Up to ${sym}${Math.round(max / 1000)}k`;
+    }
+    return null;
+}
+
 interface FloatingBannerProps {
     jobData: JobData;
     onAnalyze: () => void;
     /** onSave receives a callback to report success/failure */
     onSave: (onResult: (ok: boolean) => void) => void;
     onClose: () => void;
+    /** Scroll to the next highlighted flag of that kind in the description */
+    onFlagClick?: (kind: FlagKind) => void;
+    /** User's target salary (Settings); enables the below / within / above badge */
+    compensation?: CompensationPreferences;
+    /** The employer's place on the user's blocked / favourite lists */
+    companyStatus?: CompanyListStatus | null;
 }
 
 export const FloatingBanner: React.FC<FloatingBannerProps> = ({
@@ -17,35 +58,36 @@ export const FloatingBanner: React.FC<FloatingBannerProps> = ({
     onAnalyze,
     onSave,
     onClose,
+    onFlagClick,
+    compensation,
+    companyStatus,
 }) => {
     const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
 
-    const { jobAge, hiddenSalary, visibleSalary, redFlags, greenFlags, salaryMismatch } = jobData;
-
-    const isOldPosting = jobAge !== null && jobAge > 30;
-
-    // Format hidden salary, respecting the pay period
-    const salaryText = (() => {
-        if (!hiddenSalary) return null;
-        const { min, max, currency, period } = hiddenSalary;
-        const sym = currency === 'USD' ? '$' : currency === 'EUR' ? '€' : currency ?? '';
-
-        if (period === 'HOUR') {
-            if (min && max) return `${sym}${min}–${sym}${max}/hr`;
-            if (min) return `${sym}${min}+/hr`;
-            if (max) return `Up to ${sym}${max}/hr`;
-        } else if (period === 'MONTH') {
-            const fmt = (v: number) => v >= 1000 ? `${Math.round(v / 1000)}k` : String(v);
-            if (min && max) return `${sym}${fmt(min)}–${sym}${fmt(max)}/mo`;
-            if (min) return `${sym}${fmt(min)}+/mo`;
-            if (max) return `Up to ${sym}${fmt(max)}/mo`;
-        } else {
-            if (min && max) return `${sym}${Math.round(min / 1000)}k–${sym}${Math.round(max / 1000)}k`;
-            if (min) return `${sym}${Math.round(min / 1000)}k+`;
-            if (max) return `Up to ${sym}${Math.round(max / 1000)}k`;
-        }
-        return null;
-    })();
+    const {
+        jobAge, datePosted, datePostedConfidence, hiddenSalary, visibleSalary, estimatedSalary, redFlags, greenFlags,
+        salaryMismatch, employerRating, employerReviewCount, ghostJob, localToxicity,
+        seniority, employmentType, workMode, visaSponsorship,
+    } = jobData;
+
+    // "Senior · Contract"; full-time is the usual case and left out
+    const kindText = [
+        seniority ? SENIORITY_LABELS[seniority] : null,
+        employmentType && employmentType !== 'full-time' ? EMPLOYMENT_TYPE_LABELS[employmentType] : null,
+    ].filter(Boolean).join(' · ');
+
+    // "30+ days ago" is only a lower bound, but already old enough to warn about
+    const isOldPosting = jobAge !== null && (jobAge > 30 || (datePostedConfidence === 'minimum' && jobAge >= 30));
+    const ageText = datePostedConfidence === 'minimum'
+        ? `${jobAge}+d ago`
+        : `${datePostedConfidence === 'approximate' ? '~' : ''}${jobAge}d ago`;
+
+    const salaryText = hiddenSalary ? formatSalary(hiddenSalary) : null;
+    // Board estimate (Glassdoor) only when the employer published nothing
+    const estimateText = !salaryText && !visibleSalary && estimatedSalary ? formatSalary(estimatedSalary) : null;
+
+    const comparison = compensation ? compareToTarget(hiddenSalary, compensation) : null;
+    const annual = compensation ? normalizeSalary(hiddenSalary, compensation) : null;
 
     const handleSave = () => {
         if (saveStatus !== 'idle') return;
@@ -63,9 +105,57 @@ export const FloatingBanner: React.FC<FloatingBannerProps> = ({
             <span className="banner__logo"><Briefcase size={22} /></span>
 
             <div className="banner__flags">
+                {companyStatus === 'blocked' && (
+                    <span className="badge badge--blocked" title="On your blocked companies list">
+                        <Ban size={12} /> Blocked company
+                    </span>
+                )}
+
+                {companyStatus === 'favourite' && (
+                    <span className="badge badge--rating" title="On your favourite companies list">
+                        <Star size={12} /> Favourite
+                    </span>
+                )}
+
+                {localToxicity && (
+                    <span
+                        className={`badge badge--tox-${toxicityLevel(localToxicity.score)}`}
+                        title={['Toxicity score (no AI)', ...localToxicity.factors.map(formatToxicityFactor)].join('\n')}
+                    >
+                        <ShieldAlert size={12} /> {localToxicity.score}/100
+                    </span>
+                )}
+
                 {jobAge !== null && (
-                    <span className={`badge ${isOldPosting ? 'badge--old' : 'badge--age'}`}>
-                        <Clock size={12} /> {jobAge}d ago
+                    <span
+                        className={`badge ${isOldPosting ? 'badge--old' : 'badge--age'}`}
+                        title={datePosted ? `Posted ${datePostedConfidence === 'exact' ? 'on' : 'around'} ${datePosted.slice(0, 10)}` : undefined}
+                    >
+                        <Clock size={12} /> {ageText}
+                    </span>
+                )}
+
+                {ghostJob && ghostJob.likelihood !== 'low' && (
+                    <span className={`badge badge--ghost-${ghostJob.likelihood}`} title={ghostJob.reasons.join('\n')}>
+                        <Ghost size={12} /> {GHOST_JOB_LABELS[ghostJob.likelihood]}
+                    </span>
+                )}
+
+                {kindText && (
+                    <span className="badge badge--kind">
+                        <Briefcase size={12} /> {kindText}
+                    </span>
+                )}
+
+                {workMode && (
+                    <span className="badge badge--kind">
+                        {workMode.mode === 'remote' ? <MapPin size={12} /> : <Building2 size={12} />} {formatWorkMode(workMode)}
+                    </span>
+                )}
+
+                {visaSponsorship && (
+                    <span className={`badge badge--visa-${visaSponsorship}`}>
+                        <Plane size={12} /> {VISA_SPONSORSHIP_LABELS[visaSponsorship]}
                     </span>
                 )}
 
@@ -81,14 +171,46 @@ export const FloatingBanner: React.FC<FloatingBannerProps> = ({
                     </span>
                 )}
 
+                {estimateText && (
+                    <span className="badge badge--est" title="Job board estimate, not employer-provided">
+                        <DollarSign size={12} /> ~{estimateText} est.
+                    </span>
+                )}
+
+                {comparison && (
+                    <span
+                        className={`badge badge--target-${comparison}`}
+                        title={annual ? `≈ ${formatAnnualSalary(annual)} in ${annual.currency}` : undefined}
+                    >
+                        <Target size={12} /> {SALARY_COMPARISON_LABELS[comparison]}
+                    </span>
+                )}
+
+                {employerRating != null && (
+                    <span
+                        className={`badge ${employerRating < 3 ? 'badge--red' : 'badge--rating'}`}
+                        title={employerReviewCount != null ? `${employerReviewCount.toLocaleString()} employee reviews` : 'Employer rating'}
+                    >
+                        <Star size={12} /> {employerRating.toFixed(1)}
+                    </span>
+                )}
+
                 {redFlags.length > 0 && (
-                    <span className="badge badge--red">
+                    <span
+                        className={`badge badge--red ${onFlagClick ? 'badge--clickable' : ''}`}
+                        title={redFlags.map((flag) => flag.keyword).join(', ')}
+                        onClick={() => onFlagClick?.('red')}
+                    >
                         <Flag size={12} /> {redFlags.length} red flag{redFlags.length > 1 ? 's' : ''}
                     </span>
                 )}
 
                 {greenFlags.length > 0 && (
-                    <span className="badge badge--green">
+                    <span
+                        className={`badge badge--green ${onFlagClick ? 'badge--clickable' : ''}`}
+                        title={greenFlags.map((flag) => flag.keyword).join(', ')}
+                        onClick={() => onFlagClick?.('green')}
+                    >
                         <CheckCircle size={12} /> {greenFlags.length} green flag{greenFlags.length > 1 ? 's' : ''}
                     </span>
                 )}
@@ -8,13 +8,62 @@
  *     → Handles slow LinkedIn/Indeed DOM rendering
  *  3. Three SPA-detection strategies: pushState patch, interval poll, MutationObserver
  *  4. Banner re-injection if removed by the host page
+ *  5. Search result cards badged by one MutationObserver, each card only once per job
+ *  6. Flagged phrases highlighted in the description, re-applied with the banner
  */
 
 import React from 'react';
 import { createRoot } from 'react-dom/client';
-import { getParserForUrl, FlagAnalyzer } from '@job-bodyguard/parsers';
-import type { JobData } from '@job-bodyguard/types';
+import {
+  getParserForUrl,
+  FlagAnalyzer,
+  parseSelectorConfig,
+  setSelectorOverrides,
+  assessGhostJob,
+  postingHistoryKey,
+  jobKeyForUrl,
+  recordSighting,
+  detectLanguage,
+  parseFlagRules,
+  structureDescription,
+  classifyJob,
+  companyListStatus,
+  findSearchResultCards,
+  INJECTED_NODE_ATTR,
+  getSelectors,
+  searchCardJobData,
+  mergeJobData,
+  daysSince,
+  highlightFlags,
+  removeFlagHighlights,
+} from '@job-bodyguard/parsers';
+import type { BaseParser, FlagHighlight, FlagKind, SearchResultCard } from '@job-bodyguard/parsers';
+import {
+  DEFAULT_COMPANY_LISTS,
+  DEFAULT_COMPENSATION_PREFERENCES,
+  DEFAULT_TOXICITY_WEIGHTS,
+  SALARY_COMPARISON_LABELS,
+  compareToTarget,
+  getPlatformForUrl,
+  toxicityLevel,
+} from '@job-bodyguard/types';
+import type {
+  CompanyListStatus,
+  CompanyLists,
+  CompensationPreferences,
+  FlagRuleSet,
+  GhostJobAssessment,
+  JobData,
+  JobPlatform,
+  ParseDiagnostic,
+  ParseOutcome,
+  PostingHistory,
+  ToxicityWeights,
+} from '@job-bodyguard/types';
 import { FloatingBanner } from './FloatingBanner';
+import { loadCompensationPreferences, watchCompensationPreferences } from '../shared/compensation';
+import { loadToxicityWeights, watchToxicityWeights } from '../shared/toxicity';
+import { loadCompanyLists, watchCompanyLists } from '../shared/companyLists';
 
 // ─── DOM helper ───────────────────────────────────────────────
 /**
@@ -39,33 +88,12 @@ function waitForElement(selector: string, timeoutMs = 8000): Promise<Element | n
 }
 
 // ─── State tracking ──────────────────────────────────────────
-let _lastJobKey = getJobKey(window.location.href);
+let _lastJobKey = jobKeyForUrl(window.location.href);
 let _parseInProgress = false;
-
-function getJobKey(url: string): string {
-  try {
-    const u = new URL(url);
-    // Indeed split-pane: vjk=XXX
-    // Indeed direct page: jk=XXX  (e.g. /viewjob?jk=XXX or /m/viewjob?jk=XXX)
-    // LinkedIn: currentJobId=XXX
-    // hh.ru: /vacancy/XXX
-    return (
-      u.searchParams.get('vjk') ||
-      u.searchParams.get('jk') ||
-      u.searchParams.get('currentJobId') ||
-      u.pathname.match(/\/vacancy\/(\d+)/)?.[1] ||
-      url
-    );
-  } catch {
-    return url;
-  }
-}
-
-// ─── Guard against duplicate injection ───────────────────────
-if (!(window as any).__JBG_LOADED__) {
-  (window as any).__JBG_LOADED__ = true;
-  init();
-}
+let _compensation: CompensationPreferences = DEFAULT_COMPENSATION_PREFERENCES;
+let _flagRules: FlagRuleSet | undefined;
+let _toxicityWeights: ToxicityWeights = DEFAULT_TOXICITY_WEIGHTS;
+let _companyLists: CompanyLists = DEFAULT_COMPANY_LISTS;
 
 function init() {
   console.log('[JBG] Content script loaded on:', window.location.href);
@@ -76,7 +104,7 @@ function init() {
 
   // 2. Polling fallback (800ms) — catches anything pushState misses
   setInterval(() => {
-    const key = getJobKey(window.location.href);
+    const key = jobKeyForUrl(window.location.href);
     if (key !== _lastJobKey) void handleNavChange();
   }, 800);
 
@@ -88,11 +116,50 @@ function init() {
       void tryParsePage();
       sendResponse({ ok: true });
     }
+    // Side panel: a flag in the AI analysis was clicked
+    if (msg?.type === 'JBG_SCROLL_TO_FLAG') {
+      sendResponse({ found: scrollToFlag(msg.kind, msg.keyword) });
+    }
     return false;
   });
 
-  // 3. Initial parse
-  void tryParsePage();
+  // 4. Keep parser selector overrides (Settings → Parser Selectors) in sync
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && SELECTOR_OVERRIDES_KEY in changes) {
+      applySelectorOverrides(changes[SELECTOR_OVERRIDES_KEY].newValue);
+    }
+  });
+
+  // 5. Target salary (Settings → Target Salary) for the pay flag and banner badge
+  watchCompensationPreferences((preferences) => { _compensation = preferences; });
+
+  // 6. User flag rules (Settings → Flag Rules), merged with the built-in packs
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'sync' && FLAG_RULES_KEY in changes) {
+      applyFlagRules(changes[FLAG_RULES_KEY].newValue);
+    }
+  });
+
+  // 7. Toxicity score weights (Settings → Toxicity Score)
+  watchToxicityWeights((weights) => { _toxicityWeights = weights; });
+
+  // 8. Blocked / favourite companies (Settings → Companies, side panel)
+  watchCompanyLists((lists) => {
+    _companyLists = lists;
+    markSearchResults();
+  });
+
+  // 9. Initial parse (after overrides and preferences are loaded)
+  void Promise.all([
+    loadSelectorOverrides(),
+    loadCompensationPreferences().then((preferences) => { _compensation = preferences; }),
+    loadFlagRules(),
+    loadToxicityWeights().then((weights) => { _toxicityWeights = weights; }),
+    loadCompanyLists().then((lists) => { _companyLists = lists; }),
+  ]).then(() => {
+    watchSearchResults();
+    void tryParsePage();
+  });
 }
 
 // ─── Navigation handling ──────────────────────────────────────
@@ -107,7 +174,7 @@ function patchHistory() {
 }
 
 async function handleNavChange() {
-  const newKey = getJobKey(window.location.href);
+  const newKey = jobKeyForUrl(window.location.href);
   if (newKey === _lastJobKey) return;
   console.log('[JBG] Navigation:', _lastJobKey, '→', newKey);
   _lastJobKey = newKey;
@@ -131,6 +198,208 @@ async function storeCurrentJob(job: JobData): Promise<void> {
   });
 }
 
+// ─── Selector overrides ──────────────────────────────────────
+const SELECTOR_OVERRIDES_KEY = 'selectorOverrides';
+
+function applySelectorOverrides(raw: unknown) {
+  if (!raw) {
+    setSelectorOverrides(null);
+    return;
+  }
+  try {
+    const applied = setSelectorOverrides(parseSelectorConfig(raw));
+    console.log(`[JBG] Selector override ${applied ? 'applied' : 'skipped (outdated)'}`);
+  } catch (err) {
+    console.warn('[JBG] Ignoring invalid selector override:', err);
+    setSelectorOverrides(null);
+  }
+}
+
+async function loadSelectorOverrides(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(SELECTOR_OVERRIDES_KEY, (result) => {
+      applySelectorOverrides(result[SELECTOR_OVERRIDES_KEY]);
+      resolve();
+    });
+  });
+}
+
+// ─── Flag rules ──────────────────────────────────────────────
+const FLAG_RULES_KEY = 'flagRules';
+
+function applyFlagRules(raw: unknown) {
+  if (!raw) {
+    _flagRules = undefined;
+    return;
+  }
+  try {
+    _flagRules = parseFlagRules(raw);
+  } catch (err) {
+    console.warn('[JBG] Ignoring invalid flag rules:', err);
+    _flagRules = undefined;
+  }
+}
+
+async function loadFlagRules(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(FLAG_RULES_KEY, (result) => {
+      applyFlagRules(result[FLAG_RULES_KEY]);
+      resolve();
+    });
+  });
+}
+
+// ─── Diagnostics ─────────────────────────────────────────────
+// One record per parse run, shown in Settings → Diagnostics
+const DIAGNOSTICS_KEY = 'parseDiagnostics';
+const MAX_DIAGNOSTICS = 50;
+const MAX_SNAPSHOT_CHARS = 100_000; // keeps 50 records well under the storage.local quota
+
+interface ParseRun {
+  parser: BaseParser;
+  url: string;
+  startedAt: number;
+  maxAttempts: number;
+  attempts: number;
+  extractMs: number;
+  jobData: JobData | null;
+}
+
+function findEmptyFields(job: JobData | null): string[] {
+  const fields: Record<string, unknown> = {
+    title: job?.title,
+    company: job?.company,
+    location: job?.location,
+    description: job?.description,
+    salary: job?.visibleSalary ?? job?.hiddenSalary,
+    datePosted: job?.datePosted,
+  };
+  return Object.keys(fields).filter(key => !fields[key]);
+}
+
+/** Page HTML minus scripts (except JSON-LD), styles and our own banner */
+function snapshotPage(): string {
+  const root = document.documentElement.cloneNode(true) as HTMLElement;
+  root
+    .querySelectorAll('script:not([type="application/ld+json"]), style, link, svg, noscript, iframe, #job-bodyguard-banner')
+    .forEach(el => el.remove());
+  return root.outerHTML.slice(0, MAX_SNAPSHOT_CHARS);
+}
+
+function buildDiagnostic(run: ParseRun, outcome: ParseOutcome, error?: unknown): ParseDiagnostic {
+  const record: ParseDiagnostic = {
+    id: `${run.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    url: run.url,
+    platform: run.parser.platform,
+    outcome,
+    startedAt: new Date(run.startedAt).toISOString(),
+    attempts: run.attempts,
+    maxAttempts: run.maxAttempts,
+    durationMs: Date.now() - run.startedAt,
+    extractMs: run.extractMs,
+    emptyFields: findEmptyFields(run.jobData),
+    selectorMatches: run.parser.getSelectorMatches(),
+    hasJsonLd: !!document.querySelector('script[type="application/ld+json"]'),
+  };
+  if (run.jobData?.title) record.title = run.jobData.title;
+  if (run.jobData?.company) record.company = run.jobData.company;
+  if (error !== undefined) record.error = error instanceof Error ? error.message : String(error);
+  if (outcome !== 'success') record.htmlSnapshot = snapshotPage();
+  return record;
+}
+
+async function recordDiagnostic(record: ParseDiagnostic): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(DIAGNOSTICS_KEY, (result) => {
+      const records = (result[DIAGNOSTICS_KEY] as ParseDiagnostic[] | undefined) ?? [];
+      chrome.storage.local.set(
+        { [DIAGNOSTICS_KEY]: [record, ...records].slice(0, MAX_DIAGNOSTICS) },
+        () => {
+          if (chrome.runtime.lastError) console.warn('[JBG] Could not store diagnostic:', chrome.runtime.lastError.message);
+          resolve();
+        }
+      );
+    });
+  });
+}
+
+// ─── Posting history (ghost jobs) ────────────────────────────
+// Every visit is folded into chrome.storage.local so reposts and long-open
+// roles can be recognised later (see ghostJobs.ts in the parsers package)
+const POSTING_HISTORY_KEY = 'postingHistory';
+const MAX_HISTORY_ENTRIES = 500;
+
+type SavedJobRecord = JobData & {
+  savedAt: string;
+  status: 'saved' | 'applied' | 'interview' | 'rejected' | 'offer';
+  sources?: { url: string }[];
+};
+
+async function loadSavedJobs(): Promise<SavedJobRecord[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get('savedJobs', (synced) => {
+      if (synced.savedJobs?.length) return resolve(synced.savedJobs);
+      chrome.storage.local.get('savedJobs', (local) => resolve(local.savedJobs ?? []));
+    });
+  });
+}
+
+async function loadPostingHistory(): Promise<PostingHistory> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(POSTING_HISTORY_KEY, (result) => resolve(result[POSTING_HISTORY_KEY] ?? {}));
+  });
+}
+
+async function storePostingHistory(history: PostingHistory): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [POSTING_HISTORY_KEY]: history }, resolve);
+  });
+}
+
+/** Keep the most recently seen roles when the history outgrows its cap */
+function pruneHistory(history: PostingHistory): PostingHistory {
+  const keys = Object.keys(history);
+  if (keys.length <= MAX_HISTORY_ENTRIES) return history;
+  const newest = keys
+    .sort((a, b) => history[b].lastSeenAt.localeCompare(history[a].lastSeenAt))
+    .slice(0, MAX_HISTORY_ENTRIES);
+  return Object.fromEntries(newest.map(key => [key, history[key]]));
+}
+
+/**
+ * Record this visit and assess the posting. The first time a role is seen,
+ * matching saved jobs seed its history from when they were saved.
+ */
+async function trackPosting(job: JobData): Promise<GhostJobAssessment | null> {
+  const key = postingHistoryKey(job.company, job.title, job.location);
+  if (!key) return null;
+
+  const history = await loadPostingHistory();
+
+  let entry = history[key];
+  if (!entry) {
+    for (const saved of await loadSavedJobs()) {
+      if (postingHistoryKey(saved.company, saved.title, saved.location) !== key) continue;
+      entry = recordSighting(entry, saved, {
+        jobKey: `${saved.platform}:${jobKeyForUrl(saved.url)}`,
+        datePosted: saved.datePosted,
+        datePostedConfidence: saved.datePostedConfidence,
+        seenAt: saved.savedAt,
+      });
+    }
+  }
+
+  entry = recordSighting(entry, job, {
+    jobKey: `${job.platform}:${jobKeyForUrl(job.url || window.location.href)}`,
+    datePosted: job.datePosted,
+    datePostedConfidence: job.datePostedConfidence,
+    seenAt: new Date().toISOString(),
+  });
+  await storePostingHistory(pruneHistory({ ...history, [key]: entry }));
+
+  return assessGhostJob(job, entry);
+}
+
 // ─── Parsing ─────────────────────────────────────────────────
 // Title selectors shared across parsers (used to wait for DOM readiness)
 const TITLE_WAIT_SELECTORS = [
@@ -146,6 +415,13 @@ const TITLE_WAIT_SELECTORS = [
   'h1.jobsearch-JobInfoHeader-title',
   // hh.ru
   '[data-qa="vacancy-title"]',
+  // Greenhouse (classic + job-boards) / Lever
+  '.app-title',
+  '.job__title h1',
+  '.posting-headline h2',
+  // Glassdoor
+  'h1[id^="jd-job-title"]',
+  '[data-test="job-title"]',
   // Universal fallback — any h1 (LinkedIn always has one in job panels)
   'h1',
 ].join(', ');
@@ -156,6 +432,7 @@ async function tryParsePage() {
     return;
   }
   _parseInProgress = true;
+  let run: ParseRun | null = null;
 
   try {
     const url = window.location.href;
@@ -166,14 +443,21 @@ async function tryParsePage() {
       console.warn('[JBG] ❌ No parser matched for URL:', url);
       return;
     }
+    if (parser.platform === 'other' && getPlatformForUrl(url) !== 'other') {
+      // A known board's search or home page: no single job to read
+      console.log('[JBG] No job on this page of', getPlatformForUrl(url));
+      return;
+    }
     console.log('[JBG] ✅ Parser found:', parser.platform);
 
     // Try to parse with retries — more robust than waitForElement on SPAs
     // that do full-body DOM swaps (LinkedIn) where MutationObserver can miss the swap.
     const MAX_ATTEMPTS = 8;
     const RETRY_INTERVAL = 2000; // ms
+    run = { parser, url, startedAt: Date.now(), maxAttempts: MAX_ATTEMPTS, attempts: 0, extractMs: 0, jobData: null };
 
     for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      run.attempts = attempt;
       // Small delay on first attempt to let the initial render settle
       if (attempt === 1) await new Promise(r => setTimeout(r, 600));
 
@@ -184,13 +468,17 @@ async function tryParsePage() {
       const knownTitle = document.querySelector(TITLE_WAIT_SELECTORS)?.textContent?.trim().slice(0, 80);
       console.log(`[JBG]   h1="${h1Text ?? 'null'}"  knownTitle="${knownTitle ?? 'null'}"`);
 
+      const extractStart = performance.now();
       let jobData = await parser.extractJobData(document);
+      run.extractMs = Math.round(performance.now() - extractStart);
+      run.jobData = jobData;
       console.log('[JBG] 📦 Extracted:', {
         title: jobData.title,
         company: jobData.company,
         location: jobData.location,
         descLen: jobData.description?.length,
       });
+      console.log('[JBG] 🎯 Selector matches:', parser.getSelectorMatches());
 
       if (!jobData.title && !jobData.company) {
         if (attempt < MAX_ATTEMPTS) {
@@ -199,6 +487,7 @@ async function tryParsePage() {
           continue;
         } else {
           console.error('[JBG] ❌ All attempts exhausted, giving up.');
+          void recordDiagnostic(buildDiagnostic(run, 'failed'));
           return;
         }
       }
@@ -206,13 +495,21 @@ async function tryParsePage() {
       if (!jobData.title) console.warn('[JBG] ⚠️ title empty but company found, continuing');
       if (!jobData.company) console.warn('[JBG] ⚠️ company empty but title found, continuing');
 
-      const flagAnalyzer = new FlagAnalyzer();
-      const { redFlags, greenFlags } = flagAnalyzer.analyze(jobData.description);
+      const ghostJob = await trackPosting(jobData).catch((err) => {
+        console.warn('[JBG] Posting history unavailable:', err);
+        return null;
+      });
+      jobData = { ...jobData, ghostJob, language: detectLanguage(jobData.description), ...structureDescription(jobData) };
+      jobData = { ...jobData, ...classifyJob(jobData) };
+
+      const flagAnalyzer = new FlagAnalyzer({ compensation: _compensation, rules: _flagRules, toxicityWeights: _toxicityWeights });
+      const { redFlags, greenFlags } = flagAnalyzer.analyzeJob(jobData);
       jobData = {
         ...jobData,
         redFlags: [...jobData.redFlags, ...redFlags],
         greenFlags: [...jobData.greenFlags, ...greenFlags],
       };
+      jobData = { ...jobData, localToxicity: flagAnalyzer.scoreToxicity(jobData) };
 
       console.log('[JBG] ✅ Storing job:', jobData.title, '@', jobData.company);
       await storeCurrentJob(jobData);
@@ -224,16 +521,363 @@ async function tryParsePage() {
       );
 
       injectBanner(jobData);
+      void recordDiagnostic(buildDiagnostic(run, jobData.title && jobData.company ? 'success' : 'partial'));
       return; // success
     }
 
   } catch (err) {
     console.error('[JBG] 💥 Parse exception:', err);
+    if (run) void recordDiagnostic(buildDiagnostic(run, 'error', err));
   } finally {
     _parseInProgress = false;
   }
 }
 
+// ─── Search results ──────────────────────────────────────────
+// Cards on LinkedIn, Indeed and hh.ru search lists get compact badges from
+// what the card shows plus anything cached for that job (a saved job, the
+// open job, posting history), and blocked / favourite companies are marked
+// through a data attribute. Both are styled by SEARCH_CSS; the card
+// selectors live in selectors.json.
+const COMPANY_MARK_ATTR = 'data-jbg-company';
+const COMPANY_BADGE_CLASS = 'jbg-company-badge';
+const CARD_BADGES_CLASS = 'jbg-card-badges';
+const SEARCH_STYLE_ID = 'job-bodyguard-search-css';
+let _searchObserver: MutationObserver | null = null;
+let _markTimer: ReturnType<typeof setTimeout> | null = null;
+// The job key each card was annotated for: boards recycle card elements
+// while scrolling, so a card is only redone when it shows another job
+const _annotatedCards = new WeakMap<Element, string>();
+
+const CARD_STATUS_LABELS: Record<SavedJobRecord['status'], string> = {
+  saved: 'Saved',
+  applied: 'Applied',
+  interview: 'Interviewing',
+  offer: 'Offer',
+  rejected: 'Rejected',
+};
+
+interface SearchCache {
+  savedJobs: SavedJobRecord[];
+  history: PostingHistory;
+  currentJob: JobData | null;
+}
+
+function markSearchResults() {
+  const platform = getPlatformForUrl(window.location.href);
+  const cards = findSearchResultCards(document, platform);
+  for (const card of cards) {
+    const status = card.company ? companyListStatus(card.company, _companyLists) : null;
+    markCard(card.element, status);
+  }
+
+  const fresh = cards.filter((card) => _annotatedCards.get(card.element) !== cardKey(card));
+  if (fresh.length === 0) return;
+  for (const card of fresh) _annotatedCards.set(card.element, cardKey(card));
+  void loadSearchCache().then((cache) => {
+    const analyzer = new FlagAnalyzer({ compensation: _compensation, rules: _flagRules, toxicityWeights: _toxicityWeights });
+    for (const card of fresh) renderCardBadges(card, annotateCard(card, platform, cache, analyzer));
+  });
+}
+
+/** No-op when the card already carries the right mark, so our own edits don't retrigger the observer */
+function markCard(card: Element, status: CompanyListStatus | null) {
+  const mark = status === 'blocked' ? `blocked-${_companyLists.blockedDisplay}` : status ?? '';
+  const badgeText = status === 'favourite' ? '★ Favourite company' : mark === 'blocked-dim' ? 'Blocked company' : null;
+  const badge = card.querySelector(`:scope > .${COMPANY_BADGE_CLASS}`);
+  if ((card.getAttribute(COMPANY_MARK_ATTR) ?? '') === mark && (badge?.textContent ?? null) === badgeText) return;
+
+  badge?.remove();
+  if (!mark) {
+    card.removeAttribute(COMPANY_MARK_ATTR);
+    return;
+  }
+  card.setAttribute(COMPANY_MARK_ATTR, mark);
+  if (badgeText) {
+    const el = document.createElement('span');
+    el.className = COMPANY_BADGE_CLASS;
+    el.setAttribute(INJECTED_NODE_ATTR, '');
+    el.textContent = badgeText;
+    card.prepend(el);
+  }
+}
+
+/** Job key of the card's link (same as the open job's), else its company and title */
+function cardKey(card: SearchResultCard): string {
+  const id = card.element.getAttribute('data-occludable-job-id') ?? card.element.getAttribute('data-job-id');
+  return id ?? (card.url ? jobKeyForUrl(card.url) : `${card.company}|${card.title}`);
+}
+
+async function loadSearchCache(): Promise<SearchCache> {
+  const [savedJobs, history, currentJob] = await Promise.all([
+    loadSavedJobs(),
+    loadPostingHistory(),
+    new Promise<JobData | null>((resolve) => {
+      chrome.storage.local.get('currentJob', (result) => resolve(result.currentJob ?? null));
+    }),
+  ]);
+  return { savedJobs, history, currentJob };
+}
+
+interface CardAnnotation {
+  job: JobData;
+  saved: SavedJobRecord | null;
+}
+
+/**
+ * The card's job filled in from cached data on the same job, then run
+ * through the flag analyzer. Only the job key counts as the same job: other
+ * roles with the same title at the company are other jobs.
+ */
+function annotateCard(card: SearchResultCard, platform: JobPlatform, cache: SearchCache, analyzer: FlagAnalyzer): CardAnnotation {
+  const key = cardKey(card);
+  const sameJob = (url: string) => !!url && jobKeyForUrl(url) === key;
+
+  const saved = cache.savedJobs.find((job) =>
+    (job.sources ?? [{ url: job.url }]).some((source) => sameJob(source.url))
+  ) ?? null;
+  const cached = saved ?? (cache.currentJob && sameJob(cache.currentJob.url) ? cache.currentJob : null);
+
+  let job = searchCardJobData(card, platform);
+  if (cached) {
+    // Flags are found afresh on the merged text, not carried over
+    job = mergeJobData(job, { ...cached, redFlags: [], greenFlags: [] });
+  }
+
+  // A day-exact posting date seen on an earlier visit beats "30+ days ago" on the card
+  const entry = Object.values(cache.history).find((seen) => seen.jobKeys.includes(`${platform}:${key}`));
+  const postedDates = entry?.platformPostedDates?.[platform] ?? entry?.postedDates;
+  const lastPosted = postedDates?.[postedDates.length - 1];
+  if (lastPosted && job.datePostedConfidence !== 'exact') {
+    const age = daysSince(lastPosted);
+    if (age !== null) job = { ...job, datePosted: lastPosted, jobAge: Math.max(0, age), datePostedConfidence: 'exact' };
+  }
+
+  const { redFlags, greenFlags } = analyzer.analyzeJob(job);
+  job = { ...job, redFlags, greenFlags };
+  return { job: { ...job, localToxicity: analyzer.scoreToxicity(job) }, saved };
+}
+
+function cardBadge(text: string, modifier: string, title?: string): HTMLElement {
+  const badge = document.createElement('span');
+  badge.className = `jbg-card-badge jbg-card-badge--${modifier}`;
+  badge.textContent = text;
+  if (title) badge.title = title;
+  return badge;
+}
+
+function renderCardBadges(card: SearchResultCard, { job, saved }: CardAnnotation) {
+  card.element.querySelector(`:scope > .${CARD_BADGES_CLASS}`)?.remove();
+
+  const row = document.createElement('div');
+  row.className = CARD_BADGES_CLASS;
+  row.setAttribute(INJECTED_NODE_ATTR, '');
+
+  if (saved) {
+    row.append(cardBadge(CARD_STATUS_LABELS[saved.status], 'saved', `Saved ${new Date(saved.savedAt).toLocaleDateString()}`));
+  }
+  if (job.localToxicity) {
+    const flags = [...job.redFlags, ...job.greenFlags].map((flag) => flag.keyword);
+    row.append(cardBadge(
+      `🛡 ${job.localToxicity.score}`,
+      `tox-${toxicityLevel(job.localToxicity.score)}`,
+      ['Toxicity score from the card (no AI)', ...flags].join('\n'),
+    ));
+  }
+  const comparison = compareToTarget(job.hiddenSalary, _compensation);
+  if (comparison) {
+    row.append(cardBadge(SALARY_COMPARISON_LABELS[comparison], `target-${comparison}`));
+  }
+  if (job.jobAge !== null) {
+    const age = job.datePostedConfidence === 'minimum'
+      ? `${job.jobAge}+d`
+      : `${job.datePostedConfidence === 'approximate' ? '~' : ''}${job.jobAge}d`;
+    row.append(cardBadge(age, job.jobAge > 30 ? 'old' : 'age', job.datePosted ? `Posted around ${job.datePosted}` : undefined));
+  }
+
+  if (row.childElementCount > 0) card.element.append(row);
+}
+
+/** Marks the cards now and again whenever the list re-renders or loads more results */
+function watchSearchResults() {
+  const platform = getPlatformForUrl(window.location.href);
+  if (!getSelectors(platform).searchCard || _searchObserver) return;
+
+  if (!document.getElementById(SEARCH_STYLE_ID)) {
+    const style = document.createElement('style');
+    style.id = SEARCH_STYLE_ID;
+    style.textContent = SEARCH_CSS;
+    document.documentElement.appendChild(style);
+  }
+
+  markSearchResults();
+  // One observer for the whole page; infinite scroll and SPA navigation
+  // both show up as child list changes under <body>
+  _searchObserver = new MutationObserver(() => {
+    if (_markTimer) clearTimeout(_markTimer);
+    _markTimer = setTimeout(markSearchResults, 300);
+  });
+  _searchObserver.observe(document.body, { childList: true, subtree: true });
+}
+
+const SEARCH_CSS = `
+  [${COMPANY_MARK_ATTR}="blocked-dim"] { opacity: 0.35; filter: grayscale(1); transition: opacity 0.15s; }
+  [${COMPANY_MARK_ATTR}="blocked-dim"]:hover { opacity: 0.8; }
+  [${COMPANY_MARK_ATTR}="blocked-hide"] { display: none !important; }
+  [${COMPANY_MARK_ATTR}="favourite"] { box-shadow: inset 3px 0 0 #f59e0b; }
+  .${COMPANY_BADGE_CLASS}, .jbg-card-badge {
+    display: inline-block;
+    padding: 1px 8px;
+    border-radius: 999px;
+    font: 600 11px/18px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    white-space: nowrap;
+  }
+  .${COMPANY_BADGE_CLASS} { margin: 4px 8px; background-color: #fef3c7; color: #92400e; }
+  [${COMPANY_MARK_ATTR}^="blocked"] .${COMPANY_BADGE_CLASS} { background-color: #fee2e2; color: #b91c1c; }
+  .${CARD_BADGES_CLASS} { display: flex; flex-wrap: wrap; gap: 4px; margin: 4px 8px 8px; }
+  .jbg-card-badge--saved        { background-color: #1f2937; color: #ffffff; }
+  .jbg-card-badge--age          { background-color: #f3f4f6; color: #4b5563; }
+  .jbg-card-badge--old          { background-color: #fef3c7; color: #b45309; }
+  .jbg-card-badge--target-below  { background-color: #fee2e2; color: #b91c1c; }
+  .jbg-card-badge--target-within { background-color: #e0f2fe; color: #075985; }
+  .jbg-card-badge--target-above  { background-color: #dcfce7; color: #166534; }
+  .jbg-card-badge--tox-low      { background-color: #dcfce7; color: #166534; }
+  .jbg-card-badge--tox-moderate { background-color: #fef3c7; color: #b45309; }
+  .jbg-card-badge--tox-high     { background-color: #fee2e2; color: #b91c1c; }
+`;
+
+// ─── Flag highlights ─────────────────────────────────────────
+// Red and green flag phrases are wrapped in <mark>s inside the description,
+// with a hover tooltip. LinkedIn re-renders the description pane while
+// loading, so the banner guard re-applies them when the marks go missing.
+const HIGHLIGHT_STYLE_ID = 'job-bodyguard-highlight-css';
+let _highlights: FlagHighlight[] = [];
+let _highlightJob: JobData | null = null;
+let _highlightRoot: Element | null = null;
+// Times the guard has looked for a description that hasn't rendered; it gives up after ~30s
+let _highlightAttempts = 0;
+const MAX_HIGHLIGHT_ATTEMPTS = 20;
+// Which highlight of each kind the banner's flag badge scrolls to next
+const _highlightCursor: Record<FlagKind, number> = { red: 0, green: 0 };
+
+// Short descriptions (the top card's "Remote") are skipped for the full text
+const MIN_DESCRIPTION_LENGTH = 100;
+
+function findDescriptionRoot(platform: JobPlatform): Element | null {
+  for (const selector of getSelectors(platform).description ?? []) {
+    const element = document.querySelector(selector);
+    if (element && (element.textContent ?? '').trim().length >= MIN_DESCRIPTION_LENGTH) return element;
+  }
+  // Not rendered yet, or a page without one: nothing else on it is the description
+  return null;
+}
+
+function applyHighlights(jobData: JobData) {
+  clearHighlights();
+  if (_highlightJob !== jobData) _highlightAttempts = 0;
+  _highlightJob = jobData;
+  const root = findDescriptionRoot(getPlatformForUrl(window.location.href));
+  _highlightRoot = root;
+  if (!root) {
+    _highlightAttempts += 1;
+    return;
+  }
+  _highlightAttempts = 0;
+
+  if (!document.getElementById(HIGHLIGHT_STYLE_ID)) {
+    const style = document.createElement('style');
+    style.id = HIGHLIGHT_STYLE_ID;
+    style.textContent = HIGHLIGHT_CSS;
+    document.documentElement.appendChild(style);
+  }
+
+  const flags = [
+    ...jobData.redFlags.map((flag) => ({ flag, kind: 'red' as const })),
+    ...jobData.greenFlags.map((flag) => ({ flag, kind: 'green' as const })),
+  ];
+  _highlights = highlightFlags(root, flags, (flag, kind) => {
+    const mark = document.createElement('mark');
+    mark.className = `jbg-flag jbg-flag--${kind}`;
+    mark.dataset.jbgTip = `${flag.keyword} · ${flag.category} · ${flag.severity}`;
+    return mark;
+  });
+}
+
+function clearHighlights() {
+  if (_highlights.length > 0) removeFlagHighlights(document);
+  _highlights = [];
+  _highlightRoot = null;
+  _highlightCursor.red = 0;
+  _highlightCursor.green = 0;
+}
+
+/**
+ * True when the page swapped out the description (or the marks in it), or
+ * hasn't rendered it yet and the guard hasn't given up waiting
+ */
+function highlightsLost(): boolean {
+  if (!_highlightRoot) return _highlightAttempts < MAX_HIGHLIGHT_ATTEMPTS;
+  return !_highlightRoot.isConnected || _highlights.some(({ marks }) => !marks[0].isConnected);
+}
+
+/**
+ * Scroll to a flag's highlight: the one for `keyword`, or without it the
+ * next highlight of that kind. False when the flag isn't marked on the page.
+ */
+function scrollToFlag(kind: FlagKind, keyword?: string): boolean {
+  const ofKind = _highlights.filter((highlight) => highlight.kind === kind && highlight.marks[0].isConnected);
+  let target: FlagHighlight | undefined;
+  if (keyword) {
+    target = ofKind.find(({ flag }) => flag.keyword === keyword);
+  } else if (ofKind.length > 0) {
+    target = ofKind[_highlightCursor[kind] % ofKind.length];
+    _highlightCursor[kind] += 1;
+  }
+  if (!target) return false;
+
+  target.marks[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+  for (const mark of target.marks) {
+    mark.classList.remove('jbg-flag--active');
+    // Restart the animation when the same flag is clicked twice
+    void mark.offsetWidth;
+    mark.classList.add('jbg-flag--active');
+  }
+  return true;
+}
+
+const HIGHLIGHT_CSS = `
+  mark.jbg-flag {
+    position: relative;
+    background: none;
+    color: inherit;
+    text-decoration: underline wavy;
+    text-decoration-thickness: 1.5px;
+    text-underline-offset: 3px;
+    cursor: help;
+  }
+  mark.jbg-flag--red   { text-decoration-color: #ef4444; }
+  mark.jbg-flag--green { text-decoration-color: #22c55e; }
+  mark.jbg-flag:hover::after {
+    content: attr(data-jbg-tip);
+    position: absolute;
+    left: 0;
+    bottom: calc(100% + 6px);
+    z-index: 2147483646;
+    padding: 4px 8px;
+    border-radius: 6px;
+    background-color: #111827;
+    color: #ffffff;
+    font: 500 12px/16px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    white-space: nowrap;
+    pointer-events: none;
+  }
+  mark.jbg-flag--active { animation: jbg-flag-flash 1.6s ease-out; }
+  @keyframes jbg-flag-flash {
+    0%, 40% { background-color: rgba(250, 204, 21, 0.55); }
+    100%    { background-color: transparent; }
+  }
+`;
+
 // ─── Floating Banner ─────────────────────────────────────────
 let _bannerRoot: ReturnType<typeof createRoot> | null = null;
 let _bannerContainer: HTMLElement | null = null;
@@ -242,6 +886,8 @@ function removeBanner() {
   _bannerContainer?.remove();
   _bannerContainer = null;
   _bannerRoot = null;
+  clearHighlights();
+  _highlightJob = null;
 }
 
 function injectBanner(jobData: JobData) {
@@ -266,6 +912,7 @@ function injectBanner(jobData: JobData) {
   startBannerGuard(jobData);
 
   renderBanner(jobData);
+  applyHighlights(jobData);
 }
 
 function renderBanner(jobData: JobData) {
@@ -283,6 +930,9 @@ function renderBanner(jobData: JobData) {
         );
       }}
       onClose={removeBanner}
+      onFlagClick={(kind) => scrollToFlag(kind)}
+      compensation={_compensation}
+      companyStatus={jobData.company ? companyListStatus(jobData.company, _companyLists) : null}
     />
   );
 }
@@ -295,6 +945,8 @@ function startBannerGuard(jobData: JobData) {
     if (_bannerContainer && !document.documentElement.contains(_bannerContainer)) {
       console.log('[JBG] Banner removed by page, re-injecting...');
       injectBanner(jobData);
+    } else if (_highlightJob === jobData && highlightsLost()) {
+      applyHighlights(jobData);
     }
   }, 1500);
 }
@@ -374,8 +1026,24 @@ const BANNER_CSS = `
   .badge--age   { background-color: #f3f4f6; color: #4b5563; }
   .badge--old   { background-color: #fef3c7; color: #b45309; }
   .badge--sal   { background-color: #dcfce7; color: #166534; }
+  .badge--est   { background-color: #f0fdf4; color: #15803d; border: 1px dashed #86efac; }
+  .badge--rating { background-color: #fef9c3; color: #854d0e; }
   .badge--red   { background-color: #fee2e2; color: #b91c1c; }
   .badge--green { background-color: #dcfce7; color: #166534; }
+  .badge--clickable { cursor: pointer; }
+  .badge--clickable:hover { filter: brightness(0.95); }
+  .badge--target-below  { background-color: #fee2e2; color: #b91c1c; }
+  .badge--target-within { background-color: #e0f2fe; color: #075985; }
+  .badge--target-above  { background-color: #dcfce7; color: #166534; }
+  .badge--ghost-medium  { background-color: #ede9fe; color: #6d28d9; }
+  .badge--ghost-high    { background-color: #6d28d9; color: #ffffff; }
+  .badge--tox-low      { background-color: #dcfce7; color: #166534; }
+  .badge--tox-moderate { background-color: #fef3c7; color: #b45309; }
+  .badge--tox-high     { background-color: #fee2e2; color: #b91c1c; }
+  .badge--blocked      { background-color: #b91c1c; color: #ffffff; }
+  .badge--kind         { background-color: #eef2ff; color: #3730a3; }
+  .badge--visa-offered     { background-color: #dcfce7; color: #166534; }
+  .badge--visa-not-offered { background-color: #fef3c7; color: #b45309; }
 
   .banner__actions { 
     display: flex; 
@@ -443,3 +1111,10 @@ const BANNER_CSS = `
     background-color: #f3f4f6;
   }
 `;
+
+// ─── Guard against duplicate injection ───────────────────────
+// Last in the module: init() reads the storage-key constants declared above
+if (!(window as any).__JBG_LOADED__) {
+  (window as any).__JBG_LOADED__ = true;
+  init();
+}
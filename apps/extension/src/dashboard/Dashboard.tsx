@@ -1,5 +1,17 @@
-import React, { useEffect, useState } from 'react';
-import { Bookmark, Send, Calendar, Award, XCircle, Search, Settings, FileDown, Briefcase, MapPin, Flag, CheckCircle, ShieldAlert, Trash2, HelpCircle, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS, GHOST_JOB_LABELS, SALARY_COMPARISON_LABELS, SENIORITY_LABELS, SENIORITY_LEVELS,
+    VISA_SPONSORSHIP_LABELS, WORK_MODES, WORK_MODE_LABELS, compareToTarget, formatAnnualSalary, formatWorkMode, getPlatform,
+    matchLevel, normalizeSalary,
+} from '@job-bodyguard/types';
+import type {
+    CompensationPreferences, DateConfidence, EmploymentType, JobSections, MatchLevel, PostingHistory, ResumeData, ResumeMatch,
+    SalaryComparison, SalaryData, Seniority, VisaSponsorship, WorkMode, WorkModeKind,
+} from '@job-bodyguard/types';
+import { assessGhostJob, matchResume, postingHistoryKey } from '@job-bodyguard/parsers';
+import { Bookmark, Send, Calendar, Award, XCircle, Search, Settings, FileDown, Briefcase, MapPin, Flag, CheckCircle, ShieldAlert, Trash2, HelpCircle, AlertCircle, Target, Ghost, FileCheck } from 'lucide-react';
+import { useCompensationPreferences } from '../shared/compensation';
+import { useResume } from '../shared/resume';
 
 interface SavedJob {
     id: string;
@@ -7,13 +19,86 @@ interface SavedJob {
     company: string;
     location?: string;
     url?: string;
+    platform?: string;
     savedAt: string;
     status: 'saved' | 'applied' | 'interview' | 'rejected' | 'offer';
     redFlags?: { keyword: string }[];
     greenFlags?: { keyword: string }[];
     toxicityScore?: number | null;
+    hiddenSalary?: SalaryData | null;
+    jobAge?: number | null;
+    datePostedConfidence?: DateConfidence | null;
+    validThrough?: string | null;
+    sources?: { platform: string; url: string; savedAt: string }[];
+    description?: string;
+    requirements?: string[];
+    sections?: JobSections | null;
+    skills?: string[];
+    seniority?: Seniority | null;
+    employmentType?: EmploymentType | null;
+    workMode?: WorkMode | null;
+    visaSponsorship?: VisaSponsorship | null;
 }
 
+type SortOrder = 'saved' | 'match';
+
+const MATCH_BADGES: Record<MatchLevel, string> = {
+    strong: 'badge-green',
+    partial: 'badge-blue',
+    weak: 'badge-amber',
+};
+
+/** "Senior · Contract"; full-time is the usual case and left out */
+function jobKind(job: SavedJob): string {
+    return [
+        job.seniority ? SENIORITY_LABELS[job.seniority] : null,
+        job.employmentType && job.employmentType !== 'full-time' ? EMPLOYMENT_TYPE_LABELS[job.employmentType] : null,
+    ].filter(Boolean).join(' · ');
+}
+
+const POSTING_HISTORY_KEY = 'postingHistory';
+
+const COMPARISON_BADGES: Record<SalaryComparison, string> = {
+    below: 'badge-red',
+    within: 'badge-green',
+    above: 'badge-blue',
+};
+
+/**
+ * Ghost-job likelihood from the posting history the content script keeps,
+ * so a role reposted after it was saved still shows up here
+ */
+const GhostJobBadge: React.FC<{ job: SavedJob; history: PostingHistory }> = ({ job, history }) => {
+    const key = postingHistoryKey(job.company, job.title, job.location);
+    const assessment = assessGhostJob(
+        { jobAge: job.jobAge ?? null, datePostedConfidence: job.datePostedConfidence, validThrough: job.validThrough ?? null },
+        key ? history[key] : undefined,
+    );
+    if (assessment.likelihood === 'low') return null;
+
+    return (
+        <span
+            className={`badge ${assessment.likelihood === 'high' ? 'badge-red' : 'badge-amber'}`}
+            title={assessment.reasons.join('\n')}
+        >
+            <Ghost size={12}/> {GHOST_JOB_LABELS[assessment.likelihood]}
+        </span>
+    );
+};
+
+/** Annual salary in the preferred currency, coloured by the user's target */
+const SalaryTargetBadge: React.FC<{ salary?: SalaryData | null; compensation: CompensationPreferences }> = ({ salary, compensation }) => {
+    const comparison = compareToTarget(salary, compensation);
+    const annual = normalizeSalary(salary, compensation);
+    if (!comparison || !annual) return null;
+
+    return (
+        <span className={`badge ${COMPARISON_BADGES[comparison]}`} title={SALARY_COMPARISON_LABELS[comparison]}>
+            <Target size={12}/> {formatAnnualSalary(annual)}
+        </span>
+    );
+};
+
 const getStatusIcon = (status: string, size = 18) => {
     switch (status) {
         case 'applied': return <Send size={size} />;
@@ -35,6 +120,41 @@ const STATUS_OPTIONS = [
 
 const STATUS_FILTER_OPTIONS = [{ value: 'all', icon: 'search', label: 'All' }, ...STATUS_OPTIONS];
 
+// Skills shown on a card; the rest are in the tooltip
+const MAX_CARD_SKILLS = 6;
+
+/** Every skill across the saved jobs, most common first */
+function skillCounts(jobs: SavedJob[]): [string, number][] {
+    const counts = new Map<string, number>();
+    for (const job of jobs) {
+        for (const skill of job.skills ?? []) counts.set(skill, (counts.get(skill) ?? 0) + 1);
+    }
+    return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/** Offline resume match of a saved job; jobs saved before skills were extracted are read from the description */
+function savedJobMatch(job: SavedJob, resume: ResumeData): ResumeMatch | null {
+    return matchResume(resume, {
+        title: job.title,
+        description: job.description ?? '',
+        requirements: job.requirements ?? [],
+        sections: job.sections,
+        skills: job.skills,
+    });
+}
+
+const ResumeMatchBadge: React.FC<{ match: ResumeMatch }> = ({ match }) => {
+    const missing = [...match.mustHave.missing, ...match.niceToHave.missing];
+    return (
+        <span
+            className={`badge ${MATCH_BADGES[matchLevel(match.score)]}`}
+            title={missing.length > 0 ? `Not on your resume: ${missing.join(', ')}` : 'Your resume covers every skill listed'}
+        >
+            <FileCheck size={12}/> {match.score}% match
+        </span>
+    );
+};
+
 function formatDate(dateStr: string) {
     return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
@@ -42,8 +162,16 @@ function formatDate(dateStr: string) {
 export const Dashboard: React.FC = () => {
     const [jobs, setJobs] = useState<SavedJob[]>([]);
     const [filter, setFilter] = useState('all');
+    const [skillFilter, setSkillFilter] = useState('');
+    const [sortOrder, setSortOrder] = useState<SortOrder>('saved');
+    const [seniorityFilter, setSeniorityFilter] = useState<Seniority | ''>('');
+    const [employmentFilter, setEmploymentFilter] = useState<EmploymentType | ''>('');
+    const [workModeFilter, setWorkModeFilter] = useState<WorkModeKind | ''>('');
     const [loading, setLoading] = useState(true);
     const [currentView, setCurrentView] = useState<'jobs' | 'help'>('jobs');
+    const compensation = useCompensationPreferences();
+    const resume = useResume();
+    const [postingHistory, setPostingHistory] = useState<PostingHistory>({});
 
     const loadJobs = () => {
         chrome.runtime.sendMessage(
@@ -64,12 +192,18 @@ export const Dashboard: React.FC = () => {
         }
 
         loadJobs();
+        chrome.storage.local.get(POSTING_HISTORY_KEY, (result) => {
+            setPostingHistory(result[POSTING_HISTORY_KEY] ?? {});
+        });
 
         // Auto-refresh when storage changes
         const listener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
             if (changes.savedJobs) {
                 setJobs(changes.savedJobs.newValue || []);
             }
+            if (changes[POSTING_HISTORY_KEY]) {
+                setPostingHistory(changes[POSTING_HISTORY_KEY].newValue ?? {});
+            }
         };
         chrome.storage.onChanged.addListener(listener);
         return () => chrome.storage.onChanged.removeListener(listener);
@@ -115,7 +249,23 @@ export const Dashboard: React.FC = () => {
         URL.revokeObjectURL(url);
     };
 
-    const filtered = filter === 'all' ? jobs : jobs.filter(j => j.status === filter);
+    const matches = useMemo(
+        () => new Map(jobs.map(j => [j.id, resume ? savedJobMatch(j, resume) : null])),
+        [jobs, resume]
+    );
+
+    const filtered = jobs.filter(j =>
+        (filter === 'all' || j.status === filter) && (!skillFilter || j.skills?.includes(skillFilter))
+        && (!seniorityFilter || j.seniority === seniorityFilter)
+        && (!employmentFilter || j.employmentType === employmentFilter)
+        && (!workModeFilter || j.workMode?.mode === workModeFilter)
+    );
+    const kindFiltered = Boolean(seniorityFilter || employmentFilter || workModeFilter);
+    if (sortOrder === 'match') {
+        // Jobs without a match score go last, newest first among equals
+        filtered.sort((a, b) => (matches.get(b.id)?.score ?? -1) - (matches.get(a.id)?.score ?? -1));
+    }
+    const skills = skillCounts(jobs);
 
     const stats = {
         total: jobs.length,
@@ -208,6 +358,69 @@ export const Dashboard: React.FC = () => {
                             {getStatusIcon(o.value, 16)} {o.label}
                         </button>
                     ))}
+                    {skills.length > 0 && (
+                        <select
+                            className={`filter-chip filter-select ${skillFilter ? 'active' : ''}`}
+                            value={skillFilter}
+                            onChange={e => setSkillFilter(e.target.value)}
+                            title="Show jobs that ask for a skill"
+                        >
+                            <option value="">Any skill</option>
+                            {skills.map(([skill, count]) => (
+                                <option key={skill} value={skill}>{skill} ({count})</option>
+                            ))}
+                        </select>
+                    )}
+                    {jobs.some(j => j.seniority) && (
+                        <select
+                            className={`filter-chip filter-select ${seniorityFilter ? 'active' : ''}`}
+                            value={seniorityFilter}
+                            onChange={e => setSeniorityFilter(e.target.value as Seniority | '')}
+                            title="Show jobs at one level"
+                        >
+                            <option value="">Any level</option>
+                            {SENIORITY_LEVELS.map(level => (
+                                <option key={level} value={level}>{SENIORITY_LABELS[level]}</option>
+                            ))}
+                        </select>
+                    )}
+                    {jobs.some(j => j.employmentType) && (
+                        <select
+                            className={`filter-chip filter-select ${employmentFilter ? 'active' : ''}`}
+                            value={employmentFilter}
+                            onChange={e => setEmploymentFilter(e.target.value as EmploymentType | '')}
+                            title="Show jobs with one type of contract"
+                        >
+                            <option value="">Any employment</option>
+                            {EMPLOYMENT_TYPES.map(type => (
+                                <option key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    )}
+                    {jobs.some(j => j.workMode) && (
+                        <select
+                            className={`filter-chip filter-select ${workModeFilter ? 'active' : ''}`}
+                            value={workModeFilter}
+                            onChange={e => setWorkModeFilter(e.target.value as WorkModeKind | '')}
+                            title="Show on-site, hybrid or remote jobs"
+                        >
+                            <option value="">Any work mode</option>
+                            {WORK_MODES.map(mode => (
+                                <option key={mode} value={mode}>{WORK_MODE_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    )}
+                    {resume && (
+                        <select
+                            className="filter-chip filter-select"
+                            value={sortOrder}
+                            onChange={e => setSortOrder(e.target.value as SortOrder)}
+                            title="Order of the saved jobs"
+                        >
+                            <option value="saved">Newest first</option>
+                            <option value="match">Best resume match</option>
+                        </select>
+                    )}
                 </div>
 
                 {/* Job list */}
@@ -219,9 +432,11 @@ export const Dashboard: React.FC = () => {
                 ) : filtered.length === 0 ? (
                     <div className="empty-state">
                         <div className="empty-icon"><Search size={48} /></div>
-                        <h3>{filter === 'all' ? 'No jobs found' : `No ${filter} jobs`}</h3>
+                        <h3>{filter === 'all' ? 'No jobs found' : `No ${filter} jobs`}{skillFilter && ` asking for ${skillFilter}`}</h3>
                         <p>
-                            {filter === 'all'
+                            {skillFilter || kindFiltered
+                                ? 'Loosen the filters above to see more jobs.'
+                                : filter === 'all'
                                 ? 'Browse jobs on LinkedIn or Indeed, select an application, and click Save!'
                                 : 'Update the status of your existing saved jobs to see them here.'}
                         </p>
@@ -239,12 +454,40 @@ export const Dashboard: React.FC = () => {
                                 {job.location && <div className="job-card-location"><MapPin size={14} className="text-muted" /> {job.location}</div>}
 
                                 <div className="job-card-flags">
+                                    {job.sources && job.sources.length > 1
+                                        ? job.sources.map(source => (
+                                            <a
+                                                key={source.url}
+                                                className="badge"
+                                                href={source.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                title={`Also listed on ${getPlatform(source.platform).name}, saved ${new Date(source.savedAt).toLocaleDateString()}`}
+                                            >
+                                                {getPlatform(source.platform).icon} {getPlatform(source.platform).name}
+                                            </a>
+                                        ))
+                                        : job.platform && (
+                                            <span className="badge" title={`Saved from ${getPlatform(job.platform).name}`}>
+                                                {getPlatform(job.platform).icon} {getPlatform(job.platform).name}
+                                            </span>
+                                        )}
+                                    {jobKind(job) && <span className="badge">{jobKind(job)}</span>}
+                                    {job.workMode && <span className="badge">{formatWorkMode(job.workMode)}</span>}
+                                    {job.visaSponsorship && (
+                                        <span className={`badge ${job.visaSponsorship === 'offered' ? 'badge-green' : 'badge-amber'}`}>
+                                            {VISA_SPONSORSHIP_LABELS[job.visaSponsorship]}
+                                        </span>
+                                    )}
                                     {(job.redFlags?.length || 0) > 0 && (
                                         <span className="badge badge-red"><Flag size={12}/> {job.redFlags!.length}</span>
                                     )}
                                     {(job.greenFlags?.length || 0) > 0 && (
                                         <span className="badge badge-green"><CheckCircle size={12}/> {job.greenFlags!.length}</span>
                                     )}
+                                    <SalaryTargetBadge salary={job.hiddenSalary} compensation={compensation} />
+                                    <GhostJobBadge job={job} history={postingHistory} />
+                                    {matches.get(job.id) && <ResumeMatchBadge match={matches.get(job.id)!} />}
                                     {job.toxicityScore != null && (
                                         <span className={`badge ${job.toxicityScore > 60 ? 'badge-red' : job.toxicityScore > 30 ? 'badge-amber' : 'badge-green'}`}>
                                             <ShieldAlert size={12}/> {job.toxicityScore} / 100
@@ -252,6 +495,23 @@ export const Dashboard: React.FC = () => {
                                     )}
                                 </div>
 
+                                {job.skills && job.skills.length > 0 && (
+                                    <div className="job-card-skills" title={job.skills.join(', ')}>
+                                        {job.skills.slice(0, MAX_CARD_SKILLS).map(skill => (
+                                            <button
+                                                key={skill}
+                                                className={`skill-chip ${skill === skillFilter ? 'active' : ''}`}
+                                                onClick={() => setSkillFilter(skill === skillFilter ? '' : skill)}
+                                            >
+                                                {skill}
+                                            </button>
+                                        ))}
+                                        {job.skills.length > MAX_CARD_SKILLS && (
+                                            <span className="skill-more">+{job.skills.length - MAX_CARD_SKILLS}</span>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="job-card-footer">
                                     <div className="status-select-wrapper">
                                         <label>{getStatusIcon(job.status, 16)}</label>
@@ -1,12 +1,13 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { formatToxicityFactor, isJobPageUrl, toxicityLevel } from '@job-bodyguard/types';
 import type { JobData } from '@job-bodyguard/types';
 import { SavedJobsList } from './SavedJobsList';
-import { HelpCircle, Bell, ScanLine, Edit3, Settings, FileBox, Bookmark, AlertTriangle, FileText } from 'lucide-react';
+import { HelpCircle, Bell, ScanLine, Edit3, Settings, FileBox, Bookmark, AlertTriangle, FileText, ShieldAlert } from 'lucide-react';
 
 // ─── URL helpers ──────────────────────────────────────────────────────────────
 
 function checkIsJobPage(url: string): boolean {
-    return /linkedin\.com\/jobs|indeed\.com\/(m\/)?viewjob|indeed\.com\/(m\/)?jobs|indeed\.com\/.*[?&](vjk|jk)=|indeed\.com\/rc\/clk|indeed\.com\/pagead|hh\.ru\/vacancy/i.test(url);
+    return isJobPageUrl(url);
 }
 
 function extractJobKey(url: string): string {
@@ -15,6 +16,7 @@ function extractJobKey(url: string): string {
         return (
             u.searchParams.get('jk') ||
             u.searchParams.get('vjk') ||
+            u.searchParams.get('jl') ||
             u.searchParams.get('currentJobId') ||
             u.pathname.match(/\/vacancy\/(\d+)/)?.[1] ||
             ''
@@ -214,6 +216,14 @@ export const Popup: React.FC = () => {
                         <div className="detected-info">
                             <h4>{currentJob.title || 'Untitled'}</h4>
                             <p>{currentJob.company || 'Unknown Company'}</p>
+                            {currentJob.localToxicity && (
+                                <span
+                                    className={`detected-toxicity detected-toxicity--${toxicityLevel(currentJob.localToxicity.score)}`}
+                                    title={currentJob.localToxicity.factors.map(formatToxicityFactor).join('\n')}
+                                >
+                                    <ShieldAlert size={12} /> Toxicity {currentJob.localToxicity.score}/100
+                                </span>
+                            )}
                         </div>
                         <button
                             onClick={handleSaveNow}
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Cpu, Eye, EyeOff, PlugZap, RotateCcw } from 'lucide-react';
+import { AI_PROVIDER_IDS, AI_PROVIDER_LABELS, DEFAULT_AI_PROVIDER_SETTINGS, LOCAL_AI_PROVIDERS } from '@job-bodyguard/types';
+import type { AiProviderId, AiProviderOptions, AiProviderSettings } from '@job-bodyguard/types';
+
+export interface AiProviderValue {
+    apiKey: string;
+    apiProvider: AiProviderId;
+    aiProviders: AiProviderSettings;
+}
+
+interface AiProviderSectionProps {
+    value: AiProviderValue;
+    onChange: (value: AiProviderValue) => void;
+}
+
+interface ConnectionTestResult {
+    ok: boolean;
+    model: string | null;
+    latencyMs: number;
+    error: string | null;
+}
+
+type TestState = { status: 'idle' } | { status: 'testing' } | { status: 'done'; result: ConnectionTestResult };
+
+const KEY_PLACEHOLDERS: Record<AiProviderId, string> = {
+    openai: 'sk-...',
+    anthropic: 'sk-ant-...',
+    'openai-compatible': 'Your API key',
+    ollama: 'Not needed',
+    lmstudio: 'Not needed',
+};
+
+const KEY_HINTS: Record<AiProviderId, string> = {
+    openai: 'Get yours at platform.openai.com',
+    anthropic: 'Get yours at console.anthropic.com',
+    'openai-compatible': 'Enter your API key (if required by custom endpoint)',
+    ollama: 'Ollama needs no key. Start it with OLLAMA_ORIGINS=chrome-extension://* so it accepts requests from the extension.',
+    lmstudio: 'LM Studio needs no key. Start its local server (Developer → Start Server) with a model loaded.',
+};
+
+const MODEL_PLACEHOLDERS: Record<AiProviderId, string> = {
+    openai: 'gpt-4o-mini',
+    anthropic: 'claude-3-5-haiku-latest',
+    'openai-compatible': 'e.g. meta-llama/llama-3.1-70b-instruct',
+    ollama: 'llama3.1',
+    lmstudio: 'Blank: the loaded model',
+};
+
+const NumberInput: React.FC<{ label: string; value: number; step?: number; max?: number; onCommit: (value: number) => void }> = ({
+    label,
+    value,
+    step = 1,
+    max,
+    onCommit,
+}) => (
+    <label className="weight-item">
+        <span>{label}</span>
+        <input
+            type="number"
+            min={0}
+            max={max}
+            step={step}
+            className="input"
+            value={value}
+            onChange={e => {
+                const next = Number(e.target.value);
+                if (e.target.value.trim() && Number.isFinite(next) && next >= 0 && (max === undefined || next <= max)) onCommit(next);
+            }}
+        />
+    </label>
+);
+
+/**
+ * Settings → AI Provider: the provider used for analysis, its API key, and
+ * the model, sampling and timeout options kept separately for each provider.
+ * "Test connection" tries the values in the form before they are saved.
+ */
+export const AiProviderSection: React.FC<AiProviderSectionProps> = ({ value, onChange }) => {
+    const [showKey, setShowKey] = useState(false);
+    const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+    const provider = value.apiProvider;
+    const options = value.aiProviders[provider];
+    const isLocal = LOCAL_AI_PROVIDERS.includes(provider);
+
+    const updateOptions = (patch: Partial<AiProviderOptions>) => {
+        onChange({ ...value, aiProviders: { ...value.aiProviders, [provider]: { ...options, ...patch } } });
+        setTest({ status: 'idle' });
+    };
+
+    const handleTest = () => {
+        setTest({ status: 'testing' });
+        chrome.runtime.sendMessage(
+            { type: 'TEST_AI_CONNECTION', payload: value, timestamp: Date.now() },
+            (response) => {
+                const result: ConnectionTestResult = chrome.runtime.lastError || !response?.success
+                    ? { ok: false, model: null, latencyMs: 0, error: chrome.runtime.lastError?.message ?? response?.error ?? 'No response' }
+                    : response.data;
+                setTest({ status: 'done', result });
+            }
+        );
+    };
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><Cpu size={24} /> AI Provider</h2>
+            <p className="section-desc">
+                Your API key is stored locally in Chrome and is only sent directly to the AI provider you choose.
+                We never see your key. With Ollama or LM Studio the job posting and your resume never leave your machine.
+            </p>
+
+            <div className="field">
+                <label>Provider</label>
+                <div className="radio-group">
+                    {AI_PROVIDER_IDS.map(id => (
+                        <button
+                            key={id}
+                            className={`radio-btn ${provider === id ? 'active' : ''}`}
+                            onClick={() => {
+                                onChange({ ...value, apiProvider: id });
+                                setTest({ status: 'idle' });
+                            }}
+                        >
+                            {AI_PROVIDER_LABELS[id]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!isLocal && (
+                <div className="field">
+                    <label>API Key</label>
+                    <div className="input-row">
+                        <input
+                            type={showKey ? 'text' : 'password'}
+                            className="input"
+                            placeholder={KEY_PLACEHOLDERS[provider]}
+                            value={value.apiKey}
+                            onChange={e => onChange({ ...value, apiKey: e.target.value })}
+                        />
+                        <button
+                            className="icon-btn"
+                            onClick={() => setShowKey(!showKey)}
+                            title={showKey ? 'Hide key' : 'Show key'}
+                        >
+                            {showKey ? <EyeOff size={18} /> : <Eye size={18} />}
+                        </button>
+                    </div>
+                    <p className="field-hint">{KEY_HINTS[provider]}</p>
+                </div>
+            )}
+
+            <div className="field">
+                <label>{isLocal ? 'Server URL' : 'API Base URL'}</label>
+                <input
+                    type="text"
+                    className="input"
+                    placeholder={DEFAULT_AI_PROVIDER_SETTINGS[provider].baseUrl || 'https://your-endpoint.com/v1'}
+                    value={options.baseUrl}
+                    onChange={e => updateOptions({ baseUrl: e.target.value.trim() })}
+                />
+                {isLocal && <p className="field-hint">{KEY_HINTS[provider]}</p>}
+            </div>
+
+            <div className="field">
+                <label>Model</label>
+                <input
+                    type="text"
+                    className="input"
+                    placeholder={MODEL_PLACEHOLDERS[provider]}
+                    value={options.model}
+                    onChange={e => updateOptions({ model: e.target.value.trim() })}
+                />
+            </div>
+
+            <div className="field">
+                <label>Request Options</label>
+                <div className="weight-grid">
+                    <NumberInput label="Max tokens" value={options.maxTokens} step={100} onCommit={maxTokens => updateOptions({ maxTokens })} />
+                    <NumberInput label="Temperature" value={options.temperature} step={0.1} max={2} onCommit={temperature => updateOptions({ temperature })} />
+                    <NumberInput
+                        label="Timeout (seconds)"
+                        value={Math.round(options.timeoutMs / 1000)}
+                        step={10}
+                        onCommit={seconds => updateOptions({ timeoutMs: Math.max(1, seconds) * 1000 })}
+                    />
+                </div>
+            </div>
+
+            <div className="button-row">
+                <button className="secondary-btn" onClick={handleTest} disabled={test.status === 'testing'}>
+                    <PlugZap size={16} /> {test.status === 'testing' ? 'Testing...' : 'Test connection'}
+                </button>
+                <button
+                    className="secondary-btn"
+                    onClick={() => updateOptions(DEFAULT_AI_PROVIDER_SETTINGS[provider])}
+                    title={`Reset the ${AI_PROVIDER_LABELS[provider]} options to their defaults`}
+                >
+                    <RotateCcw size={16} /> Reset options
+                </button>
+            </div>
+            {test.status === 'done' && (
+                <p className={`field-hint ${test.result.ok ? 'field-hint--ok' : 'field-hint--error'}`}>
+                    {test.result.ok
+                        ? `Connected: ${test.result.model ?? 'the loaded model'} answered in ${(test.result.latencyMs / 1000).toFixed(1)}s`
+                        : test.result.error}
+                </p>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Building2, Plus, X } from 'lucide-react';
+import { listedCompanyMatches, setCompanyListStatus } from '@job-bodyguard/parsers';
+import type { BlockedCompanyDisplay, CompanyListStatus, CompanyLists } from '@job-bodyguard/types';
+
+interface CompaniesSectionProps {
+    value: CompanyLists;
+    onChange: (value: CompanyLists) => void;
+}
+
+const LISTS: { status: CompanyListStatus; key: 'blocked' | 'favourites'; label: string; placeholder: string }[] = [
+    { status: 'blocked', key: 'blocked', label: 'Blocked Companies', placeholder: 'e.g. Spammy Recruiting' },
+    { status: 'favourite', key: 'favourites', label: 'Favourite Companies', placeholder: 'e.g. Acme' },
+];
+
+const DISPLAY_OPTIONS: { value: BlockedCompanyDisplay; label: string }[] = [
+    { value: 'dim', label: 'Dim their cards' },
+    { value: 'hide', label: 'Hide their cards' },
+];
+
+/**
+ * Settings → Companies: employers to dim or hide in search results and
+ * employers to badge there. "Block this company" in the side panel adds to
+ * the same lists. Saved together with the rest of the settings.
+ */
+export const CompaniesSection: React.FC<CompaniesSectionProps> = ({ value, onChange }) => {
+    const [drafts, setDrafts] = useState<Record<CompanyListStatus, string>>({ blocked: '', favourite: '' });
+
+    const handleAdd = (status: CompanyListStatus) => {
+        const name = drafts[status].trim();
+        if (!name) return;
+        onChange(setCompanyListStatus(value, name, status));
+        setDrafts(prev => ({ ...prev, [status]: '' }));
+    };
+
+    const handleRemove = (key: 'blocked' | 'favourites', name: string) =>
+        onChange({ ...value, [key]: value[key].filter(listed => listed !== name) });
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><Building2 size={24} /> Companies</h2>
+            <p className="section-desc">
+                Blocked companies are dimmed or hidden in LinkedIn, Indeed and HH.ru search results, and saving
+                one of their jobs warns you. Favourites get a star there. A name covers the longer forms boards
+                show: "Acme" also matches "Acme Inc." and "Acme Labs".
+            </p>
+
+            {LISTS.map(({ status, key, label, placeholder }) => {
+                const draft = drafts[status].trim();
+                const other = value[key === 'blocked' ? 'favourites' : 'blocked'];
+                return (
+                    <div className="field" key={status}>
+                        <label>{label}</label>
+                        {value[key].length > 0 && (
+                            <ul className="site-list">
+                                {value[key].map(name => (
+                                    <li key={name} className="site-item">
+                                        <span>{name}</span>
+                                        <button
+                                            className="icon-btn icon-btn--small"
+                                            onClick={() => handleRemove(key, name)}
+                                            title="Remove company"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="input-row">
+                            <input
+                                type="text"
+                                className="input"
+                                placeholder={placeholder}
+                                value={drafts[status]}
+                                onChange={e => setDrafts(prev => ({ ...prev, [status]: e.target.value }))}
+                                onKeyDown={e => { if (e.key === 'Enter') handleAdd(status); }}
+                            />
+                            <button className="icon-btn" onClick={() => handleAdd(status)} title="Add company">
+                                <Plus size={18} />
+                            </button>
+                        </div>
+                        {draft && other.some(name => listedCompanyMatches(name, draft) || listedCompanyMatches(draft, name)) && (
+                            <p className="field-hint">Adding it here takes it off the other list</p>
+                        )}
+                    </div>
+                );
+            })}
+
+            <div className="field">
+                <label>In Search Results</label>
+                <div className="radio-group">
+                    {DISPLAY_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            className={`radio-btn ${value.blockedDisplay === option.value ? 'active' : ''}`}
+                            onClick={() => onChange({ ...value, blockedDisplay: option.value })}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Target, X } from 'lucide-react';
+import type { CompensationPreferences } from '@job-bodyguard/types';
+
+interface CompensationSectionProps {
+    value: CompensationPreferences;
+    onChange: (value: CompensationPreferences) => void;
+}
+
+/** Rates are quoted against USD, so it can't be removed */
+const BASE_CURRENCY = 'USD';
+
+function parseAmount(text: string): number | null {
+    const amount = Number(text.replace(/[\s,]/g, ''));
+    return text.trim() && Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Keeps what the user is typing ("0.", "") locally and only reports
+ * positive numbers upwards; reverts to the last good rate on blur
+ */
+const RateInput: React.FC<{ rate: number; onCommit: (rate: number) => void }> = ({ rate, onCommit }) => {
+    const [draft, setDraft] = useState(String(rate));
+
+    useEffect(() => setDraft(String(rate)), [rate]);
+
+    return (
+        <input
+            type="text"
+            inputMode="decimal"
+            className="input rate-input"
+            value={draft}
+            onChange={e => {
+                setDraft(e.target.value);
+                const next = parseAmount(e.target.value);
+                if (next != null) onCommit(next);
+            }}
+            onBlur={() => setDraft(String(rate))}
+        />
+    );
+};
+
+/**
+ * Settings → Target Salary: preferred currency, annual target range and the
+ * exchange-rate table every job's salary is converted with. Saved together
+ * with the rest of the settings.
+ */
+export const CompensationSection: React.FC<CompensationSectionProps> = ({ value, onChange }) => {
+    const [newCode, setNewCode] = useState('');
+    const [newRate, setNewRate] = useState('');
+    const [rateError, setRateError] = useState<string | null>(null);
+
+    const currencies = Object.keys(value.exchangeRates).sort((a, b) =>
+        a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b)
+    );
+
+    const update = (patch: Partial<CompensationPreferences>) => onChange({ ...value, ...patch });
+
+    const setRate = (code: string, rate: number) =>
+        update({ exchangeRates: { ...value.exchangeRates, [code]: rate } });
+
+    const handleRemoveRate = (code: string) => {
+        const { [code]: _removed, ...rest } = value.exchangeRates;
+        update({ exchangeRates: rest });
+    };
+
+    const handleAddRate = () => {
+        const code = newCode.trim().toUpperCase();
+        const rate = parseAmount(newRate);
+        if (!/^[A-Z]{3}$/.test(code)) {
+            setRateError('Use a three-letter ISO currency code, e.g. NOK');
+            return;
+        }
+        if (rate == null) {
+            setRateError(`Enter how many ${code} one US dollar buys`);
+            return;
+        }
+        setRateError(null);
+        setRate(code, rate);
+        setNewCode('');
+        setNewRate('');
+    };
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><Target size={24} /> Target Salary</h2>
+            <p className="section-desc">
+                Salaries are converted to annual figures in your currency and compared with your target.
+                Jobs that can't reach your floor get a red flag. Exchange rates are never fetched — update
+                them here when they drift.
+            </p>
+
+            <div className="field">
+                <label htmlFor="compensation-currency">Preferred Currency</label>
+                <select
+                    id="compensation-currency"
+                    className="input"
+                    value={value.currency}
+                    onChange={e => update({ currency: e.target.value })}
+                >
+                    {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
+
+            <div className="field">
+                <label>Annual Target ({value.currency})</label>
+                <div className="input-row">
+                    <input
+                        type="number"
+                        min={0}
+                        className="input"
+                        placeholder="Floor, e.g. 80000"
+                        value={value.targetMin ?? ''}
+                        onChange={e => update({ targetMin: parseAmount(e.target.value) })}
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        className="input"
+                        placeholder="Upper end (optional)"
+                        value={value.targetMax ?? ''}
+                        onChange={e => update({ targetMax: parseAmount(e.target.value) })}
+                    />
+                </div>
+                {value.targetMin != null && value.targetMax != null && value.targetMax < value.targetMin && (
+                    <p className="field-hint field-hint--error">The upper end is below your floor</p>
+                )}
+            </div>
+
+            <div className="field">
+                <label>Exchange Rates</label>
+                <ul className="site-list rate-list">
+                    {currencies.map(code => (
+                        <li key={code} className="site-item">
+                            <span className="rate-label">1 {BASE_CURRENCY} =</span>
+                            {code === BASE_CURRENCY
+                                ? <span className="rate-base">1</span>
+                                : <RateInput rate={value.exchangeRates[code]} onCommit={rate => setRate(code, rate)} />}
+                            <span className="rate-code">{code}</span>
+                            <button
+                                className="icon-btn icon-btn--small"
+                                onClick={() => handleRemoveRate(code)}
+                                disabled={code === BASE_CURRENCY || code === value.currency}
+                                title={code === value.currency ? 'Your preferred currency can\'t be removed' : 'Remove rate'}
+                            >
+                                <X size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="input-row">
+                    <input
+                        type="text"
+                        className="input"
+                        placeholder="Code, e.g. NOK"
+                        maxLength={3}
+                        value={newCode}
+                        onChange={e => setNewCode(e.target.value)}
+                    />
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        className="input"
+                        placeholder="Units per 1 USD"
+                        value={newRate}
+                        onChange={e => setNewRate(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleAddRate(); }}
+                    />
+                    <button className="icon-btn" onClick={handleAddRate} title="Add currency">
+                        <Plus size={18} />
+                    </button>
+                </div>
+                {rateError && <p className="field-hint field-hint--error">{rateError}</p>}
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Download, FileCode, Trash2 } from 'lucide-react';
+import { getPlatform } from '@job-bodyguard/types';
+import type { ParseDiagnostic, ParseOutcome } from '@job-bodyguard/types';
+import { DEFAULT_SELECTOR_CONFIG } from '@job-bodyguard/parsers';
+import { downloadFile } from './download';
+
+const DIAGNOSTICS_KEY = 'parseDiagnostics';
+
+const OUTCOME_LABELS: Record<ParseOutcome, string> = {
+    success: 'OK',
+    partial: 'Partial',
+    failed: 'Failed',
+    error: 'Error',
+};
+
+/**
+ * Re-wrap a stored page snapshot as a parser fixture: the corpus runner
+ * reads the page URL from <meta name="jbg:fixture-url">
+ */
+function toFixtureHtml(record: ParseDiagnostic): string {
+    const url = record.url.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+    const meta = `<meta name="jbg:fixture-url" content="${url}">`;
+    const html = record.htmlSnapshot ?? '';
+    return /<head[^>]*>/i.test(html)
+        ? html.replace(/<head[^>]*>/i, (head) => `${head}\n${meta}`)
+        : `<!DOCTYPE html>\n<html><head>${meta}</head><body>${html}</body></html>`;
+}
+
+/**
+ * Settings → Diagnostics: the content script's parse records, newest first,
+ * with a JSON report export for bug reports
+ */
+export const DiagnosticsPanel: React.FC = () => {
+    const [records, setRecords] = useState<ParseDiagnostic[]>([]);
+
+    useEffect(() => {
+        chrome.storage.local.get(DIAGNOSTICS_KEY, (result) => {
+            setRecords((result[DIAGNOSTICS_KEY] as ParseDiagnostic[] | undefined) ?? []);
+        });
+
+        // New parses show up live while the tab is open
+        const onChanged = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+            if (area === 'local' && DIAGNOSTICS_KEY in changes) {
+                setRecords((changes[DIAGNOSTICS_KEY].newValue as ParseDiagnostic[] | undefined) ?? []);
+            }
+        };
+        chrome.storage.onChanged.addListener(onChanged);
+        return () => chrome.storage.onChanged.removeListener(onChanged);
+    }, []);
+
+    const handleExport = () => {
+        chrome.storage.local.get('selectorOverrides', (result) => {
+            const report = {
+                exportedAt: new Date().toISOString(),
+                extensionVersion: chrome.runtime.getManifest().version,
+                userAgent: navigator.userAgent,
+                selectorConfigVersion: DEFAULT_SELECTOR_CONFIG.version,
+                selectorOverrideVersion: result.selectorOverrides?.version ?? null,
+                records,
+            };
+            const stamp = report.exportedAt.slice(0, 19).replace(/[T:]/g, '-');
+            downloadFile(`job-bodyguard-diagnostics-${stamp}.json`, JSON.stringify(report, null, 4));
+        });
+    };
+
+    const handleExportFixture = (record: ParseDiagnostic) => {
+        const id = record.startedAt.slice(0, 19).replace(/[T:]/g, '-');
+        downloadFile(`${record.platform}-${id}.html`, toFixtureHtml(record), 'text/html');
+    };
+
+    const handleClear = () => {
+        chrome.storage.local.remove(DIAGNOSTICS_KEY, () => setRecords([]));
+    };
+
+    const failures = records.filter(r => r.outcome !== 'success').length;
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><Activity size={24} /> Parser Diagnostics</h2>
+            <p className="section-desc">
+                Every time Job Bodyguard reads a job page it records which fields came back empty and which
+                selectors matched. If a page isn't recognised, export the report and attach it to a bug report.
+                Failed runs keep a trimmed copy of the page that can be saved as a parser fixture.
+            </p>
+
+            <div className="diag-toolbar">
+                <span className="field-hint">
+                    {records.length === 0
+                        ? 'No parses recorded yet'
+                        : `${records.length} run${records.length === 1 ? '' : 's'}, ${failures} with problems`}
+                </span>
+                <div className="button-row">
+                    <button className="secondary-btn" onClick={handleExport} disabled={records.length === 0}>
+                        <Download size={16} /> Export report
+                    </button>
+                    <button className="secondary-btn" onClick={handleClear} disabled={records.length === 0}>
+                        <Trash2 size={16} /> Clear
+                    </button>
+                </div>
+            </div>
+
+            {records.length > 0 && (
+                <ul className="diag-list">
+                    {records.map(record => {
+                        const platform = getPlatform(record.platform);
+                        return (
+                            <li key={record.id} className="diag-item">
+                                <div className="diag-item-header">
+                                    <span className={`diag-outcome diag-outcome--${record.outcome}`}>
+                                        {OUTCOME_LABELS[record.outcome]}
+                                    </span>
+                                    <span className="diag-title" title={record.url}>
+                                        {platform.icon}{' '}
+                                        {record.title
+                                            ? `${record.title}${record.company ? ` @ ${record.company}` : ''}`
+                                            : record.url}
+                                    </span>
+                                    <span className="diag-time">{new Date(record.startedAt).toLocaleString()}</span>
+                                </div>
+
+                                <div className="diag-meta">
+                                    <span>{platform.name}</span>
+                                    <span>attempt {record.attempts}/{record.maxAttempts}</span>
+                                    <span>{record.durationMs} ms total · {record.extractMs} ms extract</span>
+                                    <span>JSON-LD {record.hasJsonLd ? 'yes' : 'no'}</span>
+                                </div>
+
+                                {record.emptyFields.length > 0 && (
+                                    <div className="diag-meta">
+                                        Empty: {record.emptyFields.map(f => <code key={f} className="diag-field">{f}</code>)}
+                                    </div>
+                                )}
+                                {record.error && <p className="field-hint field-hint--error">{record.error}</p>}
+
+                                <details className="diag-details">
+                                    <summary>Details</summary>
+                                    <p className="diag-url">{record.url}</p>
+                                    {Object.keys(record.selectorMatches).length > 0 ? (
+                                        <table className="diag-matches">
+                                            <tbody>
+                                                {Object.entries(record.selectorMatches).map(([field, selector]) => (
+                                                    <tr key={field}>
+                                                        <td>{field}</td>
+                                                        <td><code>{selector ?? '— no match'}</code></td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    ) : (
+                                        <p className="field-hint">This parser reads structured data, not CSS selectors</p>
+                                    )}
+                                    {record.htmlSnapshot && (
+                                        <button className="secondary-btn" onClick={() => handleExportFixture(record)}>
+                                            <FileCode size={16} /> Save page as fixture
+                                        </button>
+                                    )}
+                                </details>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+};
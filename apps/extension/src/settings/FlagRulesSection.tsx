@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Flag as FlagIcon, Plus, Pencil, X, Upload, Download, CheckCircle } from 'lucide-react';
+import { EMPTY_FLAG_RULE_SET, FLAG_CATEGORIES, FLAG_SEVERITIES } from '@job-bodyguard/types';
+import type { FlagRule, FlagRuleSet } from '@job-bodyguard/types';
+import { listBuiltInFlagRules, mergeFlagRuleSets, parseFlagRules, validateFlagRule } from '@job-bodyguard/parsers';
+import { downloadFile } from './download';
+
+const FLAG_RULES_KEY = 'flagRules';
+
+type RuleDraft = Omit<FlagRule, 'id' | 'enabled'>;
+
+const EMPTY_DRAFT: RuleDraft = {
+    kind: 'red',
+    label: '',
+    category: 'workload',
+    severity: 'medium',
+    match: 'keyword',
+    pattern: '',
+};
+
+/**
+ * Settings → Flag Rules: the user's own red/green flag rules on top of the
+ * built-in language packs. Saved to chrome.storage.sync on every change
+ * (after validation); content scripts pick them up on the next parse.
+ */
+export const FlagRulesSection: React.FC = () => {
+    const [ruleSet, setRuleSet] = useState<FlagRuleSet>(EMPTY_FLAG_RULE_SET);
+    const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const builtIns = useMemo(() => listBuiltInFlagRules(), []);
+
+    useEffect(() => {
+        chrome.storage.sync.get(FLAG_RULES_KEY, (result) => {
+            if (!result[FLAG_RULES_KEY]) return;
+            try {
+                setRuleSet(parseFlagRules(result[FLAG_RULES_KEY]));
+            } catch (err) {
+                setError(`Saved rules are invalid and are being ignored: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        });
+    }, []);
+
+    const flash = (message: string) => {
+        setNotice(message);
+        setTimeout(() => setNotice(null), 2500);
+    };
+
+    /** `onSaved` runs only once the write went through (sync storage caps each item at 8 KB) */
+    const persist = (next: FlagRuleSet, message?: string, onSaved?: () => void) => {
+        chrome.storage.sync.set({ [FLAG_RULES_KEY]: next }, () => {
+            if (chrome.runtime.lastError) {
+                setError(`Could not save rules: ${chrome.runtime.lastError.message}`);
+                return;
+            }
+            setError(null);
+            setRuleSet(next);
+            if (message) flash(message);
+            onSaved?.();
+        });
+    };
+
+    const update = (patch: Partial<RuleDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const resetDraft = () => {
+        setDraft(EMPTY_DRAFT);
+        setEditingId(null);
+    };
+
+    const handleSubmit = () => {
+        const rule = { ...draft, label: draft.label.trim() };
+        const problem = validateFlagRule(rule);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+
+        const rules = editingId
+            ? ruleSet.rules.map(r => r.id === editingId ? { ...r, ...rule } : r)
+            : [...ruleSet.rules, { ...rule, id: crypto.randomUUID(), enabled: true }];
+        // The draft stays in the form when the write fails, so the rule isn't lost
+        persist({ ...ruleSet, rules }, editingId ? 'Rule updated' : 'Rule added', resetDraft);
+    };
+
+    const handleEdit = (rule: FlagRule) => {
+        const { id, enabled: _enabled, ...fields } = rule;
+        setDraft(fields);
+        setEditingId(id);
+        setError(null);
+    };
+
+    const handleToggle = (id: string) => {
+        persist({ ...ruleSet, rules: ruleSet.rules.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r) });
+    };
+
+    const handleDelete = (id: string) => {
+        if (editingId === id) resetDraft();
+        persist({ ...ruleSet, rules: ruleSet.rules.filter(r => r.id !== id) });
+    };
+
+    const handleToggleBuiltIn = (label: string) => {
+        const disabled = ruleSet.disabledBuiltIns.includes(label)
+            ? ruleSet.disabledBuiltIns.filter(l => l !== label)
+            : [...ruleSet.disabledBuiltIns, label];
+        persist({ ...ruleSet, disabledBuiltIns: disabled });
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+            try {
+                const imported = parseFlagRules(String(ev.target?.result ?? ''));
+                persist(mergeFlagRuleSets(ruleSet, imported), `Imported ${imported.rules.length} rule${imported.rules.length === 1 ? '' : 's'}`);
+            } catch (err) {
+                setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleExport = () => {
+        downloadFile('job-bodyguard-flag-rules.json', JSON.stringify(ruleSet, null, 4));
+    };
+
+    const builtInsOn = builtIns.filter(rule => !ruleSet.disabledBuiltIns.includes(rule.label)).length;
+    const overridden = new Set(ruleSet.rules.filter(r => r.enabled).map(r => `${r.kind}:${r.label}`));
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><FlagIcon size={24} /> Flag Rules</h2>
+            <p className="section-desc">
+                Add your own red and green flags, or switch off built-in ones. A keyword matches whole words in any
+                case; a regex is matched case-insensitively. A rule with the same label as a built-in one replaces it.
+                Share a rule pack with your team through Export and Import.
+            </p>
+
+            {ruleSet.rules.length > 0 && (
+                <ul className="site-list rule-list">
+                    {ruleSet.rules.map(rule => (
+                        <li key={rule.id} className={`site-item rule-item ${rule.enabled ? '' : 'rule-item--disabled'}`}>
+                            <input
+                                type="checkbox"
+                                checked={rule.enabled}
+                                onChange={() => handleToggle(rule.id)}
+                                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                            />
+                            <span className={`rule-kind rule-kind--${rule.kind}`}>{rule.kind === 'red' ? 'Red' : 'Green'}</span>
+                            <span className="rule-body">
+                                <strong>{rule.label}</strong>
+                                <span className="rule-meta">
+                                    <code>{rule.pattern}</code> · {rule.match} · {rule.category} · {rule.severity}
+                                </span>
+                            </span>
+                            <button className="icon-btn icon-btn--small" onClick={() => handleEdit(rule)} title="Edit rule">
+                                <Pencil size={14} />
+                            </button>
+                            <button className="icon-btn icon-btn--small" onClick={() => handleDelete(rule.id)} title="Delete rule">
+                                <X size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="field">
+                <label>{editingId ? 'Edit Rule' : 'New Rule'}</label>
+                <div className="input-row">
+                    <select className="input" value={draft.kind} onChange={e => update({ kind: e.target.value as RuleDraft['kind'] })}>
+                        <option value="red">Red flag</option>
+                        <option value="green">Green flag</option>
+                    </select>
+                    <input
+                        type="text"
+                        className="input"
+                        placeholder="Label, e.g. On-call rotation"
+                        value={draft.label}
+                        onChange={e => update({ label: e.target.value })}
+                    />
+                </div>
+                <div className="input-row">
+                    <select className="input" value={draft.category} onChange={e => update({ category: e.target.value as RuleDraft['category'] })}>
+                        {FLAG_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                    </select>
+                    <select className="input" value={draft.severity} onChange={e => update({ severity: e.target.value as RuleDraft['severity'] })}>
+                        {FLAG_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                    </select>
+                    <select className="input" value={draft.match} onChange={e => update({ match: e.target.value as RuleDraft['match'] })}>
+                        <option value="keyword">Keyword</option>
+                        <option value="regex">Regex</option>
+                    </select>
+                </div>
+                <div className="input-row">
+                    <input
+                        type="text"
+                        className={`input ${draft.match === 'regex' ? 'input--code' : ''}`}
+                        placeholder={draft.match === 'regex' ? 'on[- ]?call|pager' : 'on-call'}
+                        spellCheck={false}
+                        value={draft.pattern}
+                        onChange={e => update({ pattern: e.target.value })}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSubmit(); }}
+                    />
+                    <button className="icon-btn" onClick={handleSubmit} title={editingId ? 'Save rule' : 'Add rule'}>
+                        {editingId ? <CheckCircle size={18} /> : <Plus size={18} />}
+                    </button>
+                    {editingId && (
+                        <button className="icon-btn" onClick={resetDraft} title="Cancel editing">
+                            <X size={18} />
+                        </button>
+                    )}
+                </div>
+                {error && <p className="field-hint field-hint--error">{error}</p>}
+                {notice && <p className="field-hint">{notice}</p>}
+            </div>
+
+            <details className="builtin-rules">
+                <summary>Built-in rules ({builtInsOn} of {builtIns.length} on)</summary>
+                <ul className="builtin-list">
+                    {builtIns.map(rule => (
+                        <li key={`${rule.kind}:${rule.label}`}>
+                            <label className="builtin-item">
+                                <input
+                                    type="checkbox"
+                                    checked={!ruleSet.disabledBuiltIns.includes(rule.label)}
+                                    onChange={() => handleToggleBuiltIn(rule.label)}
+                                />
+                                <span className={`rule-kind rule-kind--${rule.kind}`}>{rule.kind === 'red' ? 'Red' : 'Green'}</span>
+                                {rule.label}
+                                <span className="rule-meta">
+                                    {rule.category} · {rule.severity}
+                                    {overridden.has(`${rule.kind}:${rule.label}`) && ' · replaced by your rule'}
+                                </span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            </details>
+
+            <div className="button-row">
+                <label className="secondary-btn">
+                    <Upload size={16} /> Import rules
+                    <input type="file" accept=".json,application/json" className="file-input" onChange={handleImport} />
+                </label>
+                <button className="secondary-btn" onClick={handleExport} disabled={ruleSet.rules.length === 0 && ruleSet.disabledBuiltIns.length === 0}>
+                    <Download size={16} /> Export
+                </button>
+            </div>
+        </section>
+    );
+};
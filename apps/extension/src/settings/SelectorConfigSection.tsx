@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Code, Upload, Download, CheckCircle, RotateCcw } from 'lucide-react';
+import { DEFAULT_SELECTOR_CONFIG, parseSelectorConfig } from '@job-bodyguard/parsers';
+import type { SelectorConfig } from '@job-bodyguard/parsers';
+import { downloadFile } from './download';
+
+const SELECTOR_OVERRIDES_KEY = 'selectorOverrides';
+
+/**
+ * Settings → Parser Selectors: view the bundled selector config and load an
+ * override (pasted or imported from a file) that content scripts pick up
+ * immediately via chrome.storage.onChanged.
+ */
+export const SelectorConfigSection: React.FC = () => {
+    const [override, setOverride] = useState<SelectorConfig | null>(null);
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        chrome.storage.local.get(SELECTOR_OVERRIDES_KEY, (result) => {
+            const stored = result[SELECTOR_OVERRIDES_KEY] as SelectorConfig | undefined;
+            if (stored) {
+                setOverride(stored);
+                setDraft(JSON.stringify(stored, null, 4));
+            }
+        });
+    }, []);
+
+    const flash = (message: string) => {
+        setNotice(message);
+        setTimeout(() => setNotice(null), 2500);
+    };
+
+    const applyDraft = (text: string) => {
+        let config: SelectorConfig;
+        try {
+            config = parseSelectorConfig(text);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            return;
+        }
+        if (config.version < DEFAULT_SELECTOR_CONFIG.version) {
+            setError(`Override is v${config.version} but the bundled selectors are v${DEFAULT_SELECTOR_CONFIG.version}. Bump "version" to apply it anyway.`);
+            return;
+        }
+
+        setError(null);
+        chrome.storage.local.set({ [SELECTOR_OVERRIDES_KEY]: config }, () => {
+            setOverride(config);
+            setDraft(JSON.stringify(config, null, 4));
+            flash('Override applied — open job tabs use it on the next parse');
+        });
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (ev) => applyDraft(String(ev.target?.result ?? ''));
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleExport = () => {
+        const config = override ?? DEFAULT_SELECTOR_CONFIG;
+        downloadFile(`job-bodyguard-selectors-v${config.version}.json`, JSON.stringify(config, null, 4));
+    };
+
+    const handleReset = () => {
+        chrome.storage.local.remove(SELECTOR_OVERRIDES_KEY, () => {
+            setOverride(null);
+            setDraft('');
+            setError(null);
+            flash('Using bundled selectors');
+        });
+    };
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><Code size={24} /> Parser Selectors</h2>
+            <p className="section-desc">
+                When a job board renames its CSS classes, fix the selector here instead of waiting for an update.
+                Each field lists selectors tried in order; fields you include replace the bundled ones, the rest stay as shipped.
+            </p>
+
+            <div className="field">
+                <label>Status</label>
+                <p className="field-hint">
+                    Bundled selectors v{DEFAULT_SELECTOR_CONFIG.version}
+                    {DEFAULT_SELECTOR_CONFIG.updatedAt && ` (${DEFAULT_SELECTOR_CONFIG.updatedAt})`}
+                    {' · '}
+                    {override
+                        ? `override v${override.version} active for ${Object.keys(override.platforms).join(', ') || 'no platforms'}`
+                        : 'no override'}
+                </p>
+            </div>
+
+            <div className="field">
+                <label htmlFor="selector-override">Override JSON</label>
+                <textarea
+                    id="selector-override"
+                    className="textarea textarea--code"
+                    rows={10}
+                    spellCheck={false}
+                    placeholder={`{\n    "version": ${DEFAULT_SELECTOR_CONFIG.version},\n    "platforms": {\n        "linkedin": { "title": [".new-title-class h1"] }\n    }\n}`}
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                />
+                {error && <p className="field-hint field-hint--error">{error}</p>}
+                {notice && <p className="field-hint">{notice}</p>}
+            </div>
+
+            <div className="button-row">
+                <button className="secondary-btn" onClick={() => applyDraft(draft)} disabled={!draft.trim()}>
+                    <CheckCircle size={16} /> Apply
+                </button>
+                <label className="secondary-btn">
+                    <Upload size={16} /> Import file
+                    <input type="file" accept=".json,application/json" className="file-input" onChange={handleImport} />
+                </label>
+                <button className="secondary-btn" onClick={handleExport}>
+                    <Download size={16} /> Export
+                </button>
+                <button className="secondary-btn" onClick={handleReset} disabled={!override}>
+                    <RotateCcw size={16} /> Reset
+                </button>
+            </div>
+        </section>
+    );
+};
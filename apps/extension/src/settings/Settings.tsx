@@ -1,39 +1,98 @@
 import React, { useEffect, useState } from 'react';
-import { Briefcase, Cpu, FileText, Settings as SettingsIcon, Trash2, Eye, EyeOff, CheckCircle, XCircle, FilePlus, ArrowLeft, Save, AlertTriangle } from 'lucide-react';
+import { Briefcase, FileText, Settings as SettingsIcon, Trash2, CheckCircle, XCircle, FilePlus, ArrowLeft, Save, AlertTriangle, Globe, Plus, X, Activity } from 'lucide-react';
+import {
+    DEFAULT_AI_PROVIDER_SETTINGS, DEFAULT_COMPANY_LISTS, DEFAULT_COMPENSATION_PREFERENCES, DEFAULT_TOXICITY_WEIGHTS,
+    resolveAiProviderId, resolveAiProviderSettings, resolveToxicityWeights,
+} from '@job-bodyguard/types';
+import type { AiProviderId, AiProviderSettings, CompanyLists, CompensationPreferences, ToxicityWeights } from '@job-bodyguard/types';
+import { SelectorConfigSection } from './SelectorConfigSection';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { CompensationSection } from './CompensationSection';
+import { FlagRulesSection } from './FlagRulesSection';
+import { ToxicitySection } from './ToxicitySection';
+import { CompaniesSection } from './CompaniesSection';
+import { AiProviderSection } from './AiProviderSection';
+import { watchCompanyLists } from '../shared/companyLists';
 
 interface ExtensionSettings {
     apiKey: string;
-    apiProvider: 'openai' | 'anthropic' | 'custom';
-    customApiUrl: string;
+    apiProvider: AiProviderId;
+    aiProviders: AiProviderSettings;
     customPrompt: string;
     resumeText: string;
+    compensation: CompensationPreferences;
+    toxicityWeights: ToxicityWeights;
+    companyLists: CompanyLists;
 }
 
 const DEFAULT_SETTINGS: ExtensionSettings = {
     apiKey: '',
     apiProvider: 'openai',
-    customApiUrl: '',
+    aiProviders: DEFAULT_AI_PROVIDER_SETTINGS,
     customPrompt: '',
     resumeText: '',
+    compensation: DEFAULT_COMPENSATION_PREFERENCES,
+    toxicityWeights: DEFAULT_TOXICITY_WEIGHTS,
+    companyLists: DEFAULT_COMPANY_LISTS,
 };
 
 type SaveState = 'idle' | 'saving' | 'saved' | 'error';
 
+type SettingsTab = 'general' | 'diagnostics';
+
+/**
+ * Turn "careers.acme.com" or "https://boards.greenhouse.io/acme" into a
+ * host permission pattern ("https://careers.acme.com/*")
+ */
+function toOriginPattern(input: string): string | null {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+    try {
+        const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        if (url.protocol !== 'https:') return null;
+        return `https://${url.host}/*`;
+    } catch {
+        return null;
+    }
+}
+
 export const Settings: React.FC = () => {
     const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
     const [saveState, setSaveState] = useState<SaveState>('idle');
-    const [showKey, setShowKey] = useState(false);
     const [clearState, setClearState] = useState<SaveState>('idle');
+    const [careerSites, setCareerSites] = useState<string[]>([]);
+    const [newSite, setNewSite] = useState('');
+    const [siteError, setSiteError] = useState<string | null>(null);
+    const [tab, setTab] = useState<SettingsTab>(
+        () => window.location.hash === '#diagnostics' ? 'diagnostics' : 'general'
+    );
+
+    const loadCareerSites = () => {
+        chrome.permissions.getAll(({ origins = [] }) => {
+            const builtIn = new Set(chrome.runtime.getManifest().host_permissions ?? []);
+            setCareerSites(origins.filter(o => !builtIn.has(o)));
+        });
+    };
 
     useEffect(() => {
         chrome.runtime.sendMessage(
             { type: 'GET_SETTINGS', payload: null, timestamp: Date.now() },
             (response) => {
                 if (response?.success && response.data) {
-                    setSettings({ ...DEFAULT_SETTINGS, ...response.data });
+                    setSettings({
+                        ...DEFAULT_SETTINGS,
+                        ...response.data,
+                        apiProvider: resolveAiProviderId(response.data.apiProvider),
+                        aiProviders: resolveAiProviderSettings(response.data.aiProviders, response.data.customApiUrl),
+                        toxicityWeights: resolveToxicityWeights(response.data.toxicityWeights),
+                        companyLists: { ...DEFAULT_COMPANY_LISTS, ...response.data.companyLists },
+                    });
                 }
             }
         );
+        loadCareerSites();
+        // "Block this company" in the side panel saves straight to storage
+        return watchCompanyLists(companyLists => setSettings(prev => ({ ...prev, companyLists })));
     }, []);
 
     const handleSave = () => {
@@ -64,6 +123,33 @@ export const Settings: React.FC = () => {
         reader.readAsText(file);
     };
 
+    const handleAddCareerSite = () => {
+        const pattern = toOriginPattern(newSite);
+        if (!pattern) {
+            setSiteError('Enter an https:// address, e.g. careers.example.com');
+            return;
+        }
+        setSiteError(null);
+        // Must run inside the click handler — Chrome only shows the prompt for user gestures
+        chrome.permissions.request({ origins: [pattern] }, (granted) => {
+            if (granted) {
+                setNewSite('');
+                loadCareerSites();
+            } else {
+                setSiteError('Permission was not granted');
+            }
+        });
+    };
+
+    const handleRemoveCareerSite = (pattern: string) => {
+        chrome.permissions.remove({ origins: [pattern] }, () => loadCareerSites());
+    };
+
+    const handleTabChange = (next: SettingsTab) => {
+        setTab(next);
+        history.replaceState(null, '', next === 'general' ? window.location.pathname : `#${next}`);
+    };
+
     const handleClearJobs = () => {
         if (!confirm('Clear ALL saved jobs? This cannot be undone.')) return;
         setClearState('saving');
@@ -90,77 +176,30 @@ export const Settings: React.FC = () => {
             </header>
 
             <div className="settings-body">
-                <div className="settings-sections">
-
-                    {/* AI Provider */}
-                    <section className="settings-section">
-                        <h2 className="section-title"><Cpu size={24} /> AI Provider</h2>
-                        <p className="section-desc">
-                            Your API key is stored locally in Chrome and is only sent directly to the AI provider you choose.
-                            We never see your key.
-                        </p>
+                <nav className="settings-tabs">
+                    <button
+                        className={`settings-tab ${tab === 'general' ? 'active' : ''}`}
+                        onClick={() => handleTabChange('general')}
+                    >
+                        <SettingsIcon size={16} /> General
+                    </button>
+                    <button
+                        className={`settings-tab ${tab === 'diagnostics' ? 'active' : ''}`}
+                        onClick={() => handleTabChange('diagnostics')}
+                    >
+                        <Activity size={16} /> Diagnostics
+                    </button>
+                </nav>
 
-                        <div className="field">
-                            <label>Provider</label>
-                            <div className="radio-group">
-                                {['openai', 'anthropic', 'custom'].map(p => (
-                                    <button
-                                        key={p}
-                                        className={`radio-btn ${settings.apiProvider === p ? 'active' : ''}`}
-                                        onClick={() => setSettings(prev => ({ ...prev, apiProvider: p as ExtensionSettings['apiProvider'] }))}
-                                    >
-                                        {p === 'openai' && 'OpenAI'}
-                                        {p === 'anthropic' && 'Anthropic'}
-                                        {p === 'custom' && 'Custom Base URL'}
-                                    </button>
-                                ))}
-                            </div>
-                        </div>
+                {tab === 'diagnostics' && <DiagnosticsPanel />}
 
-                        <div className="field">
-                            <label>API Key</label>
-                            <div className="input-row">
-                                <input
-                                    type={showKey ? 'text' : 'password'}
-                                    className="input"
-                                    placeholder={
-                                        settings.apiProvider === 'openai'
-                                            ? 'sk-...'
-                                            : settings.apiProvider === 'anthropic'
-                                                ? 'sk-ant-...'
-                                                : 'Your API key'
-                                    }
-                                    value={settings.apiKey}
-                                    onChange={e => setSettings(prev => ({ ...prev, apiKey: e.target.value }))}
-                                />
-                                <button
-                                    className="icon-btn"
-                                    onClick={() => setShowKey(!showKey)}
-                                    title={showKey ? 'Hide key' : 'Show key'}
-                                >
-                                    {showKey ? <EyeOff size={18} /> : <Eye size={18} />}
-                                </button>
-                            </div>
-                            <p className="field-hint">
-                                {settings.apiProvider === 'openai' && 'Get yours at platform.openai.com'}
-                                {settings.apiProvider === 'anthropic' && 'Get yours at console.anthropic.com'}
-                                {settings.apiProvider === 'custom' && 'Enter your API key (if required by custom endpoint)'}
-                            </p>
-                        </div>
+                <div className="settings-sections" hidden={tab !== 'general'}>
 
-                        {settings.apiProvider === 'custom' && (
-                            <div className="field">
-                                <label>Custom API URL</label>
-                                <input
-                                    type="text"
-                                    className="input"
-                                    placeholder="https://your-endpoint.com/v1/chat/completions"
-                                    value={settings.customApiUrl}
-                                    onChange={e => setSettings(prev => ({ ...prev, customApiUrl: e.target.value }))}
-                                />
-                            </div>
-                        )}
-                    </section>
+                    {/* AI Provider */}
+                    <AiProviderSection
+                        value={settings}
+                        onChange={({ apiKey, apiProvider, aiProviders }) => setSettings(prev => ({ ...prev, apiKey, apiProvider, aiProviders }))}
+                    />
 
                     {/* Resume */}
                     <section className="settings-section">
@@ -200,6 +239,75 @@ export const Settings: React.FC = () => {
                         )}
                     </section>
 
+                    {/* Target Salary */}
+                    <CompensationSection
+                        value={settings.compensation}
+                        onChange={compensation => setSettings(prev => ({ ...prev, compensation }))}
+                    />
+
+                    {/* Flag Rules */}
+                    <FlagRulesSection />
+
+                    {/* Toxicity Score */}
+                    <ToxicitySection
+                        value={settings.toxicityWeights}
+                        onChange={toxicityWeights => setSettings(prev => ({ ...prev, toxicityWeights }))}
+                    />
+
+                    {/* Companies */}
+                    <CompaniesSection
+                        value={settings.companyLists}
+                        onChange={companyLists => setSettings(prev => ({ ...prev, companyLists }))}
+                    />
+
+                    {/* Career Sites */}
+                    <section className="settings-section">
+                        <h2 className="section-title"><Globe size={24} /> Career Sites</h2>
+                        <p className="section-desc">
+                            LinkedIn, Indeed and HH.ru work out of the box. Add any other career site
+                            (Greenhouse, Lever, Workday, Ashby, a company's own jobs page) and Job Bodyguard will read
+                            its structured job data. Chrome will ask you to allow access to each site.
+                        </p>
+
+                        <div className="field">
+                            <label>Add Site</label>
+                            <div className="input-row">
+                                <input
+                                    type="text"
+                                    className="input"
+                                    placeholder="careers.example.com"
+                                    value={newSite}
+                                    onChange={e => setNewSite(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleAddCareerSite(); }}
+                                />
+                                <button className="icon-btn" onClick={handleAddCareerSite} title="Add site">
+                                    <Plus size={18} />
+                                </button>
+                            </div>
+                            {siteError && <p className="field-hint field-hint--error">{siteError}</p>}
+                        </div>
+
+                        {careerSites.length > 0 && (
+                            <ul className="site-list">
+                                {careerSites.map(site => (
+                                    <li key={site} className="site-item">
+                                        <span>{site.replace(/^https:\/\//, '').replace(/\/\*$/, '')}</span>
+                                        <button
+                                            className="icon-btn icon-btn--small"
+                                            onClick={() => handleRemoveCareerSite(site)}
+                                            title="Remove site"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+
+                    {/* Parser Selectors */}
+                    <SelectorConfigSection />
+
                     {/* Custom Prompt */}
                     <section className="settings-section">
                         <h2 className="section-title"><SettingsIcon size={24} /> Custom System Prompt</h2>
@@ -237,7 +345,7 @@ export const Settings: React.FC = () => {
                 </div>
 
                 {/* Save button */}
-                <div className="settings-footer">
+                <div className="settings-footer" hidden={tab !== 'general'}>
                     <div className="settings-footer-inner">
                         <button
                             className={`save-btn ${saveState === 'saved' ? 'save-btn--success' : ''} ${saveState === 'error' ? 'save-btn--error' : ''}`}
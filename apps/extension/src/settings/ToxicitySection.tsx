@@ -0,0 +1,106 @@
+import React from 'react';
+import { RotateCcw, ShieldAlert } from 'lucide-react';
+import { DEFAULT_TOXICITY_WEIGHTS, FLAG_CATEGORIES, FLAG_SEVERITIES } from '@job-bodyguard/types';
+import type { ToxicityWeights } from '@job-bodyguard/types';
+
+interface ToxicitySectionProps {
+    value: ToxicityWeights;
+    onChange: (value: ToxicityWeights) => void;
+}
+
+type SignalKey = 'greenFlag' | 'hiddenSalary' | 'transparentSalary' | 'salaryMismatch' | 'staleJob' | 'repostHistory';
+
+const SIGNALS: { key: SignalKey; label: string }[] = [
+    { key: 'greenFlag', label: 'Green flag (points off)' },
+    { key: 'hiddenSalary', label: 'No salary published' },
+    { key: 'transparentSalary', label: 'Salary published (points off)' },
+    { key: 'salaryMismatch', label: 'Salary only in page data' },
+    { key: 'staleJob', label: 'Open over a month' },
+    { key: 'repostHistory', label: 'Certain ghost job' },
+];
+
+const WeightInput: React.FC<{ label: string; value: number; step?: number; onCommit: (value: number) => void }> = ({
+    label,
+    value,
+    step = 1,
+    onCommit,
+}) => (
+    <label className="weight-item">
+        <span>{label}</span>
+        <input
+            type="number"
+            min={0}
+            step={step}
+            className="input"
+            value={value}
+            onChange={e => {
+                const next = Number(e.target.value);
+                if (e.target.value.trim() && Number.isFinite(next) && next >= 0) onCommit(next);
+            }}
+        />
+    </label>
+);
+
+/**
+ * Settings → Toxicity Score: weights of the local 0-100 score shown on the
+ * banner and in the popup. Saved together with the rest of the settings.
+ */
+export const ToxicitySection: React.FC<ToxicitySectionProps> = ({ value, onChange }) => {
+    const update = (patch: Partial<ToxicityWeights>) => onChange({ ...value, ...patch });
+
+    return (
+        <section className="settings-section">
+            <h2 className="section-title"><ShieldAlert size={24} /> Toxicity Score</h2>
+            <p className="section-desc">
+                Every job gets a 0–100 toxicity score without AI. It starts at 25, and each red flag, green flag and
+                signal below adds or takes off points. Flags count in proportion to how sure the analyzer is, times
+                their category multiplier. The AI analysis uses this score as its starting point.
+            </p>
+
+            <div className="field">
+                <label>Points per Red Flag</label>
+                <div className="weight-grid">
+                    {FLAG_SEVERITIES.map(severity => (
+                        <WeightInput
+                            key={severity}
+                            label={severity}
+                            value={value.redFlag[severity]}
+                            onCommit={points => update({ redFlag: { ...value.redFlag, [severity]: points } })}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div className="field">
+                <label>Other Signals</label>
+                <div className="weight-grid">
+                    {SIGNALS.map(({ key, label }) => (
+                        <WeightInput key={key} label={label} value={value[key]} onCommit={points => update({ [key]: points })} />
+                    ))}
+                </div>
+            </div>
+
+            <div className="field">
+                <label>Category Multipliers</label>
+                <div className="weight-grid">
+                    {FLAG_CATEGORIES.map(category => (
+                        <WeightInput
+                            key={category}
+                            label={category}
+                            value={value.categories[category]}
+                            step={0.1}
+                            onCommit={multiplier => update({ categories: { ...value.categories, [category]: multiplier } })}
+                        />
+                    ))}
+                </div>
+                <p className="field-hint">Set a category to 0 to leave its flags out of the score.</p>
+            </div>
+
+            <div className="button-row">
+                <button className="secondary-btn" onClick={() => onChange(DEFAULT_TOXICITY_WEIGHTS)}>
+                    <RotateCcw size={16} /> Reset to defaults
+                </button>
+            </div>
+        </section>
+    );
+};
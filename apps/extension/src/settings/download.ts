@@ -0,0 +1,10 @@
+/**
+ * Save a string as a file via a temporary object URL
+ */
+export function downloadFile(filename: string, content: string, type = 'application/json'): void {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([content], { type }));
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(a.href);
+}
@@ -0,0 +1,60 @@
+import type { AnalysisResult, JobData } from '@job-bodyguard/types';
+
+/**
+ * Streaming analysis between the side panel and the background worker,
+ * over a long-lived port: the panel connects and sends the job, the worker
+ * posts the fields read so far while the reply streams in, then the
+ * validated result. Disconnecting the port cancels the request.
+ */
+
+export const ANALYSIS_PORT = 'jbg-analysis';
+
+export interface AnalysisStreamRequest {
+    type: 'start';
+    jobData: JobData;
+}
+
+export type AnalysisStreamMessage =
+    | { type: 'partial'; partial: Partial<AnalysisResult> }
+    | { type: 'done'; result: AnalysisResult }
+    | { type: 'error'; error: string };
+
+export interface AnalysisStreamHandlers {
+    onPartial: (partial: Partial<AnalysisResult>) => void;
+    onDone: (result: AnalysisResult) => void;
+    onError: (error: string) => void;
+}
+
+/** Starts an analysis; returns a function that cancels it */
+export function streamAnalysis(jobData: JobData, handlers: AnalysisStreamHandlers): () => void {
+    const port = chrome.runtime.connect({ name: ANALYSIS_PORT });
+    let finished = false;
+    const finish = () => {
+        finished = true;
+        port.disconnect();
+    };
+
+    port.onMessage.addListener((message: AnalysisStreamMessage) => {
+        if (finished) return;
+        if (message.type === 'partial') {
+            handlers.onPartial(message.partial);
+        } else if (message.type === 'done') {
+            finish();
+            handlers.onDone(message.result);
+        } else {
+            finish();
+            handlers.onError(message.error);
+        }
+    });
+    // The worker went away mid-request (extension reloaded or updated)
+    port.onDisconnect.addListener(() => {
+        if (finished) return;
+        finished = true;
+        handlers.onError('Lost the connection to the background service. Try reloading the extension.');
+    });
+
+    port.postMessage({ type: 'start', jobData } satisfies AnalysisStreamRequest);
+    return () => {
+        if (!finished) finish();
+    };
+}
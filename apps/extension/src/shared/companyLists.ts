@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_COMPANY_LISTS } from '@job-bodyguard/types';
+import type { CompanyLists } from '@job-bodyguard/types';
+
+/**
+ * Blocked and favourite companies live inside the synced `settings` object
+ * (Settings → Companies, or "Block this company" in the side panel). Older
+ * settings without them get empty lists.
+ */
+function fromSettings(settings: { companyLists?: Partial<CompanyLists> } | undefined): CompanyLists {
+    return { ...DEFAULT_COMPANY_LISTS, ...settings?.companyLists };
+}
+
+export function loadCompanyLists(): Promise<CompanyLists> {
+    return new Promise((resolve) => {
+        chrome.storage.sync.get('settings', (result) => resolve(fromSettings(result.settings)));
+    });
+}
+
+/** Writes the lists into the stored settings, leaving the other settings as they are */
+export function saveCompanyLists(lists: CompanyLists): Promise<void> {
+    return new Promise((resolve) => {
+        chrome.storage.sync.get('settings', (result) => {
+            chrome.storage.sync.set({ settings: { ...result.settings, companyLists: lists } }, () => resolve());
+        });
+    });
+}
+
+/** Calls `onChange` whenever the settings are saved; returns an unsubscribe function */
+export function watchCompanyLists(onChange: (lists: CompanyLists) => void): () => void {
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+        if (area === 'sync' && changes.settings) onChange(fromSettings(changes.settings.newValue));
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export function useCompanyLists(): CompanyLists {
+    const [lists, setLists] = useState(DEFAULT_COMPANY_LISTS);
+
+    useEffect(() => {
+        void loadCompanyLists().then(setLists);
+        return watchCompanyLists(setLists);
+    }, []);
+
+    return lists;
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_COMPENSATION_PREFERENCES } from '@job-bodyguard/types';
+import type { CompensationPreferences } from '@job-bodyguard/types';
+
+/**
+ * Target salary + exchange rates live inside the synced `settings` object
+ * (Settings → Target Salary). Older settings without them get the defaults.
+ */
+function fromSettings(settings: { compensation?: Partial<CompensationPreferences> } | undefined): CompensationPreferences {
+    return { ...DEFAULT_COMPENSATION_PREFERENCES, ...settings?.compensation };
+}
+
+export function loadCompensationPreferences(): Promise<CompensationPreferences> {
+    return new Promise((resolve) => {
+        chrome.storage.sync.get('settings', (result) => resolve(fromSettings(result.settings)));
+    });
+}
+
+/** Calls `onChange` whenever the settings are saved; returns an unsubscribe function */
+export function watchCompensationPreferences(onChange: (preferences: CompensationPreferences) => void): () => void {
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+        if (area === 'sync' && changes.settings) onChange(fromSettings(changes.settings.newValue));
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export function useCompensationPreferences(): CompensationPreferences {
+    const [preferences, setPreferences] = useState(DEFAULT_COMPENSATION_PREFERENCES);
+
+    useEffect(() => {
+        void loadCompensationPreferences().then(setPreferences);
+        return watchCompensationPreferences(setPreferences);
+    }, []);
+
+    return preferences;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { parseResume } from '@job-bodyguard/parsers';
+import type { ResumeData } from '@job-bodyguard/types';
+
+/**
+ * The resume text lives inside the synced `settings` object (Settings →
+ * Your Resume); pages that match jobs against it read it parsed.
+ */
+function fromSettings(settings: { resumeText?: string } | undefined): ResumeData | null {
+    const text = settings?.resumeText?.trim();
+    return text ? parseResume(text) : null;
+}
+
+export function loadResume(): Promise<ResumeData | null> {
+    return new Promise((resolve) => {
+        chrome.storage.sync.get('settings', (result) => resolve(fromSettings(result.settings)));
+    });
+}
+
+/** Calls `onChange` whenever the settings are saved; returns an unsubscribe function */
+export function watchResume(onChange: (resume: ResumeData | null) => void): () => void {
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+        if (area === 'sync' && changes.settings) onChange(fromSettings(changes.settings.newValue));
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+export function useResume(): ResumeData | null {
+    const [resume, setResume] = useState<ResumeData | null>(null);
+
+    useEffect(() => {
+        void loadResume().then(setResume);
+        return watchResume(setResume);
+    }, []);
+
+    return resume;
+}
@@ -0,0 +1,25 @@
+import { resolveToxicityWeights } from '@job-bodyguard/types';
+import type { PartialToxicityWeights, ToxicityWeights } from '@job-bodyguard/types';
+
+/**
+ * Toxicity score weights live inside the synced `settings` object
+ * (Settings → Toxicity Score). Older settings without them get the defaults.
+ */
+function fromSettings(settings: { toxicityWeights?: PartialToxicityWeights } | undefined): ToxicityWeights {
+    return resolveToxicityWeights(settings?.toxicityWeights);
+}
+
+export function loadToxicityWeights(): Promise<ToxicityWeights> {
+    return new Promise((resolve) => {
+        chrome.storage.sync.get('settings', (result) => resolve(fromSettings(result.settings)));
+    });
+}
+
+/** Calls `onChange` whenever the settings are saved; returns an unsubscribe function */
+export function watchToxicityWeights(onChange: (weights: ToxicityWeights) => void): () => void {
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+        if (area === 'sync' && changes.settings) onChange(fromSettings(changes.settings.newValue));
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+}
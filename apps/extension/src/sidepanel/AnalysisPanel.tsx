@@ -1,6 +1,7 @@
 import React from 'react';
 import type { JobData, AnalysisResult } from '@job-bodyguard/types';
-import { Flame, Flag, ShieldAlert, CheckCircle, MessageSquare, BookOpen, Scissors, RefreshCw } from 'lucide-react';
+import type { FlagKind } from '@job-bodyguard/parsers';
+import { Flame, Flag, ShieldAlert, CheckCircle, MessageSquare, BookOpen, Scissors, RefreshCw, LocateFixed, AlertTriangle } from 'lucide-react';
 
 interface AnalysisPanelProps {
     jobData: JobData;
@@ -10,6 +11,34 @@ interface AnalysisPanelProps {
     onReanalyze: () => void;
     saveStatus?: 'idle' | 'saving' | 'saved' | 'error';
     saveButtonContent?: React.ReactNode;
+    /** Scroll the page to the highlight of a local flag */
+    onLocateFlag?: (keyword: string, kind: FlagKind) => void;
+}
+
+// Names of the fields a partial result can be missing, for the notice
+const FIELD_LABELS: Record<string, string> = {
+    roast: 'breakdown',
+    toxicityScore: 'toxicity score',
+    compatibilityScore: 'skill alignment',
+    redFlags: 'red flags',
+    greenFlags: 'green flags',
+    gapAnalysis: 'gap analysis',
+    interviewQuestions: 'interview questions',
+    verdict: 'verdict',
+    verdictText: 'verdict summary',
+};
+
+/**
+ * The local flag (highlighted on the page) an AI flag is about: the same
+ * label, or one label containing the other ("Unpaid overtime" / "Overtime")
+ */
+function localFlagFor(label: string, flags: JobData['redFlags']): string | null {
+    const wanted = label.toLowerCase().trim();
+    const local = flags.find(({ keyword, match }) => {
+        const known = keyword.toLowerCase();
+        return match && (known === wanted || wanted.includes(known) || known.includes(wanted));
+    });
+    return local?.keyword ?? null;
 }
 
 export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
@@ -20,8 +49,14 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
     onReanalyze,
     saveStatus = 'idle',
     saveButtonContent,
+    onLocateFlag,
 }) => {
+    // Fields the model never got right; they hold placeholders and are shown as missing
+    const missing = new Set(result.incompleteFields ?? []);
+    const hasVerdict = !missing.has('verdict');
+
     const getVerdictColor = () => {
+        if (!hasVerdict) return '#6b7280';
         switch (result.verdict) {
             case 'strong_apply': return '#10b981';
             case 'apply': return '#34d399';
@@ -32,6 +67,7 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
     };
 
     const getVerdictEmoji = () => {
+        if (!hasVerdict) return '❓';
         switch (result.verdict) {
             case 'strong_apply': return '🎯';
             case 'apply': return '✅';
@@ -43,11 +79,23 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
 
     return (
         <div className="analysis-panel">
+            {missing.size > 0 && (
+                <div className="partial-notice">
+                    <AlertTriangle size={16} />
+                    <span>
+                        Partial result: the AI's reply had no usable {[...missing].map(field => FIELD_LABELS[field] ?? field).join(', ')}.
+                        Retry to ask again.
+                    </span>
+                </div>
+            )}
+
             {/* Roast Section */}
-            <section className="section section--roast">
-                <h3><Flame size={20} /> The Breakdown</h3>
-                <p className="roast-text">{result.roast}</p>
-            </section>
+            {!missing.has('roast') && (
+                <section className="section section--roast">
+                    <h3><Flame size={20} /> The Breakdown</h3>
+                    <p className="roast-text">{result.roast}</p>
+                </section>
+            )}
 
             {/* Verdict */}
             <section className="section section--verdict">
@@ -55,7 +103,7 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                     <span className="verdict-emoji">{getVerdictEmoji()}</span>
                     <div className="verdict-content">
                         <span className="verdict-label" style={{ color: getVerdictColor() }}>
-                            {result.verdict.replace('_', ' ').toUpperCase()}
+                            {hasVerdict ? result.verdict.replace('_', ' ').toUpperCase() : 'NO VERDICT'}
                         </span>
                         <p className="verdict-text">{result.verdictText}</p>
                     </div>
@@ -70,10 +118,10 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                         <div className="score-bar">
                             <div
                                 className="score-fill score-fill--toxicity"
-                                style={{ width: `${result.toxicityScore}%` }}
+                                style={{ width: missing.has('toxicityScore') ? 0 : `${result.toxicityScore}%` }}
                             />
                         </div>
-                        <div className="score-value">{result.toxicityScore}/100</div>
+                        <div className="score-value">{missing.has('toxicityScore') ? '—' : `${result.toxicityScore}/100`}</div>
                     </div>
 
                     <div className="score-card">
@@ -81,10 +129,10 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                         <div className="score-bar">
                             <div
                                 className="score-fill score-fill--compatibility"
-                                style={{ width: `${result.compatibilityScore}%` }}
+                                style={{ width: missing.has('compatibilityScore') ? 0 : `${result.compatibilityScore}%` }}
                             />
                         </div>
-                        <div className="score-value">{result.compatibilityScore}/100</div>
+                        <div className="score-value">{missing.has('compatibilityScore') ? '—' : `${result.compatibilityScore}/100`}</div>
                     </div>
                 </div>
             </section>
@@ -94,15 +142,24 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                 <section className="section section--flags">
                     <h3><Flag size={20} className="text-red-500"/> Red Flags</h3>
                     <div className="flags-list">
-                        {result.redFlags.map((flag, i) => (
-                            <div key={i} className="flag-item flag-item--red">
-                                <div className="flag-header">
-                                    <span className={`severity severity--${flag.severity}`}>{flag.severity}</span>
-                                    <span className="flag-title">{flag.flag}</span>
+                        {result.redFlags.map((flag, i) => {
+                            const local = onLocateFlag ? localFlagFor(flag.flag, jobData.redFlags) : null;
+                            return (
+                                <div
+                                    key={i}
+                                    className={`flag-item flag-item--red ${local ? 'flag-item--locatable' : ''}`}
+                                    onClick={local ? () => onLocateFlag!(local, 'red') : undefined}
+                                    title={local ? 'Show on the page' : undefined}
+                                >
+                                    <div className="flag-header">
+                                        <span className={`severity severity--${flag.severity}`}>{flag.severity}</span>
+                                        <span className="flag-title">{flag.flag}</span>
+                                        {local && <LocateFixed size={14} className="flag-locate" />}
+                                    </div>
+                                    <p className="flag-explanation">{flag.explanation}</p>
                                 </div>
-                                <p className="flag-explanation">{flag.explanation}</p>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </section>
             )}
@@ -112,12 +169,21 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                 <section className="section section--flags">
                     <h3><CheckCircle size={20} className="text-green-500"/> Green Flags</h3>
                     <div className="flags-list">
-                        {result.greenFlags.map((flag, i) => (
-                            <div key={i} className="flag-item flag-item--green">
-                                <span className="flag-title">{flag.flag}</span>
-                                <p className="flag-explanation">{flag.explanation}</p>
-                            </div>
-                        ))}
+                        {result.greenFlags.map((flag, i) => {
+                            const local = onLocateFlag ? localFlagFor(flag.flag, jobData.greenFlags) : null;
+                            return (
+                                <div
+                                    key={i}
+                                    className={`flag-item flag-item--green ${local ? 'flag-item--locatable' : ''}`}
+                                    onClick={local ? () => onLocateFlag!(local, 'green') : undefined}
+                                    title={local ? 'Show on the page' : undefined}
+                                >
+                                    <span className="flag-title">{flag.flag}</span>
+                                    {local && <LocateFixed size={14} className="flag-locate" />}
+                                    <p className="flag-explanation">{flag.explanation}</p>
+                                </div>
+                            );
+                        })}
                     </div>
                 </section>
             )}
@@ -150,15 +216,17 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
             )}
 
             {/* Interview Questions */}
-            <section className="section section--questions">
-                <h3><MessageSquare size={20} /> Strategic Questions</h3>
-                <p className="section-subtitle">To ask during the interview:</p>
-                <ol className="questions-list">
-                    {result.interviewQuestions.map((q, i) => (
-                        <li key={i}>{q}</li>
-                    ))}
-                </ol>
-            </section>
+            {result.interviewQuestions.length > 0 && (
+                <section className="section section--questions">
+                    <h3><MessageSquare size={20} /> Strategic Questions</h3>
+                    <p className="section-subtitle">To ask during the interview:</p>
+                    <ol className="questions-list">
+                        {result.interviewQuestions.map((q, i) => (
+                            <li key={i}>{q}</li>
+                        ))}
+                    </ol>
+                </section>
+            )}
 
             {/* Actions */}
             <section className="section section--actions" style={{padding: '0', background: 'transparent', boxShadow: 'none', border: 'none'}}>
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { AnalysisResult } from '@job-bodyguard/types';
+import { Flame, ScanSearch, X } from 'lucide-react';
+
+interface AnalysisProgressProps {
+    /** The fields of the AI's reply readable so far; empty until it starts streaming */
+    partial: Partial<AnalysisResult>;
+    onCancel: () => void;
+}
+
+const VERDICT_COLORS: Record<AnalysisResult['verdict'], string> = {
+    strong_apply: '#10b981',
+    apply: '#34d399',
+    caution: '#fbbf24',
+    skip: '#ef4444',
+};
+
+/**
+ * The analysis while it streams in: the breakdown, verdict, scores and flag
+ * titles appear as the model writes them, with a way to stop it.
+ */
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ partial, onCancel }) => {
+    const { roast, verdict, verdictText, toxicityScore, compatibilityScore, redFlags = [], greenFlags = [] } = partial;
+    const streaming = Object.keys(partial).length > 0;
+
+    if (!streaming) {
+        return (
+            <div className="state state--analyzing">
+                <ScanSearch size={48} className="state-icon" style={{ opacity: 1, color: 'var(--text-main)', animation: 'pulse 1.5s infinite' }} />
+                <h2 style={{marginTop: '16px'}}>Analyzing Target...</h2>
+                <p>AI is assessing intelligence</p>
+                <button onClick={onCancel} className="btn btn--ghost analysis-progress__cancel">
+                    <X size={16} /> Cancel
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="analysis-progress">
+            <div className="analysis-progress__header">
+                <ScanSearch size={20} style={{ animation: 'pulse 1.5s infinite' }} />
+                <span>Reading the AI's analysis...</span>
+                <button onClick={onCancel} className="btn btn--ghost analysis-progress__cancel">
+                    <X size={16} /> Cancel
+                </button>
+            </div>
+
+            {roast && (
+                <section className="section section--roast">
+                    <h3><Flame size={20} /> The Breakdown</h3>
+                    <p className="roast-text">{roast}</p>
+                </section>
+            )}
+
+            {verdict && (
+                <section className="section section--verdict">
+                    <div className="verdict-card" style={{ borderColor: VERDICT_COLORS[verdict] }}>
+                        <div className="verdict-content">
+                            <span className="verdict-label" style={{ color: VERDICT_COLORS[verdict] }}>
+                                {verdict.replace('_', ' ').toUpperCase()}
+                            </span>
+                            {verdictText && <p className="verdict-text">{verdictText}</p>}
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            {(toxicityScore !== undefined || compatibilityScore !== undefined) && (
+                <div className="analysis-progress__scores">
+                    {toxicityScore !== undefined && <span>Toxicity {toxicityScore}/100</span>}
+                    {compatibilityScore !== undefined && <span>Skill alignment {compatibilityScore}/100</span>}
+                </div>
+            )}
+
+            {(redFlags.length > 0 || greenFlags.length > 0) && (
+                <ul className="analysis-progress__flags">
+                    {redFlags.map((flag, i) => <li key={`red-${i}`} className="flag-item flag-item--red">{flag.flag}</li>)}
+                    {greenFlags.map((flag, i) => <li key={`green-${i}`} className="flag-item flag-item--green">{flag.flag}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { matchLevel } from '@job-bodyguard/types';
+import type { ResumeMatch } from '@job-bodyguard/types';
+import { FileCheck } from 'lucide-react';
+
+interface ResumeMatchCardProps {
+    match: ResumeMatch;
+}
+
+/** "Asks 5+ years · you have 6.5", "Senior role · you: middle" */
+function matchFacts(match: ResumeMatch): string[] {
+    const facts: string[] = [];
+    if (match.requiredYears !== null) {
+        facts.push(`Asks ${match.requiredYears}+ years · you have ${match.resumeYears}`);
+    }
+    if (match.jobSeniority) {
+        facts.push(`${match.jobSeniority[0].toUpperCase()}${match.jobSeniority.slice(1)} role · you: ${match.resumeSeniority ?? 'unknown'}`);
+    }
+    return facts;
+}
+
+/**
+ * Offline resume match, shown before any AI call: the score plus the
+ * posting's skills split into the ones the resume has and the ones it lacks
+ */
+export const ResumeMatchCard: React.FC<ResumeMatchCardProps> = ({ match }) => {
+    const matched = [...match.mustHave.matched, ...match.niceToHave.matched];
+    const facts = matchFacts(match);
+
+    return (
+        <div className={`match-card match-card--${matchLevel(match.score)}`}>
+            <h3><FileCheck size={18} /> Resume Match</h3>
+            <div className="score-card">
+                <div className="score-bar">
+                    <div className="score-fill score-fill--match" style={{ width: `${match.score}%` }} />
+                </div>
+                <div className="score-value">{match.score}%</div>
+            </div>
+
+            {facts.length > 0 && <p className="match-facts">{facts.join(' · ')}</p>}
+
+            {matched.length > 0 && (
+                <div className="skills-tags">
+                    {matched.map(skill => (
+                        <span key={skill} className="skill-tag skill-tag--matched">{skill}</span>
+                    ))}
+                </div>
+            )}
+
+            {(match.mustHave.missing.length > 0 || match.niceToHave.missing.length > 0) && (
+                <div className="skills-tags">
+                    {match.mustHave.missing.map(skill => (
+                        <span key={skill} className="skill-tag" title="Required, not on your resume">{skill}</span>
+                    ))}
+                    {match.niceToHave.missing.map(skill => (
+                        <span key={skill} className="skill-tag skill-tag--optional" title="Nice to have, not on your resume">{skill}</span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
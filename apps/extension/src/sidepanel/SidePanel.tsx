@@ -1,16 +1,71 @@
-import React, { useEffect, useState } from 'react';
-import type { JobData, AnalysisResult } from '@job-bodyguard/types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SALARY_COMPARISON_LABELS, compareToTarget, formatAnnualSalary, getPlatform, normalizeSalary } from '@job-bodyguard/types';
+import type { JobData, JobSource, AnalysisResult, CompanyListStatus } from '@job-bodyguard/types';
+import { companyListStatus, matchResume, setCompanyListStatus } from '@job-bodyguard/parsers';
+import type { FlagKind } from '@job-bodyguard/parsers';
 import { AnalysisPanel } from './AnalysisPanel';
-import { Briefcase, Settings as SettingsIcon, SearchX, CheckCircle, Bookmark, AlertTriangle, ScanSearch, MapPin, Flag, Zap } from 'lucide-react';
+import { AnalysisProgress } from './AnalysisProgress';
+import { ResumeMatchCard } from './ResumeMatchCard';
+import { useCompensationPreferences } from '../shared/compensation';
+import { useResume } from '../shared/resume';
+import { saveCompanyLists, useCompanyLists } from '../shared/companyLists';
+import { streamAnalysis } from '../shared/analysisStream';
+import { Briefcase, Settings as SettingsIcon, SearchX, CheckCircle, Bookmark, AlertTriangle, MapPin, Flag, Zap, Target, Copy, Ban, Star } from 'lucide-react';
 
 type ViewState = 'loading' | 'no-job' | 'ready' | 'analyzing' | 'results';
 
+/** The fields of a saved job (background SavedJob) the duplicate notice needs */
+interface SavedJob {
+    platform: JobSource['platform'];
+    url: string;
+    savedAt: string;
+    sources?: JobSource[];
+}
+
+type JobFlag = JobData['redFlags'][number];
+
+// Local matches below this confidence (hedged or ambiguous wording) are shown muted
+const TENTATIVE_CONFIDENCE = 0.6;
+
+function flagTitle(flag: JobFlag): string {
+    return flag.confidence != null
+        ? `${flag.context} (confidence ${Math.round(flag.confidence * 100)}%)`
+        : flag.context;
+}
+
+function formatSavedDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+}
+
+/**
+ * "You already saved this job from Indeed on 3 Oct" — names the earliest
+ * other listing, or the date this very listing was saved
+ */
+function duplicateNotice(saved: SavedJob, url: string): string {
+    const sources = saved.sources ?? [{ platform: saved.platform, url: saved.url, savedAt: saved.savedAt }];
+    const other = sources.find((source) => source.url !== url);
+    if (!other) {
+        return `You saved this job on ${formatSavedDate(sources[0].savedAt)}`;
+    }
+    return `You already saved this job from ${getPlatform(other.platform).name} on ${formatSavedDate(other.savedAt)}`;
+}
+
 export const SidePanel: React.FC = () => {
     const [viewState, setViewState] = useState<ViewState>('loading');
     const [jobData, setJobData] = useState<JobData | null>(null);
     const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+    const [partialResult, setPartialResult] = useState<Partial<AnalysisResult>>({});
+    // Cancels the analysis in flight, if any
+    const cancelAnalysis = useRef<(() => void) | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [savedDuplicate, setSavedDuplicate] = useState<SavedJob | null>(null);
+    const [saveWarning, setSaveWarning] = useState<string | null>(null);
+    const compensation = useCompensationPreferences();
+    const resume = useResume();
+    const resumeMatch = useMemo(() => (resume && jobData ? matchResume(resume, jobData) : null), [resume, jobData]);
+    const companyLists = useCompanyLists();
+    const companyStatus = jobData?.company ? companyListStatus(jobData.company, companyLists) : null;
 
     useEffect(() => {
         // Get current job data from storage
@@ -26,45 +81,67 @@ export const SidePanel: React.FC = () => {
         // Listen for job data updates (new page detected by content script)
         const listener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
             if (changes.currentJob?.newValue) {
+                cancelAnalysis.current?.();
+                cancelAnalysis.current = null;
                 setJobData(changes.currentJob.newValue);
                 setViewState('ready');
                 setAnalysisResult(null);
                 setError(null);
                 setSaveStatus('idle');
+                setSaveWarning(null);
             }
         };
 
         chrome.storage.local.onChanged.addListener(listener);
-        return () => chrome.storage.local.onChanged.removeListener(listener);
+        return () => {
+            chrome.storage.local.onChanged.removeListener(listener);
+            cancelAnalysis.current?.();
+        };
     }, []);
 
-    const handleAnalyze = async () => {
+    const checkSavedDuplicate = (job: JobData) => {
+        chrome.runtime.sendMessage(
+            { type: 'FIND_SAVED_DUPLICATE', payload: job, timestamp: Date.now() },
+            (response: { success: boolean; data?: SavedJob | null }) => {
+                setSavedDuplicate(response?.success ? response.data ?? null : null);
+            }
+        );
+    };
+
+    // Same job saved earlier, from this board or another
+    useEffect(() => {
+        setSavedDuplicate(null);
+        if (jobData) checkSavedDuplicate(jobData);
+    }, [jobData]);
+
+    const handleAnalyze = () => {
         if (!jobData) return;
 
         setViewState('analyzing');
         setError(null);
+        setPartialResult({});
 
-        try {
-            const response = await new Promise<{ success: boolean; data?: AnalysisResult; error?: string }>((resolve) => {
-                chrome.runtime.sendMessage(
-                    { type: 'REQUEST_ANALYSIS', payload: jobData, timestamp: Date.now() },
-                    resolve
-                );
-            });
-
-            if (response.success && response.data) {
-                setAnalysisResult(response.data);
+        // Fields stream in over a port; see shared/analysisStream.ts
+        cancelAnalysis.current = streamAnalysis(jobData, {
+            onPartial: setPartialResult,
+            onDone: (result) => {
+                cancelAnalysis.current = null;
+                setAnalysisResult(result);
                 setViewState('results');
-            } else {
+            },
+            onError: (message) => {
                 // Show the error clearly — don't silently swallow it
-                const msg = response.error || 'Analysis failed';
-                setError(msg);
+                cancelAnalysis.current = null;
+                setError(message || 'Analysis failed');
                 setViewState('ready');
-            }
-        } catch (err) {
-            setError('Failed to connect to background service. Try reloading the extension.');
-            setViewState('ready');
-        }
+            },
+        });
+    };
+
+    const handleCancelAnalysis = () => {
+        cancelAnalysis.current?.();
+        cancelAnalysis.current = null;
+        setViewState(analysisResult ? 'results' : 'ready');
     };
 
     const handleSave = async () => {
@@ -84,7 +161,7 @@ export const SidePanel: React.FC = () => {
                 }
                 : jobData;
 
-            const response = await new Promise<{ success: boolean; error?: string }>((resolve) => {
+            const response = await new Promise<{ success: boolean; error?: string; warning?: string | null }>((resolve) => {
                 chrome.runtime.sendMessage(
                     { type: 'SAVE_TO_DASHBOARD', payload, timestamp: Date.now() },
                     resolve
@@ -93,6 +170,8 @@ export const SidePanel: React.FC = () => {
 
             if (response.success) {
                 setSaveStatus('saved');
+                setSaveWarning(response.warning ?? null);
+                checkSavedDuplicate(jobData);
                 // Reset after 3 seconds
                 setTimeout(() => setSaveStatus('idle'), 3000);
             } else {
@@ -114,6 +193,25 @@ export const SidePanel: React.FC = () => {
         });
     };
 
+    /** Put the employer on the blocked or favourite list, or take it off with the same status */
+    const handleCompanyList = (status: CompanyListStatus) => {
+        if (!jobData?.company) return;
+        const next = companyStatus === status ? null : status;
+        void saveCompanyLists(setCompanyListStatus(companyLists, jobData.company, next));
+        if (next !== 'blocked') setSaveWarning(null);
+    };
+
+    /** Ask the content script in the job's tab to scroll to the flag's highlight */
+    const handleLocateFlag = (keyword: string, kind: FlagKind) => {
+        chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+            const tabId = tabs[0]?.id;
+            if (tabId) chrome.tabs.sendMessage(tabId, { type: 'JBG_SCROLL_TO_FLAG', keyword, kind }, () => void chrome.runtime.lastError);
+        });
+    };
+
+    const annualSalary = normalizeSalary(jobData?.hiddenSalary, compensation);
+    const salaryComparison = compareToTarget(jobData?.hiddenSalary, compensation);
+
     const handleOpenSettings = () => {
         chrome.tabs.create({
             url: chrome.runtime.getURL('settings.html')
@@ -167,8 +265,46 @@ export const SidePanel: React.FC = () => {
                             <h2 className="job-title">{jobData.title}</h2>
                             <p className="job-company">{jobData.company}</p>
                             {jobData.location && <p className="job-location"><MapPin size={14} /> {jobData.location}</p>}
+                            {annualSalary && (
+                                <p className={`job-salary ${salaryComparison ? `job-salary--${salaryComparison}` : ''}`}>
+                                    <Target size={14} /> {formatAnnualSalary(annualSalary)}
+                                    {salaryComparison && <> · {SALARY_COMPARISON_LABELS[salaryComparison]}</>}
+                                </p>
+                            )}
+                            {jobData.company && (
+                                <div className="company-actions">
+                                    <button
+                                        className={`company-action ${companyStatus === 'blocked' ? 'company-action--blocked' : ''}`}
+                                        onClick={() => handleCompanyList('blocked')}
+                                        title="Blocked companies are dimmed in search results"
+                                    >
+                                        <Ban size={14} /> {companyStatus === 'blocked' ? 'Unblock company' : 'Block this company'}
+                                    </button>
+                                    <button
+                                        className={`company-action ${companyStatus === 'favourite' ? 'company-action--favourite' : ''}`}
+                                        onClick={() => handleCompanyList('favourite')}
+                                        title="Favourite companies are badged in search results"
+                                    >
+                                        <Star size={14} /> {companyStatus === 'favourite' ? 'Favourite' : 'Add to favourites'}
+                                    </button>
+                                </div>
+                            )}
                         </div>
 
+                        {saveWarning && (
+                            <div className="duplicate-notice">
+                                <Ban size={14} /> {saveWarning}
+                            </div>
+                        )}
+
+                        {savedDuplicate && (
+                            <div className="duplicate-notice">
+                                <Copy size={14} /> {duplicateNotice(savedDuplicate, jobData.url)}
+                            </div>
+                        )}
+
+                        {resumeMatch && <ResumeMatchCard match={resumeMatch} />}
+
                         {/* Quick Flags Preview */}
                         {(jobData.redFlags.length > 0 || jobData.greenFlags.length > 0) && (
                             <div className="flags-preview">
@@ -177,7 +313,13 @@ export const SidePanel: React.FC = () => {
                                         <h3><Flag size={18} /> Red Flags ({jobData.redFlags.length})</h3>
                                         <ul>
                                             {jobData.redFlags.slice(0, 3).map((flag, i) => (
-                                                <li key={i}>{flag.keyword}</li>
+                                                <li
+                                                    key={i}
+                                                    className={(flag.confidence ?? 1) < TENTATIVE_CONFIDENCE ? 'flag--tentative' : undefined}
+                                                    title={flagTitle(flag)}
+                                                >
+                                                    {flag.keyword}
+                                                </li>
                                             ))}
                                             {jobData.redFlags.length > 3 && (
                                                 <li className="more">+{jobData.redFlags.length - 3} more...</li>
@@ -191,7 +333,13 @@ export const SidePanel: React.FC = () => {
                                         <h3><CheckCircle size={18} /> Green Flags ({jobData.greenFlags.length})</h3>
                                         <ul>
                                             {jobData.greenFlags.slice(0, 3).map((flag, i) => (
-                                                <li key={i}>{flag.keyword}</li>
+                                                <li
+                                                    key={i}
+                                                    className={(flag.confidence ?? 1) < TENTATIVE_CONFIDENCE ? 'flag--tentative' : undefined}
+                                                    title={flagTitle(flag)}
+                                                >
+                                                    {flag.keyword}
+                                                </li>
                                             ))}
                                             {jobData.greenFlags.length > 3 && (
                                                 <li className="more">+{jobData.greenFlags.length - 3} more...</li>
@@ -231,17 +379,14 @@ export const SidePanel: React.FC = () => {
                                 onReanalyze={handleAnalyze}
                                 saveStatus={saveStatus}
                                 saveButtonContent={getSaveButtonContent()}
+                                onLocateFlag={handleLocateFlag}
                             />
                         )}
                     </div>
                 )}
 
                 {viewState === 'analyzing' && (
-                    <div className="state state--analyzing">
-                        <ScanSearch size={48} className="state-icon" style={{ opacity: 1, color: 'var(--text-main)', animation: 'pulse 1.5s infinite' }} />
-                        <h2 style={{marginTop: '16px'}}>Analyzing Target...</h2>
-                        <p>AI is assessing intelligence</p>
-                    </div>
+                    <AnalysisProgress partial={partialResult} onCancel={handleCancelAnalysis} />
                 )}
             </main>
         </div>
@@ -0,0 +1 @@
+/// <reference types="@crxjs/vite-plugin/client" />
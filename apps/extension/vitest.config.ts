@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests don't load the extension build plugins
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+    },
+});
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { openai, MODEL } from '@/lib/openai/client';
+import { AnalysisResultSchema, EMPTY_ANALYSIS_RESULT, PLATFORM_IDS, type AnalysisResult, type JobPlatform } from '@job-bodyguard/types';
+import { completeValidated } from '@/lib/openai/complete';
 import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisPrompt } from '@/lib/openai/prompts';
 
-// Local types for job data and analysis result
+// Local type for job data
 interface JobData {
     title: string;
     company: string;
@@ -13,28 +14,21 @@ interface JobData {
     datePosted: string | null;
     validThrough: string | null;
     jobAge: number | null;
+    datePostedConfidence?: 'exact' | 'approximate' | 'minimum' | null;
     visibleSalary: string | null;
-    hiddenSalary: { min: number | null; max: number | null; currency: string; period: 'YEAR' | 'MONTH' | 'HOUR' } | null;
+    hiddenSalary: { min: number | null; max: number | null; currency: string; period: 'YEAR' | 'MONTH' | 'WEEK' | 'DAY' | 'HOUR'; taxBasis?: 'GROSS' | 'NET' } | null;
     salaryMismatch: boolean;
+    employerRating?: number | null;
+    employerReviewCount?: number | null;
+    estimatedSalary?: { min: number | null; max: number | null; currency: string; period: 'YEAR' | 'MONTH' | 'WEEK' | 'DAY' | 'HOUR' } | null;
     redFlags: { keyword: string; context: string; severity: string; category: string }[];
     greenFlags: { keyword: string; context: string; severity: string; category: string }[];
+    localToxicity?: { score: number; factors: { label: string; points: number }[] } | null;
     url: string;
-    platform: 'linkedin' | 'indeed' | 'other';
+    platform: JobPlatform;
     scrapedAt: string;
 }
 
-interface AnalysisResult {
-    roast: string;
-    toxicityScore: number;
-    compatibilityScore: number;
-    redFlags: { flag: string; explanation: string; severity: string }[];
-    greenFlags: { flag: string; explanation: string }[];
-    gapAnalysis: { missingSkills: string[]; suggestions: string[] };
-    interviewQuestions: string[];
-    verdict: string;
-    verdictText: string;
-}
-
 // Request validation schema
 const AnalyzeRequestSchema = z.object({
     jobData: z.object({
@@ -46,28 +40,44 @@ const AnalyzeRequestSchema = z.object({
         datePosted: z.string().nullable(),
         validThrough: z.string().nullable(),
         jobAge: z.number().nullable(),
+        datePostedConfidence: z.enum(['exact', 'approximate', 'minimum']).nullable().optional(),
         visibleSalary: z.string().nullable(),
         hiddenSalary: z.object({
             min: z.number().nullable(),
             max: z.number().nullable(),
             currency: z.string(),
-            period: z.enum(['YEAR', 'MONTH', 'HOUR']),
+            period: z.enum(['YEAR', 'MONTH', 'WEEK', 'DAY', 'HOUR']),
+            taxBasis: z.enum(['GROSS', 'NET']).optional(),
         }).nullable(),
         salaryMismatch: z.boolean(),
+        employerRating: z.number().min(0).max(5).nullable().optional(),
+        employerReviewCount: z.number().int().nonnegative().nullable().optional(),
+        estimatedSalary: z.object({
+            min: z.number().nullable(),
+            max: z.number().nullable(),
+            currency: z.string(),
+            period: z.enum(['YEAR', 'MONTH', 'WEEK', 'DAY', 'HOUR']),
+        }).nullable().optional(),
         redFlags: z.array(z.object({
             keyword: z.string(),
             context: z.string(),
             severity: z.enum(['low', 'medium', 'high', 'critical']),
             category: z.string(),
+            confidence: z.number().min(0).max(1).optional(),
         })),
         greenFlags: z.array(z.object({
             keyword: z.string(),
             context: z.string(),
             severity: z.enum(['low', 'medium', 'high', 'critical']),
             category: z.string(),
+            confidence: z.number().min(0).max(1).optional(),
         })),
+        localToxicity: z.object({
+            score: z.number().min(0).max(100),
+            factors: z.array(z.object({ label: z.string(), points: z.number() })),
+        }).nullable().optional(),
         url: z.string(),
-        platform: z.enum(['linkedin', 'indeed', 'other']),
+        platform: z.enum(PLATFORM_IDS),
         scrapedAt: z.string(),
     }),
     resume: z.string().optional().default(''),
@@ -82,25 +92,13 @@ export async function POST(request: NextRequest) {
         // Build prompt
         const userPrompt = buildAnalysisPrompt(jobData as unknown as Parameters<typeof buildAnalysisPrompt>[0], resume);
 
-        // Call OpenAI
-        const completion = await openai.chat.completions.create({
-            model: MODEL,
-            messages: [
-                { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
-                { role: 'user', content: userPrompt },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.7,
-            max_tokens: 2000,
-        });
-
-        // Parse response
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
-
-        const analysis: AnalysisResult = JSON.parse(content);
+        // Call OpenAI; the reply is checked against the shared schema
+        const analysis: AnalysisResult = await completeValidated(
+            ANALYSIS_SYSTEM_PROMPT,
+            userPrompt,
+            AnalysisResultSchema,
+            EMPTY_ANALYSIS_RESULT,
+        );
 
         // Return result
         return NextResponse.json({
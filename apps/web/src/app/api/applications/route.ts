@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { PLATFORM_IDS } from '@job-bodyguard/types';
 import { createClient } from '@/lib/supabase/server';
 
 // Request validation schema for creating application
@@ -8,7 +9,7 @@ const CreateApplicationSchema = z.object({
     jobTitle: z.string(),
     companyName: z.string(),
     location: z.string().optional(),
-    platform: z.enum(['linkedin', 'indeed', 'hh.ru', 'other']),
+    platform: z.enum(PLATFORM_IDS),
     jobData: z.object({}).passthrough().optional(),
     analysisResult: z.object({}).passthrough().optional(),
     resumeSnapshot: z.string().optional(),
@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { openai, MODEL } from '@/lib/openai/client';
+import { EMPTY_TAILOR_RESULT, TailorResultSchema, type TailorResult } from '@job-bodyguard/types';
+import { completeValidated } from '@/lib/openai/complete';
 import { TAILOR_SYSTEM_PROMPT, buildTailorPrompt } from '@/lib/openai/prompts';
 
-// Local type for tailor result
-interface TailorResult {
-    summary: string;
-    bullets: { original: string; tailored: string; reasoning: string }[];
-    keywordsAdded: string[];
-    fullResume?: string;
-}
-
 // Request validation schema
 const TailorRequestSchema = z.object({
     jobData: z.object({
         title: z.string(),
         company: z.string(),
         description: z.string(),
+        sections: z.object({
+            responsibilities: z.array(z.string()),
+            mustHave: z.array(z.string()),
+            niceToHave: z.array(z.string()),
+            benefits: z.array(z.string()),
+        }).nullable().optional(),
+        skills: z.array(z.string()).optional(),
     }).passthrough(),
     resume: z.string().min(1, 'Resume is required'),
     keywords: z.array(z.string()).optional().default([]),
@@ -31,25 +31,13 @@ export async function POST(request: NextRequest) {
         // Build prompt
         const userPrompt = buildTailorPrompt(jobData, resume, keywords);
 
-        // Call OpenAI
-        const completion = await openai.chat.completions.create({
-            model: MODEL,
-            messages: [
-                { role: 'system', content: TAILOR_SYSTEM_PROMPT },
-                { role: 'user', content: userPrompt },
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.7,
-            max_tokens: 2000,
-        });
-
-        // Parse response
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
-
-        const tailorResult = JSON.parse(content) as Omit<TailorResult, 'fullResume'>;
+        // Call OpenAI; the reply is checked against the shared schema
+        const tailorResult: TailorResult = await completeValidated(
+            TAILOR_SYSTEM_PROMPT,
+            userPrompt,
+            TailorResultSchema,
+            EMPTY_TAILOR_RESULT,
+        );
 
         // Generate full resume with changes applied
         let fullResume = resume;
@@ -2,6 +2,31 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
+import {
+  DEFAULT_COMPENSATION_PREFERENCES,
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  SALARY_COMPARISON_LABELS,
+  SENIORITY_LABELS,
+  SENIORITY_LEVELS,
+  VISA_SPONSORSHIP_LABELS,
+  WORK_MODES,
+  WORK_MODE_LABELS,
+  compareToTarget,
+  formatAnnualSalary,
+  formatWorkMode,
+  getPlatform,
+  normalizeSalary,
+} from '@job-bodyguard/types';
+import type {
+  CompensationPreferences,
+  EmploymentType,
+  SalaryData,
+  Seniority,
+  VisaSponsorship,
+  WorkMode,
+  WorkModeKind,
+} from '@job-bodyguard/types';
 
 interface SavedJob {
   id: string;
@@ -14,7 +39,12 @@ interface SavedJob {
   platform: string;
   redFlags: { keyword: string }[];
   greenFlags: { keyword: string }[];
-  hiddenSalary?: { min: number | null; max: number | null; currency: string };
+  hiddenSalary?: SalaryData | null;
+  skills?: string[];
+  seniority?: Seniority | null;
+  employmentType?: EmploymentType | null;
+  workMode?: WorkMode | null;
+  visaSponsorship?: VisaSponsorship | null;
 }
 
 const STATUS_OPTIONS = [
@@ -29,10 +59,23 @@ export default function DashboardPage(): JSX.Element {
   const [jobs, setJobs] = useState<SavedJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>('all');
+  const [skillFilter, setSkillFilter] = useState<string>('');
+  const [seniorityFilter, setSeniorityFilter] = useState<Seniority | ''>('');
+  const [employmentFilter, setEmploymentFilter] = useState<EmploymentType | ''>('');
+  const [workModeFilter, setWorkModeFilter] = useState<WorkModeKind | ''>('');
+  const [compensation, setCompensation] = useState<CompensationPreferences>(DEFAULT_COMPENSATION_PREFERENCES);
 
   useEffect(() => {
     loadJobs();
 
+    // Target salary comes from the Settings page
+    try {
+      const stored = JSON.parse(localStorage.getItem('jobBodyguardSettings') ?? '{}');
+      setCompensation({ ...DEFAULT_COMPENSATION_PREFERENCES, ...stored.compensation });
+    } catch (e) {
+      console.error('Failed to parse settings:', e);
+    }
+
     // Listen for updates from extension
     const handleMessage = (event: MessageEvent) => {
       if (event.data?.type === 'JOBS_UPDATED') {
@@ -105,18 +148,24 @@ export default function DashboardPage(): JSX.Element {
   };
 
   const formatSalary = (job: SavedJob) => {
-    if (!job.hiddenSalary) return null;
-    const { min, max, currency } = job.hiddenSalary;
-    const symbol = currency === 'EUR' ? '€' : currency === 'USD' ? '$' : currency;
-    if (min && max) return `${symbol}${(min / 1000).toFixed(0)}k - ${symbol}${(max / 1000).toFixed(0)}k`;
-    if (min) return `${symbol}${(min / 1000).toFixed(0)}k+`;
-    if (max) return `Up to ${symbol}${(max / 1000).toFixed(0)}k`;
-    return null;
+    const annual = normalizeSalary(job.hiddenSalary, compensation);
+    return annual ? formatAnnualSalary(annual) : null;
   };
 
-  const filteredJobs = filter === 'all'
-    ? jobs
-    : jobs.filter(j => j.status === filter);
+  const salaryTarget = (job: SavedJob) => compareToTarget(job.hiddenSalary, compensation);
+
+  const filteredJobs = jobs.filter(j =>
+    (filter === 'all' || j.status === filter) && (!skillFilter || j.skills?.includes(skillFilter))
+    && (!seniorityFilter || j.seniority === seniorityFilter)
+    && (!employmentFilter || j.employmentType === employmentFilter)
+    && (!workModeFilter || j.workMode?.mode === workModeFilter)
+  );
+  const kindFiltered = Boolean(seniorityFilter || employmentFilter || workModeFilter);
+
+  // Every skill across the saved jobs, most common first
+  const skillCounts = new Map<string, number>();
+  jobs.forEach(j => j.skills?.forEach(skill => skillCounts.set(skill, (skillCounts.get(skill) ?? 0) + 1)));
+  const skills = [...skillCounts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
 
   const stats = {
     total: jobs.length,
@@ -178,6 +227,54 @@ export default function DashboardPage(): JSX.Element {
               {status === 'all' ? 'All' : STATUS_OPTIONS.find(s => s.value === status)?.label}
             </button>
           ))}
+          {skills.length > 0 && (
+            <select
+              className={`filter-tab ${skillFilter ? 'active' : ''}`}
+              value={skillFilter}
+              onChange={(e) => setSkillFilter(e.target.value)}
+            >
+              <option value="">🧰 Any skill</option>
+              {skills.map(([skill, count]) => (
+                <option key={skill} value={skill}>{skill} ({count})</option>
+              ))}
+            </select>
+          )}
+          {jobs.some(j => j.seniority) && (
+            <select
+              className={`filter-tab ${seniorityFilter ? 'active' : ''}`}
+              value={seniorityFilter}
+              onChange={(e) => setSeniorityFilter(e.target.value as Seniority | '')}
+            >
+              <option value="">📈 Any level</option>
+              {SENIORITY_LEVELS.map(level => (
+                <option key={level} value={level}>{SENIORITY_LABELS[level]}</option>
+              ))}
+            </select>
+          )}
+          {jobs.some(j => j.employmentType) && (
+            <select
+              className={`filter-tab ${employmentFilter ? 'active' : ''}`}
+              value={employmentFilter}
+              onChange={(e) => setEmploymentFilter(e.target.value as EmploymentType | '')}
+            >
+              <option value="">📝 Any employment</option>
+              {EMPLOYMENT_TYPES.map(type => (
+                <option key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          )}
+          {jobs.some(j => j.workMode) && (
+            <select
+              className={`filter-tab ${workModeFilter ? 'active' : ''}`}
+              value={workModeFilter}
+              onChange={(e) => setWorkModeFilter(e.target.value as WorkModeKind | '')}
+            >
+              <option value="">🏠 Any work mode</option>
+              {WORK_MODES.map(mode => (
+                <option key={mode} value={mode}>{WORK_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          )}
         </div>
 
         {/* Jobs List */}
@@ -187,9 +284,11 @@ export default function DashboardPage(): JSX.Element {
           ) : filteredJobs.length === 0 ? (
             <div className="empty-state">
               <div className="empty-icon">📋</div>
-              <h3>{filter === 'all' ? 'No saved jobs yet' : `No ${filter} jobs`}</h3>
+              <h3>{filter === 'all' ? 'No saved jobs yet' : `No ${filter} jobs`}{skillFilter && ` asking for ${skillFilter}`}</h3>
               <p className="text-muted">
-                {filter === 'all'
+                {skillFilter || kindFiltered
+                  ? 'Loosen the filters above to see more jobs'
+                  : filter === 'all'
                   ? 'Install the Chrome extension and start saving job postings'
                   : 'Change the status of your saved jobs to see them here'}
               </p>
@@ -217,8 +316,24 @@ export default function DashboardPage(): JSX.Element {
                   {job.location && <div className="job-card-location">📍 {job.location}</div>}
 
                   <div className="job-card-meta">
+                    <span className="job-platform">{getPlatform(job.platform).icon} {getPlatform(job.platform).name}</span>
                     {formatSalary(job) && (
-                      <span className="job-salary">💰 {formatSalary(job)}</span>
+                      <span
+                        className={`job-salary ${salaryTarget(job) ? `job-salary--${salaryTarget(job)}` : ''}`}
+                        title={salaryTarget(job) ? SALARY_COMPARISON_LABELS[salaryTarget(job)!] : undefined}
+                      >
+                        💰 {formatSalary(job)}
+                      </span>
+                    )}
+                    {job.seniority && <span className="job-kind">{SENIORITY_LABELS[job.seniority]}</span>}
+                    {job.employmentType && job.employmentType !== 'full-time' && (
+                      <span className="job-kind">{EMPLOYMENT_TYPE_LABELS[job.employmentType]}</span>
+                    )}
+                    {job.workMode && <span className="job-kind">🏢 {formatWorkMode(job.workMode)}</span>}
+                    {job.visaSponsorship && (
+                      <span className={`job-kind job-kind--visa-${job.visaSponsorship}`}>
+                        ✈️ {VISA_SPONSORSHIP_LABELS[job.visaSponsorship]}
+                      </span>
                     )}
                     <span className="job-date">📅 {formatDate(job.savedAt)}</span>
                   </div>
@@ -233,6 +348,21 @@ export default function DashboardPage(): JSX.Element {
                     )}
                   </div>
 
+                  {job.skills && job.skills.length > 0 && (
+                    <div className="job-card-skills" title={job.skills.join(', ')}>
+                      {job.skills.slice(0, 6).map(skill => (
+                        <button
+                          key={skill}
+                          className={`skill-tag ${skill === skillFilter ? 'active' : ''}`}
+                          onClick={() => setSkillFilter(skill === skillFilter ? '' : skill)}
+                        >
+                          {skill}
+                        </button>
+                      ))}
+                      {job.skills.length > 6 && <span className="text-muted">+{job.skills.length - 6}</span>}
+                    </div>
+                  )}
+
                   {/* Status Selector */}
                   <div className="job-card-status">
                     <select
@@ -390,6 +520,30 @@ export default function DashboardPage(): JSX.Element {
         .job-salary {
           color: #27ae60;
         }
+
+        .job-salary--below {
+          color: #e74c3c;
+        }
+
+        .job-salary--above {
+          color: #3498db;
+        }
+
+        .job-platform {
+          color: var(--text-secondary);
+        }
+
+        .job-kind {
+          color: var(--text-secondary);
+        }
+
+        .job-kind--visa-offered {
+          color: #27ae60;
+        }
+
+        .job-kind--visa-not-offered {
+          color: #f39c12;
+        }
         
         .job-card-flags {
           display: flex;
@@ -413,6 +567,30 @@ export default function DashboardPage(): JSX.Element {
           color: #27ae60;
         }
         
+        .job-card-skills {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.375rem;
+          margin-bottom: 0.75rem;
+          font-size: 0.75rem;
+        }
+        
+        .skill-tag {
+          font-size: 0.75rem;
+          padding: 0.125rem 0.5rem;
+          border: 1px solid var(--border-color);
+          border-radius: 4px;
+          background: transparent;
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+        
+        .skill-tag:hover,
+        .skill-tag.active {
+          border-color: var(--accent-primary);
+          color: var(--text-primary);
+        }
+        
         .job-card-status select {
           width: 100%;
           padding: 0.5rem;
@@ -2,6 +2,8 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
+import { DEFAULT_COMPENSATION_PREFERENCES } from '@job-bodyguard/types';
+import type { CompensationPreferences } from '@job-bodyguard/types';
 
 interface Settings {
     apiKey: string;
@@ -9,6 +11,7 @@ interface Settings {
     customApiUrl: string;
     customPrompt: string;
     resumeText: string;
+    compensation: CompensationPreferences;
 }
 
 const DEFAULT_PROMPT = `You are an expert job posting analyst with a sarcastic but helpful personality.
@@ -29,6 +32,7 @@ export default function SettingsPage(): JSX.Element {
         customApiUrl: '',
         customPrompt: DEFAULT_PROMPT,
         resumeText: '',
+        compensation: DEFAULT_COMPENSATION_PREFERENCES,
     });
     const [saved, setSaved] = useState(false);
     const [loading, setLoading] = useState(true);
@@ -38,7 +42,12 @@ export default function SettingsPage(): JSX.Element {
         const stored = localStorage.getItem('jobBodyguardSettings');
         if (stored) {
             try {
-                setSettings(JSON.parse(stored));
+                const parsed = JSON.parse(stored);
+                setSettings(prev => ({
+                    ...prev,
+                    ...parsed,
+                    compensation: { ...DEFAULT_COMPENSATION_PREFERENCES, ...parsed.compensation },
+                }));
             } catch (e) {
                 console.error('Failed to parse settings:', e);
             }
@@ -56,6 +65,15 @@ export default function SettingsPage(): JSX.Element {
         setSettings(prev => ({ ...prev, customPrompt: DEFAULT_PROMPT }));
     };
 
+    const updateCompensation = (patch: Partial<CompensationPreferences>) => {
+        setSettings(prev => ({ ...prev, compensation: { ...prev.compensation, ...patch } }));
+    };
+
+    const parseTarget = (value: string) => {
+        const amount = Number(value);
+        return value && amount > 0 ? amount : null;
+    };
+
     const handleResumeUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
@@ -204,6 +222,54 @@ export default function SettingsPage(): JSX.Element {
                         )}
                     </section>
 
+                    {/* Target Salary Section */}
+                    <section className="settings-section card">
+                        <h2>🎯 Target Salary</h2>
+
+                        <div className="form-group">
+                            <label htmlFor="compensationCurrency">
+                                Preferred Currency
+                                <span className="hint">Saved salaries are shown as annual figures in this currency</span>
+                            </label>
+                            <select
+                                id="compensationCurrency"
+                                value={settings.compensation.currency}
+                                onChange={(e) => updateCompensation({ currency: e.target.value })}
+                            >
+                                {Object.keys(settings.compensation.exchangeRates).map(code => (
+                                    <option key={code} value={code}>{code}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="targetMin">
+                                Annual Floor
+                                <span className="hint">Jobs paying less are marked below your target</span>
+                            </label>
+                            <input
+                                type="number"
+                                id="targetMin"
+                                min={0}
+                                value={settings.compensation.targetMin ?? ''}
+                                onChange={(e) => updateCompensation({ targetMin: parseTarget(e.target.value) })}
+                                placeholder="80000"
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="targetMax">Annual Upper End</label>
+                            <input
+                                type="number"
+                                id="targetMax"
+                                min={0}
+                                value={settings.compensation.targetMax ?? ''}
+                                onChange={(e) => updateCompensation({ targetMax: parseTarget(e.target.value) })}
+                                placeholder="120000"
+                            />
+                        </div>
+                    </section>
+
                     {/* Save Button */}
                     <div className="settings-actions">
                         <button onClick={handleSave} className="btn btn--primary btn--large">
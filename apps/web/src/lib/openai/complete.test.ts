@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalysisResultSchema, EMPTY_ANALYSIS_RESULT } from '@job-bodyguard/types';
+import { completeValidated } from './complete';
+
+const create = vi.hoisted(() => vi.fn());
+
+vi.mock('./client', () => ({
+    MODEL: 'gpt-4o-mini',
+    openai: { chat: { completions: { create } } },
+}));
+
+const VALID_ANALYSIS = {
+    roast: 'Long hours, small print.',
+    toxicityScore: 70,
+    compatibilityScore: 55,
+    redFlags: [],
+    greenFlags: [],
+    gapAnalysis: { missingSkills: [], suggestions: [] },
+    interviewQuestions: ['How often do people stay late?'],
+    verdict: 'caution',
+    verdictText: 'Ask about hours first.',
+};
+
+function reply(content: string) {
+    return { choices: [{ message: { content } }] };
+}
+
+/** The user prompt of each request sent */
+function sentPrompts(): string[] {
+    return create.mock.calls.map(([params]) => params.messages[1].content);
+}
+
+describe('completeValidated', () => {
+    beforeEach(() => {
+        create.mockReset();
+    });
+
+    it('should return a valid reply without a retry', async () => {
+        create.mockResolvedValueOnce(reply(JSON.stringify(VALID_ANALYSIS)));
+
+        const result = await completeValidated('system', 'Analyze this job.', AnalysisResultSchema, EMPTY_ANALYSIS_RESULT);
+
+        expect(result).toEqual(VALID_ANALYSIS);
+        expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry once with the validation errors and use the repaired reply', async () => {
+        const invalid = JSON.stringify({ ...VALID_ANALYSIS, verdict: 'maybe' });
+        create
+            .mockResolvedValueOnce(reply(invalid))
+            .mockResolvedValueOnce(reply(JSON.stringify(VALID_ANALYSIS)));
+
+        const result = await completeValidated('system', 'Analyze this job.', AnalysisResultSchema, EMPTY_ANALYSIS_RESULT);
+
+        expect(result).toEqual(VALID_ANALYSIS);
+        expect(create).toHaveBeenCalledTimes(2);
+        const [, repairPrompt] = sentPrompts();
+        expect(repairPrompt).toContain('Analyze this job.');
+        expect(repairPrompt).toContain(invalid);
+        expect(repairPrompt).toMatch(/- verdict: /);
+    });
+
+    it('should salvage the fields it can after one failed repair', async () => {
+        create
+            .mockResolvedValueOnce(reply(JSON.stringify({ ...VALID_ANALYSIS, verdict: 'maybe' })))
+            .mockResolvedValueOnce(reply(JSON.stringify({ ...VALID_ANALYSIS, verdict: 'perhaps', toxicityScore: 'lots' })));
+
+        const result = await completeValidated('system', 'Analyze this job.', AnalysisResultSchema, EMPTY_ANALYSIS_RESULT);
+
+        expect(create).toHaveBeenCalledTimes(2);
+        expect(result).toEqual({
+            ...VALID_ANALYSIS,
+            verdict: EMPTY_ANALYSIS_RESULT.verdict,
+            toxicityScore: EMPTY_ANALYSIS_RESULT.toxicityScore,
+            incompleteFields: ['toxicityScore', 'verdict'],
+        });
+    });
+
+    it('should fail when neither reply has anything usable', async () => {
+        create.mockResolvedValue(reply('Sorry, I cannot do that.'));
+
+        await expect(completeValidated('system', 'Analyze this job.', AnalysisResultSchema, EMPTY_ANALYSIS_RESULT))
+            .rejects.toThrow('OpenAI did not return a readable reply');
+        expect(create).toHaveBeenCalledTimes(2);
+    });
+});
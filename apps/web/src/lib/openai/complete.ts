@@ -0,0 +1,49 @@
+import { buildRepairPrompt, checkAiResponse, salvageAiResponse } from '@job-bodyguard/types';
+import type { z } from 'zod';
+import { openai, MODEL } from './client';
+
+async function completeJson(systemPrompt: string, userPrompt: string): Promise<string> {
+    const completion = await openai.chat.completions.create({
+        model: MODEL,
+        messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.7,
+        max_tokens: 2000,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+        throw new Error('No response from OpenAI');
+    }
+    return content;
+}
+
+/**
+ * A completion validated against one of the shared schemas in
+ * @job-bodyguard/types. An invalid reply gets one repair attempt with the
+ * validation errors; after that the valid fields are kept and the rest
+ * listed in `incompleteFields`.
+ */
+export async function completeValidated<S extends z.AnyZodObject>(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: S,
+    empty: z.infer<S>,
+): Promise<z.infer<S>> {
+    const reply = await completeJson(systemPrompt, userPrompt);
+    const check = checkAiResponse<z.infer<S>>(reply, schema);
+    if (check.ok) return check.data;
+
+    console.warn('[openai] Reply failed validation, asking for a repair:', check.errors);
+    const repair = checkAiResponse<z.infer<S>>(await completeJson(systemPrompt, buildRepairPrompt(userPrompt, reply, check.errors)), schema);
+    if (repair.ok) return repair.data;
+
+    const partial = salvageAiResponse(repair.value ?? check.value, schema, empty);
+    if (partial.incompleteFields.length === Object.keys(schema.shape).length) {
+        throw new Error('OpenAI did not return a readable reply');
+    }
+    return partial;
+}
@@ -7,10 +7,15 @@ interface JobData {
   location: string;
   description: string;
   jobAge: number | null;
-  hiddenSalary: { min: number | null; max: number | null; currency: string; period: string } | null;
+  datePostedConfidence?: 'exact' | 'approximate' | 'minimum' | null;
+  hiddenSalary: { min: number | null; max: number | null; currency: string; period: string; taxBasis?: string } | null;
   salaryMismatch: boolean;
+  employerRating?: number | null;
+  employerReviewCount?: number | null;
+  estimatedSalary?: { min: number | null; max: number | null; currency: string; period: string } | null;
   redFlags: { keyword: string; context: string }[];
   greenFlags: { keyword: string; context: string }[];
+  localToxicity?: { score: number; factors: { label: string; points: number }[] } | null;
 }
 
 /**
@@ -35,17 +40,41 @@ IMPORTANT: Always respond with valid JSON matching the specified schema. Do not
  */
 export function buildAnalysisPrompt(jobData: JobData, resume: string): string {
   const hiddenSalary = jobData.hiddenSalary
-    ? `$${jobData.hiddenSalary.min?.toLocaleString() || '?'} - $${jobData.hiddenSalary.max?.toLocaleString() || '?'} per ${jobData.hiddenSalary.period.toLowerCase()}`
+    ? `${jobData.hiddenSalary.min?.toLocaleString() || '?'} - ${jobData.hiddenSalary.max?.toLocaleString() || '?'} ${jobData.hiddenSalary.currency} per ${jobData.hiddenSalary.period.toLowerCase()}${jobData.hiddenSalary.taxBasis ? ` (${jobData.hiddenSalary.taxBasis.toLowerCase()})` : ''}`
     : 'Not disclosed';
 
+  const estimatedSalary = jobData.estimatedSalary
+    ? `${jobData.estimatedSalary.min?.toLocaleString() || '?'} - ${jobData.estimatedSalary.max?.toLocaleString() || '?'} ${jobData.estimatedSalary.currency} per ${jobData.estimatedSalary.period.toLowerCase()} (job board estimate)`
+    : 'None';
+
+  const posted = jobData.jobAge === null
+    ? 'Unknown'
+    : jobData.datePostedConfidence === 'minimum'
+      ? `${jobData.jobAge}+ days ago`
+      : `${jobData.datePostedConfidence === 'approximate' ? 'about ' : ''}${jobData.jobAge} days ago`;
+
+  const employerRating = jobData.employerRating != null
+    ? `${jobData.employerRating}/5${jobData.employerReviewCount != null ? ` from ${jobData.employerReviewCount.toLocaleString()} employee reviews` : ''}`
+    : 'Unknown';
+
+  const baseline = jobData.localToxicity
+    ? `
+
+**Baseline Toxicity:** ${jobData.localToxicity.score}/100 from a rule-based check
+${jobData.localToxicity.factors.map(f => `- ${f.points > 0 ? '+' : ''}${f.points} ${f.label}`).join('\n') || '- Nothing notable'}
+Start from this score. If your toxicityScore differs from it by more than 10 points, say why in verdictText.`
+    : '';
+
   return `## JOB POSTING DATA
 
 **Title:** ${jobData.title}
 **Company:** ${jobData.company}
 **Location:** ${jobData.location}
-**Posted:** ${jobData.jobAge !== null ? `${jobData.jobAge} days ago` : 'Unknown'}
+**Posted:** ${posted}
 **Hidden Salary:** ${hiddenSalary}
 **Salary Mismatch:** ${jobData.salaryMismatch ? 'YES - salary hidden from visible text' : 'No'}
+**Estimated Salary:** ${estimatedSalary}
+**Employer Rating:** ${employerRating}
 
 **Description:**
 ${jobData.description.substring(0, 3000)}
@@ -54,7 +83,7 @@ ${jobData.description.substring(0, 3000)}
 ${jobData.redFlags.map(f => `- ${f.keyword}: "${f.context.substring(0, 100)}"`).join('\n') || 'None detected'}
 
 **Pre-detected Green Flags:**
-${jobData.greenFlags.map(f => `- ${f.keyword}: "${f.context.substring(0, 100)}"`).join('\n') || 'None detected'}
+${jobData.greenFlags.map(f => `- ${f.keyword}: "${f.context.substring(0, 100)}"`).join('\n') || 'None detected'}${baseline}
 
 ---
 
@@ -109,21 +138,47 @@ interface TailorJobData {
   title: string;
   company: string;
   description: string;
+  sections?: {
+    responsibilities: string[];
+    mustHave: string[];
+    niceToHave: string[];
+    benefits: string[];
+  } | null;
+  skills?: string[];
+}
+
+/**
+ * The requirement sections of the posting as lists, or the start of the
+ * description when no section headings were found
+ */
+function formatKeyRequirements(jobData: TailorJobData): string {
+  const sections = jobData.sections;
+  const lists: [string, string[]][] = sections
+    ? [['Must have', sections.mustHave], ['Nice to have', sections.niceToHave], ['Responsibilities', sections.responsibilities]]
+    : [];
+  const present = lists.filter(([, items]) => items.length > 0);
+  if (present.length === 0) return jobData.description.substring(0, 2000);
+
+  return present
+    .map(([label, items]) => `${label}:\n${items.map(item => `- ${item}`).join('\n')}`)
+    .join('\n\n');
 }
 
 /**
  * Build the user prompt for resume tailoring
  */
 export function buildTailorPrompt(jobData: TailorJobData, resume: string, keywords: string[]): string {
+  const allKeywords = [...new Set([...keywords, ...(jobData.skills ?? [])])];
+
   return `## TARGET JOB
 
 **Title:** ${jobData.title}
 **Company:** ${jobData.company}
 
 **Key Requirements:**
-${jobData.description.substring(0, 2000)}
+${formatKeyRequirements(jobData)}
 
-**Keywords to integrate:** ${keywords.join(', ')}
+**Keywords to integrate:** ${allKeywords.join(', ')}
 
 ---
 
@@ -3,6 +3,8 @@
  * Generated from schema.sql
  */
 
+import type { JobPlatform } from '@job-bodyguard/types';
+
 export type ApplicationStatus =
     | 'saved'
     | 'applied'
@@ -11,7 +13,7 @@ export type ApplicationStatus =
     | 'rejected'
     | 'withdrawn';
 
-export type Platform = 'linkedin' | 'indeed' | 'hh.ru' | 'other';
+export type Platform = JobPlatform;
 
 export interface Database {
     public: {
@@ -1,4 +1,14 @@
-import type { JobData, JobPlatform, Flag } from '@job-bodyguard/types';
+import { isPlatformJobUrl } from '@job-bodyguard/types';
+import type { DateConfidence, JobData, JobPlatform, Flag } from '@job-bodyguard/types';
+import { getSelectors } from './selectorConfig';
+import type { FieldSelectors } from './selectorConfig';
+import { mapSalaryPeriod } from './salary';
+import type { SalaryPeriod } from './salary';
+import { daysSince, parsePostedText } from './dates';
+import { parseEmploymentType, workModeFromJsonLd } from './classification';
+
+/** A single selector string, or ordered candidates tried first to last */
+type SelectorInput = string | readonly string[];
 
 /**
  * Abstract base class for job parsers
@@ -6,6 +16,9 @@ import type { JobData, JobPlatform, Flag } from '@job-bodyguard/types';
 export abstract class BaseParser {
     abstract platform: JobPlatform;
 
+    /** Which candidate matched each field during the last extraction (null = none did) */
+    protected selectorMatches: Record<string, string | null> = {};
+
     /**
      * Extract job data from the document
      */
@@ -13,34 +26,133 @@ export abstract class BaseParser {
 
     /**
      * Check if the current URL matches this parser
+     * (defaults to the platform's job URL patterns in the registry)
      */
-    abstract matchesUrl(url: string): boolean;
+    matchesUrl(url: string): boolean {
+        return isPlatformJobUrl(this.platform, url);
+    }
+
+    /**
+     * Selector matches recorded during the last extractJobData() call
+     */
+    getSelectorMatches(): Record<string, string | null> {
+        return { ...this.selectorMatches };
+    }
 
     /**
-     * Safely get text content from a selector
+     * Effective selector config for this platform (bundled + user override)
      */
-    protected getText(doc: Document, selector: string): string {
-        const el = doc.querySelector(selector);
+    protected getSelectorConfig(): FieldSelectors {
+        return getSelectors(this.platform);
+    }
+
+    /**
+     * Safely get text content from a selector.
+     * Pass `field` to record which candidate matched.
+     */
+    protected getText(root: Document | Element, selector: SelectorInput, field?: string): string {
+        const el = this.findElement(root, selector, field, (e) => !!e.textContent?.trim());
         return el?.textContent?.trim() || '';
     }
 
     /**
      * Safely get HTML content from a selector
      */
-    protected getHtml(doc: Document, selector: string): string {
-        const el = doc.querySelector(selector);
+    protected getHtml(root: Document | Element, selector: SelectorInput, field?: string): string {
+        const el = this.findElement(root, selector, field, (e) => !!e.innerHTML?.trim());
         return el?.innerHTML || '';
     }
 
     /**
-     * Calculate days ago from a date string
+     * A selector string keeps querySelector semantics (first match in document
+     * order). A candidate list is tried in order and the first candidate whose
+     * element has content wins — so config order, not DOM order, decides.
+     */
+    protected findElement(
+        root: Document | Element,
+        selector: SelectorInput,
+        field: string | undefined,
+        hasContent: (el: Element) => boolean,
+    ): Element | null {
+        if (typeof selector === 'string') return root.querySelector(selector);
+
+        for (const candidate of selector) {
+            let el: Element | null;
+            try {
+                el = root.querySelector(candidate);
+            } catch {
+                continue; // invalid selector from a hand-edited override
+            }
+            if (el && hasContent(el)) {
+                if (field) this.selectorMatches[field] = candidate;
+                return el;
+            }
+        }
+
+        if (field) this.selectorMatches[field] = null;
+        return null;
+    }
+
+    /**
+     * Like findElement, but scans every element a candidate matches and
+     * returns the first that passes `predicate` (e.g. "looks like a salary")
+     */
+    protected findElementWhere(
+        root: Document | Element,
+        candidates: readonly string[],
+        field: string,
+        predicate: (el: Element) => boolean,
+    ): Element | null {
+        for (const candidate of candidates) {
+            let elements: Iterable<Element>;
+            try {
+                elements = root.querySelectorAll(candidate);
+            } catch {
+                continue;
+            }
+            for (const el of elements) {
+                if (predicate(el)) {
+                    this.selectorMatches[field] = candidate;
+                    return el;
+                }
+            }
+        }
+
+        this.selectorMatches[field] = null;
+        return null;
+    }
+
+    /**
+     * Calculate days ago from a date string (negative for dates still ahead,
+     * e.g. validThrough; null if unparseable)
+     */
+    protected calculateDaysAgo(dateString: string): number | null {
+        return daysSince(dateString);
+    }
+
+    /**
+     * Record a published posting date (JSON-LD, board API). A date slightly
+     * in the future (time zones, clock skew) counts as posted today.
      */
-    protected calculateDaysAgo(dateString: string): number {
-        const date = new Date(dateString);
-        const now = new Date();
-        const diffTime = Math.abs(now.getTime() - date.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        return diffDays;
+    protected setDatePosted(jobData: JobData, dateString: string, confidence: DateConfidence = 'exact'): void {
+        const age = this.calculateDaysAgo(dateString);
+        jobData.datePosted = dateString;
+        jobData.jobAge = age === null ? null : Math.max(0, age);
+        jobData.datePostedConfidence = age === null ? null : confidence;
+    }
+
+    /**
+     * Estimate the posting date from the board's visible "posted" text
+     * ("2 weeks ago", "вчера") when no published date was found (see dates.ts)
+     */
+    protected setDatePostedFromText(jobData: JobData, text: string | null | undefined): void {
+        if (jobData.datePosted) return;
+        const posted = parsePostedText(text);
+        if (!posted) return;
+
+        jobData.datePosted = posted.datePosted;
+        jobData.jobAge = posted.jobAge;
+        jobData.datePostedConfidence = posted.confidence;
     }
 
     /**
@@ -80,14 +192,30 @@ export abstract class BaseParser {
     }
 
     /**
-     * Map salary period text to enum
+     * Employment type and remote work from JSON-LD `employmentType`,
+     * `jobLocationType` and `applicantLocationRequirements` (see classification.ts)
+     */
+    protected setEmploymentFromJsonLd(jobData: JobData, jsonLd: Record<string, unknown>): void {
+        const list = (value: unknown) => ([] as unknown[]).concat(value ?? []);
+
+        const employmentType = parseEmploymentType(list(jsonLd.employmentType).map(String).join(', '));
+        if (employmentType) jobData.employmentType = employmentType;
+
+        const locationType = list(jsonLd.jobLocationType).map(String).join(', ');
+        if (!locationType) return;
+        jobData.jobLocationType = locationType;
+
+        const applicantLocations = list(jsonLd.applicantLocationRequirements)
+            .map((req) => (typeof req === 'string' ? req : String((req as Record<string, unknown>)?.name ?? '')).trim())
+            .filter(Boolean);
+        jobData.workMode = workModeFromJsonLd(locationType, applicantLocations) ?? jobData.workMode;
+    }
+
+    /**
+     * Map salary period text to enum (see salary.ts)
      */
-    protected mapSalaryPeriod(unitText: string | undefined): 'YEAR' | 'MONTH' | 'HOUR' {
-        if (!unitText) return 'YEAR';
-        const lower = unitText.toLowerCase();
-        if (lower.includes('hour')) return 'HOUR';
-        if (lower.includes('month')) return 'MONTH';
-        return 'YEAR';
+    protected mapSalaryPeriod(unitText: string | undefined): SalaryPeriod {
+        return mapSalaryPeriod(unitText);
     }
 
     /**
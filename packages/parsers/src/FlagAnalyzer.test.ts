@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_COMPENSATION_PREFERENCES, compareToTarget, normalizeSalary } from '@job-bodyguard/types';
+import type { CompensationPreferences, JobData, SalaryData } from '@job-bodyguard/types';
+import { FlagAnalyzer } from './FlagAnalyzer';
+
+const preferences: CompensationPreferences = {
+    ...DEFAULT_COMPENSATION_PREFERENCES,
+    currency: 'USD',
+    targetMin: 80000,
+    targetMax: 120000,
+    exchangeRates: { USD: 1, EUR: 0.9, RUB: 90 },
+};
+
+function job(hiddenSalary: SalaryData | null): JobData {
+    return {
+        title: 'Backend Engineer',
+        company: 'Acme',
+        location: 'Remote',
+        description: 'Build APIs.',
+        requirements: [],
+        datePosted: null,
+        validThrough: null,
+        jobAge: null,
+        visibleSalary: null,
+        hiddenSalary,
+        salaryMismatch: false,
+        redFlags: [],
+        greenFlags: [],
+        url: 'https://example.com/jobs/1',
+        platform: 'other',
+        scrapedAt: '2024-06-01T12:00:00.000Z',
+    };
+}
+
+describe('salary normalisation', () => {
+    it.each<[string, SalaryData, { min: number | null; max: number | null }]>([
+        ['hourly USD', { min: 40, max: 50, currency: 'USD', period: 'HOUR' }, { min: 83200, max: 104000 }],
+        ['monthly RUB', { min: 450000, max: 600000, currency: 'RUB', period: 'MONTH' }, { min: 60000, max: 80000 }],
+        ['yearly EUR', { min: 90000, max: null, currency: 'EUR', period: 'YEAR' }, { min: 100000, max: null }],
+        ['daily USD', { min: 400, max: 400, currency: 'USD', period: 'DAY' }, { min: 104000, max: 104000 }],
+    ])('should annualise %s into the preferred currency', (_name, salary, expected) => {
+        expect(normalizeSalary(salary, preferences)).toEqual({ ...expected, currency: 'USD' });
+    });
+
+    it('should give up on currencies missing from the rate table', () => {
+        expect(normalizeSalary({ min: 5000, max: 6000, currency: 'KZT', period: 'MONTH' }, preferences)).toBeNull();
+    });
+
+    it.each<[SalaryData, string]>([
+        [{ min: 50000, max: 70000, currency: 'USD', period: 'YEAR' }, 'below'],
+        [{ min: 70000, max: 90000, currency: 'USD', period: 'YEAR' }, 'within'],
+        [{ min: 130000, max: 150000, currency: 'USD', period: 'YEAR' }, 'above'],
+        [{ min: 60000, max: null, currency: 'USD', period: 'YEAR' }, 'below'],
+        [{ min: 450000, max: 600000, currency: 'RUB', period: 'MONTH' }, 'within'],
+    ])('should compare %j to the target as %s', (salary, expected) => {
+        expect(compareToTarget(salary, preferences)).toBe(expected);
+    });
+
+    it('should not compare without a target', () => {
+        const salary: SalaryData = { min: 50000, max: 70000, currency: 'USD', period: 'YEAR' };
+        expect(compareToTarget(salary, DEFAULT_COMPENSATION_PREFERENCES)).toBeNull();
+    });
+});
+
+describe('FlagAnalyzer salary floor', () => {
+    it('should flag pay whose maximum is under the floor', () => {
+        const analyzer = new FlagAnalyzer({ compensation: preferences });
+        const { redFlags } = analyzer.analyzeJob(job({ min: 25, max: 35, currency: 'USD', period: 'HOUR' }));
+
+        expect(redFlags).toContainEqual({
+            keyword: 'Pay below your floor',
+            context: 'Pays $52K–$72.8K/yr — your floor is $80K/yr',
+            severity: 'high',
+            category: 'compensation',
+            confidence: 0.9,
+        });
+    });
+
+    it.each<[string, SalaryData | null]>([
+        ['pay that reaches the floor', { min: 70000, max: 90000, currency: 'USD', period: 'YEAR' }],
+        ['open-ended offers', { min: 50000, max: null, currency: 'USD', period: 'YEAR' }],
+        ['jobs without a salary', null],
+    ])('should not flag %s', (_name, salary) => {
+        const analyzer = new FlagAnalyzer({ compensation: preferences });
+        const { redFlags } = analyzer.analyzeJob(job(salary));
+
+        expect(redFlags.map((f) => f.keyword)).not.toContain('Pay below your floor');
+    });
+
+    it('should not flag anything without compensation preferences', () => {
+        const { redFlags } = new FlagAnalyzer().analyzeJob(job({ min: 10, max: 12, currency: 'USD', period: 'HOUR' }));
+        expect(redFlags).toEqual([]);
+    });
+});
+
+describe('FlagAnalyzer ghost jobs', () => {
+    it('should raise the posting-history assessment as a hiring flag', () => {
+        const { redFlags } = new FlagAnalyzer().analyzeJob({
+            ...job(null),
+            ghostJob: { score: 75, likelihood: 'high', reasons: ['Posted 95 days ago', 'Reposted 2 times since 2024-03-01'] },
+        });
+
+        expect(redFlags).toContainEqual({
+            keyword: 'Likely ghost job',
+            context: 'Posted 95 days ago; Reposted 2 times since 2024-03-01',
+            severity: 'high',
+            category: 'hiring',
+            confidence: 0.8,
+        });
+    });
+
+    it('should stay quiet for unlikely ghost jobs', () => {
+        const { redFlags } = new FlagAnalyzer().analyzeJob({
+            ...job(null),
+            ghostJob: { score: 20, likelihood: 'low', reasons: ['Posted 35 days ago'] },
+        });
+        expect(redFlags).toEqual([]);
+    });
+});
+
+describe('FlagAnalyzer Russian pack', () => {
+    const analyzer = new FlagAnalyzer();
+    const labels = (flags: { keyword: string }[]) => flags.map((flag) => flag.keyword);
+
+    it('should flag common hh.ru phrases', () => {
+        const { redFlags, greenFlags } = analyzer.analyze(
+            '<p>Мы — дружная семья!</p><ul><li>Многозадачность и стрессоустойчивость</li>' +
+            '<li>Ненормированный рабочий день</li><li>Серая зарплата, выплаты дважды в месяц</li></ul>' +
+            '<p>Предлагаем: ДМС, удалённую работу, карьерный рост.</p>'
+        );
+
+        expect(labels(redFlags)).toEqual([
+            'Multitasking expected',
+            'Irregular working hours',
+            'Blurred professional boundaries',
+            'Unofficial ("grey") salary',
+            'Stress tolerance required',
+        ]);
+        expect(labels(greenFlags)).toEqual(['Remote work available', 'Health insurance', 'Career growth focus']);
+    });
+
+    it('should match whole Cyrillic words only', () => {
+        // "нормированный" sits inside "ненормированный"; "семья" inside "семьянин"
+        expect(labels(analyzer.analyze('Ненормированный график работы.').greenFlags)).not.toContain('Regular working hours');
+        expect(labels(analyzer.analyze('Нормированный рабочий день, без переработок.').greenFlags)).toContain('Regular working hours');
+        expect(labels(analyzer.analyze('Ищем дружная семьянина в отдел продаж.').redFlags)).toEqual([]);
+        expect(labels(analyzer.analyze('Полис ДМСК не предоставляется.').greenFlags)).toEqual([]);
+    });
+
+    it('should handle case, inflection and non-breaking spaces', () => {
+        const { redFlags } = analyzer.analyze('ГОТОВНОСТЬ\u00a0К ПЕРЕРАБОТКАМ. Работа в молодом, амбициозном коллективе.');
+        expect(labels(redFlags)).toEqual(['Likely overtime expected', 'Possible age bias']);
+    });
+
+    it('should not run the Russian pack on English descriptions', () => {
+        expect(analyzer.analyze('Fast-paced environment, like a family.', ['en']).redFlags).toHaveLength(2);
+        expect(analyzer.analyze('Многозадачность.', ['en']).redFlags).toEqual([]);
+    });
+
+    it('should report a concern found in both languages once', () => {
+        const { redFlags } = analyzer.analyze('We are a fast-paced team. Высокий темп работы, быстрые релизы.');
+        expect(labels(redFlags)).toEqual(['Fast-paced environment']);
+    });
+});
@@ -1,110 +1,187 @@
-import type { Flag } from '@job-bodyguard/types';
-
-interface FlagPattern {
-    pattern: RegExp;
-    label: string;
-    category: Flag['category'];
-    severity: Flag['severity'];
+import { GHOST_JOB_LABELS, compareToTarget, formatAnnualAmount, formatAnnualSalary, normalizeSalary } from '@job-bodyguard/types';
+import type { CompensationPreferences, Flag, FlagRuleSet, JobData, JobLanguage, LocalToxicityScore, ToxicityWeights } from '@job-bodyguard/types';
+import { DEFAULT_FLAG_CONFIDENCE, FLAG_PACKS } from './flagPacks';
+import type { FlagPattern } from './flagPacks';
+import { contextualConfidence, matchContext } from './flagContext';
+import { applyFlagRules } from './flagRules';
+import { detectLanguages } from './language';
+import { scoreToxicity } from './toxicity';
+
+export interface FlagAnalyzerOptions {
+    /** User's target salary; enables the "below your floor" flag */
+    compensation?: CompensationPreferences;
+    /** User-defined rules (Settings → Flag Rules) merged with the built-in packs */
+    rules?: FlagRuleSet;
+    /** Settings → Toxicity Score; defaults to DEFAULT_TOXICITY_WEIGHTS */
+    toxicityWeights?: ToxicityWeights;
 }
 
 /**
  * Analyzes job posting text for red and green flags
  */
 export class FlagAnalyzer {
-    private redFlagPatterns: FlagPattern[] = [
-        // Workload concerns
-        { pattern: /fast[- ]?paced\s*(environment)?/i, label: 'Fast-paced environment', category: 'workload', severity: 'medium' },
-        { pattern: /wear\s*(many|multiple)\s*hats/i, label: 'Undefined role', category: 'workload', severity: 'high' },
-        { pattern: /work\s*hard[,\s]*play\s*hard/i, label: 'Likely overtime expected', category: 'workload', severity: 'high' },
-        { pattern: /startup\s*mentality/i, label: 'Chaotic environment', category: 'workload', severity: 'medium' },
-        { pattern: /self[- ]?starter/i, label: 'Minimal training/support', category: 'workload', severity: 'low' },
-        { pattern: /hit\s*the\s*ground\s*running/i, label: 'No onboarding', category: 'workload', severity: 'medium' },
-        { pattern: /fast[- ]?moving/i, label: 'High pressure', category: 'workload', severity: 'medium' },
-
-        // Culture red flags
-        { pattern: /like\s*a?\s*family/i, label: 'Blurred professional boundaries', category: 'culture', severity: 'high' },
-        { pattern: /rock\s*star|ninja|guru|wizard/i, label: 'Unrealistic expectations', category: 'culture', severity: 'medium' },
-        { pattern: /hustle\s*(culture)?/i, label: 'Burnout culture', category: 'culture', severity: 'high' },
-        { pattern: /no\s*ego/i, label: 'May dismiss valid concerns', category: 'culture', severity: 'low' },
-
-        // Compensation concerns
-        { pattern: /competitive\s*salary/i, label: 'Salary not disclosed', category: 'compensation', severity: 'medium' },
-        { pattern: /unpaid|volunteer/i, label: 'No compensation', category: 'compensation', severity: 'critical' },
-        { pattern: /equity\s*only/i, label: 'No cash compensation', category: 'compensation', severity: 'critical' },
-        { pattern: /doe|depending\s*on\s*experience/i, label: 'Vague compensation', category: 'compensation', severity: 'low' },
-
-        // Management red flags
-        { pattern: /high[- ]?pressure/i, label: 'Stressful environment', category: 'management', severity: 'high' },
-        { pattern: /must\s*(be\s*able\s*to\s*)?handle\s*stress/i, label: 'Poor management', category: 'management', severity: 'high' },
-        { pattern: /thick\s*skin/i, label: 'Toxic environment', category: 'management', severity: 'high' },
-        { pattern: /dynamic\s*environment/i, label: 'Disorganized workplace', category: 'management', severity: 'medium' },
-
-        // Growth concerns
-        { pattern: /entry[- ]?level.{0,20}(3|4|5)\+?\s*years/i, label: 'Unrealistic requirements', category: 'growth', severity: 'high' },
-    ];
-
-    private greenFlagPatterns: FlagPattern[] = [
-        // Flexibility
-        { pattern: /remote|work\s*from\s*home|wfh/i, label: 'Remote work available', category: 'flexibility', severity: 'low' },
-        { pattern: /flexible\s*(hours|schedule|working)/i, label: 'Flexible schedule', category: 'flexibility', severity: 'low' },
-        { pattern: /hybrid/i, label: 'Hybrid work option', category: 'flexibility', severity: 'low' },
-        { pattern: /4[- ]?day\s*(work\s*)?week/i, label: '4-day work week', category: 'flexibility', severity: 'low' },
-        { pattern: /asynchronous|async\s*work/i, label: 'Async-friendly', category: 'flexibility', severity: 'low' },
-
-        // Benefits
-        { pattern: /unlimited\s*(pto|vacation|time\s*off)/i, label: 'Unlimited PTO', category: 'benefits', severity: 'low' },
-        { pattern: /mental\s*health/i, label: 'Mental health support', category: 'benefits', severity: 'low' },
-        { pattern: /parental\s*leave/i, label: 'Parental leave', category: 'benefits', severity: 'low' },
-        { pattern: /401\s*k\s*match/i, label: '401k matching', category: 'benefits', severity: 'low' },
-        { pattern: /health\s*insurance/i, label: 'Health insurance', category: 'benefits', severity: 'low' },
-
-        // Compensation
-        { pattern: /equity|stock\s*options|rsu/i, label: 'Equity compensation', category: 'compensation', severity: 'low' },
-        { pattern: /\$\d{2,3}[,\d]*\s*[-–]\s*\$\d{2,3}[,\d]*/i, label: 'Transparent salary', category: 'compensation', severity: 'low' },
-        { pattern: /signing\s*bonus/i, label: 'Signing bonus', category: 'compensation', severity: 'low' },
-
-        // Growth
-        { pattern: /professional\s*development|learning\s*budget/i, label: 'Learning opportunities', category: 'growth', severity: 'low' },
-        { pattern: /career\s*(growth|path|progression)/i, label: 'Career growth focus', category: 'growth', severity: 'low' },
-        { pattern: /mentorship/i, label: 'Mentorship program', category: 'growth', severity: 'low' },
-        { pattern: /promote\s*from\s*within/i, label: 'Internal promotions', category: 'growth', severity: 'low' },
-
-        // Culture
-        { pattern: /work[- ]?life\s*balance/i, label: 'Work-life balance focus', category: 'culture', severity: 'low' },
-        { pattern: /diverse|diversity|dei|inclusive/i, label: 'DEI commitment', category: 'culture', severity: 'low' },
-    ];
+    // Employer rating thresholds (0-5 stars)
+    private static LOW_RATING = 3.0;
+    private static VERY_LOW_RATING = 2.5;
+    private static HIGH_RATING = 4.2;
+    private static MIN_RATING_REVIEWS = 10;
+    private static SOLID_RATING_REVIEWS = 100;
+
+    constructor(private options: FlagAnalyzerOptions = {}) {}
+
+    /**
+     * Analyze text for red and green flags with the rule packs for its
+     * language(s) — both packs for a bilingual posting
+     */
+    analyze(text: string, languages: JobLanguage[] = detectLanguages(text)): { redFlags: Flag[]; greenFlags: Flag[] } {
+        const packs = (languages.length > 0 ? languages : ['en' as const]).map((language) => FLAG_PACKS[language]);
+        const redFlags = this.findFlags(text, applyFlagRules(packs.flatMap((pack) => pack.redFlags), 'red', this.options.rules));
+        const greenFlags = this.findFlags(text, applyFlagRules(packs.flatMap((pack) => pack.greenFlags), 'green', this.options.rules));
+
+        return { redFlags, greenFlags };
+    }
 
     /**
-     * Analyze text for red and green flags
+     * Analyze a parsed job: description text plus platform metadata
+     * (employer rating) that never appears in the description itself
      */
-    analyze(text: string): { redFlags: Flag[]; greenFlags: Flag[] } {
-        const redFlags = this.findFlags(text, this.redFlagPatterns);
-        const greenFlags = this.findFlags(text, this.greenFlagPatterns);
+    analyzeJob(jobData: JobData): { redFlags: Flag[]; greenFlags: Flag[] } {
+        const { redFlags, greenFlags } = this.analyze(jobData.description);
+
+        const rating = this.rateEmployer(jobData);
+        if (rating?.kind === 'red') redFlags.push(rating.flag);
+        if (rating?.kind === 'green') greenFlags.push(rating.flag);
+
+        const pay = this.checkSalaryFloor(jobData);
+        if (pay) redFlags.push(pay);
+
+        const ghost = this.checkGhostJob(jobData);
+        if (ghost) redFlags.push(ghost);
 
         return { redFlags, greenFlags };
     }
 
     /**
-     * Find flags matching patterns in text
+     * Local 0-100 toxicity score of a job whose flags are already filled in
+     * (see toxicity.ts)
+     */
+    scoreToxicity(jobData: JobData): LocalToxicityScore {
+        return scoreToxicity(jobData, this.options.toxicityWeights);
+    }
+
+    /**
+     * Flag pay whose upper end can't reach the user's floor. Open-ended
+     * offers ("from X") have no upper end and are left alone.
+     */
+    private checkSalaryFloor(jobData: JobData): Flag | null {
+        const preferences = this.options.compensation;
+        const salary = jobData.hiddenSalary;
+        if (!preferences || preferences.targetMin == null || salary?.max == null) return null;
+        if (compareToTarget(salary, preferences) !== 'below') return null;
+
+        const annual = normalizeSalary(salary, preferences)!;
+        return {
+            keyword: 'Pay below your floor',
+            context: `Pays ${formatAnnualSalary(annual)} — your floor is ${formatAnnualAmount(preferences.targetMin, preferences.currency)}/yr`,
+            severity: 'high',
+            category: 'compensation',
+            confidence: 0.9,
+        };
+    }
+
+    /**
+     * Surface the posting-history assessment (see ghostJobs.ts) once it is
+     * at least a medium likelihood
+     */
+    private checkGhostJob(jobData: JobData): Flag | null {
+        const ghost = jobData.ghostJob;
+        if (!ghost || ghost.likelihood === 'low') return null;
+
+        return {
+            keyword: GHOST_JOB_LABELS[ghost.likelihood],
+            context: ghost.reasons.join('; '),
+            severity: ghost.likelihood === 'high' ? 'high' : 'medium',
+            category: 'hiring',
+            confidence: ghost.likelihood === 'high' ? 0.8 : 0.6,
+        };
+    }
+
+    /**
+     * Turn an employer rating into a flag. Ratings backed by only a handful
+     * of reviews are too noisy to judge a company by, so they are ignored.
+     */
+    private rateEmployer(jobData: JobData): { kind: 'red' | 'green'; flag: Flag } | null {
+        const rating = jobData.employerRating;
+        const reviews = jobData.employerReviewCount;
+        if (rating == null || (reviews != null && reviews < FlagAnalyzer.MIN_RATING_REVIEWS)) return null;
+
+        // A rating with an unknown or small review count says less
+        const confidence = reviews != null && reviews >= FlagAnalyzer.SOLID_RATING_REVIEWS ? 0.9 : 0.7;
+        const context = reviews != null
+            ? `Employees rate ${jobData.company || 'this employer'} ${rating.toFixed(1)}/5 (${reviews.toLocaleString('en-US')} reviews)`
+            : `Employees rate ${jobData.company || 'this employer'} ${rating.toFixed(1)}/5`;
+
+        if (rating < FlagAnalyzer.LOW_RATING) {
+            return {
+                kind: 'red',
+                flag: {
+                    keyword: `Low employer rating (${rating.toFixed(1)}★)`,
+                    context,
+                    severity: rating < FlagAnalyzer.VERY_LOW_RATING ? 'high' : 'medium',
+                    category: 'culture',
+                    confidence,
+                },
+            };
+        }
+
+        if (rating >= FlagAnalyzer.HIGH_RATING) {
+            return {
+                kind: 'green',
+                flag: {
+                    keyword: `Highly rated employer (${rating.toFixed(1)}★)`,
+                    context,
+                    severity: 'low',
+                    category: 'culture',
+                    confidence,
+                },
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Find flags matching patterns in text. Each pattern is reported once,
+     * from the first sentence that doesn't negate it.
      */
     private findFlags(text: string, patterns: FlagPattern[]): Flag[] {
         const flags: Flag[] = [];
         const sentences = this.splitIntoSentences(text);
 
         for (const pattern of patterns) {
+            if (flags.some((f) => f.keyword === pattern.label)) continue;
+
             for (const sentence of sentences) {
-                if (pattern.pattern.test(sentence)) {
-                    // Check if we already have this flag
-                    if (!flags.some((f) => f.keyword === pattern.label)) {
-                        flags.push({
-                            keyword: pattern.label,
-                            context: sentence.trim().substring(0, 200), // Limit context length
-                            severity: pattern.severity,
-                            category: pattern.category,
-                        });
-                    }
-                    break; // Only match once per pattern
-                }
+                if (pattern.exclude?.test(sentence)) continue;
+                const match = sentence.match(pattern.pattern);
+                if (!match) continue;
+
+                const start = match.index ?? 0;
+                const confidence = contextualConfidence(
+                    pattern.confidence ?? DEFAULT_FLAG_CONFIDENCE,
+                    matchContext(sentence, start, start + match[0].length),
+                );
+                if (confidence === null) continue; // "not a fast-paced startup"
+
+                flags.push({
+                    keyword: pattern.label,
+                    context: sentence.trim().substring(0, 200), // Limit context length
+                    severity: pattern.severity,
+                    category: pattern.category,
+                    confidence,
+                    match: match[0].trim(),
+                });
+                break; // Only match once per pattern
             }
         }
 
@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { GlassdoorParser } from './GlassdoorParser';
+import { FlagAnalyzer } from './FlagAnalyzer';
+import { getParserForUrl } from './index';
+
+const LISTING_URL = 'https://www.glassdoor.com/job-listing/senior-data-analyst-umbrella-corp-JV_IC1128808_KO0,19_KE20,33.htm?jl=1009234567890';
+
+function loadFixture(name: string, url: string): Document {
+    const html = readFileSync(new URL(`../fixtures/glassdoor/${name}`, import.meta.url), 'utf-8');
+    return new JSDOM(html, { url }).window.document;
+}
+
+describe('GlassdoorParser', () => {
+    const parser = new GlassdoorParser();
+
+    it('should match listing and split-pane URLs on regional domains', () => {
+        expect(parser.matchesUrl(LISTING_URL)).toBe(true);
+        expect(parser.matchesUrl('https://www.glassdoor.co.uk/Job/london-data-analyst-jobs-SRCH_IL.0,6_IC2671300_KO7,19.htm?jl=1009234567890')).toBe(true);
+        expect(parser.matchesUrl('https://www.glassdoor.com/Job/chicago-data-analyst-jobs-SRCH_IL.0,7_IC1128808_KO8,20.htm')).toBe(false);
+        expect(parser.matchesUrl('https://www.glassdoor.com/Reviews/Umbrella-Reviews-E12345.htm')).toBe(false);
+        expect(getParserForUrl(LISTING_URL)).toBeInstanceOf(GlassdoorParser);
+    });
+
+    it('should extract the posting with employer rating and Glassdoor estimate', async () => {
+        const data = await parser.extractJobData(loadFixture('job-listing.html', LISTING_URL));
+
+        expect(data.platform).toBe('glassdoor');
+        expect(data.title).toBe('Senior Data Analyst');
+        expect(data.company).toBe('Umbrella Corp');
+        expect(data.location).toBe('Chicago, IL');
+        expect(data.description).toContain('fast-paced analytics team');
+        expect(data.datePosted).toBe('2024-05-02');
+        expect(data.employmentType).toBe('full-time');
+
+        expect(data.employerRating).toBe(2.4);
+        expect(data.employerReviewCount).toBe(1287);
+
+        // The estimate is not employer pay
+        expect(data.visibleSalary).toBeNull();
+        expect(data.hiddenSalary).toBeNull();
+        expect(data.salaryMismatch).toBe(false);
+        expect(data.estimatedSalary).toEqual({ min: 82000, max: 118000, currency: 'USD', period: 'YEAR' });
+    });
+
+    it('should turn the employer rating into a flag', async () => {
+        const data = await parser.extractJobData(loadFixture('job-listing.html', LISTING_URL));
+        const { redFlags } = new FlagAnalyzer().analyzeJob(data);
+
+        expect(redFlags).toContainEqual({
+            keyword: 'Low employer rating (2.4★)',
+            context: 'Employees rate Umbrella Corp 2.4/5 (1,287 reviews)',
+            severity: 'high',
+            category: 'culture',
+            confidence: 0.9,
+        });
+
+        const unrated = new FlagAnalyzer().analyzeJob({ ...data, employerRating: 4.6, employerReviewCount: 3 });
+        expect(unrated.redFlags.some((f) => f.keyword.includes('rating'))).toBe(false);
+        expect(unrated.greenFlags.some((f) => f.keyword.includes('rated'))).toBe(false);
+    });
+});
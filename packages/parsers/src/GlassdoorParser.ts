@@ -0,0 +1,164 @@
+import type { JobData, SalaryData } from '@job-bodyguard/types';
+import { BaseParser } from './BaseParser';
+import { normalizeCurrency, parseMonetaryAmount, parseSalaryText } from './salary';
+
+/**
+ * Parser for Glassdoor job listings.
+ *
+ * Handles both the standalone listing (/job-listing/...htm?jl=) and the
+ * split-pane search view (/Job/...htm?jl=). Besides the posting itself,
+ * Glassdoor shows the employer's star rating and its own salary estimate,
+ * which are kept apart from employer-provided pay (`estimatedSalary`).
+ */
+export class GlassdoorParser extends BaseParser {
+    platform = 'glassdoor' as const;
+
+    private selectors = {
+        title: [
+            '[data-test="job-title"]',
+            'h1[id^="jd-job-title"]',
+            '[class*="JobDetails_jobTitle"]',
+            '[class*="JobDetails_jobDetailsHeader"] h1',
+        ].join(', '),
+
+        company: [
+            '[data-test="employer-name"]',
+            '[class*="EmployerProfile_employerNameHeading"] h4',
+            '[class*="EmployerProfile_employerName"]',
+        ].join(', '),
+
+        location: [
+            '[data-test="location"]',
+            '[class*="JobDetails_location"]',
+        ].join(', '),
+
+        salary: [
+            '[data-test="detailSalary"]',
+            '[class*="SalaryEstimate_salaryRange"]',
+        ].join(', '),
+
+        salarySource: [
+            '[class*="SalaryEstimate_payPeriod"]',
+            '[class*="SalaryEstimate_salaryEstimateNumber"]',
+            '[data-test="salaryEstimate"]',
+        ].join(', '),
+
+        rating: [
+            '[data-test="detailRating"]',
+            '[class*="rating-single-star_RatingText"]',
+            '[class*="EmployerProfile_ratingContainer"]',
+        ].join(', '),
+
+        reviewCount: [
+            '[data-test="employer-review-count"]',
+            '[class*="EmployerProfile_profileContainer"]',
+            '[class*="RatingHeadline_headline"]',
+        ].join(', '),
+
+        description: [
+            '[class*="JobDetails_jobDescription"]',
+            '[data-test="jobDescriptionContent"]',
+            '#JobDescriptionContainer',
+            '.jobDescriptionContent',
+        ].join(', '),
+    };
+
+    async extractJobData(document: Document): Promise<JobData> {
+        const url = document.location?.href || '';
+        const jobData = this.createEmptyJobData(url);
+
+        // 1. Visible fields
+        jobData.title = this.getText(document, this.selectors.title);
+        jobData.company = this.cleanCompany(this.getText(document, this.selectors.company));
+        jobData.location = this.getText(document, this.selectors.location);
+        jobData.description = this.getHtml(document, this.selectors.description).trim();
+
+        // 2. Employer reputation
+        jobData.employerRating = this.parseRating(this.getText(document, this.selectors.rating));
+        jobData.employerReviewCount = this.parseReviewCount(this.getText(document, this.selectors.reviewCount));
+
+        // 3. Salary: Glassdoor labels its own figures "(Glassdoor est.)"
+        const salaryText = this.getText(document, this.selectors.salary);
+        if (salaryText) {
+            const source = `${salaryText} ${this.getText(document, this.selectors.salarySource)}`;
+            if (this.isPlatformEstimate(source)) {
+                jobData.estimatedSalary = parseSalaryText(source);
+            } else {
+                jobData.visibleSalary = salaryText;
+            }
+        }
+
+        // 4. JSON-LD (dates, employer pay, distribution estimate)
+        const jsonLd = this.extractJsonLd(document);
+        if (jsonLd) {
+            if (jsonLd.datePosted) {
+                this.setDatePosted(jobData, String(jsonLd.datePosted));
+            }
+            if (jsonLd.validThrough) jobData.validThrough = String(jsonLd.validThrough);
+            if (!jobData.title && jsonLd.title) jobData.title = String(jsonLd.title);
+            if (!jobData.company) {
+                const org = jsonLd.hiringOrganization as Record<string, unknown> | undefined;
+                if (org?.name) jobData.company = String(org.name);
+            }
+            this.setEmploymentFromJsonLd(jobData, jsonLd);
+
+            jobData.hiddenSalary = parseMonetaryAmount(jsonLd.baseSalary, { currency: 'USD' });
+            jobData.estimatedSalary = this.extractEstimatedSalary(jsonLd.estimatedSalary) ?? jobData.estimatedSalary;
+
+            if (jobData.hiddenSalary && !jobData.visibleSalary) {
+                jobData.salaryMismatch = true;
+            }
+        }
+        jobData.hiddenSalary ??= parseSalaryText(jobData.visibleSalary);
+
+        return jobData;
+    }
+
+    /** The employer heading repeats the rating: "Acme Corp 3.4 ★" */
+    private cleanCompany(text: string): string {
+        return text.replace(/\s*\d(\.\d)?\s*★?\s*$/, '').trim();
+    }
+
+    private parseRating(text: string): number | null {
+        const match = text.match(/\b([0-5](?:[.,]\d)?)\b/);
+        if (!match) return null;
+        const rating = parseFloat(match[1].replace(',', '.'));
+        return rating > 0 && rating <= 5 ? rating : null;
+    }
+
+    /** "1,234 reviews", "2.5K Reviews" */
+    private parseReviewCount(text: string): number | null {
+        const match = text.match(/([\d.,]+)\s*([kK])?\s*reviews?/i);
+        if (!match) return null;
+        const value = parseFloat(match[1].replace(/,/g, ''));
+        if (!Number.isFinite(value)) return null;
+        return Math.round(match[2] ? value * 1000 : value);
+    }
+
+    private isPlatformEstimate(text: string): boolean {
+        return /glassdoor est|\(est\.\)/i.test(text) && !/employer (est|provided)/i.test(text);
+    }
+
+    /**
+     * estimatedSalary is a MonetaryAmountDistribution (percentile10 / median / percentile90)
+     * or a list of them; the 10th-90th percentile band becomes the range.
+     */
+    private extractEstimatedSalary(estimated: unknown): SalaryData | null {
+        const first = ([] as unknown[]).concat(estimated ?? [])[0];
+        if (!first || typeof first !== 'object') return null;
+
+        const dist = first as Record<string, unknown>;
+        const num = (v: unknown) => (typeof v === 'number' ? v : typeof v === 'string' && v ? parseFloat(v) : null);
+        const min = num(dist.percentile10) ?? num(dist.minValue) ?? num(dist.median);
+        const max = num(dist.percentile90) ?? num(dist.maxValue) ?? num(dist.median);
+        if (min === null && max === null) return null;
+
+        return {
+            min,
+            max,
+            currency: normalizeCurrency(dist.currency) ?? 'USD',
+            // duration is ISO-8601: P1Y / P1M / PT1H
+            period: this.mapSalaryPeriod(String(dist.duration || dist.unitText || '')),
+        };
+    }
+}
@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { GreenhouseParser } from './GreenhouseParser';
+import { getParserForUrl } from './index';
+
+function loadFixture(name: string, url: string): Document {
+    const html = readFileSync(new URL(`../fixtures/greenhouse/${name}`, import.meta.url), 'utf-8');
+    return new JSDOM(html, { url }).window.document;
+}
+
+describe('GreenhouseParser', () => {
+    const parser = new GreenhouseParser();
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should match both board layouts and the embed URL', () => {
+        expect(parser.matchesUrl('https://boards.greenhouse.io/acme/jobs/4012345')).toBe(true);
+        expect(parser.matchesUrl('https://job-boards.greenhouse.io/globex/jobs/5012345?gh_src=abc')).toBe(true);
+        expect(parser.matchesUrl('https://boards.greenhouse.io/embed/job_app?for=acme&token=4012345')).toBe(true);
+        expect(parser.matchesUrl('https://boards.greenhouse.io/acme')).toBe(false);
+        expect(getParserForUrl('https://boards.greenhouse.io/acme/jobs/4012345')).toBeInstanceOf(GreenhouseParser);
+    });
+
+    it('should extract the classic board and take the department from the API', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ title: 'Senior Backend Engineer', departments: [{ name: 'Platform' }] }),
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const doc = loadFixture('classic.html', 'https://boards.greenhouse.io/acme/jobs/4012345');
+        const data = await parser.extractJobData(doc);
+
+        expect(fetchMock).toHaveBeenCalledWith('https://boards-api.greenhouse.io/v1/boards/acme/jobs/4012345');
+        expect(data.platform).toBe('greenhouse');
+        expect(data.title).toBe('Senior Backend Engineer');
+        expect(data.company).toBe('Acme Robotics');
+        expect(data.location).toBe('Berlin, Germany');
+        expect(data.department).toBe('Platform');
+        expect(data.description).toContain('order-routing services');
+        expect(data.requirements).toEqual([
+            '5+ years building backend services in Go or Java',
+            'Experience with PostgreSQL and Kafka',
+        ]);
+    });
+
+    it('should extract the new job-boards layout and survive an API failure', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+
+        const doc = loadFixture('job-boards.html', 'https://job-boards.greenhouse.io/globex/jobs/5012345');
+        const data = await parser.extractJobData(doc);
+
+        expect(data.title).toBe('Product Designer');
+        expect(data.company).toBe('Globex');
+        expect(data.location).toBe('Remote - US');
+        expect(data.department).toBeNull();
+        expect(data.datePosted).toBe('2024-05-02');
+        expect(data.requirements).toEqual([
+            '3+ years of product design experience',
+            'A portfolio of shipped mobile work',
+        ]);
+    });
+});
@@ -0,0 +1,180 @@
+import type { JobData } from '@job-bodyguard/types';
+import { BaseParser } from './BaseParser';
+
+/**
+ * Parser for Greenhouse-hosted job boards.
+ *
+ * Greenhouse serves two layouts:
+ *   - boards.greenhouse.io/{board}/jobs/{id}      — classic board (#header / #content)
+ *   - job-boards.greenhouse.io/{board}/jobs/{id}  — new React board (.job__title / .job__description)
+ *
+ * Neither layout prints the department, so it comes from the public
+ * boards API (boards-api.greenhouse.io), which also backfills any field
+ * the DOM did not yield.
+ */
+export class GreenhouseParser extends BaseParser {
+    platform = 'greenhouse' as const;
+
+    private selectors = {
+        title: [
+            '.job__title h1',
+            'h1.app-title',
+            '.app-title',
+            'h1',
+        ].join(', '),
+
+        company: [
+            '#header .company-name',
+            '.company-name',
+        ].join(', '),
+
+        location: [
+            '.job__location',
+            '#header .location',
+            '.location',
+        ].join(', '),
+
+        department: [
+            '.job__department',
+            '.department',
+        ].join(', '),
+
+        description: [
+            '.job__description',
+            '#content',
+        ].join(', '),
+    };
+
+    async extractJobData(document: Document): Promise<JobData> {
+        const url = document.location?.href || '';
+        const jobData = this.createEmptyJobData(url);
+
+        // 1. Visible fields
+        jobData.title = this.getText(document, this.selectors.title);
+        jobData.company = this.cleanCompany(this.getText(document, this.selectors.company))
+            || this.companyFromTitleTag(document);
+        jobData.location = this.getText(document, this.selectors.location);
+        jobData.department = this.getText(document, this.selectors.department) || null;
+        jobData.description = this.getHtml(document, this.selectors.description).trim();
+        jobData.requirements = this.extractRequirements(document);
+
+        // 2. JSON-LD (new boards publish a JobPosting with dates)
+        const jsonLd = this.extractJsonLd(document);
+        if (jsonLd) {
+            if (jsonLd.datePosted) {
+                this.setDatePosted(jobData, String(jsonLd.datePosted));
+            }
+            if (jsonLd.validThrough) jobData.validThrough = String(jsonLd.validThrough);
+            if (!jobData.title && jsonLd.title) jobData.title = String(jsonLd.title);
+            if (!jobData.company) {
+                const org = jsonLd.hiringOrganization as Record<string, unknown> | undefined;
+                if (org?.name) jobData.company = String(org.name);
+            }
+            this.setEmploymentFromJsonLd(jobData, jsonLd);
+        }
+
+        // 3. Public boards API — department + backfill
+        if (!jobData.department || !jobData.title || !jobData.description) {
+            const api = await this.fetchFromApi(url);
+            if (api) {
+                jobData.department = jobData.department || api.department;
+                jobData.title = jobData.title || api.title;
+                jobData.company = jobData.company || api.company;
+                jobData.location = jobData.location || api.location;
+                jobData.description = jobData.description || api.description;
+                // Last edit, not first publication: the job is at least this old
+                if (!jobData.datePosted && api.updatedAt) {
+                    this.setDatePosted(jobData, api.updatedAt, 'minimum');
+                }
+            }
+        }
+
+        return jobData;
+    }
+
+    /** Extract {board, id} from either URL form */
+    private extractJobRef(url: string): { board: string; id: string } | null {
+        try {
+            const u = new URL(url);
+            const path = u.pathname.match(/^\/([\w-]+)\/jobs\/(\d+)/);
+            if (path && path[1] !== 'embed') return { board: path[1], id: path[2] };
+
+            const board = u.searchParams.get('for');
+            const id = u.searchParams.get('token');
+            if (board && id) return { board, id };
+        } catch {
+            // fall through
+        }
+        return null;
+    }
+
+    private async fetchFromApi(url: string): Promise<{
+        title: string;
+        company: string;
+        location: string;
+        department: string | null;
+        description: string;
+        updatedAt: string | null;
+    } | null> {
+        const ref = this.extractJobRef(url);
+        if (!ref || typeof fetch !== 'function') return null;
+
+        try {
+            const response = await fetch(`https://boards-api.greenhouse.io/v1/boards/${ref.board}/jobs/${ref.id}`);
+            if (!response.ok) return null;
+            const data = await response.json() as Record<string, unknown>;
+
+            const departments = (data.departments as Array<{ name?: string }> | undefined) ?? [];
+            const location = data.location as { name?: string } | undefined;
+
+            return {
+                title: String(data.title ?? ''),
+                company: String(data.company_name ?? ''),
+                location: location?.name ?? '',
+                department: departments.map((d) => d.name).filter(Boolean).join(', ') || null,
+                // The API returns the description HTML-escaped
+                description: String(data.content ?? '')
+                    .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+                    .replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&'),
+                updatedAt: (data.updated_at as string | undefined) ?? null,
+            };
+        } catch (err) {
+            console.warn('[GreenhouseParser] Boards API unavailable:', err);
+            return null;
+        }
+    }
+
+    /** Classic boards print "at Acme" */
+    private cleanCompany(text: string): string {
+        return text.replace(/^at\s+/i, '').trim();
+    }
+
+    /** New boards only carry the company in <title>: "Job Application for X at Acme" */
+    private companyFromTitleTag(doc: Document): string {
+        const title = doc.querySelector('title')?.textContent || '';
+        return title.match(/\bat\s+(.+?)\s*$/i)?.[1]?.trim() || '';
+    }
+
+    /** Bullet points that follow a "Requirements" / "Qualifications" heading */
+    private extractRequirements(doc: Document): string[] {
+        const headings = doc.querySelectorAll(
+            '.job__description h2, .job__description h3, .job__description strong, #content h2, #content h3, #content strong'
+        );
+
+        for (const heading of headings) {
+            if (!/requirement|qualification|what you.?ll need|you have/i.test(heading.textContent || '')) continue;
+
+            let list: Element | null = heading.nextElementSibling;
+            // <strong> sits inside a <p>; the list follows the paragraph
+            if (!list && heading.parentElement) list = heading.parentElement.nextElementSibling;
+            if (list?.tagName === 'UL' || list?.tagName === 'OL') {
+                return Array.from(list.querySelectorAll('li'))
+                    .map((li) => li.textContent?.trim() || '')
+                    .filter((s) => s.length > 0)
+                    .slice(0, 15);
+            }
+        }
+
+        return [];
+    }
+}
@@ -1,44 +1,41 @@
-import type { JobData, JobPlatform } from '@job-bodyguard/types';
+import type { JobData, JobPlatform, SalaryData, Seniority } from '@job-bodyguard/types';
 import { BaseParser } from './BaseParser';
+import { parseEmploymentType, parseWorkMode } from './classification';
+import { requiredYears, titleSeniority, yearsSeniority } from './seniority';
+import { parseMonetaryAmount, parseSalaryText } from './salary';
+import type { SalaryDefaults } from './salary';
 
 /**
  * Parser for hh.ru job postings
  * HH.ru is the largest job platform in Russia and CIS countries
  */
 export class HHParser extends BaseParser {
-    readonly platform: JobPlatform = 'other';
+    readonly platform: JobPlatform = 'hh.ru';
 
-    /**
-     * Check if current URL is a valid hh.ru job page
-     */
-    matchesUrl(url: string): boolean {
-        const patterns = [
-            /^https?:\/\/([\w-]+\.)?hh\.ru\/vacancy\/\d+/,
-            /^https?:\/\/([\w-]+\.)?headhunter\.ru\/vacancy\/\d+/
-        ];
-        return patterns.some(p => p.test(url));
-    }
+    // hh.ru quotes pay per month in roubles unless it says otherwise
+    private static SALARY_DEFAULTS: SalaryDefaults = { currency: 'RUB', period: 'MONTH' };
 
     /**
      * Extract job data from hh.ru vacancy page
      */
     async extractJobData(doc: Document): Promise<JobData> {
+        this.selectorMatches = {};
         const jsonLd = this.extractHHJsonLd(doc);
         const dom = this.extractFromDOM(doc);
 
-        return {
+        const jobData: JobData = {
             title: jsonLd.title || dom.title || 'Unknown Title',
             company: jsonLd.company || dom.company || 'Unknown Company',
             location: jsonLd.location || dom.location || 'Unknown Location',
             description: dom.description || '',
             requirements: this.extractRequirements(dom.description),
 
-            datePosted: jsonLd.datePosted || null,
+            datePosted: null,
             validThrough: jsonLd.validThrough || null,
-            jobAge: jsonLd.datePosted ? this.calculateDaysAgo(jsonLd.datePosted) : null,
+            jobAge: null,
 
             visibleSalary: dom.salary || null,
-            hiddenSalary: this.parseSalary(jsonLd.salary || dom.salary),
+            hiddenSalary: this.extractSalary(jsonLd.baseSalary, dom.salary),
             salaryMismatch: false,
 
             redFlags: [],
@@ -48,6 +45,21 @@ export class HHParser extends BaseParser {
             platform: this.platform,
             scrapedAt: new Date().toISOString(),
         };
+
+        // "Вакансия опубликована 12 марта" stands in when JSON-LD has no date
+        if (jsonLd.datePosted) {
+            this.setDatePosted(jobData, jsonLd.datePosted);
+        } else {
+            this.setDatePostedFromText(jobData, dom.posted);
+        }
+
+        // "Полная занятость" / "Формат работы: удалённо" beat JSON-LD's FULL_TIME / TELECOMMUTE
+        if (jsonLd.posting) this.setEmploymentFromJsonLd(jobData, jsonLd.posting);
+        jobData.employmentType = parseEmploymentType(dom.employment) ?? jobData.employmentType;
+        jobData.workMode = (dom.workFormat ? parseWorkMode(dom.workFormat) : null) ?? jobData.workMode;
+        jobData.seniority = titleSeniority(jobData.title) ?? this.experienceSeniority(dom.experience);
+
+        return jobData;
     }
 
     /**
@@ -59,7 +71,8 @@ export class HHParser extends BaseParser {
         location?: string;
         datePosted?: string;
         validThrough?: string;
-        salary?: string;
+        baseSalary?: unknown;
+        posting?: Record<string, unknown>;
     } {
         const data = this.extractJsonLd(doc);
         if (!data) return {};
@@ -70,7 +83,8 @@ export class HHParser extends BaseParser {
             location: this.extractLocation(data),
             datePosted: data.datePosted as string | undefined,
             validThrough: data.validThrough as string | undefined,
-            salary: this.formatSalaryFromJsonLd(data.baseSalary as Record<string, unknown> | undefined),
+            baseSalary: data.baseSalary,
+            posting: data,
         };
     }
 
@@ -88,24 +102,25 @@ export class HHParser extends BaseParser {
     }
 
     /**
-     * Format salary from JSON-LD structure
+     * JSON-LD amounts are authoritative; the visible text adds what they
+     * leave out, i.e. whether the figure is before or after tax ("на руки")
      */
-    private formatSalaryFromJsonLd(baseSalary?: Record<string, unknown>): string | undefined {
-        if (!baseSalary?.value) return undefined;
+    private extractSalary(baseSalary: unknown, visibleText: string | null): SalaryData | null {
+        const fromText = parseSalaryText(visibleText, HHParser.SALARY_DEFAULTS);
+        const fromJsonLd = parseMonetaryAmount(baseSalary, HHParser.SALARY_DEFAULTS);
+        if (!fromJsonLd) return fromText;
 
-        const value = baseSalary.value as Record<string, number> | undefined;
-        if (!value) return undefined;
-
-        const { minValue, maxValue } = value;
-        const currency = (baseSalary.currency || 'RUB') as string;
+        return fromText?.taxBasis ? { ...fromJsonLd, taxBasis: fromText.taxBasis } : fromJsonLd;
+    }
 
-        if (minValue && maxValue) {
-            return `${minValue.toLocaleString()} - ${maxValue.toLocaleString()} ${currency}`;
-        }
-        if (value.value) {
-            return `${value.value.toLocaleString()} ${currency}`;
-        }
-        return undefined;
+    /**
+     * Level implied by the "Требуемый опыт работы" line: "не требуется",
+     * "1–3 года", "3–6 лет", "более 6 лет"
+     */
+    private experienceSeniority(experience: string | null): Seniority | null {
+        if (!experience) return null;
+        if (/не\s+требуется|нет\s+опыта|no\s+experience|not\s+required/i.test(experience)) return 'junior';
+        return yearsSeniority(requiredYears([experience]) ?? 0);
     }
 
     /**
@@ -117,72 +132,27 @@ export class HHParser extends BaseParser {
         location: string;
         description: string;
         salary: string | null;
+        posted: string | null;
+        experience: string | null;
+        employment: string | null;
+        workFormat: string | null;
     } {
-        // HH.ru specific selectors
-        const selectors = {
-            title: [
-                'h1[data-qa="vacancy-title"]',
-                '.vacancy-title h1',
-                'h1.bloko-header-section-1',
-            ],
-            company: [
-                '[data-qa="vacancy-company-name"]',
-                '.vacancy-company-name a',
-                '.bloko-link_kind-tertiary',
-            ],
-            location: [
-                '[data-qa="vacancy-view-location"]',
-                '.vacancy-view-location',
-                '[data-qa="vacancy-view-raw-address"]',
-            ],
-            description: [
-                '[data-qa="vacancy-description"]',
-                '.vacancy-section',
-                '.bloko-gap-bottom-6 .g-user-content',
-            ],
-            salary: [
-                '[data-qa="vacancy-salary-compensation-type-net"]',
-                '[data-qa="vacancy-salary"]',
-                '.vacancy-salary',
-                '.bloko-header-section-2',
-            ],
-        };
+        // HH.ru specific selectors (see selectors.json)
+        const selectors = this.getSelectorConfig();
 
         return {
-            title: this.findText(doc, selectors.title),
-            company: this.findText(doc, selectors.company),
-            location: this.findText(doc, selectors.location),
-            description: this.findHtml(doc, selectors.description),
-            salary: this.findText(doc, selectors.salary) || null,
+            title: this.getText(doc, selectors.title, 'title'),
+            company: this.getText(doc, selectors.company, 'company'),
+            location: this.getText(doc, selectors.location, 'location'),
+            description: this.getHtml(doc, selectors.description, 'description').trim(),
+            salary: this.getText(doc, selectors.salary, 'salary') || null,
+            posted: this.getText(doc, selectors.posted, 'posted') || null,
+            experience: this.getText(doc, selectors.experience, 'experience') || null,
+            employment: this.getText(doc, selectors.employment, 'employment') || null,
+            workFormat: this.getText(doc, selectors.workFormat, 'workFormat') || null,
         };
     }
 
-    /**
-     * Find text content using selector array
-     */
-    private findText(doc: Document, selectors: string[]): string {
-        for (const selector of selectors) {
-            const el = doc.querySelector(selector);
-            if (el?.textContent?.trim()) {
-                return el.textContent.trim();
-            }
-        }
-        return '';
-    }
-
-    /**
-     * Find HTML content using selector array
-     */
-    private findHtml(doc: Document, selectors: string[]): string {
-        for (const selector of selectors) {
-            const el = doc.querySelector(selector);
-            if (el?.innerHTML?.trim()) {
-                return el.innerHTML.trim();
-            }
-        }
-        return '';
-    }
-
     /**
      * Extract requirements from description
      */
@@ -209,64 +179,4 @@ export class HHParser extends BaseParser {
 
         return [...new Set(requirements)].slice(0, 15);
     }
-
-    /**
-     * Parse salary string to structured format
-     */
-    private parseSalary(salary: string | null): JobData['hiddenSalary'] {
-        if (!salary) return null;
-
-        const cleanSalary = salary.replace(/\s+/g, ' ').trim();
-
-        // Patterns for Russian salary formats
-        const patterns = [
-            /(\d[\d\s]*)\s*[-–—]\s*(\d[\d\s]*)\s*(₽|руб|rub|руб\.?|р\.?)/i,
-            /от\s*(\d[\d\s]*)\s*(₽|руб|rub|руб\.?|р\.?)/i,
-            /до\s*(\d[\d\s]*)\s*(₽|руб|rub|руб\.?|р\.?)/i,
-            /(\d[\d\s]*)\s*(₽|руб|rub|руб\.?|р\.?)/i,
-        ];
-
-        for (const pattern of patterns) {
-            const match = cleanSalary.match(pattern);
-            if (match) {
-                const parseNum = (s: string) => parseInt(s.replace(/\s/g, ''), 10);
-
-                if (match[2] && match[3]) {
-                    return {
-                        min: parseNum(match[1]),
-                        max: parseNum(match[2]),
-                        currency: 'RUB',
-                        period: 'MONTH' as const,
-                    };
-                }
-
-                if (cleanSalary.includes('от')) {
-                    return {
-                        min: parseNum(match[1]),
-                        max: null,
-                        currency: 'RUB',
-                        period: 'MONTH' as const,
-                    };
-                }
-
-                if (cleanSalary.includes('до')) {
-                    return {
-                        min: null,
-                        max: parseNum(match[1]),
-                        currency: 'RUB',
-                        period: 'MONTH' as const,
-                    };
-                }
-
-                return {
-                    min: parseNum(match[1]),
-                    max: parseNum(match[1]),
-                    currency: 'RUB',
-                    period: 'MONTH' as const,
-                };
-            }
-        }
-
-        return null;
-    }
 }
@@ -0,0 +1,45 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { LeverParser } from './LeverParser';
+import { getParserForUrl } from './index';
+
+const POSTING_URL = 'https://jobs.lever.co/initech/3f1b2c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+
+function loadFixture(name: string, url: string): Document {
+    const html = readFileSync(new URL(`../fixtures/lever/${name}`, import.meta.url), 'utf-8');
+    return new JSDOM(html, { url }).window.document;
+}
+
+describe('LeverParser', () => {
+    const parser = new LeverParser();
+
+    it('should match posting and apply URLs only', () => {
+        expect(parser.matchesUrl(POSTING_URL)).toBe(true);
+        expect(parser.matchesUrl(`${POSTING_URL}/apply`)).toBe(true);
+        expect(parser.matchesUrl('https://jobs.lever.co/initech')).toBe(false);
+        expect(getParserForUrl(POSTING_URL)).toBeInstanceOf(LeverParser);
+    });
+
+    it('should extract headline categories and the posting body', async () => {
+        const data = await parser.extractJobData(loadFixture('posting.html', POSTING_URL));
+
+        expect(data.platform).toBe('lever');
+        expect(data.title).toBe('Data Engineer');
+        expect(data.company).toBe('Initech');
+        expect(data.location).toBe('Austin, TX');
+        expect(data.department).toBe('Engineering – Data Platform');
+        expect(data.employmentType).toBe('full-time');
+        expect(data.datePosted).toBe('2024-04-18');
+        expect(data.requirements).toEqual(['Strong SQL and Python', 'Experience with Airflow or Dagster']);
+    });
+
+    it('should keep the headline and apply button out of the description', async () => {
+        const data = await parser.extractJobData(loadFixture('posting.html', POSTING_URL));
+
+        expect(data.description).toContain('modernise our reporting pipeline');
+        expect(data.description).toContain('equal opportunity employer');
+        expect(data.description).not.toContain('Apply for this job');
+        expect(data.description).not.toContain('posting-categories');
+    });
+});
@@ -0,0 +1,111 @@
+import type { JobData } from '@job-bodyguard/types';
+import { BaseParser } from './BaseParser';
+import { parseEmploymentType } from './classification';
+
+/**
+ * Parser for Lever-hosted postings (jobs.lever.co/{company}/{uuid}).
+ *
+ * Lever renders every posting from the same template: the headline holds
+ * the title plus "category" chips (location / department / commitment),
+ * and requirement lists live in `.posting-requirements`.
+ */
+export class LeverParser extends BaseParser {
+    platform = 'lever' as const;
+
+    private selectors = {
+        title: [
+            '.posting-headline h2',
+            '.posting-header h2',
+        ].join(', '),
+
+        company: '.main-header-logo img',
+
+        location: [
+            '.posting-categories .location',
+            '.posting-category.location',
+        ].join(', '),
+
+        department: [
+            '.posting-categories .department',
+            '.posting-category.department',
+        ].join(', '),
+
+        commitment: [
+            '.posting-categories .commitment',
+            '.posting-category.commitment',
+        ].join(', '),
+
+        // Every body section except the headline and the bottom "Apply" block
+        description: '.section-wrapper .section.page-centered:not(.posting-header):not(.last-section-apply)',
+    };
+
+    async extractJobData(document: Document): Promise<JobData> {
+        const url = document.location?.href || '';
+        const jobData = this.createEmptyJobData(url);
+
+        // 1. Visible fields
+        jobData.title = this.getText(document, this.selectors.title);
+        jobData.company = this.extractCompany(document, url);
+        jobData.location = this.cleanCategory(this.getText(document, this.selectors.location));
+        jobData.department = this.cleanCategory(this.getText(document, this.selectors.department)) || null;
+        jobData.employmentType = parseEmploymentType(this.cleanCategory(this.getText(document, this.selectors.commitment)));
+        jobData.description = this.extractDescription(document);
+        jobData.requirements = this.extractRequirements(document);
+
+        // 2. JSON-LD (dates; hiringOrganization beats the logo alt text)
+        const jsonLd = this.extractJsonLd(document);
+        if (jsonLd) {
+            if (jsonLd.datePosted) {
+                this.setDatePosted(jobData, String(jsonLd.datePosted));
+            }
+            if (jsonLd.validThrough) jobData.validThrough = String(jsonLd.validThrough);
+            if (!jobData.title && jsonLd.title) jobData.title = String(jsonLd.title);
+
+            const org = jsonLd.hiringOrganization as Record<string, unknown> | undefined;
+            if (org?.name) jobData.company = String(org.name);
+            this.setEmploymentFromJsonLd(jobData, jsonLd);
+        }
+
+        return jobData;
+    }
+
+    /** Logo alt text ("Acme logo"), falling back to the company slug in the URL */
+    private extractCompany(doc: Document, url: string): string {
+        const alt = doc.querySelector(this.selectors.company)?.getAttribute('alt') || '';
+        const fromLogo = alt.replace(/\s*logo\s*$/i, '').trim();
+        if (fromLogo) return fromLogo;
+
+        const slug = url.match(/lever\.co\/([\w.-]+)\//i)?.[1] || '';
+        return slug.replace(/[-_]+/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+    }
+
+    /** Category chips end with a " /" separator, e.g. "Engineering – Platform /" */
+    private cleanCategory(text: string): string {
+        return text.replace(/\s*\/\s*$/, '').trim();
+    }
+
+    /** The posting body is split into several page-centered sections */
+    private extractDescription(doc: Document): string {
+        const sections = doc.querySelectorAll(this.selectors.description);
+        return Array.from(sections)
+            .map((el) => el.innerHTML.trim())
+            .filter((html) => html.length > 0)
+            .join('\n');
+    }
+
+    private extractRequirements(doc: Document): string[] {
+        const lists = doc.querySelectorAll('.posting-requirements, .section ul');
+
+        for (const list of lists) {
+            const heading = list.parentElement?.querySelector('h3')?.textContent || '';
+            if (!/requirement|qualification|what you.?ll need|you have|about you/i.test(heading)) continue;
+
+            return Array.from(list.querySelectorAll('li'))
+                .map((li) => li.textContent?.trim() || '')
+                .filter((s) => s.length > 0)
+                .slice(0, 15);
+        }
+
+        return [];
+    }
+}
@@ -1,5 +1,6 @@
 import type { JobData, SalaryData } from '@job-bodyguard/types';
 import { BaseParser } from './BaseParser';
+import { looksLikeSalary, parseMonetaryAmount, parseSalaryText } from './salary';
 
 /**
  * Parser for LinkedIn job postings.
@@ -14,80 +15,12 @@ import { BaseParser } from './BaseParser';
 export class LinkedInParser extends BaseParser {
     platform = 'linkedin' as const;
 
-    // All LinkedIn URL patterns that show a job detail panel
+    // Job-detail URL shapes, used to pull the job ID (URL matching lives in the platform registry)
     private static VIEW_PATTERN = /linkedin\.com\/jobs\/view\/([^/?#]+)/;
     private static SEARCH_PATTERN = /linkedin\.com\/jobs\/(?:search|recommended|collections)\/.*[?&]currentJobId=(\d+)/;
     // Some regional sites use /jobs/ root with currentJobId
     private static ROOT_JOB_PATTERN = /linkedin\.com\/jobs[/?].*[?&]currentJobId=(\d+)/;
 
-    private selectors = {
-        title: [
-            // Logged-in view
-            '.job-details-jobs-unified-top-card__job-title h1',
-            '.job-details-jobs-unified-top-card__job-title',
-            '.jobs-unified-top-card__job-title',
-            'h1.t-24',
-            '.jobs-details-top-card__job-title',
-            // Public / guest view (ca.linkedin.com, fr.linkedin.com, etc.)
-            'h1.top-card-layout__title',
-            '.top-card-layout__title',
-            'h1',
-        ].join(', '),
-
-        company: [
-            // Logged-in view
-            '.job-details-jobs-unified-top-card__company-name a',
-            '.jobs-unified-top-card__company-name a',
-            '.jobs-unified-top-card__company-name',
-            '.job-details-jobs-unified-top-card__primary-description-without-tagline a',
-            '.jobs-details-top-card__company-url',
-            // Public / guest view
-            '.topcard__org-name-link',
-            '.topcard__flavor--black-link',
-            'a[data-tracking-control-name="public_jobs_topcard-org-name"]',
-        ].join(', '),
-
-        location: [
-            // Logged-in view
-            '.job-details-jobs-unified-top-card__bullet',
-            '.jobs-unified-top-card__bullet',
-            '.jobs-unified-top-card__workplace-type',
-            '.job-details-jobs-unified-top-card__primary-description span',
-            // Public / guest view
-            '.topcard__flavor--bullet',
-            '.topcard__flavor',
-        ].join(', '),
-
-        description: [
-            // Logged-in view
-            '#job-details',
-            '.jobs-description__content',
-            '.jobs-box__html-content',
-            '.jobs-description-content__text',
-            // Public / guest view
-            '.description__text',
-            '.show-more-less-html',
-            '[class*="description"] [class*="content"]',
-        ].join(', '),
-
-        salary: [
-            // Logged-in view
-            '.job-details-jobs-unified-top-card__job-insight span',
-            // Public / guest view
-            '.compensation__salary',
-            '.salary',
-            '[class*="compensation"] [class*="salary"]',
-        ].join(', '),
-    };
-
-    matchesUrl(url: string): boolean {
-        return (
-            LinkedInParser.VIEW_PATTERN.test(url) ||
-            LinkedInParser.SEARCH_PATTERN.test(url) ||
-            LinkedInParser.ROOT_JOB_PATTERN.test(url)
-        );
-    }
-
     /** Extract the numeric job ID from the current URL */
     private extractJobId(url: string): string | null {
         // Search/collections split-pane: currentJobId=12345
@@ -110,29 +43,26 @@ export class LinkedInParser extends BaseParser {
     async extractJobData(document: Document): Promise<JobData> {
         const url = document.location?.href || '';
         const jobData = this.createEmptyJobData(url);
-
-        // 1. Extract visible data (DOM selectors)
-        jobData.title = this.getText(document, this.selectors.title);
-        jobData.company = this.getText(document, this.selectors.company);
-        jobData.location = this.getText(document, this.selectors.location);
-        jobData.description = this.getHtml(document, this.selectors.description);
-
-        // 2. Try to find visible salary
-        const salaryEls = document.querySelectorAll(this.selectors.salary);
-        for (const el of salaryEls) {
-            const text = el.textContent || '';
-            if (text.includes('$') || text.includes('€') || text.includes('£') || text.match(/\d{2,}[kK]/)) {
-                jobData.visibleSalary = text.trim();
-                break;
-            }
+        const selectors = this.getSelectorConfig();
+        this.selectorMatches = {};
+
+        // 1. Extract visible data (DOM selectors, see selectors.json)
+        jobData.title = this.getText(document, selectors.title, 'title');
+        jobData.company = this.getText(document, selectors.company, 'company');
+        jobData.location = this.getText(document, selectors.location, 'location');
+        jobData.description = this.getHtml(document, selectors.description, 'description');
+
+        // 2. Try to find visible salary (first element that looks like money)
+        const salaryEl = this.findElementWhere(document, selectors.salary, 'salary', (el) => looksLikeSalary(el.textContent));
+        if (salaryEl) {
+            jobData.visibleSalary = salaryEl.textContent!.trim();
         }
 
         // 3. Extract JSON-LD metadata (most reliable source for salary, dates)
         const jsonLd = this.extractJsonLd(document);
         if (jsonLd) {
             if (jsonLd.datePosted) {
-                jobData.datePosted = String(jsonLd.datePosted);
-                jobData.jobAge = this.calculateDaysAgo(jobData.datePosted);
+                this.setDatePosted(jobData, String(jsonLd.datePosted));
             }
             if (jsonLd.validThrough) {
                 jobData.validThrough = String(jsonLd.validThrough);
@@ -146,31 +76,18 @@ export class LinkedInParser extends BaseParser {
                 if (org?.name) jobData.company = String(org.name);
             }
 
-            const baseSalary = jsonLd.baseSalary as Record<string, unknown> | undefined;
-            if (baseSalary) {
-                const salaryValue = baseSalary.value as Record<string, unknown> | number | undefined;
-                if (typeof salaryValue === 'object' && salaryValue) {
-                    jobData.hiddenSalary = {
-                        min: (salaryValue.minValue as number) || null,
-                        max: (salaryValue.maxValue as number) || null,
-                        currency: (baseSalary.currency as string) || 'EUR',
-                        period: this.mapSalaryPeriod(salaryValue.unitText as string),
-                    };
-                } else if (typeof salaryValue === 'number') {
-                    jobData.hiddenSalary = {
-                        min: salaryValue,
-                        max: salaryValue,
-                        currency: (baseSalary.currency as string) || 'EUR',
-                        period: 'YEAR',
-                    };
-                }
-            }
+            jobData.hiddenSalary = parseMonetaryAmount(jsonLd.baseSalary, { currency: 'EUR' });
+            this.setEmploymentFromJsonLd(jobData, jsonLd);
         }
 
+        // Visible "2 weeks ago" when JSON-LD has no date
+        this.setDatePostedFromText(jobData, this.getText(document, selectors.posted, 'posted'));
+
         // 4. Detect salary mismatch
         if (jobData.hiddenSalary && !jobData.visibleSalary) {
             jobData.salaryMismatch = true;
         }
+        jobData.hiddenSalary ??= parseSalaryText(jobData.visibleSalary);
 
         // 5. Tag with jobId for deduplication
         const jobId = this.extractJobId(url);
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { SchemaOrgParser } from './SchemaOrgParser';
+import { getParserForUrl } from './index';
+
+describe('SchemaOrgParser', () => {
+    let parser: SchemaOrgParser;
+    let mockDocument: Document;
+
+    const withJsonLd = (data: unknown) => {
+        const script = mockDocument.createElement('script');
+        script.type = 'application/ld+json';
+        script.textContent = JSON.stringify(data);
+        mockDocument.head.appendChild(script);
+    };
+
+    beforeEach(() => {
+        parser = new SchemaOrgParser();
+        mockDocument = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', {
+            url: 'https://jobs.ashbyhq.com/acme/4f1c2d',
+        }).window.document;
+    });
+
+    it('is only picked when no dedicated parser matches', () => {
+        expect(getParserForUrl('https://www.linkedin.com/jobs/view/123456')?.platform).toBe('linkedin');
+        expect(getParserForUrl('https://careers.acme.com/jobs/42')).toBeInstanceOf(SchemaOrgParser);
+    });
+
+    it('should extract a full JobData from a @graph JobPosting', async () => {
+        withJsonLd({
+            '@context': 'https://schema.org',
+            '@graph': [
+                { '@type': 'WebPage', name: 'Careers' },
+                {
+                    '@type': 'JobPosting',
+                    title: 'Backend Engineer',
+                    description: '&lt;p&gt;Build APIs &amp; services&lt;/p&gt;',
+                    datePosted: '2024-01-10',
+                    validThrough: '2024-03-10',
+                    employmentType: ['FULL_TIME', 'CONTRACTOR'],
+                    hiringOrganization: { '@type': 'Organization', name: 'Acme' },
+                    jobLocation: {
+                        '@type': 'Place',
+                        address: { addressLocality: 'Berlin', addressCountry: { name: 'Germany' } },
+                    },
+                    baseSalary: {
+                        '@type': 'MonetaryAmount',
+                        currency: 'EUR',
+                        value: { '@type': 'QuantitativeValue', minValue: 70000, maxValue: 90000, unitText: 'YEAR' },
+                    },
+                },
+            ],
+        });
+
+        const data = await parser.extractJobData(mockDocument);
+
+        expect(data.title).toBe('Backend Engineer');
+        expect(data.company).toBe('Acme');
+        expect(data.location).toBe('Berlin, Germany');
+        expect(data.description).toBe('<p>Build APIs & services</p>');
+        expect(data.validThrough).toBe('2024-03-10');
+        expect(data.employmentType).toBe('full-time');
+        expect(data.hiddenSalary).toEqual({ min: 70000, max: 90000, currency: 'EUR', period: 'YEAR' });
+        expect(data.salaryMismatch).toBe(false);
+    });
+
+    it('should describe remote roles with their location requirements', async () => {
+        withJsonLd({
+            '@type': 'JobPosting',
+            title: 'Support Engineer',
+            hiringOrganization: 'Globex',
+            jobLocationType: 'TELECOMMUTE',
+            applicantLocationRequirements: { '@type': 'Country', name: 'USA' },
+            baseSalary: { currency: 'USD', value: { value: 40, unitText: 'HOUR' } },
+        });
+
+        const data = await parser.extractJobData(mockDocument);
+
+        expect(data.company).toBe('Globex');
+        expect(data.location).toBe('Remote (USA)');
+        expect(data.jobLocationType).toBe('TELECOMMUTE');
+        expect(data.workMode).toEqual({ mode: 'remote', officeDays: null, regions: ['USA'] });
+        expect(data.hiddenSalary).toEqual({ min: 40, max: 40, currency: 'USD', period: 'HOUR' });
+    });
+
+    it('should return empty data when the page has no JobPosting', async () => {
+        const data = await parser.extractJobData(mockDocument);
+        expect(data.title).toBe('');
+        expect(data.company).toBe('');
+    });
+});
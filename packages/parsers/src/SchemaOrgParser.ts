@@ -0,0 +1,124 @@
+import type { JobData } from '@job-bodyguard/types';
+import { BaseParser } from './BaseParser';
+import { parseMonetaryAmount } from './salary';
+
+/**
+ * Fallback parser for any career site that publishes a schema.org
+ * `JobPosting` in JSON-LD (Greenhouse, Lever, Workday, Ashby, company
+ * career pages, ...).
+ *
+ * It matches every http(s) URL, so it must stay LAST in the parser list —
+ * platform-specific parsers always win. Only the JSON-LD is read: DOM
+ * layouts differ per site, the structured data does not.
+ */
+export class SchemaOrgParser extends BaseParser {
+    platform = 'other' as const;
+
+    matchesUrl(url: string): boolean {
+        return /^https?:\/\//i.test(url);
+    }
+
+    async extractJobData(document: Document): Promise<JobData> {
+        const url = document.location?.href || '';
+        const jobData = this.createEmptyJobData(url);
+
+        const jsonLd = this.extractJsonLd(document);
+        if (!jsonLd) return jobData;
+
+        jobData.title = this.asText(jsonLd.title);
+        jobData.company = this.extractCompany(jsonLd.hiringOrganization);
+        jobData.location = this.extractLocation(jsonLd);
+        jobData.description = this.decodeEntities(this.asText(jsonLd.description));
+
+        if (jsonLd.datePosted) {
+            this.setDatePosted(jobData, String(jsonLd.datePosted));
+        }
+        if (jsonLd.validThrough) {
+            jobData.validThrough = String(jsonLd.validThrough);
+        }
+
+        this.setEmploymentFromJsonLd(jobData, jsonLd);
+        jobData.hiddenSalary = parseMonetaryAmount(jsonLd.baseSalary, { currency: 'USD' });
+
+        return jobData;
+    }
+
+    /**
+     * hiringOrganization may be an Organization object, a plain name or an array of either
+     */
+    private extractCompany(org: unknown): string {
+        if (Array.isArray(org)) return this.extractCompany(org[0]);
+        if (typeof org === 'string') return org.trim();
+        if (org && typeof org === 'object') {
+            return this.asText((org as Record<string, unknown>).name);
+        }
+        return '';
+    }
+
+    /**
+     * Build a readable location from jobLocation / jobLocationType / applicantLocationRequirements
+     */
+    private extractLocation(data: Record<string, unknown>): string {
+        const places = ([] as unknown[]).concat(data.jobLocation ?? []);
+        const parts = places
+            .map((place) => this.formatPlace(place))
+            .filter((p) => p.length > 0);
+
+        const remote = String(this.joinValues(data.jobLocationType) ?? '').toUpperCase().includes('TELECOMMUTE');
+        if (remote) {
+            const regions = ([] as unknown[])
+                .concat(data.applicantLocationRequirements ?? [])
+                .map((req) => this.asText((req as Record<string, unknown>)?.name ?? req))
+                .filter((r) => r.length > 0);
+            const remoteLabel = regions.length > 0 ? `Remote (${regions.join(', ')})` : 'Remote';
+            return [remoteLabel, ...parts].join(' · ');
+        }
+
+        return [...new Set(parts)].join(' · ');
+    }
+
+    private formatPlace(place: unknown): string {
+        if (typeof place === 'string') return place.trim();
+        if (!place || typeof place !== 'object') return '';
+
+        const address = (place as Record<string, unknown>).address;
+        if (typeof address === 'string') return address.trim();
+        if (!address || typeof address !== 'object') {
+            return this.asText((place as Record<string, unknown>).name);
+        }
+
+        const addr = address as Record<string, unknown>;
+        const country = addr.addressCountry && typeof addr.addressCountry === 'object'
+            ? (addr.addressCountry as Record<string, unknown>).name
+            : addr.addressCountry;
+
+        return [addr.addressLocality, addr.addressRegion, country]
+            .map((v) => this.asText(v))
+            .filter((v) => v.length > 0)
+            .join(', ');
+    }
+
+    private joinValues(value: unknown): string | null {
+        if (value == null) return null;
+        const values = ([] as unknown[]).concat(value).map((v) => String(v).trim()).filter(Boolean);
+        return values.length > 0 ? values.join(', ') : null;
+    }
+
+    private asText(value: unknown): string {
+        return typeof value === 'string' ? value.trim() : '';
+    }
+
+    /**
+     * Many ATSes HTML-escape the description inside JSON-LD (&lt;p&gt;...)
+     */
+    private decodeEntities(text: string): string {
+        if (!/&(lt|gt|amp|quot|#39|#x27|nbsp);/.test(text)) return text;
+        return text
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&#39;|&#x27;/g, "'")
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&');
+    }
+}
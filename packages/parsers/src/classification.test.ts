@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { EmploymentType, VisaSponsorship, WorkMode } from '@job-bodyguard/types';
+import { classifyJob, parseEmploymentType, parseVisaSponsorship, parseWorkMode } from './classification';
+
+function job(title: string, description: string) {
+    return { title, location: '', description, requirements: [], sections: null };
+}
+
+describe('parseEmploymentType', () => {
+    it.each<[string, EmploymentType | null]>([
+        ['FULL_TIME, CONTRACTOR', 'full-time'],
+        ['CONTRACTOR', 'contract'],
+        ['Part-time', 'part-time'],
+        ['Freelance', 'freelance'],
+        ['Полная занятость', 'full-time'],
+        ['Проектная работа', 'contract'],
+        ['Частичная занятость', 'part-time'],
+        ['VOLUNTEER', null],
+    ])('should read %j', (raw, expected) => {
+        expect(parseEmploymentType(raw)).toBe(expected);
+    });
+});
+
+describe('parseWorkMode', () => {
+    it.each<[string, WorkMode | null]>([
+        ['Hybrid – 4 days in office', { mode: 'hybrid', officeDays: 4, regions: [] }],
+        ['Berlin, Germany (Hybrid)', { mode: 'hybrid', officeDays: null, regions: [] }],
+        ['You will spend three days a week in the office.', { mode: 'hybrid', officeDays: 3, regions: [] }],
+        ['Remote (US only)', { mode: 'remote', officeDays: null, regions: ['USA'] }],
+        ['Fully remote within the EU or the UK.', { mode: 'remote', officeDays: null, regions: ['UK', 'EU'] }],
+        ['This is not a remote role. You will work on-site in Austin.', { mode: 'onsite', officeDays: null, regions: [] }],
+        ['Формат работы: удалённо', { mode: 'remote', officeDays: null, regions: [] }],
+        ['Удалённая работа из РФ', { mode: 'remote', officeDays: null, regions: ['Russia'] }],
+        ['2 дня в офисе, остальное удалённо', { mode: 'hybrid', officeDays: 2, regions: [] }],
+        ['Friendly team and a remote-control car for every hire.', null],
+    ])('should read %j', (text, expected) => {
+        expect(parseWorkMode(text)).toEqual(expected);
+    });
+});
+
+describe('parseVisaSponsorship', () => {
+    it.each<[string, VisaSponsorship | null]>([
+        ['We are unable to sponsor visas for this role.', 'not-offered'],
+        ['Candidates must be authorized to work in the US.', 'not-offered'],
+        ['Visa sponsorship and relocation support available.', 'offered'],
+        ['Предоставляем визовую поддержку и помощь с переездом.', 'offered'],
+        ['Relocation package included.', null],
+    ])('should read %j', (text, expected) => {
+        expect(parseVisaSponsorship(text)).toBe(expected);
+    });
+});
+
+describe('classifyJob', () => {
+    it('should fill every field from the title and description', () => {
+        const description = '<p>This is a 6-month contract role.</p><p>Fully remote within Canada. We are not able to offer visa sponsorship.</p>';
+
+        expect(classifyJob(job('Staff Data Engineer', description))).toEqual({
+            seniority: 'principal',
+            employmentType: 'contract',
+            workMode: { mode: 'remote', officeDays: null, regions: ['Canada'] },
+            visaSponsorship: 'not-offered',
+        });
+    });
+
+    it('should keep what the board published and add details from the description', () => {
+        const result = classifyJob({
+            ...job('Backend Engineer', '<p>Hybrid: 3 days in office. Part-time hours are possible.</p>'),
+            seniority: 'senior',
+            employmentType: 'full-time',
+            workMode: { mode: 'hybrid', officeDays: null, regions: [] },
+        });
+
+        expect(result).toEqual({
+            seniority: 'senior',
+            employmentType: 'full-time',
+            workMode: { mode: 'hybrid', officeDays: 3, regions: [] },
+            visaSponsorship: null,
+        });
+    });
+
+    it('should read seniority from the years asked when the title has none', () => {
+        const result = classifyJob({ ...job('Backend Engineer', ''), requirements: ['7+ years of backend development'] });
+
+        expect(result.seniority).toBe('senior');
+    });
+
+    it('should read the work mode from the location line', () => {
+        const result = classifyJob({ ...job('Designer', ''), location: 'London (Hybrid)' });
+
+        expect(result.workMode).toEqual({ mode: 'hybrid', officeDays: null, regions: [] });
+    });
+});
@@ -0,0 +1,205 @@
+import type { EmploymentType, JobData, VisaSponsorship, WorkMode, WorkModeKind } from '@job-bodyguard/types';
+import { matchContext } from './flagContext';
+import { jobRequiredYears, titleSeniority, yearsSeniority } from './seniority';
+
+/**
+ * Employment type, work mode and visa sponsorship from what boards publish
+ * (schema.org `employmentType` / `jobLocationType` /
+ * `applicantLocationRequirements`, hh.ru's employment and schedule lines)
+ * and, where they say nothing, from the description.
+ */
+
+// schema.org values, board labels ("Full-time", "Contract") and hh.ru's ("Полная занятость", "Проектная работа")
+const EMPLOYMENT_TYPES: [EmploymentType, RegExp][] = [
+    ['full-time', /full[\s_-]?time|permanent|полн(?:ая|ый)\s+(?:занятость|день)/iu],
+    ['part-time', /part[\s_-]?time|частичн(?:ая|ой)\s+занятост/iu],
+    ['contract', /contract(?:or)?|temporary|fixed[\s_-]term|проектн(?:ая|ой)\s+работ|временн(?:ая|ой)|по\s+договору\s+гпх/iu],
+    ['freelance', /freelance|per[\s_]diem|фриланс/iu],
+];
+
+// Phrases that name the employment type in a description ("This is a 6-month contract role")
+const DESCRIPTION_EMPLOYMENT: [EmploymentType, RegExp][] = [
+    ['contract', /(?<![\p{L}])(?:contract(?:-to-hire)?\s+(?:role|position|basis|engagement)|(?:\d+|six|three|twelve)[- ]month\s+contract|b2b\s+contract|проектн(?:ая|ую)\s+работ[а-яё]*|договор[а-яё]*\s+гпх)(?![\p{L}])/iu],
+    ['freelance', /(?<![\p{L}])(?:freelance\s+(?:role|position|basis|project)|фриланс[а-яё]*)(?![\p{L}])/iu],
+    ['part-time', /(?<![\p{L}])(?:part[- ]time|частичн(?:ая|ую)\s+занятост[а-яё]*|неполный\s+рабочий\s+день)(?![\p{L}])/iu],
+    ['full-time', /(?<![\p{L}])(?:full[- ]time|полн(?:ая|ую)\s+занятост[а-яё]*)(?![\p{L}])/iu],
+];
+
+const WORK_MODE_PATTERNS: [WorkModeKind, RegExp][] = [
+    ['hybrid', /(?<![\p{L}])(?:hybrid|гибрид[а-яё]*|смешанн[а-яё]*\s+формат[а-яё]*)(?![\p{L}])/giu],
+    ['remote', /(?<![\p{L}])(?:(?:fully\s+|100%\s+)?remote(?![- ]?(?:sensing|control|monitoring|access|desktop|servers?|teams?|colleagues)(?![\p{L}]))|work\s+from\s+(?:home|anywhere)|wfh|telecommute|удал[её]нн[а-яё]*|удал[её]нк[а-яё]*|удал[её]нно)(?![\p{L}])/giu],
+    ['onsite', /(?<![\p{L}])(?:on[- ]?site|in[- ]office|office[- ]based|в\s+офисе|на\s+месте\s+работодателя|офисн[а-яё]*\s+(?:работ[а-яё]*|формат[а-яё]*))(?![\p{L}])/giu],
+];
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, один: 1, два: 2, две: 2, три: 3, четыре: 4 };
+
+// "3 days in the office", "in office 4 days a week", "2 дня в офисе"
+const OFFICE_DAYS = [
+    /(?<![\p{L}\p{N}])(\d|one|two|three|four|five)\s*(?:days?|x)\s*(?:(?:a|per|\/)\s*week\s*)?(?:in|at|from)\s+(?:the\s+|our\s+)?office/iu,
+    /(?:in|at)\s+(?:the\s+)?office\s+(\d|one|two|three|four|five)\s*(?:days?|x)/iu,
+    /(?<![\p{L}\p{N}])(\d|один|два|две|три|четыре)\s*(?:дн[а-яё]*|раз[а-яё]*)\s*(?:в\s+неделю\s*)?в\s+офисе/iu,
+];
+
+// Where a remote role is limited to, by the names postings use
+const REGIONS: [string, RegExp][] = [
+    ['USA', /(?<![\p{L}])(?:US|USA|U\.S\.?(?:A\.?)?|United\s+States)(?![\p{L}])/u],
+    ['Canada', /(?<![\p{L}])Canada(?![\p{L}])/u],
+    ['UK', /(?<![\p{L}])(?:UK|United\s+Kingdom)(?![\p{L}])/u],
+    ['EU', /(?<![\p{L}])(?:EU|European\s+Union|Europe|EMEA)(?![\p{L}])/u],
+    ['LATAM', /(?<![\p{L}])(?:LATAM|Latin\s+America)(?![\p{L}])/u],
+    ['APAC', /(?<![\p{L}])APAC(?![\p{L}])/u],
+    ['Russia', /(?<![\p{L}])(?:Russia|РФ|Росси[а-яё]*)(?![\p{L}])/u],
+];
+
+// A region attached to a remote phrase: "Remote (US only)", "remote within the EU", "must reside in Canada"
+const REGION_LIMIT = /(?:\(|(?:with)?in\s+(?:the\s+)?|from\s+(?:the\s+)?|based\s+in\s+(?:the\s+)?|residents?\s+of\s+(?:the\s+)?|reside\s+in\s+(?:the\s+)?|[-–—:]\s*|из\s+|в\s+пределах\s+|на\s+территории\s+)[\p{L}.\s]{0,30}/giu;
+
+const VISA_NOT_OFFERED = /(?:unable|not\s+able|cannot|can't|do\s+not|don't|does\s+not|doesn't|will\s+not|won't|not)\s+(?:to\s+)?(?:provide\s+|offer\s+)?(?:visa\s+)?sponsor|no\s+(?:visa\s+)?sponsorship|sponsorship\s+is\s+not\s+(?:available|offered|provided)|without\s+(?:the\s+need\s+for\s+)?(?:visa\s+)?sponsorship|must\s+be\s+(?:legally\s+)?(?:authori[sz]ed|eligible)\s+to\s+work|визов[а-яё]*\s+поддержк[а-яё]*\s+не\s+(?:предоставляется|оказывается)/iu;
+const VISA_OFFERED = /visa\s+sponsorship|sponsor(?:ship\s+for)?\s+(?:your\s+|a\s+|work\s+)?visas?|visa\s+support|relocation\s+(?:and|&)\s+visa|визов[а-яё]*\s+поддержк[а-яё]*|помо(?:щь|жем|гаем)\s+с\s+(?:получением\s+)?виз[а-яё]*/iu;
+
+type Classification = Pick<JobData, 'seniority' | 'employmentType' | 'workMode' | 'visaSponsorship'>;
+
+function plainText(html: string): string {
+    return html
+        .replace(/<\/?(?:p|div|ul|ol|li|h[1-6]|br|tr|section)\b[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+function sentences(text: string): string[] {
+    return text.split(/[\n.!?]+(?:\s|$)|\n/).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Employment type from a board field or label: "FULL_TIME", "Full-time",
+ * "Полная занятость". A list ("FULL_TIME, CONTRACTOR") gives its first value.
+ */
+export function parseEmploymentType(raw: string | null | undefined): EmploymentType | null {
+    if (!raw) return null;
+    let first: { type: EmploymentType; index: number } | null = null;
+    for (const [type, pattern] of EMPLOYMENT_TYPES) {
+        const index = raw.search(pattern);
+        if (index >= 0 && (!first || index < first.index)) first = { type, index };
+    }
+    return first?.type ?? null;
+}
+
+function officeDays(text: string): number | null {
+    for (const pattern of OFFICE_DAYS) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const value = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+        if (value >= 1 && value <= 5) return value;
+    }
+    return null;
+}
+
+function regionsIn(text: string): string[] {
+    return REGIONS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+}
+
+// Room for a region right before "remote" ("US-only remote", "EU remote")
+const REGION_PREFIX_LENGTH = 10;
+
+/** Regions named right after (or just before) a remote phrase */
+function remoteRegions(sentence: string, start: number, end: number): string[] {
+    const tail = sentence.slice(end, end + 60);
+    for (const match of tail.matchAll(REGION_LIMIT)) {
+        const regions = regionsIn(match[0]);
+        if (regions.length > 0) return regions;
+    }
+    return regionsIn(sentence.slice(Math.max(0, start - REGION_PREFIX_LENGTH), start));
+}
+
+/**
+ * Work mode from free text: a location line ("Berlin (Hybrid)"), an hh.ru
+ * schedule line ("Удалённая работа") or a description. Negated mentions
+ * ("this is not a remote role") don't count; a hybrid mention or a number
+ * of office days outranks remote, and remote outranks on-site.
+ */
+export function parseWorkMode(text: string): WorkMode | null {
+    const found = new Map<WorkModeKind, string[]>();
+    for (const sentence of sentences(text)) {
+        for (const [mode, pattern] of WORK_MODE_PATTERNS) {
+            for (const match of sentence.matchAll(pattern)) {
+                const end = match.index! + match[0].length;
+                if (matchContext(sentence, match.index!, end).negated) continue;
+                const regions = mode === 'remote' ? remoteRegions(sentence, match.index!, end) : [];
+                found.set(mode, [...new Set([...(found.get(mode) ?? []), ...regions])]);
+            }
+        }
+    }
+
+    const days = officeDays(text);
+    const mode: WorkModeKind | null = found.has('hybrid') || days
+        ? 'hybrid'
+        : found.has('remote') ? 'remote' : found.has('onsite') ? 'onsite' : null;
+    if (!mode) return null;
+
+    return { mode, officeDays: mode === 'hybrid' ? days : null, regions: mode === 'remote' ? found.get('remote') ?? [] : [] };
+}
+
+/**
+ * schema.org `jobLocationType: TELECOMMUTE` is a remote role, limited to
+ * the `applicantLocationRequirements` when it lists any
+ */
+export function workModeFromJsonLd(jobLocationType: string | null, applicantLocations: string[]): WorkMode | null {
+    if (!jobLocationType?.toUpperCase().includes('TELECOMMUTE')) return null;
+    const regions = applicantLocations.flatMap((location) => {
+        const known = regionsIn(location);
+        return known.length > 0 ? known : [location];
+    });
+    return { mode: 'remote', officeDays: null, regions: [...new Set(regions)] };
+}
+
+export function parseVisaSponsorship(text: string): VisaSponsorship | null {
+    for (const sentence of sentences(text)) {
+        if (VISA_NOT_OFFERED.test(sentence)) return 'not-offered';
+    }
+    for (const sentence of sentences(text)) {
+        const match = sentence.match(VISA_OFFERED);
+        if (match && !matchContext(sentence, match.index!, match.index! + match[0].length).negated) return 'offered';
+    }
+    return null;
+}
+
+function descriptionEmploymentType(text: string): EmploymentType | null {
+    for (const [type, pattern] of DESCRIPTION_EMPLOYMENT) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const sentence = sentences(text.slice(Math.max(0, match.index! - 80), match.index! + match[0].length)).pop() ?? '';
+        if (!matchContext(sentence, sentence.length - match[0].length, sentence.length).negated) return type;
+    }
+    return null;
+}
+
+/**
+ * Seniority, employment type, work mode and visa sponsorship of a parsed
+ * job. What the board published is kept; the title, location and
+ * description fill the gaps.
+ */
+export function classifyJob(
+    job: Pick<JobData, 'title' | 'location' | 'description' | 'requirements' | 'sections'> & Partial<Classification>
+): Classification {
+    const text = plainText(job.description);
+
+    const seniority = job.seniority ?? titleSeniority(job.title) ?? yearsSeniority(jobRequiredYears(job) ?? 0);
+
+    const fromText = parseWorkMode(`${job.location}\n${text}`);
+    const board = job.workMode ?? null;
+    const workMode = board
+        ? {
+            ...board,
+            officeDays: board.officeDays ?? (board.mode === 'hybrid' ? fromText?.officeDays ?? null : null),
+            regions: board.regions.length > 0 || board.mode !== 'remote' ? board.regions : fromText?.regions ?? [],
+        }
+        : fromText;
+
+    return {
+        seniority,
+        employmentType: job.employmentType ?? descriptionEmploymentType(text),
+        workMode,
+        visaSponsorship: job.visaSponsorship ?? parseVisaSponsorship(text),
+    };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_COMPANY_LISTS } from '@job-bodyguard/types';
+import { companyListStatus, listedCompanyMatches, setCompanyListStatus } from './companyLists';
+
+describe('listedCompanyMatches', () => {
+    it('covers suffixes and longer forms of a listed name', () => {
+        expect(listedCompanyMatches('Acme', 'Acme Inc.')).toBe(true);
+        expect(listedCompanyMatches('acme', 'ACME Labs')).toBe(true);
+        expect(listedCompanyMatches('ООО Ромашка', 'Ромашка')).toBe(true);
+    });
+
+    it('does not widen a longer listed name', () => {
+        expect(listedCompanyMatches('Acme Labs', 'Acme')).toBe(false);
+        expect(listedCompanyMatches('Acme', 'Acmes Staffing')).toBe(false);
+        expect(listedCompanyMatches('', 'Acme')).toBe(false);
+    });
+});
+
+describe('companyListStatus', () => {
+    const lists = { ...DEFAULT_COMPANY_LISTS, blocked: ['Spammy Recruiting'], favourites: ['Acme', 'Spammy'] };
+
+    it('finds the list a company is on, blocked first', () => {
+        expect(companyListStatus('Acme GmbH', lists)).toBe('favourite');
+        expect(companyListStatus('Spammy Recruiting Ltd', lists)).toBe('blocked');
+        expect(companyListStatus('Globex', lists)).toBeNull();
+    });
+});
+
+describe('setCompanyListStatus', () => {
+    it('moves a company between the lists', () => {
+        const favourite = setCompanyListStatus(DEFAULT_COMPANY_LISTS, ' Acme  Inc. ', 'favourite');
+        expect(favourite.favourites).toEqual(['Acme Inc.']);
+
+        const blocked = setCompanyListStatus(favourite, 'Acme Inc.', 'blocked');
+        expect(blocked.blocked).toEqual(['Acme Inc.']);
+        expect(blocked.favourites).toEqual([]);
+        expect(blocked.blockedDisplay).toBe('dim');
+    });
+
+    it('clears entries that cover the company', () => {
+        const lists = { ...DEFAULT_COMPANY_LISTS, blocked: ['Acme', 'Globex'] };
+        expect(setCompanyListStatus(lists, 'Acme Inc.', null).blocked).toEqual(['Globex']);
+    });
+});
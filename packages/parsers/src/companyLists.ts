@@ -0,0 +1,42 @@
+import type { CompanyListStatus, CompanyLists } from '@job-bodyguard/types';
+import { normalizeCompanyName } from './ghostJobs';
+
+/**
+ * Blocked and favourite companies. A listed name covers the employer under
+ * any suffix or longer form boards show ("Acme" covers "Acme Inc." and
+ * "Acme Labs"), but not the other way round: blocking "Acme Labs" leaves
+ * "Acme" alone.
+ */
+
+function words(company: string): string[] {
+    return normalizeCompanyName(company).split(' ').filter(Boolean);
+}
+
+export function listedCompanyMatches(listed: string, company: string): boolean {
+    const listedWords = words(listed);
+    const companyWords = words(company);
+    if (listedWords.length === 0 || listedWords.length > companyWords.length) return false;
+    return listedWords.every((word, i) => companyWords[i] === word);
+}
+
+/** The list the company is on; blocked wins should it be on both */
+export function companyListStatus(company: string, lists: CompanyLists): CompanyListStatus | null {
+    if (lists.blocked.some((listed) => listedCompanyMatches(listed, company))) return 'blocked';
+    if (lists.favourites.some((listed) => listedCompanyMatches(listed, company))) return 'favourite';
+    return null;
+}
+
+/**
+ * Put the company on one list (taking it off the other), or on neither
+ * with `null`. Entries that cover the company are removed, so unblocking
+ * "Acme Inc." also drops an earlier "Acme".
+ */
+export function setCompanyListStatus(lists: CompanyLists, company: string, status: CompanyListStatus | null): CompanyLists {
+    const name = company.replace(/\s+/g, ' ').trim();
+    const keep = (listed: string) => !listedCompanyMatches(listed, name) && !listedCompanyMatches(name, listed);
+    const blocked = lists.blocked.filter(keep);
+    const favourites = lists.favourites.filter(keep);
+    if (name && status === 'blocked') blocked.push(name);
+    if (name && status === 'favourite') favourites.push(name);
+    return { ...lists, blocked, favourites };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { DateConfidence } from '@job-bodyguard/types';
+import { daysSince, parsePostedText } from './dates';
+
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+
+type Case = [text: string, jobAge: number, confidence: DateConfidence];
+
+describe('parsePostedText', () => {
+    const cases: Case[] = [
+        // English (LinkedIn, Indeed)
+        ['Posted 5 days ago', 5, 'exact'],
+        ['Reposted 2 weeks ago', 14, 'approximate'],
+        ['· 2 weeks ago · Over 100 applicants', 14, 'approximate'],
+        ['Active 30+ days ago', 30, 'minimum'],
+        ['Posted 30+ days ago', 30, 'minimum'],
+        ['1 month ago', 30, 'approximate'],
+        ['a week ago', 7, 'approximate'],
+        ['an hour ago', 0, 'exact'],
+        ['23 hours ago', 0, 'exact'],
+        ['3d ago', 3, 'exact'],
+        ['Just posted', 0, 'exact'],
+        ['Posted today', 0, 'exact'],
+        ['Yesterday', 1, 'exact'],
+
+        // Russian (hh.ru)
+        ['вчера', 1, 'exact'],
+        ['Вакансия опубликована вчера в Москве', 1, 'exact'],
+        ['позавчера', 2, 'exact'],
+        ['сегодня', 0, 'exact'],
+        ['3 дня назад', 3, 'exact'],
+        ['30+ дней назад', 30, 'minimum'],
+        ['неделю назад', 7, 'approximate'],
+        ['2 месяца назад', 60, 'approximate'],
+        ['5 часов назад', 0, 'exact'],
+
+        // French (Indeed)
+        ['il y a 5 jours', 5, 'exact'],
+        ['il y a 30+ jours', 30, 'minimum'],
+        ["Publiée aujourd'hui", 0, 'exact'],
+    ];
+
+    it.each(cases)('should read %j as %i days (%s)', (text, jobAge, confidence) => {
+        const posted = parsePostedText(text, NOW);
+        expect(posted).toMatchObject({ jobAge, confidence });
+
+        const expected = new Date(NOW.getTime() - jobAge * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        expect(posted?.datePosted).toBe(expected);
+    });
+
+    it.each<[string, string, number]>([
+        ['Вакансия опубликована 12 марта 2024 в Москве', '2024-03-12', 81],
+        ['Вакансия опубликована 28 мая', '2024-05-28', 4],
+        ['Posted on May 20, 2024', '2024-05-20', 12],
+        ['Posted 3 June', '2023-06-03', 364],
+    ])('should read the calendar date in %j', (text, datePosted, jobAge) => {
+        expect(parsePostedText(text, NOW)).toEqual({ datePosted, jobAge, confidence: 'exact' });
+    });
+
+    it.each([
+        '',
+        'Over 100 applicants',
+        'Full-time',
+        'Опыт работы 3–6 лет',
+        '31 февраля',
+        'Ago',
+    ])('should not find a date in %j', (text) => {
+        expect(parsePostedText(text, NOW)).toBeNull();
+    });
+});
+
+describe('daysSince', () => {
+    it('should count whole days since a past date', () => {
+        expect(daysSince('2024-05-29T10:15:00+03:00', NOW)).toBe(3);
+        expect(daysSince('2024-05-02', NOW)).toBe(30);
+    });
+
+    it('should be negative for dates still ahead', () => {
+        expect(daysSince('2024-06-10', NOW)).toBe(-8);
+        expect(daysSince('2024-06-01T18:00:00.000Z', NOW)).toBe(0);
+    });
+
+    it('should return null for unparseable dates', () => {
+        expect(daysSince('soon', NOW)).toBeNull();
+    });
+});
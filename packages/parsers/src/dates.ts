@@ -0,0 +1,178 @@
+import type { DateConfidence } from '@job-bodyguard/types';
+
+/**
+ * Posting dates from what job boards print next to the title: relative
+ * strings ("Reposted 2 weeks ago", "30+ days ago", "вчера") and day-month
+ * dates ("Вакансия опубликована 12 марта"). Used when a page has no JSON-LD
+ * `datePosted`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PostedDate {
+    /** Estimated posting day, YYYY-MM-DD */
+    datePosted: string;
+    jobAge: number;
+    confidence: DateConfidence;
+}
+
+type DateUnit = 'MINUTE' | 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+
+const UNIT_DAYS: Record<DateUnit, number> = {
+    MINUTE: 0,
+    HOUR: 1 / 24,
+    DAY: 1,
+    WEEK: 7,
+    MONTH: 30,
+    YEAR: 365,
+};
+
+const UNIT_WORDS: [RegExp, DateUnit][] = [
+    [/^(?:s|secs?|seconds?|m|mins?|minutes?|секунд\S*|минут\S*)$/, 'MINUTE'],
+    [/^(?:h|hrs?|hours?|час\S*)$/, 'HOUR'],
+    [/^(?:d|days?|день|дня|дней|сут\S*|jours?)$/, 'DAY'],
+    [/^(?:w|wks?|weeks?|недел\S*)$/, 'WEEK'],
+    [/^(?:mo|mos|months?|месяц\S*)$/, 'MONTH'],
+    [/^(?:y|yrs?|years?|год\S*|лет)$/, 'YEAR'],
+];
+
+// Month names in the genitive ("12 марта") and English short/long forms
+const MONTHS: [RegExp, number][] = [
+    [/^(?:января|jan)/, 0],
+    [/^(?:февраля|feb)/, 1],
+    [/^(?:марта|mar)/, 2],
+    [/^(?:апреля|apr)/, 3],
+    [/^(?:мая|may)/, 4],
+    [/^(?:июня|jun)/, 5],
+    [/^(?:июля|jul)/, 6],
+    [/^(?:августа|aug)/, 7],
+    [/^(?:сентября|sep)/, 8],
+    [/^(?:октября|oct)/, 9],
+    [/^(?:ноября|nov)/, 10],
+    [/^(?:декабря|dec)/, 11],
+];
+
+const EN_MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)(?![a-z])\\.?';
+const RU_MONTH = '(января|февраля|марта|апреля|мая|июня|июля|августа|сентября|октября|ноября|декабря)';
+
+// JS `\b` only knows ASCII letters, so Cyrillic words are delimited explicitly
+const RU_START = '(?:^|[^а-яё])';
+const RU_END = '(?![а-яё])';
+
+const PATTERNS = {
+    // "5 days ago", "30+ days ago", "an hour ago", "3d ago"
+    enAgo: /\b(\d+|an?|one)\s*(\+)?\s*([a-z]+)\s+ago\b/i,
+    // "3 дня назад", "30+ дней назад", "неделю назад"
+    ruAgo: new RegExp(`${RU_START}(\\d+)?\\s*(\\+)?\\s*([а-яё]+)\\s+назад${RU_END}`, 'i'),
+    // Indeed France: "il y a 5 jours", "il y a 30+ jours"
+    frAgo: /il\s+y\s+a\s+(\d+)\s*(\+)?\s*(jours?)/i,
+    today: new RegExp(`\\b(?:just\\s+posted|just\\s+now|today|moments?\\s+ago|aujourd)|${RU_START}(?:сегодня|только\\s+что)${RU_END}`, 'i'),
+    yesterday: new RegExp(`\\byesterday\\b|\\bhier\\b|${RU_START}вчера${RU_END}`, 'i'),
+    dayBeforeYesterday: new RegExp(`${RU_START}позавчера${RU_END}`, 'i'),
+    // "12 марта", "12 марта 2024", "12 March 2024"
+    dayMonth: new RegExp(`(?:^|[^\\d])(\\d{1,2})\\s+(?:${RU_MONTH}${RU_END}|${EN_MONTH})(?:\\s+(\\d{4}))?`, 'i'),
+    // "March 12", "Mar 12, 2024"
+    monthDay: new RegExp(`\\b${EN_MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, 'i'),
+};
+
+/**
+ * Whole days from `dateString` to `now`. Negative while the date is still
+ * ahead (e.g. a `validThrough` deadline); null when it can't be parsed.
+ */
+export function daysSince(dateString: string, now: Date = new Date()): number | null {
+    const time = new Date(dateString).getTime();
+    if (Number.isNaN(time)) return null;
+    return Math.trunc((now.getTime() - time) / DAY_MS) || 0;
+}
+
+function toDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function unitFromWord(word: string): DateUnit | null {
+    const lower = word.toLowerCase();
+    return UNIT_WORDS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+function monthFromWord(word: string): number | null {
+    const lower = word.toLowerCase();
+    return MONTHS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+function daysAgo(days: number, confidence: DateConfidence, now: Date): PostedDate {
+    return {
+        datePosted: toDay(new Date(now.getTime() - days * DAY_MS)),
+        jobAge: days,
+        confidence,
+    };
+}
+
+/**
+ * "3 weeks ago" → 21 days. Counts of days or less are exact to the day;
+ * weeks, months and years are approximate; "30+" only gives a minimum.
+ */
+function fromAgo(match: RegExpMatchArray, now: Date): PostedDate | null {
+    const [, count, plus, word] = match;
+    const unit = unitFromWord(word);
+    if (!unit) return null;
+
+    const amount = count && /^\d+$/.test(count) ? parseInt(count, 10) : 1;
+    const days = Math.floor(amount * UNIT_DAYS[unit]);
+    const confidence: DateConfidence = plus
+        ? 'minimum'
+        : UNIT_DAYS[unit] > 1 ? 'approximate' : 'exact';
+
+    return daysAgo(days, confidence, now);
+}
+
+/**
+ * "12 марта" without a year means the most recent 12 March
+ */
+function fromCalendarDate(day: number, month: number, year: string | undefined, now: Date): PostedDate | null {
+    if (day < 1 || day > 31) return null;
+
+    let date = new Date(Date.UTC(year ? parseInt(year, 10) : now.getUTCFullYear(), month, day));
+    if (date.getUTCDate() !== day) return null;
+    if (!year && date.getTime() > now.getTime()) {
+        date = new Date(Date.UTC(date.getUTCFullYear() - 1, month, day));
+    }
+
+    return {
+        datePosted: toDay(date),
+        jobAge: Math.max(0, daysSince(toDay(date), now) ?? 0),
+        confidence: 'exact',
+    };
+}
+
+/**
+ * Estimate the posting date from a board's visible "posted" text.
+ * Returns null when the text doesn't say when the job was posted.
+ */
+export function parsePostedText(text: string | null | undefined, now: Date = new Date()): PostedDate | null {
+    if (!text?.trim()) return null;
+    const clean = text.replace(/\s+/g, ' ');
+
+    const ago = clean.match(PATTERNS.enAgo) ?? clean.match(PATTERNS.ruAgo) ?? clean.match(PATTERNS.frAgo);
+    if (ago) {
+        const posted = fromAgo(ago, now);
+        if (posted) return posted;
+    }
+
+    if (PATTERNS.dayBeforeYesterday.test(clean)) return daysAgo(2, 'exact', now);
+    if (PATTERNS.yesterday.test(clean)) return daysAgo(1, 'exact', now);
+    if (PATTERNS.today.test(clean)) return daysAgo(0, 'exact', now);
+
+    const dayMonth = clean.match(PATTERNS.dayMonth);
+    if (dayMonth) {
+        const month = monthFromWord(dayMonth[2] ?? dayMonth[3]);
+        if (month !== null) return fromCalendarDate(parseInt(dayMonth[1], 10), month, dayMonth[4], now);
+    }
+
+    const monthDay = clean.match(PATTERNS.monthDay);
+    if (monthDay) {
+        const month = monthFromWord(monthDay[1]);
+        if (month !== null) return fromCalendarDate(parseInt(monthDay[2], 10), month, monthDay[3], now);
+    }
+
+    return null;
+}
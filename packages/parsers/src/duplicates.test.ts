@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { JobData } from '@job-bodyguard/types';
+import {
+    companiesMatch,
+    findDuplicateJob,
+    jobSimilarity,
+    locationSimilarity,
+    mergeJobData,
+    titleSimilarity,
+} from './duplicates';
+
+const DESCRIPTION = `
+    <p>We are looking for a backend engineer to design and run the services behind our payments platform.</p>
+    <ul><li>Build APIs in Go and PostgreSQL</li><li>Own on-call for the services you ship</li>
+    <li>Work with product to scope new features</li></ul>
+    <p>You have five years of experience with distributed systems and care about testing.</p>
+`;
+
+function job(overrides: Partial<JobData> = {}): JobData {
+    return {
+        title: 'Senior Backend Engineer',
+        company: 'Acme Inc.',
+        location: 'Berlin, Germany',
+        description: DESCRIPTION,
+        requirements: [],
+        datePosted: null,
+        validThrough: null,
+        jobAge: null,
+        visibleSalary: null,
+        hiddenSalary: null,
+        salaryMismatch: false,
+        redFlags: [],
+        greenFlags: [],
+        url: 'https://www.linkedin.com/jobs/view/111',
+        platform: 'linkedin',
+        scrapedAt: '2024-06-01T12:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('signals', () => {
+    it('should treat abbreviations and gender markers as the same title', () => {
+        expect(titleSimilarity('Sr. Backend Engineer (m/w/d)', 'Senior Backend Engineer')).toBe(1);
+        expect(titleSimilarity('Backend Engineer', 'Frontend Engineer')).toBe(0.5);
+    });
+
+    it('should match companies by normalised name prefix', () => {
+        expect(companiesMatch('Acme Inc.', 'ACME')).toBe(true);
+        expect(companiesMatch('Acme', 'Acme Labs GmbH')).toBe(true);
+        expect(companiesMatch('Acme', 'Acmeware')).toBe(false);
+    });
+
+    it('should compare cities and treat remote listings as one place', () => {
+        expect(locationSimilarity('Berlin, Germany', 'Berlin')).toBe(1);
+        expect(locationSimilarity('Berlin', 'Munich, Bavaria')).toBe(0);
+        expect(locationSimilarity('Remote', 'Remote - EMEA')).toBe(1);
+        expect(locationSimilarity('', 'Berlin')).toBeNull();
+    });
+});
+
+describe('jobSimilarity', () => {
+    it('should match the same listing on two boards', () => {
+        const indeed = job({
+            company: 'ACME',
+            title: 'Sr. Backend Engineer (m/w/d)',
+            location: 'Berlin',
+            description: `<div>Apply on Indeed today.</div>${DESCRIPTION}`,
+            platform: 'indeed',
+        });
+        expect(jobSimilarity(job(), indeed)).toBeGreaterThan(0.9);
+    });
+
+    it('should not match other employers, roles or cities', () => {
+        expect(jobSimilarity(job(), job({ company: 'Globex' }))).toBe(0);
+        expect(jobSimilarity(job(), job({ title: 'Product Designer' }))).toBe(0);
+        expect(jobSimilarity(job(), job({ location: 'Munich' }))).toBe(0);
+    });
+
+    it('should not match a related role with a different description', () => {
+        const frontend = job({
+            title: 'Senior Frontend Engineer',
+            description: '<p>Build the React dashboard our merchants use every day, with TypeScript and a design system.</p>',
+        });
+        expect(findDuplicateJob(job(), [frontend])).toBeNull();
+    });
+
+    it('should not match on the title alone', () => {
+        const short = '<p>Join our team.</p>';
+        const first = job({ location: '', description: short });
+        const second = job({ location: '', description: short, url: 'https://www.linkedin.com/jobs/view/222' });
+        expect(jobSimilarity(first, second)).toBe(0);
+        expect(jobSimilarity(first, job({ location: '', url: second.url }))).toBe(0);
+    });
+
+    it('should pick the closest candidate', () => {
+        const other = job({ title: 'Backend Engineer', description: '<p>Short.</p>' });
+        const same = job({ url: 'https://de.indeed.com/viewjob?jk=abc', platform: 'indeed' });
+        expect(findDuplicateJob(job(), [other, same])?.job).toBe(same);
+    });
+});
+
+describe('mergeJobData', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep the primary listing and fill gaps from the other', () => {
+        const linkedin = job({
+            datePosted: '2024-05-20',
+            jobAge: 12,
+            datePostedConfidence: 'exact',
+            redFlags: [{ keyword: 'Fast-paced', context: '', severity: 'medium', category: 'workload' }],
+        });
+        const indeed = job({
+            url: 'https://de.indeed.com/viewjob?jk=abc',
+            platform: 'indeed',
+            datePosted: '2024-05-01',
+            jobAge: 30,
+            datePostedConfidence: 'minimum',
+            visibleSalary: '€70,000 - €85,000 a year',
+            hiddenSalary: { min: 70000, max: 85000, currency: 'EUR', period: 'YEAR' },
+            redFlags: [
+                { keyword: 'fast-paced', context: '', severity: 'medium', category: 'workload' },
+                { keyword: 'On-call', context: '', severity: 'low', category: 'workload' },
+            ],
+        });
+
+        const merged = mergeJobData(linkedin, indeed);
+
+        expect(merged.url).toBe(linkedin.url);
+        expect(merged.platform).toBe('linkedin');
+        expect(merged.hiddenSalary).toEqual(indeed.hiddenSalary);
+        expect(merged.visibleSalary).toBe(indeed.visibleSalary);
+        // An exact date beats an earlier "30+ days ago"
+        expect(merged.datePosted).toBe('2024-05-20');
+        expect(merged.redFlags.map(f => f.keyword)).toEqual(['Fast-paced', 'On-call']);
+    });
+
+    it('should take the text and flags of a fresh scrape of the same listing', () => {
+        const saved = job({
+            description: `${DESCRIPTION}<p>Old paragraph that has since been removed from the posting.</p>`,
+            requirements: ['Go', 'PostgreSQL', 'Kafka'],
+            redFlags: [{ keyword: 'Unpaid overtime', context: '', severity: 'high', category: 'workload' }],
+            hiddenSalary: { min: 70000, max: 85000, currency: 'EUR', period: 'YEAR' },
+        });
+        const fresh = job({
+            requirements: ['Go', 'PostgreSQL'],
+            greenFlags: [{ keyword: '4-day week', context: '', severity: 'low', category: 'flexibility' }],
+        });
+
+        const refreshed = mergeJobData(fresh, saved, { refresh: true });
+
+        expect(refreshed.description).toBe(DESCRIPTION);
+        expect(refreshed.requirements).toEqual(['Go', 'PostgreSQL']);
+        expect(refreshed.redFlags).toEqual([]);
+        expect(refreshed.greenFlags.map(f => f.keyword)).toEqual(['4-day week']);
+        // Gaps are still filled from what was saved
+        expect(refreshed.hiddenSalary).toEqual(saved.hiddenSalary);
+    });
+
+    it('should keep the earlier of two equally trusted dates', () => {
+        vi.useFakeTimers({ now: new Date('2024-06-01T12:00:00.000Z') });
+        const merged = mergeJobData(
+            job({ datePosted: '2024-05-20', jobAge: 12 }),
+            job({ datePosted: '2024-04-02', jobAge: 60 }),
+        );
+        expect(merged.datePosted).toBe('2024-04-02');
+        expect(merged.jobAge).toBe(60);
+    });
+
+    it('should count the age of an older saved job up to today', () => {
+        vi.useFakeTimers({ now: new Date('2024-06-01T12:00:00.000Z') });
+        // Saved on 2024-05-01, when the role had been open for 10 days
+        const saved = job({ datePosted: '2024-04-21', jobAge: 10, scrapedAt: '2024-05-01T12:00:00.000Z' });
+        const fresh = job({ url: 'https://de.indeed.com/viewjob?jk=abc', platform: 'indeed', datePosted: '2024-05-30', jobAge: 2 });
+
+        const merged = mergeJobData(fresh, saved);
+
+        expect(merged.datePosted).toBe('2024-04-21');
+        expect(merged.jobAge).toBe(41);
+    });
+});
@@ -0,0 +1,256 @@
+import type { DateConfidence, Flag, JobData, SalaryData } from '@job-bodyguard/types';
+import { daysSince } from './dates';
+import { normalizeCompanyName, normalizeJobTitle } from './ghostJobs';
+
+/**
+ * Cross-platform duplicates: the same role is often listed on LinkedIn,
+ * Indeed and the company's own board. Listings are compared on company,
+ * title, location and description text; matches are merged into one saved
+ * job that keeps the best data from every source.
+ */
+
+export type MatchableJob = Pick<JobData, 'company' | 'title' | 'location' | 'description'>;
+
+export interface DuplicateMatch<T> {
+    job: T;
+    /** 0-1 similarity */
+    score: number;
+}
+
+// A pair at or above this score is treated as one job
+const DUPLICATE_THRESHOLD = 0.75;
+// Below this the titles name different roles, whatever the description says
+const MIN_TITLE_SIMILARITY = 0.5;
+
+const TITLE_WEIGHT = 0.5;
+const LOCATION_WEIGHT = 0.15;
+const DESCRIPTION_WEIGHT = 0.35;
+
+const SHINGLE_SIZE = 4;
+// Descriptions shorter than this many shingles say too little to compare
+const MIN_SHINGLES = 10;
+// Boards wrap the same text in their own boilerplate, so half the shingles
+// in common already counts as the same description
+const FULL_DESCRIPTION_OVERLAP = 0.5;
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+    sr: 'senior',
+    jr: 'junior',
+    snr: 'senior',
+    eng: 'engineer',
+    engr: 'engineer',
+    dev: 'developer',
+    mgr: 'manager',
+    swe: 'software engineer',
+};
+
+const REMOTE_PATTERN = /\bremote\b|удал[её]нн/i;
+
+const DATE_CONFIDENCE_RANK: Record<DateConfidence, number> = {
+    exact: 0,
+    approximate: 1,
+    minimum: 2,
+};
+
+function titleTokens(title: string): string[] {
+    return normalizeJobTitle(title)
+        .split(' ')
+        .flatMap(word => (TITLE_ABBREVIATIONS[word] ?? word).split(' '))
+        .filter(Boolean);
+}
+
+/**
+ * Dice coefficient over title words, after expanding "Sr."/"Eng" and the like
+ */
+export function titleSimilarity(a: string, b: string): number {
+    const left = new Set(titleTokens(a));
+    const right = new Set(titleTokens(b));
+    if (left.size === 0 || right.size === 0) return 0;
+
+    let shared = 0;
+    for (const word of left) if (right.has(word)) shared++;
+    return (2 * shared) / (left.size + right.size);
+}
+
+/**
+ * "Acme" and "Acme Inc." are the same employer; so are "Acme" and
+ * "Acme Labs" (boards disagree on how much of the name to show)
+ */
+export function companiesMatch(a: string, b: string): boolean {
+    const left = normalizeCompanyName(a).split(' ').filter(Boolean);
+    const right = normalizeCompanyName(b).split(' ').filter(Boolean);
+    if (left.length === 0 || right.length === 0) return false;
+
+    const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+    return shorter.every((word, i) => longer[i] === word);
+}
+
+function locationPlace(location: string): string {
+    return location.toLowerCase().split(/[,/|(·•-]/)[0].replace(REMOTE_PATTERN, '').trim();
+}
+
+/**
+ * 1 for the same city (or both remote), 0 for different places, null when
+ * either side doesn't say
+ */
+export function locationSimilarity(a: string, b: string): number | null {
+    if (!a.trim() || !b.trim()) return null;
+    if (REMOTE_PATTERN.test(a) && REMOTE_PATTERN.test(b)) return 1;
+
+    const left = locationPlace(a);
+    const right = locationPlace(b);
+    if (!left || !right) return null;
+    return left === right || left.includes(right) || right.includes(left) ? 1 : 0;
+}
+
+/**
+ * Overlapping four-word windows of the description's plain text
+ */
+export function descriptionShingles(description: string): Set<string> {
+    const words = description
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&[a-z#0-9]+;/gi, ' ')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+
+    const shingles = new Set<string>();
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    for (const shingle of a) if (b.has(shingle)) shared++;
+    const union = a.size + b.size - shared;
+    return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * 0-1 likelihood that two listings are the same job. Different employers,
+ * different roles and different cities (unless remote) never match, and
+ * neither do listings with only the title in common: a company hiring for
+ * the same title twice posts two jobs.
+ */
+export function jobSimilarity(a: MatchableJob, b: MatchableJob): number {
+    if (!companiesMatch(a.company, b.company)) return 0;
+
+    const title = titleSimilarity(a.title, b.title);
+    if (title < MIN_TITLE_SIMILARITY) return 0;
+
+    const location = locationSimilarity(a.location, b.location);
+    if (location === 0) return 0;
+
+    const parts: [number, number][] = [[title, TITLE_WEIGHT]];
+    if (location !== null) parts.push([location, LOCATION_WEIGHT]);
+
+    const left = descriptionShingles(a.description);
+    const right = descriptionShingles(b.description);
+    if (left.size >= MIN_SHINGLES && right.size >= MIN_SHINGLES) {
+        parts.push([Math.min(1, jaccard(left, right) / FULL_DESCRIPTION_OVERLAP), DESCRIPTION_WEIGHT]);
+    }
+    if (parts.length === 1) return 0;
+
+    const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+    return parts.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight;
+}
+
+/**
+ * The closest candidate that is the same job, or null
+ */
+export function findDuplicateJob<T extends MatchableJob>(job: MatchableJob, candidates: T[]): DuplicateMatch<T> | null {
+    let best: DuplicateMatch<T> | null = null;
+    for (const candidate of candidates) {
+        const score = jobSimilarity(job, candidate);
+        if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+            best = { job: candidate, score };
+        }
+    }
+    return best;
+}
+
+function salaryDetail(salary: SalaryData | null | undefined): number {
+    if (!salary) return 0;
+    return (salary.min != null ? 1 : 0) + (salary.max != null ? 1 : 0);
+}
+
+function mergeFlags(primary: Flag[], secondary: Flag[]): Flag[] {
+    const seen = new Set(primary.map(flag => flag.keyword.toLowerCase()));
+    return [...primary, ...secondary.filter(flag => !seen.has(flag.keyword.toLowerCase()))];
+}
+
+/**
+ * Whose posting date to keep: the more trustworthy one, then the earlier one
+ * (a repost refreshes the date, the original tells how long the role is open)
+ */
+function preferredDate(primary: JobData, secondary: JobData): JobData {
+    if (!secondary.datePosted) return primary;
+    if (!primary.datePosted) return secondary;
+
+    const rank = (job: JobData) => DATE_CONFIDENCE_RANK[job.datePostedConfidence ?? 'exact'];
+    if (rank(primary) !== rank(secondary)) return rank(primary) < rank(secondary) ? primary : secondary;
+    return secondary.datePosted < primary.datePosted ? secondary : primary;
+}
+
+export interface MergeOptions {
+    /**
+     * `primary` is a fresh scrape of the listing `secondary` was saved from:
+     * its description, requirements and flags replace the old ones instead of
+     * the longer text or the union of flags being kept
+     */
+    refresh?: boolean;
+}
+
+/**
+ * Fold another listing of the same job into `primary`. The primary listing
+ * keeps its identity (URL, platform, title); gaps are filled from the other
+ * one — e.g. the salary Indeed shows and LinkedIn hides, or the JSON-LD
+ * posting date a board without one lacks.
+ */
+export function mergeJobData<T extends JobData>(primary: T, secondary: JobData, { refresh = false }: MergeOptions = {}): T {
+    const dated = preferredDate(primary, secondary);
+    // The kept listing's jobAge dates from when it was scraped, maybe weeks ago
+    const age = dated.datePosted ? daysSince(dated.datePosted) : null;
+    const salary = salaryDetail(secondary.hiddenSalary) > salaryDetail(primary.hiddenSalary) ? secondary : primary;
+    const ghostJob = (secondary.ghostJob?.score ?? -1) > (primary.ghostJob?.score ?? -1)
+        ? secondary.ghostJob
+        : primary.ghostJob;
+
+    return {
+        ...primary,
+        location: primary.location || secondary.location,
+        description: refresh
+            ? primary.description || secondary.description
+            : secondary.description.length > primary.description.length ? secondary.description : primary.description,
+        requirements: refresh || secondary.requirements.length <= primary.requirements.length
+            ? primary.requirements
+            : secondary.requirements,
+        department: primary.department ?? secondary.department,
+
+        datePosted: dated.datePosted,
+        jobAge: age != null ? Math.max(0, age) : dated.jobAge,
+        datePostedConfidence: dated.datePostedConfidence,
+        validThrough: primary.validThrough ?? secondary.validThrough,
+
+        visibleSalary: primary.visibleSalary ?? secondary.visibleSalary,
+        hiddenSalary: salary.hiddenSalary,
+        salaryMismatch: salary.salaryMismatch,
+
+        employerRating: primary.employerRating ?? secondary.employerRating,
+        employerReviewCount: primary.employerReviewCount ?? secondary.employerReviewCount,
+        estimatedSalary: primary.estimatedSalary ?? secondary.estimatedSalary,
+        seniority: primary.seniority ?? secondary.seniority,
+        employmentType: primary.employmentType ?? secondary.employmentType,
+        workMode: primary.workMode ?? secondary.workMode,
+        visaSponsorship: primary.visaSponsorship ?? secondary.visaSponsorship,
+        jobLocationType: primary.jobLocationType ?? secondary.jobLocationType,
+        ghostJob,
+
+        redFlags: refresh ? primary.redFlags : mergeFlags(primary.redFlags, secondary.redFlags),
+        greenFlags: refresh ? primary.greenFlags : mergeFlags(primary.greenFlags, secondary.greenFlags),
+
+        scrapedAt: secondary.scrapedAt > primary.scrapedAt ? secondary.scrapedAt : primary.scrapedAt,
+    };
+}
@@ -0,0 +1,80 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { getParserForUrl } from './index';
+
+/**
+ * Regression corpus: every fixtures/<platform>/<variant>.html snapshot is run
+ * through the parser its URL resolves to and compared with the golden
+ * <variant>.golden.json next to it.
+ *
+ * Each snapshot declares the URL it was saved from:
+ *   <meta name="jbg:fixture-url" content="https://...">
+ *
+ * Re-record goldens after an intended parser change with `pnpm test:record`
+ * and review the JSON diff.
+ */
+
+const FIXTURES_DIR = new URL('../fixtures/', import.meta.url);
+
+// Goldens contain jobAge / scrapedAt, so the clock is pinned
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+
+interface Fixture {
+    platform: string;
+    variant: string;
+    html: string;
+}
+
+function loadCorpus(): Fixture[] {
+    const fixtures: Fixture[] = [];
+    for (const dir of readdirSync(FIXTURES_DIR, { withFileTypes: true })) {
+        if (!dir.isDirectory()) continue;
+        for (const file of readdirSync(new URL(`${dir.name}/`, FIXTURES_DIR))) {
+            if (!file.endsWith('.html')) continue;
+            fixtures.push({
+                platform: dir.name,
+                variant: file.replace(/\.html$/, ''),
+                html: readFileSync(new URL(`${dir.name}/${file}`, FIXTURES_DIR), 'utf-8'),
+            });
+        }
+    }
+    return fixtures.sort((a, b) => `${a.platform}/${a.variant}`.localeCompare(`${b.platform}/${b.variant}`));
+}
+
+function fixtureUrl(html: string): string | null {
+    const content = html.match(/<meta\s+name="jbg:fixture-url"\s+content="([^"]+)"/)?.[1];
+    return content ? content.replace(/&amp;/g, '&') : null;
+}
+
+describe('parser fixture corpus', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(NOW);
+        // Snapshots are parsed offline: enrichment APIs (e.g. Greenhouse) fail like a blocked request
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline fixture run')));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    for (const { platform, variant, html } of loadCorpus()) {
+        it(`${platform}/${variant}`, async () => {
+            const url = fixtureUrl(html);
+            expect(url, 'fixture is missing <meta name="jbg:fixture-url">').not.toBeNull();
+
+            const parser = getParserForUrl(url!);
+            expect(parser?.platform).toBe(platform);
+
+            const document = new JSDOM(html, { url: url! }).window.document;
+            const jobData = await parser!.extractJobData(document);
+
+            await expect(`${JSON.stringify(jobData, null, 4)}\n`)
+                .toMatchFileSnapshot(`../fixtures/${platform}/${variant}.golden.json`);
+        });
+    }
+});
@@ -0,0 +1,67 @@
+/**
+ * Sentence context around a flag match. A phrase that is negated ("We are
+ * NOT a fast-paced startup", "no unpaid overtime", "Remote possibility:
+ * none") says the opposite of the flag; a hedged one ("may occasionally
+ * require weekend work") says it less firmly.
+ */
+
+export interface MatchContext {
+    negated: boolean;
+    hedged: boolean;
+}
+
+// How many words before a match are searched for a negator
+const NEGATION_WINDOW = 5;
+// Hedged matches keep this share of their confidence
+const HEDGE_FACTOR = 0.7;
+
+const NEGATORS = new Set([
+    'no', 'not', 'never', 'without', 'none', 'nor', 'non', 'zero',
+    "isn't", "aren't", "don't", "doesn't", "won't", "can't", 'cannot', "wasn't", "shouldn't",
+    'не', 'нет', 'без', 'ни', 'никакой', 'никакого', 'никакая', 'никакие', 'никаких', 'никогда',
+]);
+
+// A negation doesn't reach past punctuation or a contrasting conjunction
+const CLAUSE_BREAK = /[,;:()[\]—–]|\s-\s|(?<![\p{L}])(?:but|however|although|instead|но|однако|зато)(?![\p{L}])/giu;
+
+// "Remote: no", "remote possibility: none", "remote work is not possible", "удалёнка невозможна"
+const TRAILING_NEGATION = /^[\s\p{L}]{0,25}?\s*[:\-–—]?\s*(?:(?:is|are)\s+)?(?:none|no(?![\p{L}])|n\/a|not(?!\s+only)(?![\p{L}])|unavailable|нет(?![\p{L}])|не(?=\s)|невозможн)/iu;
+
+const HEDGES = /(?<![\p{L}])(?:may|might|could|occasional(?:ly)?|sometimes|at\s+times|possibly|potentially|from\s+time\s+to\s+time|иногда|периодически|при\s+необходимости)(?![\p{L}])/iu;
+
+function words(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/[’`]/g, "'")
+        .split(/[^\p{L}\p{N}']+/u)
+        .filter(Boolean);
+}
+
+function negatedBefore(before: string): boolean {
+    let clauseStart = 0;
+    for (const match of before.matchAll(CLAUSE_BREAK)) {
+        clauseStart = match.index! + match[0].length;
+    }
+    const window = words(before.slice(clauseStart)).slice(-NEGATION_WINDOW);
+    // "not only fast-paced but also..." is emphasis, not negation
+    return window.some((word, i) => NEGATORS.has(word) && window[i + 1] !== 'only');
+}
+
+/**
+ * Negation and hedging around `sentence[start..end)`
+ */
+export function matchContext(sentence: string, start: number, end: number): MatchContext {
+    return {
+        negated: negatedBefore(sentence.slice(0, start)) || TRAILING_NEGATION.test(sentence.slice(end)),
+        hedged: HEDGES.test(sentence),
+    };
+}
+
+/**
+ * Confidence of a match in context; null when the sentence negates it
+ */
+export function contextualConfidence(base: number, context: MatchContext): number | null {
+    if (context.negated) return null;
+    const confidence = context.hedged ? base * HEDGE_FACTOR : base;
+    return Math.round(confidence * 100) / 100;
+}
@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { FlagAnalyzer } from './FlagAnalyzer';
+
+/**
+ * Labelled sentences (fixtures/flag-corpus.json) with the red and green flag
+ * labels a reader would expect. Negations, partial words and "remote"
+ * variants are the interesting cases; add a sentence here for every false
+ * positive reported, then make it pass.
+ */
+
+interface LabelledSentence {
+    text: string;
+    red: string[];
+    green: string[];
+}
+
+const CORPUS: LabelledSentence[] = JSON.parse(
+    readFileSync(new URL('../fixtures/flag-corpus.json', import.meta.url), 'utf-8'),
+);
+
+const analyzer = new FlagAnalyzer();
+
+function labelsFor(entry: LabelledSentence) {
+    const { redFlags, greenFlags } = analyzer.analyze(entry.text);
+    return {
+        red: redFlags.map((flag) => flag.keyword).sort(),
+        green: greenFlags.map((flag) => flag.keyword).sort(),
+    };
+}
+
+describe('flag corpus', () => {
+    it.each(CORPUS.map((entry) => [entry.text, entry] as const))('%s', (_text, entry) => {
+        expect(labelsFor(entry)).toEqual({ red: [...entry.red].sort(), green: [...entry.green].sort() });
+    });
+
+    it('should have no false positives or misses across the corpus', () => {
+        const falsePositives: string[] = [];
+        const misses: string[] = [];
+
+        for (const entry of CORPUS) {
+            const found = labelsFor(entry);
+            const expected = new Set([...entry.red, ...entry.green]);
+            const actual = new Set([...found.red, ...found.green]);
+            for (const label of actual) if (!expected.has(label)) falsePositives.push(`${label} ← ${entry.text}`);
+            for (const label of expected) if (!actual.has(label)) misses.push(`${label} ← ${entry.text}`);
+        }
+
+        expect({ falsePositives, misses }).toEqual({ falsePositives: [], misses: [] });
+    });
+});
+
+describe('flag confidence', () => {
+    it('should lower confidence for hedged and ambiguous matches', () => {
+        const firm = analyzer.analyze('A high-pressure launch week.').redFlags[0];
+        const hedged = analyzer.analyze('There may be a high-pressure launch week.').redFlags[0];
+        const ambiguous = analyzer.analyze('Salary DOE.').redFlags[0];
+
+        expect(firm.confidence).toBe(0.8);
+        expect(hedged.confidence).toBe(0.56);
+        expect(ambiguous.confidence).toBe(0.6);
+    });
+
+    it('should keep looking past a negated sentence', () => {
+        const { redFlags } = analyzer.analyze('We are not a fast-paced startup. Releases are fast-paced in December.');
+        expect(redFlags).toEqual([expect.objectContaining({ keyword: 'Fast-paced environment', context: 'Releases are fast-paced in December' })]);
+    });
+});
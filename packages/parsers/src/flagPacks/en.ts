@@ -0,0 +1,98 @@
+import { SALARY_RANGE_PATTERN } from '../salary';
+import type { FlagPack } from './types';
+
+// Places a remote role can be limited to
+const REGION = '(?:the\\s+)?(?:US|USA|U\\.S\\.?|United\\s+States|EU|Europe|UK|EMEA|LATAM|APAC|Canada|Germany|India|CET|EST|PST|[a-z]+\\s+time\\s*zones?)';
+
+// "Remote" with a residency/region restriction attached ("remote within US only", "Remote (EU only)")
+const RESTRICTED_REMOTE = new RegExp(
+    `\\bremote\\b[^.;]{0,40}?(?:\\b${REGION}[- ]?only\\b|\\bwithin\\s+${REGION}\\b|\\bbased\\s+in\\b|\\bresidents?\\s+of\\b|\\bmust\\s+(?:be\\s+located|reside|live)\\b)`,
+    'i'
+);
+
+export const EN_FLAG_PACK: FlagPack = {
+    language: 'en',
+    redFlags: [
+        // Workload concerns
+        { pattern: /\bfast[- ]?paced\b(\s*environment)?/i, label: 'Fast-paced environment', category: 'workload', severity: 'medium' },
+        { pattern: /\bwear\s*(many|multiple)\s*hats\b/i, label: 'Undefined role', category: 'workload', severity: 'high' },
+        { pattern: /\bwork\s*hard[,\s]*play\s*hard\b/i, label: 'Likely overtime expected', category: 'workload', severity: 'high' },
+        { pattern: /\bstartup\s*mentality\b/i, label: 'Chaotic environment', category: 'workload', severity: 'medium' },
+        { pattern: /\bself[- ]?starters?\b/i, label: 'Minimal training/support', category: 'workload', severity: 'low', confidence: 0.6 },
+        { pattern: /\bhit\s*the\s*ground\s*running\b/i, label: 'No onboarding', category: 'workload', severity: 'medium' },
+        { pattern: /\bfast[- ]?moving\b/i, label: 'High pressure', category: 'workload', severity: 'medium', confidence: 0.6 },
+
+        // Culture red flags
+        { pattern: /\blike\s*a?\s*family\b/i, label: 'Blurred professional boundaries', category: 'culture', severity: 'high' },
+        {
+            // Not a colleague being described ("she is a guru of distributed systems")
+            pattern: /(?<!\b(?:he|she|they)(?:'s|'re|\s+(?:is|are|was|were))\s+(?:an?\s+|the\s+)?(?:[\w-]+\s+)?)\b(?:rock\s*stars?|ninjas?|gurus?|wizards?)\b/i,
+            label: 'Unrealistic expectations',
+            category: 'culture',
+            severity: 'medium',
+            confidence: 0.7,
+        },
+        { pattern: /\bhustle\b(\s*culture)?/i, label: 'Burnout culture', category: 'culture', severity: 'high', confidence: 0.7 },
+        { pattern: /\bno\s*egos?\b/i, label: 'May dismiss valid concerns', category: 'culture', severity: 'low', confidence: 0.6 },
+
+        // Compensation concerns
+        { pattern: /\bcompetitive\s*(?:salary|pay|compensation)\b/i, label: 'Salary not disclosed', category: 'compensation', severity: 'medium' },
+        { pattern: /\b(?:unpaid|volunteer\s+(?:role|position|basis))\b/i, label: 'No compensation', category: 'compensation', severity: 'critical' },
+        { pattern: /\bequity[- ]only\b/i, label: 'No cash compensation', category: 'compensation', severity: 'critical' },
+        { pattern: /\bDOE\b|\bdepending\s*on\s*experience\b/i, label: 'Vague compensation', category: 'compensation', severity: 'low', confidence: 0.6 },
+
+        // Management red flags
+        { pattern: /\bhigh[- ]?pressure\b/i, label: 'Stressful environment', category: 'management', severity: 'high' },
+        { pattern: /\bmust\s*(be\s*able\s*to\s*)?handle\s*stress/i, label: 'Poor management', category: 'management', severity: 'high' },
+        { pattern: /\bthick\s*skin/i, label: 'Toxic environment', category: 'management', severity: 'high' },
+        { pattern: /\bdynamic\s*environment\b/i, label: 'Disorganized workplace', category: 'management', severity: 'medium', confidence: 0.6 },
+
+        // Growth concerns
+        { pattern: /\bentry[- ]?level\b.{0,20}\b(3|4|5)\+?\s*years/i, label: 'Unrealistic requirements', category: 'growth', severity: 'high' },
+    ],
+
+    greenFlags: [
+        // Flexibility
+        {
+            pattern: /\b(?:fully\s+|100%\s+)?remote\b(?![- ]?(?:sensing|control|monitoring|access|desktop|servers?|teams?|colleagues)\b)|\bwork\s*from\s*home\b|\bwfh\b/i,
+            exclude: RESTRICTED_REMOTE,
+            label: 'Remote work available',
+            category: 'flexibility',
+            severity: 'low',
+        },
+        { pattern: RESTRICTED_REMOTE, label: 'Remote within a region only', category: 'flexibility', severity: 'low' },
+        { pattern: /\bflexible\s*(hours|schedule|working)\b/i, label: 'Flexible schedule', category: 'flexibility', severity: 'low' },
+        { pattern: /\bhybrid\b/i, label: 'Hybrid work option', category: 'flexibility', severity: 'low' },
+        { pattern: /\b(?:4|four)[- ]?day\s*(work\s*)?week\b/i, label: '4-day work week', category: 'flexibility', severity: 'low' },
+        { pattern: /\basynchronous\b|\basync\s*work/i, label: 'Async-friendly', category: 'flexibility', severity: 'low' },
+
+        // Benefits
+        { pattern: /\bunlimited\s*(pto|vacation|time\s*off)\b/i, label: 'Unlimited PTO', category: 'benefits', severity: 'low' },
+        { pattern: /\bmental\s*health\b/i, label: 'Mental health support', category: 'benefits', severity: 'low', confidence: 0.7 },
+        { pattern: /\bparental\s*leave\b/i, label: 'Parental leave', category: 'benefits', severity: 'low' },
+        { pattern: /\b401\s*\(?k\)?\s*match/i, label: '401k matching', category: 'benefits', severity: 'low' },
+        { pattern: /\bhealth\s*insurance\b/i, label: 'Health insurance', category: 'benefits', severity: 'low' },
+
+        // Compensation
+        {
+            // Not "pay equity" or "diversity, equity and inclusion"
+            pattern: /(?<!\b(?:(?:pay|gender|racial|health)\s+|diversity,?\s+(?:and\s+)?))\bequity\b(?![- ]only)(?![,\s]+(?:(?:and|&)\s+)?(?:diversity|inclusion|inclusivity)\b)|\bstock\s*options\b|\bRSUs?\b/i,
+            label: 'Equity compensation',
+            category: 'compensation',
+            severity: 'low',
+            confidence: 0.7,
+        },
+        { pattern: SALARY_RANGE_PATTERN, label: 'Transparent salary', category: 'compensation', severity: 'low', confidence: 0.9 },
+        { pattern: /\bsigning\s*bonus\b/i, label: 'Signing bonus', category: 'compensation', severity: 'low' },
+
+        // Growth
+        { pattern: /\bprofessional\s*development\b|\blearning\s*budget\b/i, label: 'Learning opportunities', category: 'growth', severity: 'low' },
+        { pattern: /\bcareer\s*(growth|path|progression)\b/i, label: 'Career growth focus', category: 'growth', severity: 'low' },
+        { pattern: /\bmentorship\b/i, label: 'Mentorship program', category: 'growth', severity: 'low' },
+        { pattern: /\bpromote\s*from\s*within\b/i, label: 'Internal promotions', category: 'growth', severity: 'low' },
+
+        // Culture
+        { pattern: /\bwork[- ]?life\s*balance\b/i, label: 'Work-life balance focus', category: 'culture', severity: 'low' },
+        { pattern: /\b(?:diverse|diversity|DEI|inclusive|inclusion)\b/i, label: 'DEI commitment', category: 'culture', severity: 'low', confidence: 0.6 },
+    ],
+};
@@ -0,0 +1,14 @@
+import type { JobLanguage } from '@job-bodyguard/types';
+import { EN_FLAG_PACK } from './en';
+import { RU_FLAG_PACK } from './ru';
+import type { FlagPack } from './types';
+
+export type { FlagPack, FlagPattern } from './types';
+export { DEFAULT_FLAG_CONFIDENCE } from './types';
+export { EN_FLAG_PACK, RU_FLAG_PACK };
+
+/** One rule pack per description language */
+export const FLAG_PACKS: Record<JobLanguage, FlagPack> = {
+    en: EN_FLAG_PACK,
+    ru: RU_FLAG_PACK,
+};
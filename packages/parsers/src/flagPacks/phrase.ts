@@ -0,0 +1,8 @@
+/**
+ * JS `\b` only knows ASCII letters, so "семья" would match inside
+ * "семьянин" and "нормированный" inside "ненормированный". Phrases are
+ * wrapped in Unicode-aware word lookarounds instead.
+ */
+export function phrase(source: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'iu');
+}
@@ -0,0 +1,57 @@
+import { SALARY_RANGE_PATTERN } from '../salary';
+import { phrase } from './phrase';
+import type { FlagPack } from './types';
+
+// Stems spell out their endings with `[а-яё]*`; see phrase() for word boundaries.
+// Any run of whitespace between words (`\s` covers the &nbsp; hh.ru uses)
+const _ = '\\s+';
+
+export const RU_FLAG_PACK: FlagPack = {
+    language: 'ru',
+    redFlags: [
+        // Workload concerns
+        { pattern: phrase(`многозадачн[а-яё]*`), label: 'Multitasking expected', category: 'workload', severity: 'medium' },
+        { pattern: phrase(`ненормированн[а-яё]*${_}(?:рабоч[а-яё]*${_})?(?:день|дня|дне|график[а-яё]*)`), label: 'Irregular working hours', category: 'workload', severity: 'high' },
+        { pattern: phrase(`готовност[а-яё]*${_}к${_}переработк[а-яё]*|работ[а-яё]*${_}в${_}выходные`), label: 'Likely overtime expected', category: 'workload', severity: 'high' },
+        { pattern: phrase(`высок[а-яё]*${_}темп[а-яё]*|быстр[а-яё]*${_}темп[а-яё]*`), label: 'Fast-paced environment', category: 'workload', severity: 'medium' },
+        { pattern: phrase(`авральн[а-яё]*|в${_}режиме${_}аврала`), label: 'Crunch periods', category: 'workload', severity: 'high' },
+
+        // Culture red flags
+        { pattern: phrase(`(?:дружн[а-яё]*|сплочённ[а-яё]*|сплоченн[а-яё]*|больш[а-яё]*)${_}семь(?:я|ю|ей|е|и)|мы${_}(?:как${_})?семья`), label: 'Blurred professional boundaries', category: 'culture', severity: 'high' },
+        { pattern: phrase(`молод[а-яё]*,?${_}(?:(?:и${_})?[а-яё]+,?${_})?коллектив[а-яё]*`), label: 'Possible age bias', category: 'culture', severity: 'medium' },
+
+        // Compensation concerns
+        { pattern: phrase(`сер(?:ая|ой|ую)${_}(?:зарплат[а-яё]*|заработн[а-яё]*${_}плат[а-яё]*)|зарплат[а-яё]*${_}в${_}конверте`), label: 'Unofficial ("grey") salary', category: 'compensation', severity: 'critical' },
+        { pattern: phrase(`конкурентн[а-яё]*${_}(?:зарплат[а-яё]*|заработн[а-яё]*${_}плат[а-яё]*|оплат[а-яё]*|уровень${_}дохода)`), label: 'Salary not disclosed', category: 'compensation', severity: 'medium' },
+        { pattern: phrase(`(?:зарплат[а-яё]*|заработн[а-яё]*${_}плат[а-яё]*|доход)${_}по${_}результатам${_}собеседования`), label: 'Vague compensation', category: 'compensation', severity: 'low' },
+        { pattern: phrase(`неоплачиваем[а-яё]*|бесплатн[а-яё]*${_}стажировк[а-яё]*|без${_}оплаты`), label: 'No compensation', category: 'compensation', severity: 'critical' },
+
+        // Management red flags
+        { pattern: phrase(`стрессоустойчив[а-яё]*`), label: 'Stress tolerance required', category: 'management', severity: 'medium' },
+        { pattern: phrase(`динамично${_}развивающ[а-яё]*`), label: 'Disorganized workplace', category: 'management', severity: 'low' },
+    ],
+
+    greenFlags: [
+        // Flexibility
+        { pattern: phrase(`удал[её]нн[а-яё]*${_}(?:работ[а-яё]*|формат[а-яё]*)|удал[её]нк[а-яё]*`), label: 'Remote work available', category: 'flexibility', severity: 'low' },
+        { pattern: phrase(`гибридн[а-яё]*`), label: 'Hybrid work option', category: 'flexibility', severity: 'low' },
+        { pattern: phrase(`гибк[а-яё]*${_}(?:график[а-яё]*|начал[а-яё]*${_}рабоч[а-яё]*${_}дня)`), label: 'Flexible schedule', category: 'flexibility', severity: 'low' },
+        { pattern: phrase(`нормированн[а-яё]*${_}(?:рабоч[а-яё]*${_})?(?:день|дня|график[а-яё]*)`), label: 'Regular working hours', category: 'flexibility', severity: 'low' },
+        { pattern: phrase(`четыр[её]хдневк[а-яё]*|4-?(?:х${_}|дневн[а-яё]*${_})(?:рабоч[а-яё]*${_})?недел[а-яё]*`), label: '4-day work week', category: 'flexibility', severity: 'low' },
+
+        // Benefits
+        { pattern: phrase(`официальн[а-яё]*${_}(?:трудоустройств[а-яё]*|оформлени[а-яё]*)|оформлени[а-яё]*${_}по${_}ТК(?:${_}РФ)?|бел(?:ая|ой|ую)${_}(?:зарплат[а-яё]*|заработн[а-яё]*${_}плат[а-яё]*)`), label: 'Official employment', category: 'benefits', severity: 'low' },
+        { pattern: phrase(`ДМС|медицинск[а-яё]*${_}страховк[а-яё]*`), label: 'Health insurance', category: 'benefits', severity: 'low' },
+        { pattern: phrase(`(?:услуги|консультаци[а-яё]*)${_}психолог[а-яё]*|психологическ[а-яё]*${_}поддержк[а-яё]*`), label: 'Mental health support', category: 'benefits', severity: 'low' },
+
+        // Compensation
+        { pattern: SALARY_RANGE_PATTERN, label: 'Transparent salary', category: 'compensation', severity: 'low' },
+        { pattern: phrase(`опцион[а-яё]*`), label: 'Equity compensation', category: 'compensation', severity: 'low' },
+        { pattern: phrase(`(?:переработки|сверхурочн[а-яё]*)${_}(?:оплачива[а-яё]*|компенсиру[а-яё]*)`), label: 'Paid overtime', category: 'compensation', severity: 'low' },
+
+        // Growth
+        { pattern: phrase(`обучени[а-яё]*${_}за${_}сч[её]т${_}компании|компенсаци[а-яё]*${_}(?:обучения|курсов|конференций)`), label: 'Learning opportunities', category: 'growth', severity: 'low' },
+        { pattern: phrase(`карьерн[а-яё]*${_}рост[а-яё]*`), label: 'Career growth focus', category: 'growth', severity: 'low' },
+        { pattern: phrase(`наставни(?:к|ки|ка|чество|чества)`), label: 'Mentorship program', category: 'growth', severity: 'low' },
+    ],
+};
@@ -0,0 +1,25 @@
+import type { Flag, JobLanguage } from '@job-bodyguard/types';
+
+export interface FlagPattern {
+    pattern: RegExp;
+    label: string;
+    category: Flag['category'];
+    severity: Flag['severity'];
+    /** How reliably a match means what the label says (0-1); defaults to DEFAULT_FLAG_CONFIDENCE */
+    confidence?: number;
+    /** Skip sentences this matches, e.g. a narrower rule that describes them better */
+    exclude?: RegExp;
+}
+
+export const DEFAULT_FLAG_CONFIDENCE = 0.8;
+
+/**
+ * Red and green flag rules for descriptions in one language. Labels are
+ * shared across packs (and shown in English), so the same concern found in
+ * a bilingual posting is reported once.
+ */
+export interface FlagPack {
+    language: JobLanguage;
+    redFlags: FlagPattern[];
+    greenFlags: FlagPattern[];
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { FlagRule, FlagRuleSet } from '@job-bodyguard/types';
+import { FlagAnalyzer } from './FlagAnalyzer';
+import { compileFlagRule, listBuiltInFlagRules, mergeFlagRuleSets, parseFlagRules, validateFlagRule } from './flagRules';
+
+function rule(overrides: Partial<FlagRule> = {}): FlagRule {
+    return {
+        id: 'on-call',
+        kind: 'red',
+        label: 'On-call rotation',
+        category: 'workload',
+        severity: 'critical',
+        match: 'keyword',
+        pattern: 'on-call',
+        enabled: true,
+        ...overrides,
+    };
+}
+
+function ruleSet(rules: FlagRule[], disabledBuiltIns: string[] = []): FlagRuleSet {
+    return { version: 1, rules, disabledBuiltIns };
+}
+
+const labels = (flags: { keyword: string }[]) => flags.map((flag) => flag.keyword);
+
+describe('compileFlagRule', () => {
+    it('should match keywords literally, as whole words, with any spacing', () => {
+        const pattern = compileFlagRule({ match: 'keyword', pattern: 'C++  developer' });
+        expect(pattern.test('Senior C++ Developer wanted')).toBe(true);
+        expect(pattern.test('Objective-C++developer')).toBe(false);
+        expect(compileFlagRule({ match: 'keyword', pattern: 'релокация' }).test('Помогаем с релокацией')).toBe(false);
+    });
+
+    it('should compile regexes case-insensitively', () => {
+        expect(compileFlagRule({ match: 'regex', pattern: 'relocat(e|ion)' }).test('RELOCATION package')).toBe(true);
+    });
+});
+
+describe('validateFlagRule', () => {
+    it('should accept a complete rule', () => {
+        expect(validateFlagRule(rule())).toBeNull();
+    });
+
+    it.each<[Partial<FlagRule>, RegExp]>([
+        [{ label: '  ' }, /label/],
+        [{ pattern: '' }, /keyword or pattern/],
+        [{ match: 'regex', pattern: '(unclosed' }, /Invalid regular expression/],
+        [{ match: 'regex', pattern: 'x*' }, /every job/],
+        [{ category: 'vibes' as FlagRule['category'] }, /Unknown category/],
+        [{ severity: 'extreme' as FlagRule['severity'] }, /Unknown severity/],
+    ])('should reject %j', (overrides, message) => {
+        expect(validateFlagRule(rule(overrides))).toMatch(message);
+    });
+});
+
+describe('parseFlagRules', () => {
+    it('should round-trip an exported rule set', () => {
+        const set = ruleSet([rule(), rule({ id: 'relocation', kind: 'green', label: 'Relocation', category: 'benefits', severity: 'low', pattern: 'relocation', enabled: false })], ['Self-starter']);
+        expect(parseFlagRules(JSON.stringify(set))).toEqual(set);
+    });
+
+    it('should name the first invalid rule', () => {
+        expect(() => parseFlagRules({ version: 1, rules: [rule(), rule({ id: 'x', label: 'Broken', match: 'regex', pattern: '[' })] }))
+            .toThrow(/Rule "Broken": Invalid regular expression/);
+        expect(() => parseFlagRules({ version: 1, rules: [rule(), rule()] })).toThrow(/reuses the id/);
+        expect(() => parseFlagRules({ version: 2, rules: [] })).toThrow(/version/);
+    });
+});
+
+describe('mergeFlagRuleSets', () => {
+    it('should add imported rules and replace ones with the same id', () => {
+        const merged = mergeFlagRuleSets(
+            ruleSet([rule(), rule({ id: 'mine', label: 'Mine', pattern: 'mine' })], ['Hybrid work option']),
+            ruleSet([rule({ severity: 'high' })], ['Self-starter']),
+        );
+        expect(merged.rules.map((r) => [r.id, r.severity])).toEqual([['mine', 'critical'], ['on-call', 'high']]);
+        expect(merged.disabledBuiltIns).toEqual(['Hybrid work option', 'Self-starter']);
+    });
+});
+
+describe('FlagAnalyzer with user rules', () => {
+    const text = 'You will join the on-call rotation. We are a fast-paced team of self-starters. Relocation support provided.';
+
+    it('should add user rules to the built-in packs', () => {
+        const analyzer = new FlagAnalyzer({
+            rules: ruleSet([rule(), rule({ id: 'relocation', kind: 'green', label: 'Relocation', category: 'benefits', severity: 'low', pattern: 'relocation' })]),
+        });
+        const { redFlags, greenFlags } = analyzer.analyze(text);
+        expect(labels(redFlags)).toEqual(['Fast-paced environment', 'Minimal training/support', 'On-call rotation']);
+        expect(labels(greenFlags)).toEqual(['Relocation']);
+    });
+
+    it('should drop switched-off built-ins and skip disabled user rules', () => {
+        const analyzer = new FlagAnalyzer({ rules: ruleSet([rule({ enabled: false })], ['Minimal training/support']) });
+        expect(labels(analyzer.analyze(text).redFlags)).toEqual(['Fast-paced environment']);
+    });
+
+    it('should let a user rule override a built-in one with the same label', () => {
+        const analyzer = new FlagAnalyzer({
+            rules: ruleSet([rule({ id: 'fast', label: 'Fast-paced environment', severity: 'low', pattern: 'fast-paced team' })]),
+        });
+        const flag = analyzer.analyze('A fast-paced environment.').redFlags.find((f) => f.keyword === 'Fast-paced environment');
+        expect(flag).toBeUndefined();
+        expect(analyzer.analyze(text).redFlags.find((f) => f.keyword === 'Fast-paced environment')?.severity).toBe('low');
+    });
+
+    it('should list each built-in label once', () => {
+        const builtIns = listBuiltInFlagRules();
+        const keys = builtIns.map((r) => `${r.kind}:${r.label}`);
+        expect(new Set(keys).size).toBe(keys.length);
+        expect(builtIns).toContainEqual({ kind: 'red', label: 'Multitasking expected', category: 'workload', severity: 'medium' });
+    });
+});
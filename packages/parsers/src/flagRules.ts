@@ -0,0 +1,163 @@
+import { EMPTY_FLAG_RULE_SET, FLAG_CATEGORIES, FLAG_SEVERITIES } from '@job-bodyguard/types';
+import type { Flag, FlagRule, FlagRuleKind, FlagRuleSet } from '@job-bodyguard/types';
+import { FLAG_PACKS } from './flagPacks';
+import type { FlagPattern } from './flagPacks';
+import { phrase } from './flagPacks/phrase';
+
+/**
+ * User-defined flag rules: validation (before they are saved or imported),
+ * compilation to the same patterns the built-in packs use, and the merge
+ * with those packs.
+ */
+
+export interface BuiltInFlagRule {
+    kind: FlagRuleKind;
+    label: string;
+    category: Flag['category'];
+    severity: Flag['severity'];
+}
+
+// Longer patterns are almost certainly pasted by mistake
+const MAX_PATTERN_LENGTH = 500;
+const MAX_LABEL_LENGTH = 80;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The rule's pattern as a RegExp. Keywords match as whole words with any
+ * whitespace between them; regexes are case-insensitive.
+ */
+export function compileFlagRule(rule: Pick<FlagRule, 'match' | 'pattern'>): RegExp {
+    if (rule.match === 'keyword') {
+        const words = rule.pattern.trim().split(/\s+/).map(escapeRegExp);
+        return phrase(words.join('\\s+'));
+    }
+    return new RegExp(rule.pattern, 'i');
+}
+
+/**
+ * What is wrong with a rule, or null when it can be saved
+ */
+export function validateFlagRule(rule: Omit<FlagRule, 'id' | 'enabled'>): string | null {
+    const label = rule.label.trim();
+    if (!label) return 'Give the rule a label';
+    if (label.length > MAX_LABEL_LENGTH) return `Keep the label under ${MAX_LABEL_LENGTH} characters`;
+    if (rule.kind !== 'red' && rule.kind !== 'green') return 'Kind must be "red" or "green"';
+    if (!FLAG_CATEGORIES.includes(rule.category)) return `Unknown category "${rule.category}"`;
+    if (!FLAG_SEVERITIES.includes(rule.severity)) return `Unknown severity "${rule.severity}"`;
+    if (rule.match !== 'keyword' && rule.match !== 'regex') return 'Match must be "keyword" or "regex"';
+    if (!rule.pattern.trim()) return 'Enter a keyword or pattern';
+    if (rule.pattern.length > MAX_PATTERN_LENGTH) return `Keep the pattern under ${MAX_PATTERN_LENGTH} characters`;
+
+    let pattern: RegExp;
+    try {
+        pattern = compileFlagRule(rule);
+    } catch (err) {
+        return `Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    // A pattern that matches nothing at all would flag every posting
+    if (pattern.test('')) return 'The pattern matches empty text, so it would flag every job';
+    return null;
+}
+
+/**
+ * Validate a stored or imported rule set. Throws with a message naming the
+ * first bad rule.
+ */
+export function parseFlagRules(raw: unknown): FlagRuleSet {
+    const data = typeof raw === 'string' ? JSON.parse(raw) as unknown : raw;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Flag rules must be a JSON object');
+    }
+
+    const { version, rules, disabledBuiltIns = [] } = data as Record<string, unknown>;
+    if (version !== 1) {
+        throw new Error('"version" must be 1');
+    }
+    if (!Array.isArray(rules)) {
+        throw new Error('"rules" must be an array');
+    }
+    if (!Array.isArray(disabledBuiltIns) || disabledBuiltIns.some((label) => typeof label !== 'string')) {
+        throw new Error('"disabledBuiltIns" must be an array of labels');
+    }
+
+    const ids = new Set<string>();
+    const parsed = rules.map((item, i): FlagRule => {
+        if (!item || typeof item !== 'object') throw new Error(`Rule ${i + 1} must be an object`);
+        const rule = item as Partial<FlagRule>;
+        const name = typeof rule.label === 'string' && rule.label ? `"${rule.label}"` : `${i + 1}`;
+
+        if (typeof rule.id !== 'string' || !rule.id) throw new Error(`Rule ${name} needs an "id"`);
+        if (ids.has(rule.id)) throw new Error(`Rule ${name} reuses the id "${rule.id}"`);
+        ids.add(rule.id);
+
+        const candidate = {
+            kind: rule.kind!,
+            label: String(rule.label ?? ''),
+            category: rule.category!,
+            severity: rule.severity!,
+            match: rule.match!,
+            pattern: String(rule.pattern ?? ''),
+        };
+        const error = validateFlagRule(candidate);
+        if (error) throw new Error(`Rule ${name}: ${error}`);
+
+        return { id: rule.id, ...candidate, label: candidate.label.trim(), enabled: rule.enabled !== false };
+    });
+
+    return { version: 1, rules: parsed, disabledBuiltIns: disabledBuiltIns as string[] };
+}
+
+/**
+ * Add the rules and switched-off built-ins of an imported pack to the
+ * user's own; imported rules replace local ones with the same id
+ */
+export function mergeFlagRuleSets(current: FlagRuleSet, imported: FlagRuleSet): FlagRuleSet {
+    const importedIds = new Set(imported.rules.map((rule) => rule.id));
+    return {
+        version: 1,
+        rules: [...current.rules.filter((rule) => !importedIds.has(rule.id)), ...imported.rules],
+        disabledBuiltIns: [...new Set([...current.disabledBuiltIns, ...imported.disabledBuiltIns])],
+    };
+}
+
+/**
+ * Every built-in rule across the language packs, one entry per label
+ */
+export function listBuiltInFlagRules(): BuiltInFlagRule[] {
+    const seen = new Set<string>();
+    const rules: BuiltInFlagRule[] = [];
+    for (const pack of Object.values(FLAG_PACKS)) {
+        for (const [kind, patterns] of [['red', pack.redFlags], ['green', pack.greenFlags]] as const) {
+            for (const { label, category, severity } of patterns) {
+                if (seen.has(`${kind}:${label}`)) continue;
+                seen.add(`${kind}:${label}`);
+                rules.push({ kind, label, category, severity });
+            }
+        }
+    }
+    return rules;
+}
+
+/**
+ * Built-in patterns with the user's rules applied: switched-off built-ins
+ * are dropped, an enabled user rule with the same label replaces the
+ * built-in one, and user rules run for every language
+ */
+export function applyFlagRules(builtIn: FlagPattern[], kind: FlagRuleKind, ruleSet: FlagRuleSet = EMPTY_FLAG_RULE_SET): FlagPattern[] {
+    const userRules = ruleSet.rules.filter((rule) => rule.kind === kind && rule.enabled);
+    const replaced = new Set([...ruleSet.disabledBuiltIns, ...userRules.map((rule) => rule.label)]);
+
+    const compiled: FlagPattern[] = [];
+    for (const rule of userRules) {
+        try {
+            compiled.push({ pattern: compileFlagRule(rule), label: rule.label, category: rule.category, severity: rule.severity });
+        } catch {
+            // Stored rules are validated on save; skip anything that slipped through
+        }
+    }
+
+    return [...builtIn.filter((pattern) => !replaced.has(pattern.label)), ...compiled];
+}
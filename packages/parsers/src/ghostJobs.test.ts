@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import type { PostingHistoryEntry } from '@job-bodyguard/types';
+import {
+    assessGhostJob,
+    jobKeyForUrl,
+    normalizeCompanyName,
+    normalizeJobTitle,
+    postingHistoryKey,
+    recordSighting,
+} from './ghostJobs';
+import type { PostingSighting } from './ghostJobs';
+
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+const JOB = { company: 'Acme Inc.', title: 'Senior Backend Engineer (m/w/d)' };
+const FRESH = { jobAge: 2, datePostedConfidence: 'exact' as const, validThrough: null };
+
+function sighting(overrides: Partial<PostingSighting> = {}): PostingSighting {
+    return {
+        jobKey: 'linkedin:111',
+        datePosted: '2024-05-30',
+        datePostedConfidence: 'exact',
+        seenAt: NOW.toISOString(),
+        ...overrides,
+    };
+}
+
+function history(...sightings: PostingSighting[]): PostingHistoryEntry {
+    return sightings.reduce<PostingHistoryEntry | undefined>((entry, s) => recordSighting(entry, JOB, s), undefined)!;
+}
+
+describe('postingHistoryKey', () => {
+    it('should ignore legal suffixes, punctuation and gender markers', () => {
+        expect(postingHistoryKey('Acme Inc.', 'Senior Backend Engineer (m/w/d)'))
+            .toBe(postingHistoryKey('ACME', 'Senior Backend Engineer'));
+        expect(normalizeCompanyName('ООО «Ромашка»')).toBe('ромашка');
+        expect(normalizeJobTitle('C++ / C# Developer (f/m/x)')).toBe('c++ c# developer');
+    });
+
+    it('should need both company and title', () => {
+        expect(postingHistoryKey('', 'Engineer')).toBeNull();
+        expect(postingHistoryKey('Acme', '  ')).toBeNull();
+    });
+
+    it('should keep apart same-title roles in different cities', () => {
+        expect(postingHistoryKey('Acme', 'Backend Engineer', 'Berlin, Germany'))
+            .toBe(postingHistoryKey('Acme', 'Backend Engineer', 'Berlin'));
+        expect(postingHistoryKey('Acme', 'Backend Engineer', 'Berlin, Germany'))
+            .not.toBe(postingHistoryKey('Acme', 'Backend Engineer', 'Munich, Germany'));
+        expect(postingHistoryKey('Acme', 'Backend Engineer', 'Remote (EU)'))
+            .toBe(postingHistoryKey('Acme', 'Backend Engineer', 'Remote - Europe'));
+    });
+});
+
+describe('jobKeyForUrl', () => {
+    it('should use the job ID where the URL carries one', () => {
+        expect(jobKeyForUrl('https://www.linkedin.com/jobs/search/?currentJobId=3912345678&refId=abc')).toBe('3912345678');
+        expect(jobKeyForUrl('https://www.linkedin.com/jobs/view/backend-engineer-at-acme-3912345678/?trk=feed')).toBe('3912345678');
+        expect(jobKeyForUrl('https://de.indeed.com/jobs?q=python&vjk=a1b2c3')).toBe('a1b2c3');
+        expect(jobKeyForUrl('https://hh.ru/vacancy/98765432?from=main')).toBe('98765432');
+    });
+
+    it('should drop tracking parameters and hashes from other URLs', () => {
+        const key = jobKeyForUrl('https://jobs.lever.co/acme/4f1c2d3e-aaaa-bbbb');
+        expect(jobKeyForUrl('https://jobs.lever.co/acme/4f1c2d3e-aaaa-bbbb/?lever-source=LinkedIn')).toBe(key);
+        expect(jobKeyForUrl('https://jobs.lever.co/acme/4f1c2d3e-aaaa-bbbb?utm_source=x&utm_medium=y#apply')).toBe(key);
+        expect(jobKeyForUrl('https://jobs.lever.co/acme/5e2d1c0b-cccc-dddd')).not.toBe(key);
+    });
+});
+
+describe('recordSighting', () => {
+    it('should collect job keys, exact posting days and visit times', () => {
+        const entry = history(
+            sighting({ seenAt: '2024-05-01T09:00:00.000Z', datePosted: '2024-04-30T08:00:00Z' }),
+            sighting({ jobKey: 'linkedin:222', datePosted: '2024-05-15' }),
+            sighting({ jobKey: 'linkedin:222', datePosted: '2024-05-15' }),
+        );
+
+        expect(entry).toEqual({
+            company: 'Acme Inc.',
+            title: 'Senior Backend Engineer (m/w/d)',
+            jobKeys: ['linkedin:111', 'linkedin:222'],
+            postedDates: ['2024-04-30', '2024-05-15'],
+            platformPostedDates: { linkedin: ['2024-04-30', '2024-05-15'] },
+            firstSeenAt: '2024-05-01T09:00:00.000Z',
+            lastSeenAt: NOW.toISOString(),
+            visits: 3,
+        });
+    });
+
+    it('should not keep approximate dates, which drift between visits', () => {
+        const entry = history(
+            sighting({ datePosted: '2024-05-18', datePostedConfidence: 'approximate' }),
+            sighting({ datePosted: '2024-05-20', datePostedConfidence: 'approximate' }),
+        );
+        expect(entry.postedDates).toEqual([]);
+    });
+});
+
+describe('assessGhostJob', () => {
+    it('should treat a fresh, first-time posting as unlikely', () => {
+        expect(assessGhostJob(FRESH, history(sighting()), NOW)).toEqual({ score: 0, likelihood: 'low', reasons: [] });
+    });
+
+    it('should score long-open roles by posting age', () => {
+        const assessment = assessGhostJob({ ...FRESH, jobAge: 95 }, undefined, NOW);
+        expect(assessment).toMatchObject({ score: 45, likelihood: 'medium', reasons: ['Posted 95 days ago'] });
+    });
+
+    it('should use our own history when it goes back further than the board says', () => {
+        const entry = history(sighting({ seenAt: '2024-03-01T12:00:00.000Z' }), sighting());
+        expect(assessGhostJob(FRESH, entry, NOW).reasons).toContain('First seen 92 days ago and still open');
+    });
+
+    it('should flag a role reposted every two weeks as likely ghost', () => {
+        const entry = history(
+            sighting({ jobKey: 'linkedin:1', datePosted: '2024-04-20', seenAt: '2024-04-21T10:00:00.000Z' }),
+            sighting({ jobKey: 'linkedin:2', datePosted: '2024-05-04', seenAt: '2024-05-05T10:00:00.000Z' }),
+            sighting({ jobKey: 'linkedin:3', datePosted: '2024-05-18', seenAt: '2024-05-19T10:00:00.000Z' }),
+        );
+        const assessment = assessGhostJob(FRESH, entry, NOW);
+
+        expect(assessment.likelihood).toBe('high');
+        expect(assessment.reasons).toEqual([
+            'First posted 42 days ago and still open',
+            'Reposted 2 times since 2024-04-20',
+            'Reposted about every 14 days',
+        ]);
+    });
+
+    it('should not count the same posting opened through a tracking link as a repost', () => {
+        const entry = history(
+            sighting({ jobKey: `lever:${jobKeyForUrl('https://jobs.lever.co/acme/4f1c2d3e')}`, datePosted: null }),
+            sighting({ jobKey: `lever:${jobKeyForUrl('https://jobs.lever.co/acme/4f1c2d3e?lever-source=LinkedIn')}`, datePosted: null }),
+        );
+        expect(assessGhostJob(FRESH, entry, NOW)).toEqual({ score: 0, likelihood: 'low', reasons: [] });
+    });
+
+    it('should not count the same role listed on another platform as a repost', () => {
+        const entry = history(
+            sighting({ jobKey: 'linkedin:123', datePosted: '2024-05-28' }),
+            sighting({ jobKey: 'indeed:abc', datePosted: '2024-05-30' }),
+        );
+        expect(assessGhostJob(FRESH, entry, NOW).score).toBe(0);
+    });
+
+    it('should count a new job ID on the same platform as a repost', () => {
+        const entry = history(
+            sighting({ jobKey: 'linkedin:123', datePosted: '2024-05-10' }),
+            sighting({ jobKey: 'indeed:abc', datePosted: '2024-05-12' }),
+            sighting({ jobKey: 'linkedin:456', datePosted: '2024-05-10' }),
+        );
+        const assessment = assessGhostJob(FRESH, entry, NOW);
+        expect(assessment.score).toBe(20);
+        expect(assessment.reasons).toEqual(['Reposted 1 time since 2024-05-10']);
+    });
+
+    it('should count a refreshed posting date under the same job ID as a repost', () => {
+        const entry = history(
+            sighting({ jobKey: 'linkedin:123', datePosted: '2024-05-10' }),
+            sighting({ jobKey: 'linkedin:123', datePosted: '2024-05-24' }),
+        );
+        expect(assessGhostJob(FRESH, entry, NOW).reasons).toEqual(['Reposted 1 time since 2024-05-10']);
+    });
+
+    it('should notice an expired listing that is still up', () => {
+        const assessment = assessGhostJob({ ...FRESH, jobAge: 40, validThrough: '2024-05-15' }, undefined, NOW);
+        expect(assessment).toMatchObject({ score: 40, likelihood: 'medium' });
+        expect(assessment.reasons).toContain('Listing expired on 2024-05-15 but is still up');
+    });
+
+    it('should not count a future deadline as expired', () => {
+        expect(assessGhostJob({ ...FRESH, validThrough: '2024-07-01' }, undefined, NOW).score).toBe(0);
+    });
+});
@@ -0,0 +1,248 @@
+import type {
+    DateConfidence,
+    GhostJobAssessment,
+    GhostJobLikelihood,
+    JobData,
+    PostingHistoryEntry,
+} from '@job-bodyguard/types';
+import { daysSince } from './dates';
+
+/**
+ * Ghost-job detection: roles that stay open for months or get reposted every
+ * couple of weeks are often not being filled. The content script keeps a
+ * posting history across visits (chrome.storage); this module turns a
+ * history entry plus the current page into a likelihood with reasons.
+ */
+
+export interface PostingSighting {
+    /** Platform and job key (see jobKeyForUrl), e.g. "linkedin:3912345678" */
+    jobKey: string;
+    datePosted: string | null;
+    datePostedConfidence?: DateConfidence | null;
+    seenAt: string;
+}
+
+// Score weights (0-100 overall)
+const OPEN_90_DAYS = 45;
+const OPEN_60_DAYS = 35;
+const OPEN_30_DAYS = 20;
+const PER_REPOST = 20;
+const MAX_REPOST_SCORE = 40;
+const FREQUENT_REPOSTS = 15;
+const EXPIRED_LISTING = 20;
+
+// Job ID in the query: Indeed split pane (vjk) and job page (jk), Glassdoor (jl),
+// LinkedIn search (currentJobId), Greenhouse embeds on company sites (gh_jid)
+const JOB_ID_PARAMS = ['vjk', 'jk', 'jl', 'currentJobId', 'gh_jid'];
+// Job ID in the path: LinkedIn /jobs/view/slug-123, hh.ru /vacancy/123
+const JOB_ID_PATHS = [/\/jobs\/view\/(?:[^/]*-)?(\d+)/, /\/vacancy\/(\d+)/];
+
+const FREQUENT_REPOST_DAYS = 21;
+const HIGH_LIKELIHOOD = 60;
+const MEDIUM_LIKELIHOOD = 30;
+
+// "(m/w/d)", "(f/m/x)", "(all genders)" — German and Austrian boards add these to titles
+const GENDER_MARKERS = /\((?:[mwfdx]\s*[/|,]\s*){1,3}[mwfdx]\)|\(all\s+genders?\)/gi;
+const REMOTE_PATTERN = /\bremote\b|удал[её]нн/i;
+const COMPANY_SUFFIXES = new Set([
+    'inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'gmbh', 'ag', 'plc', 'bv', 'sa',
+    'ооо', 'ао', 'пао', 'зао',
+]);
+
+export function normalizeJobTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(GENDER_MARKERS, ' ')
+        .split(/[^\p{L}\p{N}+#]+/u)
+        .filter(Boolean)
+        .join(' ');
+}
+
+export function normalizeCompanyName(company: string): string {
+    return company
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}&]+/u)
+        .filter(word => word && !COMPANY_SUFFIXES.has(word))
+        .join(' ');
+}
+
+/** "Berlin, Germany" → "berlin"; every remote role is "remote" */
+export function normalizeJobLocation(location: string): string {
+    if (REMOTE_PATTERN.test(location)) return 'remote';
+    return location
+        .toLowerCase()
+        .split(/[,/|(·•]/)[0]
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .join(' ');
+}
+
+/**
+ * History key for a role: the same company, title and city under any job ID.
+ * The city keeps apart same-title roles a company hires for in several
+ * offices. Null when the page didn't give us company and title.
+ */
+export function postingHistoryKey(company: string, title: string, location = ''): string | null {
+    const normalizedCompany = normalizeCompanyName(company);
+    const normalizedTitle = normalizeJobTitle(title);
+    if (!normalizedCompany || !normalizedTitle) return null;
+    const place = normalizeJobLocation(location);
+    return place ? `${normalizedCompany}|${normalizedTitle}|${place}` : `${normalizedCompany}|${normalizedTitle}`;
+}
+
+/**
+ * The job a URL points at: the board's job ID where the URL carries one,
+ * else host and path. Query strings and hashes are dropped, since they hold
+ * tracking (?lever-source=LinkedIn, utm_*) and UI state, not the job.
+ */
+export function jobKeyForUrl(url: string): string {
+    try {
+        const u = new URL(url);
+        for (const param of JOB_ID_PARAMS) {
+            const id = u.searchParams.get(param);
+            if (id) return id;
+        }
+        for (const pattern of JOB_ID_PATHS) {
+            const id = u.pathname.match(pattern)?.[1];
+            if (id) return id;
+        }
+        return `${u.hostname.replace(/^www\./, '')}${u.pathname.replace(/\/+$/, '')}`;
+    } catch {
+        return url;
+    }
+}
+
+function platformOf(jobKey: string): string {
+    return jobKey.slice(0, jobKey.indexOf(':'));
+}
+
+/**
+ * Fold one visit into a history entry. Only day-exact posting dates are
+ * kept: "2 weeks ago" drifts from visit to visit and would look like a repost.
+ */
+export function recordSighting(
+    entry: PostingHistoryEntry | undefined,
+    job: Pick<JobData, 'company' | 'title'>,
+    sighting: PostingSighting,
+): PostingHistoryEntry {
+    const postedDay = sighting.datePosted && (sighting.datePostedConfidence ?? 'exact') === 'exact'
+        ? sighting.datePosted.slice(0, 10)
+        : null;
+
+    const jobKeys = entry?.jobKeys ?? [];
+    const platform = platformOf(sighting.jobKey);
+    const addDay = (days: string[]) => postedDay && !days.includes(postedDay) ? [...days, postedDay].sort() : days;
+
+    return {
+        company: entry?.company ?? job.company,
+        title: entry?.title ?? job.title,
+        jobKeys: jobKeys.includes(sighting.jobKey) ? jobKeys : [...jobKeys, sighting.jobKey],
+        postedDates: addDay(entry?.postedDates ?? []),
+        platformPostedDates: {
+            ...entry?.platformPostedDates,
+            [platform]: addDay(entry?.platformPostedDates?.[platform] ?? []),
+        },
+        firstSeenAt: entry && entry.firstSeenAt < sighting.seenAt ? entry.firstSeenAt : sighting.seenAt,
+        lastSeenAt: entry && entry.lastSeenAt > sighting.seenAt ? entry.lastSeenAt : sighting.seenAt,
+        visits: (entry?.visits ?? 0) + 1,
+    };
+}
+
+function likelihoodFor(score: number): GhostJobLikelihood {
+    if (score >= HIGH_LIKELIHOOD) return 'high';
+    if (score >= MEDIUM_LIKELIHOOD) return 'medium';
+    return 'low';
+}
+
+/**
+ * Reposts on the platform that shows the most: each new job ID or new
+ * posting date after the first. Platforms are counted apart, because the
+ * same role listed on LinkedIn and on Indeed is one posting, not a repost.
+ */
+function repostHistory(entry: PostingHistoryEntry): { reposts: number; postedDates: string[] } {
+    const platforms = new Set([...entry.jobKeys.map(platformOf), ...Object.keys(entry.platformPostedDates ?? {})]);
+    let busiest = { reposts: 0, postedDates: [] as string[] };
+    for (const platform of platforms) {
+        const jobIds = entry.jobKeys.filter(key => platformOf(key) === platform).length;
+        const postedDates = entry.platformPostedDates?.[platform] ?? [];
+        const reposts = Math.max(jobIds, postedDates.length) - 1;
+        if (reposts > busiest.reposts) busiest = { reposts, postedDates };
+    }
+    return busiest;
+}
+
+/**
+ * How long the role has been open, and how we know: the board's own posting
+ * age, or our history (earliest posting date / first visit)
+ */
+function openDuration(
+    job: Pick<JobData, 'jobAge' | 'datePostedConfidence'>,
+    entry: PostingHistoryEntry | undefined,
+    now: Date,
+): { days: number; reason: string } | null {
+    const firstPosted = entry?.postedDates[0] ? daysSince(entry.postedDates[0], now) ?? 0 : 0;
+    const firstSeen = entry ? daysSince(entry.firstSeenAt, now) ?? 0 : 0;
+    const tracked = Math.max(firstPosted, firstSeen);
+    const posted = job.jobAge ?? 0;
+    if (Math.max(tracked, posted) <= 0) return null;
+
+    if (tracked > posted) {
+        return {
+            days: tracked,
+            reason: firstPosted >= firstSeen
+                ? `First posted ${tracked} days ago and still open`
+                : `First seen ${tracked} days ago and still open`,
+        };
+    }
+    return {
+        days: posted,
+        reason: job.datePostedConfidence === 'minimum'
+            ? `Posted ${posted}+ days ago`
+            : `Posted ${posted} days ago`,
+    };
+}
+
+/**
+ * Score a posting from its age, deadline and history entry
+ */
+export function assessGhostJob(
+    job: Pick<JobData, 'jobAge' | 'datePostedConfidence' | 'validThrough'>,
+    entry: PostingHistoryEntry | undefined,
+    now: Date = new Date(),
+): GhostJobAssessment {
+    let score = 0;
+    const reasons: string[] = [];
+
+    const open = openDuration(job, entry, now);
+    const openDays = open?.days ?? 0;
+    const openScore = openDays >= 90 ? OPEN_90_DAYS : openDays >= 60 ? OPEN_60_DAYS : openDays >= 30 ? OPEN_30_DAYS : 0;
+    if (open && openScore > 0) {
+        score += openScore;
+        reasons.push(open.reason);
+    }
+
+    const { reposts, postedDates: dates } = entry ? repostHistory(entry) : { reposts: 0, postedDates: [] };
+    if (entry && reposts > 0) {
+        const since = dates[0] ?? entry.firstSeenAt.slice(0, 10);
+        score += Math.min(reposts * PER_REPOST, MAX_REPOST_SCORE);
+        reasons.push(`Reposted ${reposts} time${reposts === 1 ? '' : 's'} since ${since}`);
+
+        if (reposts >= 2 && dates.length >= 3) {
+            const span = daysSince(dates[0], new Date(dates[dates.length - 1])) ?? 0;
+            const cadence = Math.round(span / (dates.length - 1));
+            if (cadence <= FREQUENT_REPOST_DAYS) {
+                score += FREQUENT_REPOSTS;
+                reasons.push(`Reposted about every ${cadence} days`);
+            }
+        }
+    }
+
+    const expiredFor = job.validThrough ? daysSince(job.validThrough, now) : null;
+    if (expiredFor != null && expiredFor > 0) {
+        score += EXPIRED_LISTING;
+        reasons.push(`Listing expired on ${job.validThrough!.slice(0, 10)} but is still up`);
+    }
+
+    score = Math.min(score, 100);
+    return { score, likelihood: likelihoodFor(score), reasons };
+}
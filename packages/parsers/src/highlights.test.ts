@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import type { Flag } from '@job-bodyguard/types';
+import { FLAG_HIGHLIGHT_ATTR, highlightFlags, removeFlagHighlights } from './highlights';
+import type { FlagKind } from './highlights';
+import { FlagAnalyzer } from './FlagAnalyzer';
+
+function description(html: string): Element {
+    const doc = new JSDOM(`<div id="description">${html}</div>`).window.document;
+    return doc.getElementById('description')!;
+}
+
+function flag(overrides: Partial<Flag>): Flag {
+    return { keyword: 'Fast-paced', context: '', severity: 'medium', category: 'workload', ...overrides };
+}
+
+function marker(root: Element) {
+    return (_flag: Flag, kind: FlagKind) => {
+        const mark = root.ownerDocument.createElement('mark');
+        mark.className = `flag--${kind}`;
+        return mark;
+    };
+}
+
+describe('highlightFlags', () => {
+    it('marks the phrase inside its context sentence', () => {
+        const root = description('<p>Fast paced team.</p><p>We work in a fast paced environment and love it.</p>');
+
+        const [highlight] = highlightFlags(
+            root,
+            [{ flag: flag({ match: 'fast paced', context: 'We work in a fast paced environment and love it' }), kind: 'red' }],
+            marker(root),
+        );
+
+        expect(highlight.marks).toHaveLength(1);
+        expect(highlight.marks[0].textContent).toBe('fast paced');
+        expect(highlight.marks[0].closest('p')!.textContent).toContain('We work in');
+        expect(highlight.marks[0].getAttribute(FLAG_HIGHLIGHT_ATTR)).toBe('Fast-paced');
+    });
+
+    it('splits a phrase across elements into one mark per text node', () => {
+        const root = description('<p>A fast-<b>paced</b>   environment.</p>');
+
+        const [highlight] = highlightFlags(root, [{ flag: flag({ match: 'fast-paced  environment' }), kind: 'red' }], marker(root));
+        expect(highlight.marks.map((mark) => mark.textContent)).toEqual(['fast-', 'paced', '   environment']);
+    });
+
+    it('skips flags without a phrase on the page', () => {
+        const root = description('<p>Competitive salary.</p>');
+
+        expect(highlightFlags(root, [
+            { flag: flag({ keyword: 'Low employer rating' }), kind: 'red' },
+            { flag: flag({ match: 'unlimited PTO' }), kind: 'green' },
+        ], marker(root))).toEqual([]);
+    });
+
+    it('marks what the analyzer found and unwraps it again', () => {
+        const html = '<ul><li>We are like a family here.</li><li>Flexible working hours and a 4-day week.</li></ul>';
+        const root = description(html);
+
+        const { redFlags, greenFlags } = new FlagAnalyzer().analyze(root.innerHTML);
+        const highlights = highlightFlags(root, [
+            ...redFlags.map((f) => ({ flag: f, kind: 'red' as const })),
+            ...greenFlags.map((f) => ({ flag: f, kind: 'green' as const })),
+        ], marker(root));
+
+        expect(highlights.length).toBe(redFlags.length + greenFlags.length);
+        expect(root.querySelectorAll('mark.flag--red').length).toBeGreaterThan(0);
+
+        removeFlagHighlights(root);
+        expect(root.innerHTML).toBe(html);
+    });
+});
@@ -0,0 +1,129 @@
+import type { Flag } from '@job-bodyguard/types';
+
+/**
+ * Highlights of flagged phrases in the host page's description. Each flag's
+ * phrase (`Flag.match`) is looked for in its context sentence first, so a
+ * phrase that appears twice is marked where the analyzer found it. Phrases
+ * split across elements ("fast-<b>paced</b>") get one mark per text node.
+ */
+
+export type FlagKind = 'red' | 'green';
+
+export interface FlagHighlight {
+    flag: Flag;
+    kind: FlagKind;
+    marks: HTMLElement[];
+}
+
+/** Set on every mark; the value is the flag's label */
+export const FLAG_HIGHLIGHT_ATTR = 'data-jbg-flag';
+
+const SKIPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA', 'INPUT', 'SELECT']);
+
+// The start of the context sentence is enough to find it again
+const CONTEXT_PREFIX_LENGTH = 60;
+
+interface TextSpan {
+    node: Text;
+    start: number;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Case-insensitive, any run of whitespace matching any other */
+function looseRegExp(text: string): RegExp | null {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    return words.length > 0 ? new RegExp(words.map(escapeRegExp).join('\\s+'), 'iu') : null;
+}
+
+function textSpans(root: Element): { text: string; spans: TextSpan[] } {
+    const doc = root.ownerDocument;
+    const walker = doc.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */, {
+        acceptNode: (node) => {
+            for (let el = node.parentElement; el && el !== root; el = el.parentElement) {
+                if (SKIPPED_ELEMENTS.has(el.tagName) || el.hasAttribute(FLAG_HIGHLIGHT_ATTR)) return 2; // FILTER_REJECT
+            }
+            return 1; // FILTER_ACCEPT
+        },
+    });
+
+    const spans: TextSpan[] = [];
+    let text = '';
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        spans.push({ node: node as Text, start: text.length });
+        text += node.nodeValue ?? '';
+    }
+    return { text, spans };
+}
+
+/** [start, end) of the phrase in the text, inside the context sentence when it can be found */
+function locate(text: string, phrase: string, context: string): [number, number] | null {
+    const pattern = looseRegExp(phrase);
+    if (!pattern) return null;
+
+    const contextPattern = looseRegExp(context.slice(0, CONTEXT_PREFIX_LENGTH));
+    const contextStart = contextPattern ? text.search(contextPattern) : -1;
+    for (const from of contextStart >= 0 ? [contextStart, 0] : [0]) {
+        const match = pattern.exec(text.slice(from));
+        if (match) return [from + match.index, from + match.index + match[0].length];
+    }
+    return null;
+}
+
+function wrap(spans: TextSpan[], start: number, end: number, createMark: () => HTMLElement): HTMLElement[] {
+    const marks: HTMLElement[] = [];
+    for (const { node, start: nodeStart } of spans) {
+        const length = node.nodeValue?.length ?? 0;
+        const from = Math.max(start, nodeStart) - nodeStart;
+        const to = Math.min(end, nodeStart + length) - nodeStart;
+        if (from >= to || !/\S/.test(node.nodeValue!.slice(from, to))) continue;
+
+        const target = from > 0 ? node.splitText(from) : node;
+        if (to - from < target.length) target.splitText(to - from);
+        const mark = createMark();
+        target.parentNode!.replaceChild(mark, target);
+        mark.appendChild(target);
+        marks.push(mark);
+    }
+    return marks;
+}
+
+/**
+ * Mark every flag's phrase inside `root`. Flags without a phrase (employer
+ * rating, salary floor) or whose phrase isn't on the page are left out.
+ */
+export function highlightFlags(
+    root: Element,
+    flags: { flag: Flag; kind: FlagKind }[],
+    createMark: (flag: Flag, kind: FlagKind) => HTMLElement,
+): FlagHighlight[] {
+    const highlights: FlagHighlight[] = [];
+    for (const { flag, kind } of flags) {
+        const phrase = flag.match ?? '';
+        // Re-read the text each time: earlier marks split its nodes
+        const { text, spans } = textSpans(root);
+        const range = phrase ? locate(text, phrase, flag.context) : null;
+        if (!range) continue;
+
+        const marks = wrap(spans, range[0], range[1], () => {
+            const mark = createMark(flag, kind);
+            mark.setAttribute(FLAG_HIGHLIGHT_ATTR, flag.keyword);
+            return mark;
+        });
+        if (marks.length > 0) highlights.push({ flag, kind, marks });
+    }
+    return highlights;
+}
+
+/** Unwrap every mark under `root`, leaving the page's text as it was */
+export function removeFlagHighlights(root: ParentNode): void {
+    for (const mark of root.querySelectorAll(`[${FLAG_HIGHLIGHT_ATTR}]`)) {
+        const parent = mark.parentNode;
+        if (!parent) continue;
+        while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+        parent.removeChild(mark);
+        parent.normalize();
+    }
+}
@@ -3,15 +3,125 @@ export { BaseParser } from './BaseParser';
 export { LinkedInParser } from './LinkedInParser';
 export { IndeedParser } from './IndeedParser';
 export { HHParser } from './HHParser';
+export { GlassdoorParser } from './GlassdoorParser';
+export { GreenhouseParser } from './GreenhouseParser';
+export { LeverParser } from './LeverParser';
+export { SchemaOrgParser } from './SchemaOrgParser';
 export { FlagAnalyzer } from './FlagAnalyzer';
+export type { FlagAnalyzerOptions } from './FlagAnalyzer';
+export { FLAG_PACKS, EN_FLAG_PACK, RU_FLAG_PACK } from './flagPacks';
+export type { FlagPack, FlagPattern } from './flagPacks';
+export { detectLanguage, detectLanguages } from './language';
+
+// User-defined flag rules
+export {
+    parseFlagRules,
+    validateFlagRule,
+    compileFlagRule,
+    mergeFlagRuleSets,
+    listBuiltInFlagRules,
+    applyFlagRules,
+} from './flagRules';
+export type { BuiltInFlagRule } from './flagRules';
+
+// Selector config
+export {
+    DEFAULT_SELECTOR_CONFIG,
+    getSelectors,
+    getSelectorOverrides,
+    setSelectorOverrides,
+    parseSelectorConfig,
+} from './selectorConfig';
+export type { SelectorConfig, FieldSelectors } from './selectorConfig';
+
+// Salary parsing
+export {
+    parseSalaryText,
+    parseMonetaryAmount,
+    looksLikeSalary,
+    normalizeCurrency,
+    mapSalaryPeriod,
+    SALARY_RANGE_PATTERN,
+} from './salary';
+export type { SalaryPeriod, SalaryDefaults } from './salary';
+
+// Posting dates
+export { parsePostedText, daysSince } from './dates';
+export type { PostedDate } from './dates';
+
+// Ghost jobs / posting history
+export {
+    assessGhostJob,
+    recordSighting,
+    postingHistoryKey,
+    jobKeyForUrl,
+    normalizeJobTitle,
+    normalizeCompanyName,
+    normalizeJobLocation,
+} from './ghostJobs';
+export type { PostingSighting } from './ghostJobs';
+
+// Local toxicity score
+export { scoreToxicity } from './toxicity';
+
+// Description sections and skills
+export { splitSections } from './sections';
+export { extractSkills, SKILL_TAXONOMY } from './skills';
+export type { SkillDefinition, SkillTaxonomy } from './skills';
+export { structureDescription } from './requirements';
+
+// Seniority, employment type, work mode, visa sponsorship
+export { classifyJob, parseEmploymentType, parseWorkMode, parseVisaSponsorship, workModeFromJsonLd } from './classification';
+
+// Offline resume match
+export { parseResume, parseExperience, experienceYears } from './resume';
+export { titleSeniority, yearsSeniority, requiredYears, jobRequiredYears } from './seniority';
+export { matchResume } from './match';
+
+// Cross-platform duplicates
+export {
+    findDuplicateJob,
+    mergeJobData,
+    jobSimilarity,
+    titleSimilarity,
+    companiesMatch,
+    locationSimilarity,
+    descriptionShingles,
+} from './duplicates';
+export type { DuplicateMatch, MatchableJob, MergeOptions } from './duplicates';
+
+// Blocked and favourite companies, search result cards
+export { companyListStatus, listedCompanyMatches, setCompanyListStatus } from './companyLists';
+export { INJECTED_NODE_ATTR, findSearchResultCards, searchCardJobData } from './searchResults';
+export type { SearchResultCard } from './searchResults';
+
+// Flagged phrases highlighted on the page
+export { FLAG_HIGHLIGHT_ATTR, highlightFlags, removeFlagHighlights } from './highlights';
+export type { FlagHighlight, FlagKind } from './highlights';
+
+// AI replies read while they stream in
+export { parsePartialJson } from './partialJson';
 
 // Factory function to get the right parser for a URL
 import { LinkedInParser } from './LinkedInParser';
 import { IndeedParser } from './IndeedParser';
 import { HHParser } from './HHParser';
+import { GlassdoorParser } from './GlassdoorParser';
+import { GreenhouseParser } from './GreenhouseParser';
+import { LeverParser } from './LeverParser';
+import { SchemaOrgParser } from './SchemaOrgParser';
 import { BaseParser } from './BaseParser';
 
-const parsers = [new LinkedInParser(), new IndeedParser(), new HHParser()];
+// Order matters: the generic JSON-LD parser matches any URL, so it goes last
+const parsers = [
+    new LinkedInParser(),
+    new IndeedParser(),
+    new HHParser(),
+    new GlassdoorParser(),
+    new GreenhouseParser(),
+    new LeverParser(),
+    new SchemaOrgParser(),
+];
 
 /**
  * Get the appropriate parser for a given URL
@@ -26,8 +136,8 @@ export function getParserForUrl(url: string): BaseParser | null {
 }
 
 /**
- * Check if we support parsing for a given URL
+ * Check if a dedicated (non-fallback) parser supports a given URL
  */
 export function isSupportedUrl(url: string): boolean {
-    return parsers.some((parser) => parser.matchesUrl(url));
+    return parsers.some((parser) => !(parser instanceof SchemaOrgParser) && parser.matchesUrl(url));
 }
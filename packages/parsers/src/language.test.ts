@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, detectLanguages } from './language';
+
+describe('detectLanguage', () => {
+    it('should tell Russian and English descriptions apart', () => {
+        expect(detectLanguage('<p>Мы ищем backend-разработчика в дружную команду.</p>')).toBe('ru');
+        expect(detectLanguage('<p>We are hiring a backend engineer.</p>')).toBe('en');
+        expect(detectLanguage('<p>123 — 456</p>')).toBeNull();
+    });
+
+    it('should ignore markup and a few foreign words', () => {
+        expect(detectLanguages('<div class="vacancy-description">Разработка сервисов на Go, PostgreSQL и Kafka. Стрессоустойчивость.</div>'))
+            .toEqual(['ru']);
+    });
+
+    it('should list both languages of a bilingual posting, dominant first', () => {
+        expect(detectLanguages('Senior Engineer. We offer remote work and equity. Требования: опыт от 3 лет, английский.'))
+            .toEqual(['en', 'ru']);
+    });
+});
@@ -0,0 +1,39 @@
+import type { JobLanguage } from '@job-bodyguard/types';
+
+/**
+ * Description language from its script. Job boards mix languages freely —
+ * Russian vacancies name their stack in English, English ones quote a
+ * Cyrillic company name — so a language only counts once it makes up a
+ * real share of the letters.
+ */
+
+// Share of letters a script needs before its language pack runs
+const MIN_SHARE = 0.3;
+
+const SCRIPTS: [JobLanguage, RegExp][] = [
+    ['ru', /[а-яё]/gi],
+    ['en', /[a-z]/gi],
+];
+
+/**
+ * Languages with a meaningful share of the text, dominant first.
+ * Empty when the text has no letters.
+ */
+export function detectLanguages(text: string): JobLanguage[] {
+    const plain = text.replace(/<[^>]*>/g, ' ');
+    const counts = SCRIPTS.map(([language, letters]) => [language, plain.match(letters)?.length ?? 0] as const);
+    const total = counts.reduce((sum, [, count]) => sum + count, 0);
+    if (total === 0) return [];
+
+    return counts
+        .filter(([, count]) => count / total >= MIN_SHARE)
+        .sort((a, b) => b[1] - a[1])
+        .map(([language]) => language);
+}
+
+/**
+ * The dominant language, or null when the text has no letters
+ */
+export function detectLanguage(text: string): JobLanguage | null {
+    return detectLanguages(text)[0] ?? null;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { JobData, ResumeData } from '@job-bodyguard/types';
+import { matchResume } from './match';
+import { structureDescription } from './requirements';
+import { requiredYears, titleSeniority } from './seniority';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+function job(title: string, description: string): Pick<JobData, 'title' | 'description' | 'requirements' | 'sections' | 'skills'> {
+    return { title, description, ...structureDescription({ description, requirements: [] }) };
+}
+
+function resume(skills: string[], experience: ResumeData['experience'] = []): ResumeData {
+    return { text: '', skills, summary: null, experience, updatedAt: NOW.toISOString() };
+}
+
+const BACKEND_JOB = job('Senior Backend Engineer', [
+    'Requirements:',
+    '• 5+ years of backend development',
+    '• Python and PostgreSQL',
+    '• Docker',
+    'Nice to have:',
+    '• Kubernetes',
+].join('\n'));
+
+const SENIOR_CAREER: ResumeData['experience'] = [
+    { title: 'Senior Engineer', company: 'Acme', startDate: '2019-01', endDate: null, bullets: [] },
+];
+
+describe('titleSeniority', () => {
+    it.each<[string, string | null]>([
+        ['Senior Team Lead', 'lead'],
+        ['Staff Software Engineer', 'principal'],
+        ['Sr. Data Engineer', 'senior'],
+        ['Junior QA', 'junior'],
+        ['Software Engineering Intern', 'intern'],
+        ['Ведущий разработчик', 'lead'],
+        ['Старший аналитик', 'senior'],
+        ['Backend Engineer', null],
+    ])('should read %j', (title, expected) => {
+        expect(titleSeniority(title)).toBe(expected);
+    });
+});
+
+describe('requiredYears', () => {
+    it('should take the largest minimum', () => {
+        expect(requiredYears(['3-5 years of Go', '2+ years of AWS'])).toBe(3);
+        expect(requiredYears(['Опыт работы от 3 лет', 'не менее 1 года с Kafka'])).toBe(3);
+        expect(requiredYears(['Strong SQL'])).toBeNull();
+    });
+});
+
+describe('matchResume', () => {
+    it('should score a resume that covers everything at 100', () => {
+        const match = matchResume(resume(['Python', 'PostgreSQL', 'Docker', 'Kubernetes'], SENIOR_CAREER), BACKEND_JOB, NOW);
+
+        expect(match).toMatchObject({
+            score: 100,
+            mustHave: { matched: ['Python', 'PostgreSQL', 'Docker'], missing: [] },
+            niceToHave: { matched: ['Kubernetes'], missing: [] },
+            requiredYears: 5,
+            resumeYears: 6.5,
+            jobSeniority: 'senior',
+            resumeSeniority: 'senior',
+        });
+    });
+
+    it('should list missing skills and lower the score for a shorter career', () => {
+        const career: ResumeData['experience'] = [
+            { title: 'Developer', company: 'Globex', startDate: '2024-01', endDate: null, bullets: [] },
+        ];
+        const match = matchResume(resume(['Python'], career), BACKEND_JOB, NOW)!;
+
+        expect(match.mustHave.missing).toEqual(['PostgreSQL', 'Docker']);
+        expect(match.niceToHave.missing).toEqual(['Kubernetes']);
+        expect(match.resumeSeniority).toBe('junior');
+        expect(match.score).toBeLessThan(40);
+    });
+
+    it('should leave out what the resume says nothing about', () => {
+        // No experience entries: years and seniority don't count against the resume
+        const match = matchResume(resume(['Python', 'PostgreSQL', 'Docker']), BACKEND_JOB, NOW)!;
+
+        expect(match.score).toBe(85);
+    });
+
+    it('should return null for an empty resume', () => {
+        expect(matchResume(resume([]), BACKEND_JOB, NOW)).toBeNull();
+    });
+});
@@ -0,0 +1,78 @@
+import { SENIORITY_LEVELS } from '@job-bodyguard/types';
+import type { ExperienceEntry, JobData, ResumeData, ResumeMatch, SkillCoverage } from '@job-bodyguard/types';
+import { experienceYears } from './resume';
+import { jobRequiredYears, titleSeniority, yearsSeniority } from './seniority';
+import { extractSkills } from './skills';
+
+/**
+ * Offline resume-to-job match: must-have and nice-to-have skill coverage,
+ * years of experience against what the posting asks for, and seniority.
+ * Parts the posting or the resume say nothing about are left out of the
+ * score rather than counted as misses.
+ */
+
+type MatchableJob = Pick<JobData, 'title' | 'description' | 'requirements' | 'sections' | 'skills' | 'seniority'>;
+
+const WEIGHTS = {
+    mustHave: 55,
+    niceToHave: 10,
+    years: 20,
+    seniority: 15,
+};
+
+// Fit by how many levels apart the job and the resume are
+const SENIORITY_FIT = [1, 0.5, 0];
+
+function coverage(skills: string[], resumeSkills: Set<string>): SkillCoverage {
+    return {
+        matched: skills.filter((skill) => resumeSkills.has(skill)),
+        missing: skills.filter((skill) => !resumeSkills.has(skill)),
+    };
+}
+
+/** Skills the posting requires and the ones it only would like */
+function jobSkills(job: MatchableJob): { mustHave: string[]; niceToHave: string[] } {
+    const mustHave = extractSkills([...(job.sections?.mustHave ?? []), ...job.requirements].join('\n'));
+    const niceToHave = extractSkills((job.sections?.niceToHave ?? []).join('\n')).filter((skill) => !mustHave.includes(skill));
+    if (mustHave.length > 0) return { mustHave, niceToHave };
+
+    // No requirement section with skills in it: every skill the description names counts
+    const all = job.skills ?? extractSkills(job.description);
+    return { mustHave: all.filter((skill) => !niceToHave.includes(skill)), niceToHave };
+}
+
+function latestEntry(experience: ExperienceEntry[]): ExperienceEntry | null {
+    const end = (entry: ExperienceEntry) => entry.endDate ?? '9999-12';
+    return [...experience].sort((a, b) => end(b).localeCompare(end(a)) || b.startDate.localeCompare(a.startDate))[0] ?? null;
+}
+
+/** Null when neither side has anything to compare (no skills, years or level) */
+export function matchResume(resume: ResumeData, job: MatchableJob, now: Date = new Date()): ResumeMatch | null {
+    if (resume.skills.length === 0 && resume.experience.length === 0) return null;
+
+    const resumeSkills = new Set(resume.skills);
+    const skills = jobSkills(job);
+    const mustHave = coverage(skills.mustHave, resumeSkills);
+    const niceToHave = coverage(skills.niceToHave, resumeSkills);
+
+    const required = jobRequiredYears(job);
+    const resumeYears = experienceYears(resume.experience, now);
+    const latest = latestEntry(resume.experience);
+    const jobSeniority = job.seniority ?? titleSeniority(job.title);
+    const resumeSeniority = (latest && titleSeniority(latest.title)) ?? yearsSeniority(resumeYears);
+
+    const parts: [number, number][] = [];
+    if (skills.mustHave.length > 0) parts.push([WEIGHTS.mustHave, mustHave.matched.length / skills.mustHave.length]);
+    if (skills.niceToHave.length > 0) parts.push([WEIGHTS.niceToHave, niceToHave.matched.length / skills.niceToHave.length]);
+    if (required !== null && resume.experience.length > 0) parts.push([WEIGHTS.years, Math.min(1, resumeYears / required)]);
+    if (jobSeniority && resumeSeniority) {
+        const distance = Math.abs(SENIORITY_LEVELS.indexOf(jobSeniority) - SENIORITY_LEVELS.indexOf(resumeSeniority));
+        parts.push([WEIGHTS.seniority, SENIORITY_FIT[Math.min(distance, SENIORITY_FIT.length - 1)]]);
+    }
+    if (parts.length === 0) return null;
+
+    const weight = parts.reduce((sum, [w]) => sum + w, 0);
+    const score = Math.round((100 * parts.reduce((sum, [w, fit]) => sum + w * fit, 0)) / weight);
+
+    return { score, mustHave, niceToHave, requiredYears: required, resumeYears, jobSeniority, resumeSeniority };
+}
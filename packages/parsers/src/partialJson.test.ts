@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+    it('keeps a string that is still arriving and closes the object', () => {
+        expect(parsePartialJson('{"roast": "Long hours, sm')).toEqual({ roast: 'Long hours, sm' });
+        expect(parsePartialJson('{"roast": "Say \\"family\\"\\n')).toEqual({ roast: 'Say "family"\n' });
+    });
+
+    it('waits for keys, numbers and literals to complete', () => {
+        expect(parsePartialJson('{"roast": "r", "toxicityScore": 7')).toEqual({ roast: 'r' });
+        expect(parsePartialJson('{"roast": "r", "toxicityScore": 70,')).toEqual({ roast: 'r', toxicityScore: 70 });
+        expect(parsePartialJson('{"roast": "r", "verd')).toEqual({ roast: 'r' });
+        expect(parsePartialJson('{"ok": tr')).toEqual({});
+        expect(parsePartialJson('{"ok": true, "none": null')).toEqual({ ok: true, none: null });
+    });
+
+    it('closes nested arrays and objects where the text stops', () => {
+        const text = '{"redFlags": [{"flag": "Unpaid overtime", "severity": "high"}, {"flag": "Rockst';
+        expect(parsePartialJson(text)).toEqual({
+            redFlags: [{ flag: 'Unpaid overtime', severity: 'high' }, { flag: 'Rockst' }],
+        });
+        expect(parsePartialJson('{"gapAnalysis": {"missingSkills": ["Go", "Kafka"], "suggestions": [')).toEqual({
+            gapAnalysis: { missingSkills: ['Go', 'Kafka'], suggestions: [] },
+        });
+    });
+
+    it('skips a markdown fence and reads complete JSON as usual', () => {
+        expect(parsePartialJson('```json\n{"verdict": "apply", "scores": [1, 2.5, -3e2]}\n```')).toEqual({
+            verdict: 'apply',
+            scores: [1, 2.5, -300],
+        });
+        expect(parsePartialJson('Thinking...')).toBeNull();
+    });
+});
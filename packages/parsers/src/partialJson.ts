@@ -0,0 +1,152 @@
+/**
+ * JSON that is still arriving, as an AI reply streams in:
+ * `{"roast": "Long hours, sm` reads as `{ roast: 'Long hours, sm' }`.
+ * Strings are kept as far as they have arrived; keys, numbers and
+ * true/false/null only once complete, since "7" may still become "70".
+ * Open objects and arrays are closed where the text stops. Anything before
+ * the first `{` (a markdown fence, "Here is the JSON:") is skipped.
+ */
+
+// Returned for a value that has not fully arrived and can't be shown yet
+const INCOMPLETE = Symbol('incomplete');
+
+type Parsed = unknown | typeof INCOMPLETE;
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+const LITERALS: [string, unknown][] = [['true', true], ['false', false], ['null', null]];
+
+export function parsePartialJson(text: string): unknown {
+    let pos = text.indexOf('{');
+    if (pos < 0) return null;
+    // Set at the end of the text, or at text that isn't JSON: everything open is closed from there
+    let stopped = false;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+        if (pos >= text.length) stopped = true;
+    };
+
+    const parseString = (): { value: string; complete: boolean } => {
+        let value = '';
+        pos++; // opening quote
+        while (pos < text.length) {
+            const char = text[pos];
+            if (char === '"') {
+                pos++;
+                return { value, complete: true };
+            }
+            if (char === '\\') {
+                const next = text[pos + 1];
+                if (next === undefined) break;
+                if (next === 'u') {
+                    const hex = text.slice(pos + 2, pos + 6);
+                    if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+                    value += String.fromCharCode(parseInt(hex, 16));
+                    pos += 6;
+                } else {
+                    value += ESCAPES[next] ?? next;
+                    pos += 2;
+                }
+                continue;
+            }
+            value += char;
+            pos++;
+        }
+        stopped = true;
+        return { value, complete: false };
+    };
+
+    const parseValue = (): Parsed => {
+        skipWhitespace();
+        if (stopped) return INCOMPLETE;
+        const char = text[pos];
+        if (char === '{') return parseObject();
+        if (char === '[') return parseArray();
+        if (char === '"') return parseString().value;
+
+        NUMBER.lastIndex = pos;
+        const number = NUMBER.exec(text);
+        if (number) {
+            pos += number[0].length;
+            // Digits may still follow
+            if (pos >= text.length) {
+                stopped = true;
+                return INCOMPLETE;
+            }
+            return Number(number[0]);
+        }
+
+        const rest = text.slice(pos);
+        for (const [word, value] of LITERALS) {
+            if (rest.startsWith(word)) {
+                pos += word.length;
+                return value;
+            }
+            if (word.startsWith(rest)) {
+                stopped = true;
+                return INCOMPLETE;
+            }
+        }
+        stopped = true;
+        return INCOMPLETE;
+    };
+
+    const parseObject = (): Record<string, unknown> => {
+        const object: Record<string, unknown> = {};
+        pos++; // {
+        while (!stopped) {
+            skipWhitespace();
+            if (stopped) break;
+            const char = text[pos];
+            if (char === '}') {
+                pos++;
+                return object;
+            }
+            if (char === ',') {
+                pos++;
+                continue;
+            }
+            if (char !== '"') {
+                stopped = true;
+                break;
+            }
+            const key = parseString();
+            if (!key.complete) break;
+            skipWhitespace();
+            if (stopped || text[pos] !== ':') {
+                stopped = true;
+                break;
+            }
+            pos++;
+            const value = parseValue();
+            if (value !== INCOMPLETE) object[key.value] = value;
+        }
+        return object;
+    };
+
+    const parseArray = (): unknown[] => {
+        const array: unknown[] = [];
+        pos++; // [
+        while (!stopped) {
+            skipWhitespace();
+            if (stopped) break;
+            const char = text[pos];
+            if (char === ']') {
+                pos++;
+                return array;
+            }
+            if (char === ',') {
+                pos++;
+                continue;
+            }
+            const value = parseValue();
+            if (value !== INCOMPLETE) array.push(value);
+        }
+        return array;
+    };
+
+    return parseObject();
+}
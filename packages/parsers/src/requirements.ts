@@ -0,0 +1,19 @@
+import type { JobData } from '@job-bodyguard/types';
+import { splitSections } from './sections';
+import { extractSkills } from './skills';
+
+// Same cap as the board parsers that list requirements themselves
+const MAX_REQUIREMENTS = 15;
+
+/**
+ * Sections and skills of a parsed job. Boards that leave `requirements`
+ * empty (LinkedIn, Indeed) get the must-have section instead.
+ */
+export function structureDescription(job: Pick<JobData, 'description' | 'requirements'>): Pick<JobData, 'sections' | 'skills' | 'requirements'> {
+    const sections = splitSections(job.description);
+    return {
+        sections,
+        skills: extractSkills([job.description, ...job.requirements].join('\n')),
+        requirements: job.requirements.length > 0 ? job.requirements : sections.mustHave.slice(0, MAX_REQUIREMENTS),
+    };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { experienceYears, parseExperience, parseResume } from './resume';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const ENGLISH_RESUME = `Jane Doe
+Summary
+Backend engineer who likes boring, reliable systems.
+
+Experience
+Senior Backend Engineer at Acme
+Jan 2021 – Present
+• Moved billing to Go microservices on Kubernetes
+• Mentored two engineers
+Backend Developer, Globex
+03/2018 - 12/2020
+- Python and PostgreSQL services
+
+Education
+BSc Computer Science
+2014 - 2018
+`;
+
+const RUSSIAN_RESUME = `Опыт работы
+Январь 2020 — по настоящее время
+Ведущий разработчик в Яндекс
+• Разработка на Python
+Май 2017 — Декабрь 2019
+Разработчик в Сбер
+`;
+
+describe('parseExperience', () => {
+    it('should read entries with their titles, dates and bullets', () => {
+        expect(parseExperience(ENGLISH_RESUME)).toEqual([
+            {
+                title: 'Senior Backend Engineer',
+                company: 'Acme',
+                startDate: '2021-01',
+                endDate: null,
+                bullets: ['Moved billing to Go microservices on Kubernetes', 'Mentored two engineers'],
+            },
+            {
+                title: 'Backend Developer',
+                company: 'Globex',
+                startDate: '2018-03',
+                endDate: '2020-12',
+                bullets: ['Python and PostgreSQL services'],
+            },
+        ]);
+    });
+
+    it('should read Russian month names and "по настоящее время"', () => {
+        const entries = parseExperience(RUSSIAN_RESUME);
+
+        expect(entries.map((entry) => [entry.startDate, entry.endDate])).toEqual([
+            ['2020-01', null],
+            ['2017-05', '2019-12'],
+        ]);
+    });
+
+    it('should take the title from the lines above a bare date range', () => {
+        const [entry] = parseExperience('Staff Engineer\nInitech\n2019 – 2022');
+
+        expect(entry).toMatchObject({ title: 'Staff Engineer', company: 'Initech', startDate: '2019-01', endDate: '2022-12' });
+    });
+});
+
+describe('experienceYears', () => {
+    it('should count overlapping jobs once', () => {
+        const years = experienceYears([
+            { title: 'A', company: '', startDate: '2020-01', endDate: '2021-12', bullets: [] },
+            { title: 'B', company: '', startDate: '2021-01', endDate: '2022-12', bullets: [] },
+        ], NOW);
+
+        expect(years).toBe(3);
+    });
+
+    it('should count a current job up to now', () => {
+        expect(experienceYears(parseExperience(ENGLISH_RESUME), NOW)).toBe(7.3);
+    });
+});
+
+describe('parseResume', () => {
+    it('should collect skills and the summary', () => {
+        const resume = parseResume(ENGLISH_RESUME, NOW);
+
+        expect(resume.skills).toEqual(['Go', 'Microservices', 'Kubernetes', 'Python', 'PostgreSQL']);
+        expect(resume.summary).toBe('Backend engineer who likes boring, reliable systems.');
+        expect(resume.updatedAt).toBe(NOW.toISOString());
+    });
+});
@@ -0,0 +1,144 @@
+import type { ExperienceEntry, ResumeData } from '@job-bodyguard/types';
+import { extractSkills } from './skills';
+
+/**
+ * Resume text (as pasted or extracted from a PDF in Settings) read into
+ * `ResumeData`: skills from the skills taxonomy and work experience from
+ * the date ranges that head each job ("Jan 2019 – Present",
+ * "03.2017 — 12.2018", "Январь 2020 — по настоящее время").
+ */
+
+const MONTH_PREFIXES: [string, number][] = [
+    ['jan', 1], ['feb', 2], ['mar', 3], ['apr', 4], ['may', 5], ['jun', 6],
+    ['jul', 7], ['aug', 8], ['sep', 9], ['oct', 10], ['nov', 11], ['dec', 12],
+    ['янв', 1], ['фев', 2], ['мар', 3], ['апр', 4], ['май', 5], ['мая', 5],
+    ['июн', 6], ['июл', 7], ['авг', 8], ['сен', 9], ['окт', 10], ['ноя', 11], ['дек', 12],
+];
+
+const DATE = '(?:((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec|янв|фев|мар|апр|ма[йя]|июн|июл|авг|сен|окт|ноя|дек)[a-zа-яё]{0,6})\\.?\\s+(\\d{4})|(\\d{1,2})[./](\\d{4})|(\\d{4})-(\\d{2})|(\\d{4}))';
+const PRESENT = '(present|current|now|today|по\\s+(?:настоящее|н\\.?\\s*в)\\.?(?:\\s+время)?|настоящее\\s+время|н\\.\\s*в\\.|сейчас)';
+const RANGE = new RegExp(`(?<![\\p{L}\\p{N}])${DATE}\\s*(?:-|–|—|to|until|по)\\s*(?:${PRESENT}|${DATE})(?![\\p{L}\\p{N}])`, 'iu');
+
+const BULLET = /^[•·●▪◦‣*–—-]\s*/;
+// "Senior Engineer at Acme", "Senior Engineer, Acme", "Acme | Senior Engineer"
+const TITLE_SEPARATOR = /\s+(?:at|@|в)\s+|\s*[,|]\s+|\s+[–—-]\s+/i;
+const EXPERIENCE_HEADING = /^(?:(?:work\s+|professional\s+)?experience|employment(?:\s+history)?|опыт\s+работы)\s*:?$/i;
+// Date ranges under these are studies, not jobs
+const OTHER_HEADING = /^(?:education|courses|certifications?|projects|образование|курсы|сертификаты|проекты)\s*:?$/i;
+const SUMMARY_HEADING = /^(?:summary|profile|about(?:\s+me)?|professional\s+summary|о\s+себе|обо\s+мне)\s*:?\s*$/i;
+
+function pad(month: number): string {
+    return String(month).padStart(2, '0');
+}
+
+function monthNumber(name: string): number | null {
+    const lower = name.toLowerCase();
+    return MONTH_PREFIXES.find(([prefix]) => lower.startsWith(prefix))?.[1] ?? null;
+}
+
+/** YYYY-MM from one DATE match; a bare year is read as its first or last month */
+function toMonth(groups: (string | undefined)[], isEnd: boolean): string | null {
+    const [monthName, monthYear, numericMonth, numericYear, isoYear, isoMonth, year] = groups;
+    if (monthName && monthYear) {
+        const month = monthNumber(monthName);
+        return month ? `${monthYear}-${pad(month)}` : null;
+    }
+    if (numericMonth && numericYear) {
+        const month = Number(numericMonth);
+        return month >= 1 && month <= 12 ? `${numericYear}-${pad(month)}` : null;
+    }
+    if (isoYear && isoMonth) return `${isoYear}-${isoMonth}`;
+    if (year) return `${year}-${isEnd ? '12' : '01'}`;
+    return null;
+}
+
+/** "Senior Engineer at Acme" → title + company; a line without a separator is the title */
+function splitHeader(lines: string[]): { title: string; company: string } {
+    const header = lines[lines.length - 1] ?? '';
+    const separator = header.match(TITLE_SEPARATOR);
+    if (!separator || separator.index === undefined) {
+        return lines.length >= 2 ? { title: lines[0], company: lines[1] } : { title: header, company: '' };
+    }
+    return {
+        title: header.slice(0, separator.index).trim(),
+        company: header.slice(separator.index + separator[0].length).trim(),
+    };
+}
+
+/**
+ * Work experience: every line with a date range starts an entry. The title
+ * and company are on that line or the one or two lines above it; bullets
+ * below it belong to it. Education and project sections are skipped.
+ */
+export function parseExperience(text: string): ExperienceEntry[] {
+    const lines = text.split(/\r?\n/).map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const entries: ExperienceEntry[] = [];
+    let current: ExperienceEntry | null = null;
+    let pending: string[] = [];
+    let inOtherSection = false;
+
+    for (const line of lines) {
+        if (EXPERIENCE_HEADING.test(line) || OTHER_HEADING.test(line)) {
+            inOtherSection = OTHER_HEADING.test(line);
+            current = null;
+            pending = [];
+            continue;
+        }
+        if (inOtherSection) continue;
+
+        const range = line.match(RANGE);
+        if (range) {
+            const start = toMonth(range.slice(1, 8), false);
+            const end = range[8] ? null : toMonth(range.slice(9, 16), true);
+            if (start && (end === null ? true : end >= start)) {
+                const rest = line.replace(range[0], '').replace(/^[\s,|()–—-]+|[\s,|()–—-]+$/g, '');
+                const header = rest ? [rest] : pending.slice(-2);
+                current = { ...splitHeader(header), startDate: start, endDate: end, bullets: [] };
+                entries.push(current);
+                pending = [];
+                continue;
+            }
+        }
+        if (BULLET.test(line) && current) {
+            current.bullets.push(line.replace(BULLET, ''));
+        } else {
+            pending.push(line);
+        }
+    }
+    return entries;
+}
+
+/** Months covered by the entries, overlapping jobs counted once */
+export function experienceYears(experience: ExperienceEntry[], now: Date = new Date()): number {
+    const current = `${now.getFullYear()}-${pad(now.getMonth() + 1)}`;
+    const toIndex = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+    const spans = experience
+        .map((entry) => [toIndex(entry.startDate), toIndex(entry.endDate ?? current)] as const)
+        .filter(([start, end]) => end >= start)
+        .sort((a, b) => a[0] - b[0]);
+
+    let months = 0;
+    let coveredUntil = -1;
+    for (const [start, end] of spans) {
+        const from = Math.max(start, coveredUntil + 1);
+        if (end >= from) months += end - from + 1;
+        coveredUntil = Math.max(coveredUntil, end);
+    }
+    return Math.round((months / 12) * 10) / 10;
+}
+
+function parseSummary(text: string): string | null {
+    const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    const index = lines.findIndex((line) => SUMMARY_HEADING.test(line));
+    return index >= 0 && lines[index + 1] ? lines[index + 1] : null;
+}
+
+export function parseResume(text: string, now: Date = new Date()): ResumeData {
+    return {
+        text,
+        skills: extractSkills(text),
+        summary: parseSummary(text),
+        experience: parseExperience(text),
+        updatedAt: now.toISOString(),
+    };
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import type { SalaryData } from '@job-bodyguard/types';
+import {
+    looksLikeSalary,
+    mapSalaryPeriod,
+    normalizeCurrency,
+    parseMonetaryAmount,
+    parseSalaryText,
+    SALARY_RANGE_PATTERN,
+} from './salary';
+
+type Case = [text: string, expected: SalaryData];
+
+describe('parseSalaryText', () => {
+    const cases: Case[] = [
+        // Russian (hh.ru)
+        ['от 150 000 до 250 000 ₽ на руки', { min: 150000, max: 250000, currency: 'RUB', period: 'MONTH', taxBasis: 'NET' }],
+        ['от 150 000 ₽ до вычета налогов', { min: 150000, max: null, currency: 'RUB', period: 'MONTH', taxBasis: 'GROSS' }],
+        ['до 250 000 руб. на руки', { min: null, max: 250000, currency: 'RUB', period: 'MONTH', taxBasis: 'NET' }],
+        ['120 000 – 180 000 ₽ за месяц, на руки', { min: 120000, max: 180000, currency: 'RUB', period: 'MONTH', taxBasis: 'NET' }],
+        ['250,000 - 350,000 RUR', { min: 250000, max: 350000, currency: 'RUB', period: 'MONTH' }],
+        ['150-200 тыс. руб.', { min: 150000, max: 200000, currency: 'RUB', period: 'MONTH' }],
+        ['от 3 000 $ до вычета налогов', { min: 3000, max: null, currency: 'USD', period: 'YEAR', taxBasis: 'GROSS' }],
+        ['от 2 500 € в месяц', { min: 2500, max: null, currency: 'EUR', period: 'MONTH' }],
+        ['1 500 ₽ за смену', { min: 1500, max: 1500, currency: 'RUB', period: 'DAY' }],
+        ['500 000 ₸ на руки', { min: 500000, max: 500000, currency: 'KZT', period: 'MONTH', taxBasis: 'NET' }],
+        ['от 40 000 грн', { min: 40000, max: null, currency: 'UAH', period: 'MONTH' }],
+
+        // Euro / pound
+        ['€60k–75k', { min: 60000, max: 75000, currency: 'EUR', period: 'YEAR' }],
+        ['€60–75k', { min: 60000, max: 75000, currency: 'EUR', period: 'YEAR' }],
+        ['60.000 € - 75.000 € brutto/Jahr', { min: 60000, max: 75000, currency: 'EUR', period: 'YEAR', taxBasis: 'GROSS' }],
+        ['£45,000 - £55,000 a year', { min: 45000, max: 55000, currency: 'GBP', period: 'YEAR' }],
+        ['£18.50 - £22.00 Per Hour', { min: 18.5, max: 22, currency: 'GBP', period: 'HOUR' }],
+        ['£450 per day', { min: 450, max: 450, currency: 'GBP', period: 'DAY' }],
+        ['£2,500 pcm', { min: 2500, max: 2500, currency: 'GBP', period: 'MONTH' }],
+        ['CHF 120,000 p.a.', { min: 120000, max: 120000, currency: 'CHF', period: 'YEAR' }],
+        ['45 000 € par an', { min: 45000, max: 45000, currency: 'EUR', period: 'YEAR' }],
+
+        // Dollars
+        ['$40/hr', { min: 40, max: 40, currency: 'USD', period: 'HOUR' }],
+        ['$120K/yr - $150K/yr', { min: 120000, max: 150000, currency: 'USD', period: 'YEAR' }],
+        ['$95K - $130K (Glassdoor est.)', { min: 95000, max: 130000, currency: 'USD', period: 'YEAR' }],
+        ['$1.2M', { min: 1200000, max: 1200000, currency: 'USD', period: 'YEAR' }],
+        ['$25 - $30 an hour', { min: 25, max: 30, currency: 'USD', period: 'HOUR' }],
+        ['$2,000 a week', { min: 2000, max: 2000, currency: 'USD', period: 'WEEK' }],
+        ['CA$85,000 to CA$100,000', { min: 85000, max: 100000, currency: 'CAD', period: 'YEAR' }],
+        ['A$140k + super', { min: 140000, max: 140000, currency: 'AUD', period: 'YEAR' }],
+        ['80,000 USD per year', { min: 80000, max: 80000, currency: 'USD', period: 'YEAR' }],
+        ['From $90,000', { min: 90000, max: null, currency: 'USD', period: 'YEAR' }],
+        ['$150,000+', { min: 150000, max: null, currency: 'USD', period: 'YEAR' }],
+
+        // No currency in the text
+        ['up to 120K', { min: null, max: 120000, currency: 'USD', period: 'YEAR' }],
+        ['40 - 50 an hour', { min: 40, max: 50, currency: 'USD', period: 'HOUR' }],
+    ];
+
+    it.each(cases)('should parse %j', (text, expected) => {
+        expect(parseSalaryText(text)).toEqual(expected);
+    });
+
+    it('should fall back to the caller\'s currency and period', () => {
+        expect(parseSalaryText('150 000 - 250 000', { currency: 'RUB', period: 'MONTH' }))
+            .toEqual({ min: 150000, max: 250000, currency: 'RUB', period: 'MONTH' });
+        expect(parseSalaryText('up to 120K', { currency: 'EUR' }))
+            .toEqual({ min: null, max: 120000, currency: 'EUR', period: 'YEAR' });
+    });
+
+    it('should prefer the currency written in the text over the default', () => {
+        expect(parseSalaryText('от 2 000 $', { currency: 'RUB' })?.currency).toBe('USD');
+    });
+
+    it('should handle non-breaking and thin spaces as thousands separators', () => {
+        expect(parseSalaryText('от 150 000 до 250 000 ₽')).toMatchObject({ min: 150000, max: 250000 });
+    });
+
+    it.each([
+        '',
+        'Full-time',
+        'Over 100 applicants',
+        '1,234 applicants',
+        'Posted 2 hours ago',
+        '5 days ago',
+        'Competitive salary',
+    ])('should not read %j as a salary', (text) => {
+        expect(parseSalaryText(text)).toBeNull();
+        expect(looksLikeSalary(text)).toBe(false);
+    });
+});
+
+describe('normalizeCurrency', () => {
+    it.each([
+        ['USD', 'USD'],
+        ['rur', 'RUB'],
+        ['RUR', 'RUB'],
+        ['rub', 'RUB'],
+        ['BYR', 'BYN'],
+        ['€', 'EUR'],
+        ['£', 'GBP'],
+        ['₽', 'RUB'],
+        ['US$', 'USD'],
+        ['CA$', 'CAD'],
+        ['руб.', 'RUB'],
+        ['zł', 'PLN'],
+    ])('should map %j to %s', (raw, code) => {
+        expect(normalizeCurrency(raw)).toBe(code);
+    });
+
+    it('should return null for empty or unknown values', () => {
+        expect(normalizeCurrency('')).toBeNull();
+        expect(normalizeCurrency(undefined)).toBeNull();
+        expect(normalizeCurrency('doubloons')).toBeNull();
+    });
+});
+
+describe('mapSalaryPeriod', () => {
+    it.each([
+        ['HOUR', 'HOUR'],
+        ['PT1H', 'HOUR'],
+        ['DAY', 'DAY'],
+        ['P1D', 'DAY'],
+        ['WEEK', 'WEEK'],
+        ['P1W', 'WEEK'],
+        ['MONTH', 'MONTH'],
+        ['P1M', 'MONTH'],
+        ['YEAR', 'YEAR'],
+        ['P1Y', 'YEAR'],
+        [undefined, 'YEAR'],
+    ])('should map %j to %s', (unitText, period) => {
+        expect(mapSalaryPeriod(unitText)).toBe(period);
+    });
+});
+
+describe('parseMonetaryAmount', () => {
+    it.each<[string, unknown, SalaryData | null]>([
+        [
+            'QuantitativeValue range with a legacy code',
+            { '@type': 'MonetaryAmount', currency: 'RUR', value: { minValue: 250000, maxValue: 350000, unitText: 'MONTH' } },
+            { min: 250000, max: 350000, currency: 'RUB', period: 'MONTH' },
+        ],
+        [
+            'single value with unitText on the amount',
+            { currency: 'GBP', value: 42000, unitText: 'YEAR' },
+            { min: 42000, max: 42000, currency: 'GBP', period: 'YEAR' },
+        ],
+        [
+            'numeric string value',
+            { currency: 'USD', value: { value: '55.50', unitText: 'HOUR' } },
+            { min: 55.5, max: 55.5, currency: 'USD', period: 'HOUR' },
+        ],
+        [
+            'free-text range string',
+            { currency: 'EUR', value: '60000-75000', unitText: 'YEAR' },
+            { min: 60000, max: 75000, currency: 'EUR', period: 'YEAR' },
+        ],
+        [
+            'array of amounts',
+            [{ currency: 'CAD', value: { minValue: 90000, maxValue: 110000, unitText: 'YEAR' } }],
+            { min: 90000, max: 110000, currency: 'CAD', period: 'YEAR' },
+        ],
+        [
+            'zero bounds',
+            { currency: 'USD', value: { minValue: 0, maxValue: 0 } },
+            null,
+        ],
+        ['missing amount', null, null],
+    ])('should handle %s', (_name, input, expected) => {
+        expect(parseMonetaryAmount(input)).toEqual(expected);
+    });
+
+    it('should apply defaults when currency or unitText is missing', () => {
+        expect(parseMonetaryAmount({ value: { minValue: 100000 } }, { currency: 'RUB', period: 'MONTH' }))
+            .toEqual({ min: 100000, max: null, currency: 'RUB', period: 'MONTH' });
+    });
+});
+
+describe('SALARY_RANGE_PATTERN', () => {
+    it.each([
+        'The base salary range is $120,000 - $150,000',
+        'Salary: €60k–€75k depending on experience',
+        'Вилка 150 000 – 250 000 ₽ на руки',
+        'We pay 80,000 to 95,000 GBP',
+    ])('should find a range in %j', (sentence) => {
+        expect(SALARY_RANGE_PATTERN.test(sentence)).toBe(true);
+    });
+
+    it.each([
+        'Competitive salary and equity',
+        '2-3 years of experience',
+        'Join a team of 10-15 engineers',
+    ])('should ignore %j', (sentence) => {
+        expect(SALARY_RANGE_PATTERN.test(sentence)).toBe(false);
+    });
+});
@@ -0,0 +1,305 @@
+import type { SalaryData } from '@job-bodyguard/types';
+
+/**
+ * Shared salary parsing for every parser: free-text ranges from the page
+ * ("от 150 000 до 250 000 ₽ на руки", "€60k–75k", "$40/hr", "up to 120K")
+ * and schema.org MonetaryAmount values from JSON-LD.
+ */
+
+export type SalaryPeriod = SalaryData['period'];
+
+export interface SalaryDefaults {
+    /** Used when the text names no currency (e.g. RUB on hh.ru) */
+    currency?: string;
+    /** Used when the text names no pay period */
+    period?: SalaryPeriod;
+}
+
+// ─── Currencies ──────────────────────────────────────────────
+
+const ISO_CODES = [
+    'USD', 'EUR', 'GBP', 'RUB', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF',
+    'RON', 'BGN', 'UAH', 'KZT', 'BYN', 'UZS', 'GEL', 'AMD', 'AZN', 'KGS', 'TRY', 'ILS', 'AED', 'INR',
+    'JPY', 'CNY', 'HKD', 'SGD', 'KRW', 'BRL', 'MXN', 'ZAR',
+];
+
+/** Legacy or unofficial codes still seen in the wild (hh.ru publishes RUR) */
+const CODE_ALIASES: Record<string, string> = { RUR: 'RUB', BYR: 'BYN' };
+
+/** CIS pay is quoted per month unless stated otherwise */
+const MONTHLY_CURRENCIES = new Set(['RUB', 'UAH', 'KZT', 'BYN', 'UZS', 'GEL', 'AMD', 'AZN', 'KGS']);
+
+// Checked in order, so prefixed dollars come before the bare "$"
+const CURRENCY_MARKERS: Array<[RegExp, string]> = [
+    [/(?<![a-z])(?:CA|C)\$/i, 'CAD'],
+    [/(?<![a-z])(?:AU|A)\$/i, 'AUD'],
+    [/(?<![a-z])NZ\$/i, 'NZD'],
+    [/(?<![a-z])HK\$/i, 'HKD'],
+    [/(?<![a-z])S\$/i, 'SGD'],
+    [/(?<![a-z])R\$/i, 'BRL'],
+    [/\$/, 'USD'],
+    [/€/, 'EUR'],
+    [/£/, 'GBP'],
+    [/₽/, 'RUB'],
+    [/₴/, 'UAH'],
+    [/₸/, 'KZT'],
+    [/₹/, 'INR'],
+    [/₩/, 'KRW'],
+    [/₺/, 'TRY'],
+    [/¥/, 'JPY'],
+    [/zł/i, 'PLN'],
+    [/бел\.?\s*руб/i, 'BYN'],
+    [/(?<![a-z])ru[br](?![a-z])/i, 'RUB'],
+    [/руб|(?<![а-яё])р\.?(?![а-яё])/i, 'RUB'],
+    [/евро/i, 'EUR'],
+    [/долл/i, 'USD'],
+    [/грн|гривен/i, 'UAH'],
+    [/тенге|(?<![а-яё])тг(?![а-яё])/i, 'KZT'],
+];
+
+// Upper case only: "try", "amd" and "gel" are also words
+const ISO_CODE_PATTERN = new RegExp(
+    `(?<![A-Za-z])(${[...ISO_CODES, ...Object.keys(CODE_ALIASES)].join('|')})(?![A-Za-z])`
+);
+
+/**
+ * Map a currency code or symbol ("rur", "€", "US$") to its ISO 4217 code
+ */
+export function normalizeCurrency(raw: unknown): string | null {
+    if (typeof raw !== 'string' || !raw.trim()) return null;
+    return detectCurrency(raw.trim().toUpperCase());
+}
+
+function detectCurrency(text: string): string | null {
+    const code = text.match(ISO_CODE_PATTERN)?.[1];
+    if (code) return CODE_ALIASES[code] ?? code;
+
+    for (const [pattern, currency] of CURRENCY_MARKERS) {
+        if (pattern.test(text)) return currency;
+    }
+    return null;
+}
+
+// ─── Pay period ──────────────────────────────────────────────
+
+// "per" / "a" / "an" / "/" before the unit, so "2 hours ago" is not a rate
+const EN = (units: string) => new RegExp(`(?:(?<![a-z])(?:per|an?)\\s+|\\/\\s*)(?:${units})(?![a-z])`, 'i');
+const RU = (units: string) => new RegExp(`(?:(?<![а-яё])(?:в|за)\\s+|\\/\\s*)(?:${units})`, 'i');
+
+const PERIOD_PATTERNS: Array<[RegExp[], SalaryPeriod]> = [
+    [[EN('hour|hr|h'), /hourly|par\s*heure/i, RU('час|ч(?![а-яё])')], 'HOUR'],
+    [[EN('day'), /daily|par\s*jour/i, RU('день|смену')], 'DAY'],
+    [[EN('week|wk'), /weekly|par\s*semaine/i, RU('неделю|нед')], 'WEEK'],
+    [[EN('month|mo'), /monthly|(?<![a-z])pcm(?![a-z])|par\s*mois/i, RU('месяц|мес')], 'MONTH'],
+    [[EN('year|yr|annum'), /annual(?:ly)?|yearly|(?<![a-z])p\.a\.?|par\s*an(?![a-z])/i, RU('год')], 'YEAR'],
+];
+
+function detectPeriod(text: string): SalaryPeriod | null {
+    for (const [patterns, period] of PERIOD_PATTERNS) {
+        if (patterns.some((p) => p.test(text))) return period;
+    }
+    return null;
+}
+
+/**
+ * Map a schema.org unitText ("HOUR", "MONTH") or an ISO-8601 duration
+ * ("PT1H", "P1M", "P1Y") to a period. Unknown values count as yearly.
+ */
+export function mapSalaryPeriod(unitText: unknown): SalaryPeriod {
+    if (typeof unitText !== 'string' || !unitText) return 'YEAR';
+    const upper = unitText.trim().toUpperCase();
+
+    if (upper === 'PT1H' || upper.includes('HOUR')) return 'HOUR';
+    if (upper === 'P1D' || upper.includes('DAY')) return 'DAY';
+    if (upper === 'P1W' || upper.includes('WEEK')) return 'WEEK';
+    if (upper === 'P1M' || upper.includes('MONTH')) return 'MONTH';
+    return 'YEAR';
+}
+
+// ─── Gross / net ─────────────────────────────────────────────
+
+const NET_PATTERN = /на\s*руки|после\s*вычета|нетто|netto|(?<![a-z])net(?![a-z])|after\s*tax/i;
+const GROSS_PATTERN = /до\s*вычета|брутто|brutto|(?<![a-z])gross(?![a-z])|before\s*tax|pre-?tax/i;
+
+function detectTaxBasis(text: string): SalaryData['taxBasis'] | null {
+    if (NET_PATTERN.test(text)) return 'NET';
+    if (GROSS_PATTERN.test(text)) return 'GROSS';
+    return null;
+}
+
+// ─── Amounts ─────────────────────────────────────────────────
+
+/**
+ * An amount with optional thousands separators ("150 000", "45,000",
+ * "60.000"), decimals ("18.50") and a multiplier ("75k", "1.2M", "150 тыс.")
+ */
+const AMOUNT_PATTERN =
+    /(\d{1,3}(?:[ ,.'’]\d{3})+(?!\d)|\d+)(?:[.,](\d{1,2})(?!\d))?(?:\s?(k|к|тыс\.?|thousand|mn|млн|m)(?![a-zа-яё]))?/gi;
+
+const MULTIPLIERS: Record<string, number> = {
+    k: 1e3, к: 1e3, тыс: 1e3, thousand: 1e3,
+    m: 1e6, mn: 1e6, млн: 1e6,
+};
+
+interface Amount {
+    value: number;
+    multiplier: number | null;
+    start: number;
+    end: number;
+}
+
+function findAmounts(text: string): Amount[] {
+    return [...text.matchAll(AMOUNT_PATTERN)].map((match) => {
+        const whole = match[1].replace(/[ ,.'’]/g, '');
+        const value = parseFloat(match[2] ? `${whole}.${match[2]}` : whole);
+        const suffix = match[3]?.toLowerCase().replace('.', '');
+        return {
+            value,
+            multiplier: suffix ? MULTIPLIERS[suffix] : null,
+            start: match.index!,
+            end: match.index! + match[0].length,
+        };
+    });
+}
+
+const RANGE_SEPARATOR = /-|(?<![a-zа-яё])(?:to|до|по)(?![a-zа-яё])/i;
+const MIN_ONLY_PREFIX = /(?:(?<![a-zа-яё])от|from|starting\s*(?:at|from)|at\s*least|min(?:imum)?\.?|не\s*менее)\s*\S{0,4}\s*$/i;
+const MAX_ONLY_PREFIX = /(?:(?<![a-zа-яё])до|up\s*to|max(?:imum)?\.?|не\s*более)\s*\S{0,4}\s*$/i;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Parse free-text pay into SalaryData. Returns null when the text holds no
+ * amount, or a lone number with nothing marking it as money ("5 days ago").
+ */
+export function parseSalaryText(text: string | null | undefined, defaults: SalaryDefaults = {}): SalaryData | null {
+    if (!text) return null;
+
+    const clean = text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/[–—−]/g, '-')
+        .replace(/\s+/g, ' ') // also folds non-breaking and thin spaces
+        .trim();
+
+    const amounts = findAmounts(clean);
+    if (amounts.length === 0) return null;
+
+    const [first, next] = amounts;
+    const between = next ? clean.slice(first.end, next.start) : '';
+    const isRange = !!next && between.length <= 20 && !/\d/.test(between) && RANGE_SEPARATOR.test(between);
+
+    // "€60–75k": the multiplier on the upper bound applies to both
+    if (isRange && !first.multiplier && next.multiplier && first.value < 1000) {
+        first.multiplier = next.multiplier;
+    }
+    const low = round(first.value * (first.multiplier ?? 1));
+    const high = isRange ? round(next.value * (next.multiplier ?? 1)) : low;
+
+    const detected = detectCurrency(clean);
+    const period = detectPeriod(clean);
+    const hasMoneySignal = detected !== null || period !== null || first.multiplier !== null
+        || (isRange && low >= 1000);
+    if (!hasMoneySignal) return null;
+
+    let min: number | null = Math.min(low, high);
+    let max: number | null = Math.max(low, high);
+    if (!isRange) {
+        const prefix = clean.slice(0, first.start);
+        if (MIN_ONLY_PREFIX.test(prefix) || clean.startsWith('+', first.end)) {
+            max = null;
+        } else if (MAX_ONLY_PREFIX.test(prefix)) {
+            min = null;
+        }
+    }
+
+    const currency = detected ?? normalizeCurrency(defaults.currency) ?? 'USD';
+    const salary: SalaryData = {
+        min,
+        max,
+        currency,
+        period: period ?? defaults.period ?? (MONTHLY_CURRENCIES.has(currency) ? 'MONTH' : 'YEAR'),
+    };
+
+    const taxBasis = detectTaxBasis(clean);
+    if (taxBasis) salary.taxBasis = taxBasis;
+
+    return salary;
+}
+
+/**
+ * True when the text reads as pay — used to pick the salary element out of
+ * a row of job insight chips
+ */
+export function looksLikeSalary(text: string | null | undefined): boolean {
+    return parseSalaryText(text) !== null;
+}
+
+// ─── JSON-LD ─────────────────────────────────────────────────
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim()) {
+        const n = parseFloat(value.replace(/[^\d.]/g, ''));
+        return Number.isFinite(n) ? n : null;
+    }
+    return null;
+}
+
+/**
+ * schema.org baseSalary: a MonetaryAmount whose value is a number, a numeric
+ * or free-text string, or a QuantitativeValue with value / minValue /
+ * maxValue / unitText. Arrays use their first entry.
+ */
+export function parseMonetaryAmount(baseSalary: unknown, defaults: SalaryDefaults = {}): SalaryData | null {
+    const amount = Array.isArray(baseSalary) ? baseSalary[0] : baseSalary;
+    if (!amount || typeof amount !== 'object') return null;
+
+    const salary = amount as Record<string, unknown>;
+    const currency = normalizeCurrency(salary.currency) ?? normalizeCurrency(defaults.currency) ?? 'USD';
+    const value = salary.value;
+
+    let min: number | null = null;
+    let max: number | null = null;
+    let unitText = salary.unitText;
+
+    if (typeof value === 'string' && /\d\D+\d/.test(value)) {
+        // Free text such as "150000-250000"
+        const parsed = parseSalaryText(value, { currency, period: defaults.period });
+        if (!parsed) return null;
+        return unitText ? { ...parsed, period: mapSalaryPeriod(unitText) } : parsed;
+    }
+
+    if (typeof value === 'number' || typeof value === 'string') {
+        min = max = toNumber(value);
+    } else if (value && typeof value === 'object') {
+        const qv = value as Record<string, unknown>;
+        const single = toNumber(qv.value);
+        min = toNumber(qv.minValue) ?? single;
+        max = toNumber(qv.maxValue) ?? single;
+        unitText = qv.unitText ?? unitText;
+    }
+
+    // 0 means "not set" in several boards' feeds
+    if (!min) min = null;
+    if (!max) max = null;
+    if (min === null && max === null) return null;
+
+    return {
+        min,
+        max,
+        currency,
+        period: unitText ? mapSalaryPeriod(unitText) : defaults.period ?? 'YEAR',
+    };
+}
+
+/**
+ * Phrases like "$120,000 - $150,000" or "от 150 000 до 250 000 ₽" in a
+ * description sentence — a range with a currency on at least one side
+ */
+export const SALARY_RANGE_PATTERN = new RegExp(
+    [
+        /(?:[$€£₽₴₸₹]|(?<![a-z])(?:USD|EUR|GBP|RUB|CAD|AUD|CHF|PLN)\s?)\d[\d\s,.]*\d(?:k|к)?\s*(?:-|–|—|to|до)\s*(?:[$€£₽₴₸₹]\s?)?\d[\d\s,.]*\d/.source,
+        /\d[\d\s,.]*\d(?:k|к|тыс\.?)?\s*(?:-|–|—|to|до)\s*\d[\d\s,.]*\d\s?(?:k|к|тыс\.?)?\s*(?:[$€£₽₴₸₹]|руб|(?<![a-z])(?:USD|EUR|GBP|RUB|RUR|CAD|AUD|CHF|PLN)(?![a-z]))/.source,
+    ].join('|'),
+    'i'
+);
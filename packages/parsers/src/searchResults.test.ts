@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { findSearchResultCards, searchCardJobData } from './searchResults';
+
+function parseHtml(html: string, url: string): Document {
+    return new JSDOM(html, { url }).window.document;
+}
+
+describe('findSearchResultCards', () => {
+    it('reads LinkedIn search cards', () => {
+        const doc = parseHtml(`
+            <ul>
+                <li data-occludable-job-id="1">
+                    <div class="job-card-container">
+                        <a class="job-card-list__title--link" href="/jobs/view/1/">Backend Engineer</a>
+                        <div class="artdeco-entity-lockup__subtitle"><span>Acme Inc.</span></div>
+                    </div>
+                </li>
+                <li data-occludable-job-id="2">
+                    <div class="job-card-container">
+                        <a class="job-card-list__title--link" href="/jobs/view/2/">Data Engineer</a>
+                        <div class="artdeco-entity-lockup__subtitle">Globex</div>
+                    </div>
+                </li>
+            </ul>
+        `, 'https://www.linkedin.com/jobs/search/?keywords=engineer');
+
+        const cards = findSearchResultCards(doc, 'linkedin');
+        expect(cards.map(({ company, title, url }) => ({ company, title, url }))).toEqual([
+            { company: 'Acme Inc.', title: 'Backend Engineer', url: 'https://www.linkedin.com/jobs/view/1/' },
+            { company: 'Globex', title: 'Data Engineer', url: 'https://www.linkedin.com/jobs/view/2/' },
+        ]);
+        expect(cards[0].element.getAttribute('data-occludable-job-id')).toBe('1');
+    });
+
+    it('reads hh.ru search cards', () => {
+        const doc = parseHtml(`
+            <div data-qa="vacancy-serp__vacancy vacancy-serp__vacancy_standard_plus">
+                <a data-qa="serp-item__title" href="https://hh.ru/vacancy/123"><span data-qa="serp-item__title-text">Python-разработчик</span></a>
+                <a data-qa="vacancy-serp__vacancy-employer"><span data-qa="vacancy-serp__vacancy-employer-text">ООО Ромашка</span></a>
+                <div data-qa="vacancy-serp__vacancy_snippet_responsibility">Разработка API.</div>
+                <div data-qa="vacancy-serp__vacancy_snippet_requirement">Опыт работы с Django от 3 лет.</div>
+            </div>
+        `, 'https://hh.ru/search/vacancy?text=python');
+
+        const [card] = findSearchResultCards(doc, 'hh.ru');
+        expect(card.company).toBe('ООО Ромашка');
+        expect(card.snippet).toBe('Разработка API.\nОпыт работы с Django от 3 лет.');
+        expect(card.title).toBe('Python-разработчик');
+        expect(card.url).toBe('https://hh.ru/vacancy/123');
+    });
+
+    it('reads an Indeed card into JobData', () => {
+        const doc = parseHtml(`
+            <div class="job_seen_beacon">
+                <h2 class="jobTitle"><a class="jcs-JobTitle" href="/rc/clk?jk=abc123">Site Reliability Engineer</a></h2>
+                <span data-testid="company-name">Globex</span>
+                <div data-testid="text-location">Austin, TX</div>
+                <div class="salary-snippet-container">$120,000 - $150,000 a year</div>
+                <div data-testid="jobsnippet_footer"><ul><li>Fast-paced environment, on-call rotation.</li></ul></div>
+                <span data-testid="myJobsStateDate">Posted 3 days ago</span>
+            </div>
+        `, 'https://www.indeed.com/jobs?q=sre');
+
+        const [card] = findSearchResultCards(doc, 'indeed');
+        expect(card.snippet).toBe('Fast-paced environment, on-call rotation.');
+
+        const job = searchCardJobData(card, 'indeed', new Date('2026-03-10T12:00:00Z'));
+        expect(job).toMatchObject({
+            title: 'Site Reliability Engineer',
+            company: 'Globex',
+            location: 'Austin, TX',
+            url: 'https://www.indeed.com/rc/clk?jk=abc123',
+            platform: 'indeed',
+            visibleSalary: '$120,000 - $150,000 a year',
+            hiddenSalary: { min: 120000, max: 150000, currency: 'USD', period: 'YEAR' },
+            jobAge: 3,
+            datePosted: '2026-03-07',
+        });
+    });
+
+    it('leaves the badges the extension added out of the card text', () => {
+        const doc = parseHtml(`
+            <li data-occludable-job-id="1">
+                <span class="jbg-company-badge" data-jbg-injected>★ Favourite company</span>
+                <div class="job-card-container">
+                    <a class="job-card-list__title--link" href="/jobs/view/1/">Backend Engineer</a>
+                    <div class="artdeco-entity-lockup__subtitle">Acme Inc.</div>
+                </div>
+                <div class="jbg-card-badges" data-jbg-injected><span>Saved</span><span>🛡 40</span></div>
+            </li>
+        `, 'https://www.linkedin.com/jobs/search/?keywords=engineer');
+
+        const [card] = findSearchResultCards(doc, 'linkedin');
+        expect(card.snippet).toBe('Backend Engineer Acme Inc.');
+        expect(card.element.querySelectorAll('[data-jbg-injected]')).toHaveLength(2);
+    });
+
+    it('finds nothing off search pages', () => {
+        const doc = parseHtml('<h1>Backend Engineer</h1>', 'https://www.indeed.com/viewjob?jk=1');
+        expect(findSearchResultCards(doc, 'indeed')).toEqual([]);
+        expect(findSearchResultCards(doc, 'lever')).toEqual([]);
+    });
+});
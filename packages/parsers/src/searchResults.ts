@@ -0,0 +1,111 @@
+import type { JobData, JobPlatform } from '@job-bodyguard/types';
+import { parsePostedText } from './dates';
+import { parseSalaryText } from './salary';
+import { getSelectors } from './selectorConfig';
+
+/**
+ * Job cards on a board's search result list (LinkedIn, Indeed, hh.ru).
+ * The card selectors live in selectors.json next to the job-view ones
+ * ("searchCard", "searchCompany", "searchTitle", ...), so a layout change
+ * can be patched with a selector override too.
+ */
+
+export interface SearchResultCard {
+    element: Element;
+    company: string;
+    title: string;
+    /** The job the card links to, when it has a link */
+    url: string | null;
+    location: string;
+    /** Pay as the card shows it, e.g. "$120K - $150K a year" */
+    salary: string;
+    /** "3 days ago", "Вчера" */
+    posted: string;
+    /** The description excerpt the card shows, or all of its text when it has none */
+    snippet: string;
+}
+
+/** Set on what the extension adds to a card (badges), so it isn't read back as the card's own text */
+export const INJECTED_NODE_ATTR = 'data-jbg-injected';
+
+function clean(text: string | null | undefined): string {
+    return text?.replace(/\s+/g, ' ').trim() ?? '';
+}
+
+function textOf(card: Element, selectors: string[] | undefined): { text: string; element: Element | null } {
+    for (const selector of selectors ?? []) {
+        const element = card.querySelector(selector);
+        const text = clean(element?.textContent);
+        if (text) return { text, element };
+    }
+    return { text: '', element: null };
+}
+
+/** Every match of every selector: hh.ru splits its excerpt into duties and requirements */
+function allTextOf(card: Element, selectors: string[] | undefined): string {
+    const texts = (selectors ?? [])
+        .flatMap((selector) => [...card.querySelectorAll(selector)])
+        .map((element) => clean(element.textContent))
+        .filter(Boolean);
+    return [...new Set(texts)].join('\n');
+}
+
+/** All of the card's text but the badges the extension added to it */
+function ownText(card: Element): string {
+    if (!card.querySelector(`[${INJECTED_NODE_ATTR}]`)) return clean(card.textContent);
+    const copy = card.cloneNode(true) as Element;
+    copy.querySelectorAll(`[${INJECTED_NODE_ATTR}]`).forEach((node) => node.remove());
+    return clean(copy.textContent);
+}
+
+/** Cards of the first card selector that matches anything; none off search pages */
+export function findSearchResultCards(root: ParentNode, platform: JobPlatform): SearchResultCard[] {
+    const selectors = getSelectors(platform);
+    for (const selector of selectors.searchCard ?? []) {
+        const elements = [...root.querySelectorAll(selector)];
+        if (elements.length === 0) continue;
+
+        return elements.map((element) => {
+            const title = textOf(element, selectors.searchTitle);
+            const link = title.element?.closest('a') ?? title.element?.querySelector('a') ?? null;
+            return {
+                element,
+                company: textOf(element, selectors.searchCompany).text,
+                title: title.text,
+                url: link?.href || null,
+                location: textOf(element, selectors.searchLocation).text,
+                salary: textOf(element, selectors.searchSalary).text,
+                posted: textOf(element, selectors.searchPosted).text,
+                snippet: allTextOf(element, selectors.searchSnippet) || ownText(element),
+            };
+        });
+    }
+    return [];
+}
+
+/**
+ * What a card says about its job, as JobData: the excerpt stands in for the
+ * description, so flags and the toxicity score only see what the card shows
+ */
+export function searchCardJobData(card: SearchResultCard, platform: JobPlatform, now: Date = new Date()): JobData {
+    const posted = parsePostedText(card.posted, now);
+    return {
+        title: card.title,
+        company: card.company,
+        location: card.location,
+        description: card.snippet,
+        requirements: [],
+        datePosted: posted?.datePosted ?? null,
+        datePostedConfidence: posted?.confidence ?? null,
+        validThrough: null,
+        jobAge: posted?.jobAge ?? null,
+        visibleSalary: card.salary || null,
+        hiddenSalary: parseSalaryText(card.salary),
+        salaryMismatch: false,
+        redFlags: [],
+        greenFlags: [],
+        url: card.url ?? '',
+        platform,
+        scrapedAt: now.toISOString(),
+    };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { splitSections } from './sections';
+import { structureDescription } from './requirements';
+
+const ENGLISH_HTML = `
+<p>Acme builds payment APIs for small businesses.</p>
+<p><strong>What you'll do</strong></p>
+<ul><li>Design and ship backend services</li><li>Own on-call for your services.</li></ul>
+<p><strong>Requirements:</strong></p>
+<ul>
+  <li>5+ years of Python or Go</li>
+  <li>Experience with PostgreSQL &amp; Redis</li>
+  <li>Kubernetes experience is a plus</li>
+</ul>
+<h3>Nice to have</h3>
+<ul><li>Fintech background</li></ul>
+<p>Benefits</p>
+<ul><li>Private health insurance</li><li>25 days of paid leave</li></ul>
+`;
+
+const RUSSIAN_HTML = `
+<p>Мы — продуктовая компания.</p>
+<p><strong>Обязанности:</strong></p>
+<ul><li>Разработка микросервисов на Go</li><li>Код-ревью</li></ul>
+<p><strong>Требования:</strong></p>
+<ul><li>Опыт коммерческой разработки от 3 лет</li><li>Знание PostgreSQL</li><li>Опыт с Kafka будет плюсом</li></ul>
+<p><strong>Условия:</strong></p>
+<ul><li>Официальное трудоустройство</li><li>ДМС</li></ul>
+`;
+
+describe('splitSections', () => {
+    it('should split an English description under its headings', () => {
+        expect(splitSections(ENGLISH_HTML)).toEqual({
+            responsibilities: ['Design and ship backend services', 'Own on-call for your services'],
+            mustHave: ['5+ years of Python or Go', 'Experience with PostgreSQL & Redis'],
+            niceToHave: ['Kubernetes experience is a plus', 'Fintech background'],
+            benefits: ['Private health insurance', '25 days of paid leave'],
+        });
+    });
+
+    it('should split a Russian description under its headings', () => {
+        expect(splitSections(RUSSIAN_HTML)).toEqual({
+            responsibilities: ['Разработка микросервисов на Go', 'Код-ревью'],
+            mustHave: ['Опыт коммерческой разработки от 3 лет', 'Знание PostgreSQL'],
+            niceToHave: ['Опыт с Kafka будет плюсом'],
+            benefits: ['Официальное трудоустройство', 'ДМС'],
+        });
+    });
+
+    it('should read plain text with inline headings and bullets', () => {
+        const text = [
+            'Responsibilities: build data pipelines',
+            '• Maintain Airflow DAGs',
+            'Preferred qualifications',
+            '- dbt',
+        ].join('\n');
+
+        expect(splitSections(text)).toEqual({
+            responsibilities: ['build data pipelines', 'Maintain Airflow DAGs'],
+            mustHave: [],
+            niceToHave: ['dbt'],
+            benefits: [],
+        });
+    });
+
+    it('should not take a sentence or a list item for a heading', () => {
+        const text = [
+            'Requirements',
+            'You have shipped production services in a regulated industry',
+            '• Benefits of automation are clear to you',
+        ].join('\n');
+
+        expect(splitSections(text).mustHave).toEqual([
+            'You have shipped production services in a regulated industry',
+            'Benefits of automation are clear to you',
+        ]);
+        expect(splitSections(text).benefits).toEqual([]);
+    });
+
+    it('should leave a description without headings unsplit', () => {
+        expect(splitSections('<p>Join us to build great things with great people.</p>')).toEqual({
+            responsibilities: [],
+            mustHave: [],
+            niceToHave: [],
+            benefits: [],
+        });
+    });
+});
+
+describe('structureDescription', () => {
+    it('should fill empty requirements from the must-have section', () => {
+        const result = structureDescription({ description: ENGLISH_HTML, requirements: [] });
+
+        expect(result.requirements).toEqual(['5+ years of Python or Go', 'Experience with PostgreSQL & Redis']);
+        expect(result.skills).toEqual(['Python', 'Go', 'PostgreSQL', 'Redis', 'Kubernetes']);
+    });
+
+    it('should keep requirements a board parser already found', () => {
+        const result = structureDescription({ description: ENGLISH_HTML, requirements: ['TypeScript'] });
+
+        expect(result.requirements).toEqual(['TypeScript']);
+        expect(result.skills).toContain('TypeScript');
+    });
+});
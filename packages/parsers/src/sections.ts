@@ -0,0 +1,105 @@
+import type { JobSections } from '@job-bodyguard/types';
+
+/**
+ * Description sections: most postings follow the same outline (what you'll
+ * do, what you need, what would be nice, what you get) under headings that
+ * vary by employer and language. Headings are recognised in English and
+ * Russian; every bullet or line under one becomes an item of its section.
+ */
+
+type SectionKey = keyof JobSections;
+
+/** A heading keyword at the start of a line, as whole words */
+function heading(source: string): RegExp {
+    return new RegExp(`^(?:${source})(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+// Checked in order: "Preferred qualifications" is nice-to-have, not a requirement
+const HEADINGS: [SectionKey, RegExp][] = [
+    ['niceToHave', heading(`nice[- ]to[- ]haves?|(?:preferred|desired|bonus)(?:\\s+(?:qualifications|skills|experience|points))?|(?:it'?s\\s+|would\\s+be\\s+)?a\\s+plus|pluses|good\\s+to\\s+have|extra\\s+credit|будет\\s+плюсом|плюсом\\s+будет|будет\\s+преимуществом|желательно|приветствуется`)],
+    ['benefits', heading(`(?:our\\s+)?benefits|perks|(?:what\\s+)?we\\s+offer|our\\s+offer|what'?s\\s+in\\s+it\\s+for\\s+you|why\\s+(?:join|work\\s+with)\\s+us|compensation\\s+(?:and|&)\\s+benefits|(?:что\\s+)?мы\\s+предлагаем|предлагаем|условия(?:\\s+работы)?|наши\\s+преимущества|льготы`)],
+    ['responsibilities', heading(`(?:(?:key|main|core|your)\\s+)?responsibilities|what\\s+you(?:'ll|\\s+will)\\s+(?:do|be\\s+doing)|your\\s+(?:role|mission|tasks)|the\\s+role|duties|in\\s+this\\s+role|day[- ]to[- ]day|(?:ваши\\s+)?обязанности|(?:ваши\\s+)?задачи|чем\\s+(?:предстоит|нужно\\s+будет|вы\\s+будете)\\s+заниматься|что\\s+(?:нужно|предстоит)\\s+делать`)],
+    ['mustHave', heading(`(?:(?:minimum|basic|required|key)\\s+)?(?:requirements|qualifications)|required\\s+skills|must[- ]haves?|what\\s+you(?:'ll|\\s+will)?\\s+need|what\\s+we(?:'re|\\s+are)?\\s+look(?:ing)?\\s+for|who\\s+you\\s+are|about\\s+you|you(?:'ll|\\s+will)?\\s+(?:have|bring)|skills(?:\\s+(?:and|&)\\s+experience)?|требования(?:\\s+к\\s+кандидату)?|(?:что\\s+)?мы\\s+ожидаем|(?:наши\\s+)?ожидания|мы\\s+ж(?:дём|дем)|(?:ключевые|необходимые)\\s+навыки`)],
+];
+
+// A requirement that is really optional ("Go is a plus")
+const OPTIONAL_ITEM = /\b(?:a\s+plus|preferred|nice\s+to\s+have|bonus|is\s+an\s+advantage)\b|будет\s+(?:плюсом|преимуществом)|желательн|приветствуется/iu;
+
+// Words a heading may carry beyond its keyword ("What you'll do at Acme"),
+// a few more when a colon marks it ("What you'll do in your first year:")
+const MAX_HEADING_TAIL_WORDS = 2;
+const MAX_COLON_HEADING_TAIL_WORDS = 5;
+const MAX_HEADING_LENGTH = 60;
+const MAX_ITEMS = 30;
+const BULLET = /^[•·●▪◦‣*–—-]\s*/;
+
+const ENTITIES: Record<string, string> = { amp: '&', nbsp: ' ', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'" };
+
+/**
+ * Plain-text lines of a description; list items are marked with a bullet
+ * so they are never mistaken for headings
+ */
+function descriptionLines(description: string): string[] {
+    return description
+        .replace(/<li\b[^>]*>/gi, '\n• ')
+        .replace(/<\/?(?:p|div|ul|ol|li|h[1-6]|br|tr|section)\b[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&(amp|nbsp|lt|gt|quot|#39|apos);/g, (_, name: string) => ENTITIES[name])
+        .split(/\n|(?=\s•\s)/)
+        .map((line) => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+}
+
+/** The section a heading names, or null when the text isn't a heading */
+function headingSection(text: string, hasColon: boolean): SectionKey | null {
+    const title = text.replace(/[\s:.!]+$/, '');
+    if (!title || title.length > MAX_HEADING_LENGTH) return null;
+
+    for (const [section, pattern] of HEADINGS) {
+        const match = title.match(pattern);
+        if (!match) continue;
+        const tail = title.slice(match[0].length).trim();
+        const words = tail.split(' ').filter(Boolean).length;
+        if (words <= (hasColon ? MAX_COLON_HEADING_TAIL_WORDS : MAX_HEADING_TAIL_WORDS)) return section;
+    }
+    return null;
+}
+
+function emptySections(): JobSections {
+    return { responsibilities: [], mustHave: [], niceToHave: [], benefits: [] };
+}
+
+/**
+ * Split a description (HTML or plain text) into responsibilities,
+ * must-have and nice-to-have requirements, and benefits. Text before the
+ * first heading (the company pitch) belongs to no section.
+ */
+export function splitSections(description: string): JobSections {
+    const sections = emptySections();
+    let current: SectionKey | null = null;
+
+    const add = (section: SectionKey, item: string) => {
+        const text = item.replace(BULLET, '').replace(/[;,.]$/, '').trim();
+        if (text.length < 3) return;
+        const target = section === 'mustHave' && OPTIONAL_ITEM.test(text) ? 'niceToHave' : section;
+        if (sections[target].length < MAX_ITEMS && !sections[target].includes(text)) sections[target].push(text);
+    };
+
+    for (const line of descriptionLines(description)) {
+        const isBullet = BULLET.test(line);
+        if (!isBullet) {
+            // "Requirements: 3+ years of Python" — a heading with its first item inline
+            const colon = line.indexOf(':');
+            const head = colon > 0 ? line.slice(0, colon) : line;
+            const section = headingSection(head, colon > 0);
+            if (section) {
+                current = section;
+                if (colon > 0) add(section, line.slice(colon + 1));
+                continue;
+            }
+        }
+        if (current) add(current, line);
+    }
+
+    return sections;
+}
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { LinkedInParser } from './LinkedInParser';
+import {
+    DEFAULT_SELECTOR_CONFIG,
+    getSelectors,
+    parseSelectorConfig,
+    setSelectorOverrides,
+} from './selectorConfig';
+
+const JOB_URL = 'https://www.linkedin.com/jobs/view/3891234567/';
+
+function page(body: string): Document {
+    return new JSDOM(`<!DOCTYPE html><html><body>${body}</body></html>`, { url: JOB_URL }).window.document;
+}
+
+describe('selector config', () => {
+    afterEach(() => {
+        setSelectorOverrides(null);
+        vi.restoreAllMocks();
+    });
+
+    it('should try candidates in config order and record the match', async () => {
+        const parser = new LinkedInParser();
+        // The guest-view company link comes first in the DOM, but the bullet is listed first for location
+        const doc = page(`
+            <span class="topcard__flavor"><a class="topcard__org-name-link">Acme</a></span>
+            <span class="topcard__flavor topcard__flavor--bullet">Lisbon, Portugal</span>
+        `);
+
+        const data = await parser.extractJobData(doc);
+
+        expect(data.location).toBe('Lisbon, Portugal');
+        expect(parser.getSelectorMatches()).toMatchObject({
+            company: '.topcard__org-name-link',
+            location: '.topcard__flavor--bullet',
+            title: null,
+        });
+    });
+
+    it('should let an override replace a field without touching the others', async () => {
+        const parser = new LinkedInParser();
+        const doc = page(`
+            <div class="renamed-top-card__heading">Platform Engineer</div>
+            <div class="jobs-unified-top-card__company-name">Globex</div>
+        `);
+
+        setSelectorOverrides(parseSelectorConfig({
+            version: DEFAULT_SELECTOR_CONFIG.version,
+            platforms: { linkedin: { title: ['.renamed-top-card__heading'] } },
+        }));
+        const data = await parser.extractJobData(doc);
+
+        expect(data.title).toBe('Platform Engineer');
+        expect(data.company).toBe('Globex');
+        expect(parser.getSelectorMatches().title).toBe('.renamed-top-card__heading');
+        expect(getSelectors('linkedin').company).toEqual(DEFAULT_SELECTOR_CONFIG.platforms.linkedin!.company);
+    });
+
+    it('should ignore an override older than the bundled config', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const applied = setSelectorOverrides({
+            version: DEFAULT_SELECTOR_CONFIG.version - 1,
+            platforms: { linkedin: { title: ['.stale'] } },
+        });
+
+        expect(applied).toBe(false);
+        expect(getSelectors('linkedin').title).not.toContain('.stale');
+    });
+
+    it('should reject malformed configs with a readable message', () => {
+        expect(() => parseSelectorConfig('[]')).toThrow('JSON object');
+        expect(() => parseSelectorConfig({ version: 0, platforms: {} })).toThrow('"version"');
+        expect(() => parseSelectorConfig({ version: 1, platforms: { monster: { title: ['h1'] } } }))
+            .toThrow('Unknown platform "monster"');
+        expect(() => parseSelectorConfig({ version: 1, platforms: { indeed: { title: [] } } }))
+            .toThrow('indeed.title must be a non-empty array');
+        expect(() => parseSelectorConfig({ version: 1, platforms: { 'hh.ru': { title: ['h1[data-qa='] } } }))
+            .toThrow('invalid CSS selector');
+    });
+});
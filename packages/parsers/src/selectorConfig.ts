@@ -0,0 +1,118 @@
+import { PLATFORM_IDS } from '@job-bodyguard/types';
+import type { JobPlatform } from '@job-bodyguard/types';
+import bundledConfig from './selectors.json';
+
+/**
+ * Ordered CSS selector candidates per field ("title", "company", ...).
+ * Parsers try them first to last; the first one that yields content wins.
+ */
+export type FieldSelectors = Record<string, string[]>;
+
+/**
+ * Versioned selector config. The bundled copy lives in selectors.json; users
+ * can load an override (Settings → Parser Selectors) to fix a broken
+ * selector without waiting for a release.
+ */
+export interface SelectorConfig {
+    version: number;
+    updatedAt?: string;
+    platforms: Partial<Record<JobPlatform, FieldSelectors>>;
+}
+
+export const DEFAULT_SELECTOR_CONFIG: SelectorConfig = bundledConfig as SelectorConfig;
+
+let overrideConfig: SelectorConfig | null = null;
+
+/**
+ * Install (or clear) a user override. Overrides written against an older
+ * bundled version are ignored — the release they patched has shipped.
+ */
+export function setSelectorOverrides(config: SelectorConfig | null): boolean {
+    if (config && config.version < DEFAULT_SELECTOR_CONFIG.version) {
+        console.warn(
+            `[Selectors] Ignoring override v${config.version}: bundled selectors are v${DEFAULT_SELECTOR_CONFIG.version}`
+        );
+        overrideConfig = null;
+        return false;
+    }
+    overrideConfig = config;
+    return true;
+}
+
+export function getSelectorOverrides(): SelectorConfig | null {
+    return overrideConfig;
+}
+
+/**
+ * Effective selectors for a platform: override fields replace bundled ones
+ */
+export function getSelectors(platform: JobPlatform): FieldSelectors {
+    return {
+        ...DEFAULT_SELECTOR_CONFIG.platforms[platform],
+        ...overrideConfig?.platforms[platform],
+    };
+}
+
+/**
+ * Validate an untrusted config (imported file, pasted JSON, storage).
+ * Throws an Error describing the first problem found.
+ */
+export function parseSelectorConfig(raw: unknown): SelectorConfig {
+    const data = typeof raw === 'string' ? JSON.parse(raw) as unknown : raw;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Selector config must be a JSON object');
+    }
+
+    const { version, updatedAt, platforms } = data as Record<string, unknown>;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('"version" must be a positive integer');
+    }
+    if (updatedAt !== undefined && typeof updatedAt !== 'string') {
+        throw new Error('"updatedAt" must be a string');
+    }
+    if (!platforms || typeof platforms !== 'object' || Array.isArray(platforms)) {
+        throw new Error('"platforms" must be an object keyed by platform id');
+    }
+
+    const result: SelectorConfig = { version, platforms: {} };
+    if (updatedAt) result.updatedAt = updatedAt;
+
+    for (const [platform, fields] of Object.entries(platforms as Record<string, unknown>)) {
+        if (!(PLATFORM_IDS as string[]).includes(platform)) {
+            throw new Error(`Unknown platform "${platform}"`);
+        }
+        if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+            throw new Error(`"${platform}" must map field names to selector lists`);
+        }
+
+        const parsed: FieldSelectors = {};
+        for (const [field, selectors] of Object.entries(fields as Record<string, unknown>)) {
+            if (!Array.isArray(selectors) || selectors.length === 0) {
+                throw new Error(`${platform}.${field} must be a non-empty array of selectors`);
+            }
+            for (const selector of selectors) {
+                if (typeof selector !== 'string' || !selector.trim()) {
+                    throw new Error(`${platform}.${field} contains an empty selector`);
+                }
+                if (!isValidSelector(selector)) {
+                    throw new Error(`${platform}.${field}: invalid CSS selector "${selector}"`);
+                }
+            }
+            parsed[field] = selectors.map((s: string) => s.trim());
+        }
+        result.platforms[platform as JobPlatform] = parsed;
+    }
+
+    return result;
+}
+
+/** Syntax check where a DOM is available (extension pages, jsdom) */
+function isValidSelector(selector: string): boolean {
+    if (typeof document === 'undefined') return true;
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
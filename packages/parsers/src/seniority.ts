@@ -0,0 +1,69 @@
+import type { JobData, Seniority } from '@job-bodyguard/types';
+
+/**
+ * Seniority from a job or resume title ("Senior Backend Engineer",
+ * "Ведущий разработчик") and required years from requirement text
+ * ("5+ years of Python", "опыт работы от 3 лет").
+ */
+
+function word(source: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+// Checked from the top: "Senior Team Lead" is a lead
+const TITLE_LEVELS: [Seniority, RegExp][] = [
+    ['principal', word('principal|staff|distinguished|главн[а-яё]*')],
+    ['lead', word('lead|head\\s+of|architect|director|тимлид|техлид|ведущ[а-яё]*|руководител[а-яё]*|архитектор[а-яё]*')],
+    ['senior', word('senior|sr\\.?|старш[а-яё]*|сеньор|синьор')],
+    ['middle', word('middle|mid(?:-level)?|intermediate|мидл')],
+    ['junior', word('junior|jr\\.?|entry[- ]level|graduate|младш[а-яё]*|джуниор|джун')],
+    ['intern', word('intern(?:ship)?|trainee|стаж[её]р[а-яё]*|стажировк[а-яё]*|практикант[а-яё]*')],
+];
+
+// "5+ years", "3-5 years", "at least 2 yrs", "от 3 лет", "3+ года", "не менее 1 года"
+const YEARS = /(\d{1,2})(?:[.,]5)?\s*\+?\s*(?:(?:-|–|—|to|до)\s*\d{1,2}\s*)?(?:years?|yrs?|лет|года?)(?![\p{L}])/giu;
+
+const EXPERIENCE_LINE = /experience|опыт/i;
+
+// Asks above this are read as something else ("founded 25 years ago")
+const MAX_REQUIRED_YEARS = 15;
+
+export function titleSeniority(title: string): Seniority | null {
+    for (const [level, pattern] of TITLE_LEVELS) {
+        if (pattern.test(title)) return level;
+    }
+    return null;
+}
+
+/** The level a career of this length usually reaches, for resumes whose titles don't say */
+export function yearsSeniority(years: number): Seniority | null {
+    if (years <= 0) return null;
+    if (years < 2) return 'junior';
+    if (years < 5) return 'middle';
+    return 'senior';
+}
+
+/**
+ * Years of experience a posting asks for: the largest minimum among the
+ * given requirement lines ("5+ years of Go" and "2+ years of AWS" → 5)
+ */
+export function requiredYears(lines: string[]): number | null {
+    let years: number | null = null;
+    for (const line of lines) {
+        for (const match of line.matchAll(YEARS)) {
+            const value = Number(match[1]);
+            if (value > 0 && value <= MAX_REQUIRED_YEARS) years = Math.max(years ?? 0, value);
+        }
+    }
+    return years;
+}
+
+/**
+ * Years a posting asks for: from its requirements, else from the
+ * description's lines about experience
+ */
+export function jobRequiredYears(job: Pick<JobData, 'description' | 'requirements' | 'sections'>): number | null {
+    const required = requiredYears([...(job.sections?.mustHave ?? []), ...job.requirements]);
+    if (required !== null) return required;
+    return requiredYears(job.description.replace(/<[^>]+>/g, '\n').split('\n').filter((line) => EXPERIENCE_LINE.test(line)));
+}
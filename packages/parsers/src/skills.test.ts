@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SKILL_TAXONOMY, extractSkills } from './skills';
+
+describe('extractSkills', () => {
+    it.each<[string, string[]]>([
+        ['Strong JS and TS skills', ['JavaScript', 'TypeScript']],
+        ['Deploys to k8s on AWS', ['Kubernetes', 'AWS']],
+        ['Postgres, Mongo and ClickHouse', ['PostgreSQL', 'MongoDB', 'ClickHouse']],
+        ['Golang microservices', ['Go', 'Microservices']],
+        ['C++ and C# on ASP.NET Core', ['C++', 'C#', '.NET']],
+        ['Опыт с 1С и микросервисами на Питоне', ['1C', 'Microservices', 'Python']],
+        ['Знание машинного обучения и контейнеризации', ['Machine Learning', 'Docker']],
+    ])('should normalise %j', (text, expected) => {
+        expect(extractSkills(text)).toEqual(expected);
+    });
+
+    it('should prefer the longer of overlapping names', () => {
+        expect(extractSkills('React Native and React for web')).toEqual(['React Native', 'React']);
+        expect(extractSkills('Node.js services')).toEqual(['Node.js']);
+        expect(extractSkills('Spring Boot')).toEqual(['Spring']);
+    });
+
+    it('should not read ordinary words as skill names', () => {
+        expect(extractSkills('We go the extra mile. Go-to-market experience; swift decisions; rest days; R&D budget')).toEqual([]);
+        expect(extractSkills('Java developers, not JavaScript')).toEqual(['Java', 'JavaScript']);
+    });
+
+    it('should not read capitalised ordinary words at the start of a sentence as skills', () => {
+        expect(extractSkills('Go beyond the brief. Swift delivery is our motto. Excel at customer care. Spring is here!')).toEqual([]);
+        expect(extractSkills('<p>Rust never sleeps.</p><p>React quickly to incidents and keep the REST API up.</p>')).toEqual(['REST']);
+        expect(extractSkills('<h2>Spark your career</h2><p>Helm the team as it grows.</p>')).toEqual([]);
+    });
+
+    it('should read those words as skills in a tech context', () => {
+        expect(extractSkills('Experience with Go and Kubernetes')).toEqual(['Go', 'Kubernetes']);
+        expect(extractSkills('Build APIs in Go')).toEqual(['Go']);
+        expect(extractSkills('<ul><li>Swift</li><li>Kotlin</li></ul>')).toEqual(['Swift', 'Kotlin']);
+        expect(extractSkills('Go, Rust or Dart')).toEqual(['Go', 'Rust', 'Dart']);
+        expect(extractSkills('Senior Go Developer')).toEqual(['Go']);
+        expect(extractSkills('Languages: Go')).toEqual(['Go']);
+        expect(extractSkills('Опыт работы с Go и Rust')).toEqual(['Go', 'Rust']);
+    });
+
+    it('should strip markup before matching', () => {
+        expect(extractSkills('<li>Python</li><li>SQL&nbsp;and <b>Docker</b></li>')).toEqual(['Python', 'SQL', 'Docker']);
+    });
+
+    it('should have one entry per canonical name', () => {
+        const names = SKILL_TAXONOMY.skills.map((skill) => skill.name);
+        expect(new Set(names).size).toBe(names.length);
+    });
+});
@@ -0,0 +1,154 @@
+import bundledTaxonomy from './skills.json';
+
+/**
+ * Skills taxonomy: canonical skill names with the spellings postings and
+ * resumes use for them ("JS", "k8s", "Postgres"). The bundled list lives in
+ * skills.json; Russian spellings there are stems ("микросервис"), since the
+ * words change their endings with case.
+ */
+
+export interface SkillDefinition {
+    name: string;
+    category: string;
+    synonyms?: string[];
+    /** Match the exact case only — for names that are also ordinary words ("Go", "Swift", "REST") */
+    caseSensitive?: boolean;
+    /**
+     * Spellings that are still ordinary words when capitalised at the start of
+     * a sentence ("Go beyond", "Excel at"); they count only in a tech context
+     */
+    ordinaryWords?: string[];
+}
+
+export interface SkillTaxonomy {
+    version: number;
+    skills: SkillDefinition[];
+}
+
+export const SKILL_TAXONOMY: SkillTaxonomy = bundledTaxonomy as SkillTaxonomy;
+
+interface SkillPattern {
+    name: string;
+    pattern: RegExp;
+    ordinaryWords: string[];
+}
+
+interface SkillMatch {
+    name: string;
+    start: number;
+    end: number;
+    /** Matched one of the skill's `ordinaryWords` */
+    ordinary: boolean;
+}
+
+// Case endings a Russian stem may take ("Питон" → "Питоне", "микросервис" → "микросервисами")
+const CYRILLIC_ENDING = '[а-яё]{0,3}';
+
+// "JS" in "Node.js" or "C" in "C++" is part of a longer name. Names that are
+// also ordinary words don't match inside a hyphenated word ("Go-to-market").
+const BEFORE = '(?<![\\p{L}\\p{N}_.#+])';
+const AFTER = '(?![\\p{L}\\p{N}_#+])';
+const STRICT_AFTER = '(?![\\p{L}\\p{N}_#+&-])';
+
+// Block-level tags end a sentence or list item; other tags are just spacing
+const BLOCK_TAG = /<\/?(?:p|div|li|ul|ol|br|h[1-6]|tr|td|section)\b[^>]*>/gi;
+const SENTENCE_END = /[.!?;\n]/;
+
+// Nothing but list separators between two skills: "Go, Rust and Python", "Go/Rust"
+const LIST_SEPARATOR = /^(?:\s|[,/|+&():]|(?<!\p{L})(?:and|or|и|или)(?!\p{L}))*$/iu;
+// "Experience with Go", "services in Go", "знание Swift"
+const CUE_BEFORE = /(?:\b(?:experience|expertise|knowledge|proficien\w*|familiar\w*|skills?|background|written|programming|coding|stack|languages?|frameworks?|tools?)\b[^.!?;\n]{0,30}|\b(?:in|with|using|on)\s+|(?:опыт\S*|знани\S*|владени\S*)[^.!?;\n]{0,30})$/iu;
+// "Go developer", "Swift engineers"
+const CUE_AFTER = /^\s+(?:developers?|engineers?|programmers?|programming|code|backend|frontend|services?|SDK|apps?|разработчик\S*)\b/iu;
+
+let compiled: SkillPattern[] | null = null;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function skillPatterns(): SkillPattern[] {
+    compiled ??= SKILL_TAXONOMY.skills.map((skill) => {
+        // Longest first, so "Spring Boot" is matched whole rather than as "Spring"
+        const spellings = [skill.name, ...(skill.synonyms ?? [])]
+            .sort((a, b) => b.length - a.length)
+            .map((spelling) => spelling
+            .split(/\s+/)
+            .map((word) => escapeRegExp(word) + (/[а-яё]$/i.test(word) ? CYRILLIC_ENDING : ''))
+            .join('\\s+'));
+        const after = skill.caseSensitive ? STRICT_AFTER : AFTER;
+        return {
+            name: skill.name,
+            pattern: new RegExp(`${BEFORE}(?:${spellings.join('|')})${after}`, skill.caseSensitive ? 'gu' : 'giu'),
+            ordinaryWords: skill.ordinaryWords ?? [],
+        };
+    });
+    return compiled;
+}
+
+/**
+ * Whether an ordinary-word match is meant as the skill: listed next to
+ * another skill, after a cue ("experience with", "in") or before a role
+ * ("Go developer"). "Go beyond" or "Spring is here" is none of these.
+ */
+function inTechContext(plain: string, matches: SkillMatch[], index: number): boolean {
+    const match = matches[index];
+    const listedWith = (other: SkillMatch | undefined) => {
+        if (!other) return false;
+        const between = other.end <= match.start ? plain.slice(other.end, match.start) : plain.slice(match.end, other.start);
+        return LIST_SEPARATOR.test(between);
+    };
+    if (listedWith(matches[index - 1]) || listedWith(matches[index + 1])) return true;
+
+    const before = plain.slice(0, match.start);
+    const sentence = before.slice(lastSentenceEnd(before));
+    return CUE_BEFORE.test(sentence) || CUE_AFTER.test(plain.slice(match.end));
+}
+
+function lastSentenceEnd(text: string): number {
+    for (let i = text.length - 1; i >= 0; i--) {
+        if (SENTENCE_END.test(text[i])) return i + 1;
+    }
+    return 0;
+}
+
+/**
+ * Canonical skills mentioned in the text, in order of first mention. Where
+ * spellings overlap ("React Native" / "React") the longer one wins.
+ */
+export function extractSkills(text: string): string[] {
+    const plain = text
+        .replace(BLOCK_TAG, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+
+    const matches: SkillMatch[] = [];
+    for (const { name, pattern, ordinaryWords } of skillPatterns()) {
+        for (const match of plain.matchAll(pattern)) {
+            matches.push({
+                name,
+                start: match.index!,
+                end: match.index! + match[0].length,
+                ordinary: ordinaryWords.includes(match[0]),
+            });
+        }
+    }
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const kept: SkillMatch[] = [];
+    let coveredUntil = -1;
+    for (const match of matches) {
+        if (match.start < coveredUntil) continue;
+        coveredUntil = match.end;
+        kept.push(match);
+    }
+
+    const skills: string[] = [];
+    kept.forEach((match, i) => {
+        if (match.ordinary && !inTechContext(plain, kept, i)) return;
+        if (!skills.includes(match.name)) skills.push(match.name);
+    });
+    return skills;
+}
+
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TOXICITY_WEIGHTS, resolveToxicityWeights } from '@job-bodyguard/types';
+import type { Flag, JobData } from '@job-bodyguard/types';
+import { FlagAnalyzer } from './FlagAnalyzer';
+import { scoreToxicity } from './toxicity';
+
+function job(overrides: Partial<JobData> = {}): JobData {
+    return {
+        title: 'Backend Engineer',
+        company: 'Acme',
+        location: 'Remote',
+        description: 'Build APIs.',
+        requirements: [],
+        datePosted: null,
+        validThrough: null,
+        jobAge: null,
+        visibleSalary: '$100,000 - $120,000',
+        hiddenSalary: null,
+        salaryMismatch: false,
+        redFlags: [],
+        greenFlags: [],
+        url: 'https://example.com/jobs/1',
+        platform: 'other',
+        scrapedAt: '2024-06-01T12:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function flag(keyword: string, severity: Flag['severity'], category: Flag['category'], confidence?: number): Flag {
+    return { keyword, context: '', severity, category, confidence };
+}
+
+describe('scoreToxicity', () => {
+    it('should score an unremarkable posting with a salary below the baseline', () => {
+        expect(scoreToxicity(job())).toEqual({
+            score: 19,
+            factors: [{ label: 'Salary published', points: -6 }],
+        });
+    });
+
+    it('should add red flags by severity and confidence and take green flags off', () => {
+        const result = scoreToxicity(job({
+            redFlags: [flag('Likely overtime expected', 'high', 'workload', 0.8), flag('Fast-paced environment', 'medium', 'workload', 0.5)],
+            greenFlags: [flag('Health insurance', 'low', 'benefits', 1)],
+        }));
+
+        expect(result.factors).toEqual([
+            { label: 'Likely overtime expected', points: 11 },
+            { label: 'Salary published', points: -6 },
+            { label: 'Fast-paced environment', points: 4 },
+            { label: 'Health insurance', points: -4 },
+        ]);
+        expect(result.score).toBe(25 + 11 - 6 + 4 - 4);
+    });
+
+    it('should score hidden pay, a salary mismatch, age and repost history', () => {
+        const result = scoreToxicity(job({
+            visibleSalary: null,
+            salaryMismatch: true,
+            jobAge: 75,
+            ghostJob: { score: 70, likelihood: 'high', reasons: ['Reposted 3 times'] },
+            redFlags: [flag('Likely ghost job', 'high', 'hiring', 0.8)],
+        }));
+
+        expect(result.factors).toEqual([
+            { label: 'Likely ghost job (70/100)', points: 14 },
+            { label: 'Open for 75 days', points: 12 },
+            { label: 'Salary hidden from the visible text', points: 10 },
+            { label: 'No salary published', points: 8 },
+        ]);
+        expect(result.score).toBe(69);
+    });
+
+    it('should count salary transparency once, not again from the salary flags', () => {
+        const analyzer = new FlagAnalyzer();
+        const published = analyzer.analyze('The pay range is $120,000 - $150,000.');
+        const hidden = analyzer.analyze('We offer a competitive salary.');
+
+        const withRange = scoreToxicity(job({ greenFlags: published.greenFlags }));
+        expect(withRange.factors.filter((factor) => /salary/i.test(factor.label))).toEqual([{ label: 'Salary published', points: -6 }]);
+        expect(withRange.score).toBe(19);
+
+        const withoutRange = scoreToxicity(job({ visibleSalary: null, redFlags: hidden.redFlags }));
+        expect(withoutRange.factors).toEqual([{ label: 'No salary published', points: 8 }]);
+    });
+
+    it('should treat "30+ days ago" as a month old', () => {
+        const result = scoreToxicity(job({ jobAge: 30, datePostedConfidence: 'minimum' }));
+        expect(result.factors).toContainEqual({ label: 'Open for 30+ days', points: 6 });
+    });
+
+    it('should stay within 0-100', () => {
+        const reds = Array.from({ length: 8 }, (_, i) => flag(`Red ${i}`, 'critical', 'culture'));
+        const greens = Array.from({ length: 12 }, (_, i) => flag(`Green ${i}`, 'low', 'benefits'));
+
+        expect(scoreToxicity(job({ redFlags: reds })).score).toBe(100);
+        expect(scoreToxicity(job({ greenFlags: greens })).score).toBe(0);
+    });
+
+    it('should apply tuned weights', () => {
+        const weights = resolveToxicityWeights({ categories: { workload: 0 }, transparentSalary: 0 });
+        const result = new FlagAnalyzer({ toxicityWeights: weights }).scoreToxicity(job({
+            redFlags: [flag('Likely overtime expected', 'high', 'workload', 0.8)],
+        }));
+
+        expect(result).toEqual({ score: 25, factors: [] });
+    });
+
+    it('should fill weights missing from stored settings with the defaults', () => {
+        const weights = resolveToxicityWeights({ redFlag: { critical: 30 } });
+        expect(weights.redFlag).toEqual({ ...DEFAULT_TOXICITY_WEIGHTS.redFlag, critical: 30 });
+        expect(weights.staleJob).toBe(DEFAULT_TOXICITY_WEIGHTS.staleJob);
+    });
+});
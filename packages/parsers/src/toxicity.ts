@@ -0,0 +1,79 @@
+import { DEFAULT_TOXICITY_WEIGHTS, GHOST_JOB_LABELS } from '@job-bodyguard/types';
+import type { Flag, JobData, LocalToxicityScore, ToxicityFactor, ToxicityWeights } from '@job-bodyguard/types';
+
+/**
+ * Rule-based toxicity score. A posting with nothing notable either way
+ * scores the baseline; each flag and metadata signal adds or takes off
+ * points, and every contribution is returned as a factor so the score can
+ * be explained line by line.
+ */
+
+const BASELINE = 25;
+const STALE_DAYS = 30;
+const VERY_STALE_DAYS = 60;
+
+// The ghost-job flag restates the posting history, which is scored on its own
+const GHOST_FLAG_LABELS = new Set(Object.values(GHOST_JOB_LABELS));
+// The salary flags restate the parsed salary, which is scored once below
+const SALARY_FLAG_LABELS = new Set(['Transparent salary', 'Salary not disclosed']);
+
+function flagPoints(flag: Flag, perFlag: number, weights: ToxicityWeights): number {
+    return perFlag * weights.categories[flag.category] * (flag.confidence ?? 1);
+}
+
+function hasSalary(job: JobData): boolean {
+    return !!job.visibleSalary || job.hiddenSalary?.min != null || job.hiddenSalary?.max != null;
+}
+
+function ageFactor(job: JobData, weights: ToxicityWeights): ToxicityFactor | null {
+    const { jobAge, datePostedConfidence } = job;
+    if (jobAge == null) return null;
+    if (jobAge > VERY_STALE_DAYS) return { label: `Open for ${jobAge} days`, points: weights.staleJob * 2 };
+    // "30+ days ago" is a lower bound that already reaches a month
+    if (jobAge > STALE_DAYS || (datePostedConfidence === 'minimum' && jobAge >= STALE_DAYS)) {
+        return { label: `Open for ${datePostedConfidence === 'minimum' ? `${jobAge}+` : jobAge} days`, points: weights.staleJob };
+    }
+    return null;
+}
+
+/**
+ * 0-100 toxicity of a parsed job from its flags, salary transparency, age
+ * and posting history
+ */
+export function scoreToxicity(job: JobData, weights: ToxicityWeights = DEFAULT_TOXICITY_WEIGHTS): LocalToxicityScore {
+    const factors: ToxicityFactor[] = [];
+
+    for (const flag of job.redFlags) {
+        if (GHOST_FLAG_LABELS.has(flag.keyword) || SALARY_FLAG_LABELS.has(flag.keyword)) continue;
+        factors.push({ label: flag.keyword, points: flagPoints(flag, weights.redFlag[flag.severity], weights) });
+    }
+    for (const flag of job.greenFlags) {
+        if (SALARY_FLAG_LABELS.has(flag.keyword)) continue;
+        factors.push({ label: flag.keyword, points: -flagPoints(flag, weights.greenFlag, weights) });
+    }
+
+    factors.push(hasSalary(job)
+        ? { label: 'Salary published', points: -weights.transparentSalary }
+        : { label: 'No salary published', points: weights.hiddenSalary });
+    if (job.salaryMismatch) {
+        factors.push({ label: 'Salary hidden from the visible text', points: weights.salaryMismatch });
+    }
+
+    const age = ageFactor(job, weights);
+    if (age) factors.push(age);
+
+    if (job.ghostJob) {
+        factors.push({
+            label: `${GHOST_JOB_LABELS[job.ghostJob.likelihood]} (${job.ghostJob.score}/100)`,
+            points: (weights.repostHistory * job.ghostJob.score) / 100,
+        });
+    }
+
+    const counted = factors
+        .map((factor) => ({ ...factor, points: Math.round(factor.points) }))
+        .filter((factor) => factor.points !== 0)
+        .sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+    const total = counted.reduce((sum, factor) => sum + factor.points, BASELINE);
+
+    return { score: Math.max(0, Math.min(100, total)), factors: counted };
+}
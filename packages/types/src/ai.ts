@@ -0,0 +1,76 @@
+/**
+ * AI provider settings: which backend analyzes postings, and the model and
+ * sampling options for each one. Ollama and LM Studio run on the user's own
+ * machine, so the posting and the resume never leave it.
+ */
+
+export type AiProviderId = 'openai' | 'anthropic' | 'openai-compatible' | 'ollama' | 'lmstudio';
+
+export const AI_PROVIDER_IDS: AiProviderId[] = ['openai', 'anthropic', 'openai-compatible', 'ollama', 'lmstudio'];
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+    'openai-compatible': 'OpenAI-compatible',
+    ollama: 'Ollama',
+    lmstudio: 'LM Studio',
+};
+
+/** Providers on the user's machine: no API key, and slower models get more time */
+export const LOCAL_AI_PROVIDERS: AiProviderId[] = ['ollama', 'lmstudio'];
+
+/** Providers that refuse requests without an API key */
+export const KEYED_AI_PROVIDERS: AiProviderId[] = ['openai', 'anthropic'];
+
+export interface AiProviderOptions {
+    /** Empty for LM Studio and OpenAI-compatible servers means "whatever model is loaded" */
+    model: string;
+    /** Upper bound on the response length */
+    maxTokens: number;
+    /** 0-2; lower is more deterministic */
+    temperature: number;
+    /** The request is abandoned after this long */
+    timeoutMs: number;
+    /** API root, e.g. "https://api.openai.com/v1" or "http://localhost:11434" */
+    baseUrl: string;
+}
+
+export type AiProviderSettings = Record<AiProviderId, AiProviderOptions>;
+
+export type PartialAiProviderSettings = Partial<Record<AiProviderId, Partial<AiProviderOptions>>>;
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AiProviderSettings = {
+    openai: { model: 'gpt-4o-mini', maxTokens: 2000, temperature: 0.7, timeoutMs: 60_000, baseUrl: 'https://api.openai.com/v1' },
+    anthropic: { model: 'claude-3-5-haiku-latest', maxTokens: 2000, temperature: 0.7, timeoutMs: 60_000, baseUrl: 'https://api.anthropic.com/v1' },
+    'openai-compatible': { model: '', maxTokens: 2000, temperature: 0.7, timeoutMs: 60_000, baseUrl: '' },
+    ollama: { model: 'llama3.1', maxTokens: 2000, temperature: 0.7, timeoutMs: 180_000, baseUrl: 'http://localhost:11434' },
+    lmstudio: { model: '', maxTokens: 2000, temperature: 0.7, timeoutMs: 180_000, baseUrl: 'http://localhost:1234/v1' },
+};
+
+/**
+ * The stored provider id; settings saved before the provider list grew say
+ * 'custom' for an OpenAI-compatible URL
+ */
+export function resolveAiProviderId(id?: string | null): AiProviderId {
+    if (id === 'custom') return 'openai-compatible';
+    return AI_PROVIDER_IDS.includes(id as AiProviderId) ? id as AiProviderId : 'openai';
+}
+
+/**
+ * Stored options over the defaults, per provider. `legacyCustomApiUrl` is
+ * the single custom URL older settings kept; it becomes the
+ * OpenAI-compatible base URL when none is set yet.
+ */
+export function resolveAiProviderSettings(
+    stored?: PartialAiProviderSettings | null,
+    legacyCustomApiUrl = '',
+): AiProviderSettings {
+    const resolved = Object.fromEntries(AI_PROVIDER_IDS.map((id) => [
+        id,
+        { ...DEFAULT_AI_PROVIDER_SETTINGS[id], ...stored?.[id] },
+    ])) as AiProviderSettings;
+    if (!resolved['openai-compatible'].baseUrl && legacyCustomApiUrl) {
+        resolved['openai-compatible'].baseUrl = legacyCustomApiUrl;
+    }
+    return resolved;
+}
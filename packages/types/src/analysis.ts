@@ -55,6 +55,12 @@ export interface AnalysisResult {
 
     /** Human-readable verdict explanation */
     verdictText: string;
+
+    /**
+     * Fields the model got wrong even after a repair attempt, shown as
+     * missing; absent when the whole reply validated
+     */
+    incompleteFields?: string[];
 }
 
 /**
@@ -74,4 +80,6 @@ export interface TailorResult {
     bullets: TailoredBullet[];
     keywordsAdded: string[];
     fullResume: string;
+    /** Fields the model got wrong even after a repair attempt */
+    incompleteFields?: string[];
 }
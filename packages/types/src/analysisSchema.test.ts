@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AnalysisResultSchema,
+    EMPTY_ANALYSIS_RESULT,
+    TailorResultSchema,
+    buildRepairPrompt,
+    checkAiResponse,
+    extractJson,
+    salvageAiResponse,
+} from './analysisSchema';
+
+const VALID_ANALYSIS = {
+    roast: 'Long hours, small print.',
+    toxicityScore: 70,
+    compatibilityScore: 55,
+    redFlags: [{ flag: 'Unpaid overtime', explanation: 'Evenings expected', severity: 'high' }],
+    greenFlags: [{ flag: 'Remote', explanation: 'Fully remote' }],
+    gapAnalysis: { missingSkills: ['Kafka'], suggestions: ['Mention event streaming'] },
+    interviewQuestions: ['How often do people stay late?'],
+    verdict: 'caution',
+    verdictText: 'Ask about hours first.',
+};
+
+describe('extractJson', () => {
+    it('should strip markdown fences', () => {
+        expect(extractJson('```json\n{"roast": "ok"}\n```')).toEqual({ roast: 'ok' });
+        expect(extractJson('```\n{"roast": "ok"}\n```')).toEqual({ roast: 'ok' });
+    });
+
+    it('should drop chatter around the object', () => {
+        expect(extractJson('Here is the JSON you asked for:\n{"roast": "ok"}\nLet me know!')).toEqual({ roast: 'ok' });
+    });
+
+    it('should return null when there is no parsable object', () => {
+        expect(extractJson('I cannot help with that.')).toBeNull();
+        expect(extractJson('{"roast": "cut off')).toBeNull();
+    });
+});
+
+describe('checkAiResponse', () => {
+    it('should accept a valid reply', () => {
+        expect(checkAiResponse(JSON.stringify(VALID_ANALYSIS), AnalysisResultSchema)).toEqual({ ok: true, data: VALID_ANALYSIS });
+    });
+
+    it('should read scores sent as text and clamp them to 0-100', () => {
+        const reply = JSON.stringify({ ...VALID_ANALYSIS, toxicityScore: '70%', compatibilityScore: 140 });
+        const check = checkAiResponse(reply, AnalysisResultSchema);
+        expect(check.ok && [check.data.toxicityScore, check.data.compatibilityScore]).toEqual([70, 100]);
+
+        const negative = checkAiResponse(JSON.stringify({ ...VALID_ANALYSIS, toxicityScore: '-5', compatibilityScore: '62.6/100' }), AnalysisResultSchema);
+        expect(negative.ok && [negative.data.toxicityScore, negative.data.compatibilityScore]).toEqual([0, 63]);
+    });
+
+    it('should normalise keywords and fill flag defaults', () => {
+        const reply = JSON.stringify({
+            ...VALID_ANALYSIS,
+            verdict: 'Strong apply',
+            redFlags: [{ flag: 'On-call', severity: 'High' }, { flag: 'Vague pay', severity: 'extreme' }, 'Unlimited PTO'],
+            greenFlags: 'Remote',
+        });
+        const check = checkAiResponse(reply, AnalysisResultSchema);
+
+        expect(check.ok).toBe(true);
+        if (!check.ok) return;
+        expect(check.data.verdict).toBe('strong_apply');
+        expect(check.data.redFlags).toEqual([
+            { flag: 'On-call', explanation: '', severity: 'high' },
+            // An unknown severity falls back to medium rather than failing the reply
+            { flag: 'Vague pay', explanation: '', severity: 'medium' },
+            { flag: 'Unlimited PTO', explanation: '', severity: 'medium' },
+        ]);
+        expect(check.data.greenFlags).toEqual([{ flag: 'Remote', explanation: '' }]);
+    });
+
+    it('should list what is wrong with an invalid reply', () => {
+        const { roast: _roast, ...withoutRoast } = VALID_ANALYSIS;
+        const check = checkAiResponse(JSON.stringify({ ...withoutRoast, verdict: 'maybe', toxicityScore: 'high' }), AnalysisResultSchema);
+
+        expect(check.ok).toBe(false);
+        if (check.ok) return;
+        expect(check.errors).toHaveLength(3);
+        expect(check.errors.map((error) => error.split(':')[0]).sort()).toEqual(['roast', 'toxicityScore', 'verdict']);
+        expect(check.value).toMatchObject({ verdict: 'maybe' });
+    });
+
+    it('should reject a reply that is not a JSON object', () => {
+        expect(checkAiResponse('Sorry, no.', AnalysisResultSchema)).toEqual({
+            ok: false,
+            errors: ['(root): The reply is not a JSON object'],
+            value: null,
+        });
+        expect(checkAiResponse('[1, 2]', AnalysisResultSchema).ok).toBe(false);
+    });
+
+    it('should default the tailor fields the model is not asked for', () => {
+        const check = checkAiResponse(JSON.stringify({ summary: 'Backend engineer', bullets: [{ original: 'a', tailored: 'b' }] }), TailorResultSchema);
+        expect(check).toEqual({
+            ok: true,
+            data: {
+                summary: 'Backend engineer',
+                bullets: [{ original: 'a', tailored: 'b', reasoning: '' }],
+                keywordsAdded: [],
+                fullResume: '',
+            },
+        });
+    });
+});
+
+describe('salvageAiResponse', () => {
+    it('should keep the valid fields, default the rest and list them', () => {
+        const salvaged = salvageAiResponse(
+            { roast: 'Long hours.', toxicityScore: 'lots', verdict: 'apply', interviewQuestions: 'Why the turnover?' },
+            AnalysisResultSchema,
+            EMPTY_ANALYSIS_RESULT,
+        );
+
+        expect(salvaged).toEqual({
+            ...EMPTY_ANALYSIS_RESULT,
+            roast: 'Long hours.',
+            verdict: 'apply',
+            interviewQuestions: ['Why the turnover?'],
+            incompleteFields: ['toxicityScore', 'compatibilityScore', 'redFlags', 'greenFlags', 'gapAnalysis', 'verdictText'],
+        });
+    });
+
+    it('should keep the list items that validate', () => {
+        const salvaged = salvageAiResponse(
+            { redFlags: [{ flag: 'On-call', severity: 'low' }, { severity: 'high' }, 42] },
+            AnalysisResultSchema,
+            EMPTY_ANALYSIS_RESULT,
+        );
+
+        expect(salvaged.redFlags).toEqual([{ flag: 'On-call', explanation: '', severity: 'low' }]);
+        expect(salvaged.incompleteFields).toContain('redFlags');
+    });
+
+    it('should default everything when there is nothing to read', () => {
+        const salvaged = salvageAiResponse(null, AnalysisResultSchema, EMPTY_ANALYSIS_RESULT);
+        expect(salvaged).toMatchObject(EMPTY_ANALYSIS_RESULT);
+        expect(salvaged.incompleteFields).toEqual(Object.keys(AnalysisResultSchema.shape));
+    });
+});
+
+describe('buildRepairPrompt', () => {
+    it('should give the model its reply and what was wrong with it', () => {
+        const prompt = buildRepairPrompt('Analyze this job.', '{"verdict": "maybe"}', ['verdict: Invalid enum value']);
+
+        expect(prompt.startsWith('Analyze this job.')).toBe(true);
+        expect(prompt).toContain('## YOUR PREVIOUS REPLY\n{"verdict": "maybe"}');
+        expect(prompt).toContain('## PROBLEMS WITH IT\n- verdict: Invalid enum value');
+    });
+
+    it('should cut a very long reply', () => {
+        const prompt = buildRepairPrompt('Analyze.', 'x'.repeat(10_000), []);
+        expect(prompt).toContain('x'.repeat(6000));
+        expect(prompt).not.toContain('x'.repeat(6001));
+    });
+});
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import type { AnalysisResult, TailorResult } from './analysis';
+
+/**
+ * Schemas for what the AI sends back, shared by the extension and the web
+ * API. Models get the shape right most of the time but not always: they
+ * wrap the JSON in markdown fences, send scores as "70" or "70%", or write
+ * "High" for a severity. The schemas coerce those; anything still wrong is
+ * reported so the caller can ask the model once more, and after that the
+ * reply is salvaged field by field.
+ */
+
+function clampScore(value: number): number {
+    return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+// "70", "70%", "70/100" → 70, clamped to 0-100
+const score = z.preprocess(
+    (value) => typeof value === 'string' ? Number.parseFloat(value.replace(',', '.')) : value,
+    z.number().finite(),
+).transform(clampScore);
+
+// "High" → "high", "Strong apply" → "strong_apply"
+function keyword<const T extends [string, ...string[]]>(values: T) {
+    return z.preprocess(
+        (value) => typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : value,
+        z.enum(values),
+    );
+}
+
+// A bare string where a list was asked for is a list of one
+function list<T extends z.ZodTypeAny>(item: T) {
+    return z.preprocess((value) => typeof value === 'string' ? [value] : value, z.array(item));
+}
+
+const text = z.preprocess((value) => typeof value === 'number' ? String(value) : value, z.string());
+
+// A flag sent as a bare title ("Unpaid overtime") has no explanation
+function flag<T extends z.ZodRawShape>(shape: T) {
+    return z.preprocess((value) => typeof value === 'string' ? { flag: value } : value, z.object(shape));
+}
+
+export const AnalyzedRedFlagSchema = flag({
+    flag: text,
+    explanation: text.default(''),
+    severity: keyword(['low', 'medium', 'high', 'critical']).catch('medium'),
+});
+
+export const AnalyzedGreenFlagSchema = flag({
+    flag: text,
+    explanation: text.default(''),
+});
+
+export const AnalysisResultSchema = z.object({
+    roast: text,
+    toxicityScore: score,
+    compatibilityScore: score,
+    redFlags: list(AnalyzedRedFlagSchema),
+    greenFlags: list(AnalyzedGreenFlagSchema),
+    gapAnalysis: z.object({
+        missingSkills: list(text).default([]),
+        suggestions: list(text).default([]),
+    }),
+    interviewQuestions: list(text),
+    verdict: keyword(['strong_apply', 'apply', 'caution', 'skip']),
+    verdictText: text,
+});
+
+export const TailorResultSchema = z.object({
+    summary: text,
+    bullets: list(z.object({
+        original: text,
+        tailored: text,
+        reasoning: text.default(''),
+    })),
+    keywordsAdded: list(text).default([]),
+    // Put together by the caller from the bullets, not asked of the model
+    fullResume: text.default(''),
+});
+
+/** What a field falls back to when the model's value can't be used */
+export const EMPTY_ANALYSIS_RESULT: AnalysisResult = {
+    roast: '',
+    toxicityScore: 50,
+    compatibilityScore: 50,
+    redFlags: [],
+    greenFlags: [],
+    gapAnalysis: { missingSkills: [], suggestions: [] },
+    interviewQuestions: [],
+    verdict: 'caution',
+    verdictText: '',
+};
+
+export const EMPTY_TAILOR_RESULT: TailorResult = {
+    summary: '',
+    bullets: [],
+    keywordsAdded: [],
+    fullResume: '',
+};
+
+export type AiResponseCheck<T> =
+    | { ok: true; data: T }
+    | { ok: false; errors: string[]; value: unknown };
+
+/**
+ * The JSON object in a model's reply: markdown fences and any chatter
+ * around the object are dropped. Null when there is no parsable object.
+ */
+export function extractJson(reply: string): unknown {
+    const unfenced = reply.replace(/^\s*```[a-z]*\s*\n?/i, '').replace(/\n?\s*```\s*$/, '');
+    try {
+        return JSON.parse(unfenced);
+    } catch {
+        const start = unfenced.indexOf('{');
+        const end = unfenced.lastIndexOf('}');
+        if (start < 0 || end <= start) return null;
+        try {
+            return JSON.parse(unfenced.slice(start, end + 1));
+        } catch {
+            return null;
+        }
+    }
+}
+
+/** Validation errors as lines a model can act on ("toxicityScore: Expected number, received string") */
+function describeIssues(error: z.ZodError): string[] {
+    return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/** Parse and validate a model's reply against one of the schemas above */
+export function checkAiResponse<T>(reply: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): AiResponseCheck<T> {
+    const value = extractJson(reply);
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return { ok: false, errors: ['(root): The reply is not a JSON object'], value: null };
+    }
+    const parsed = schema.safeParse(value);
+    return parsed.success ? { ok: true, data: parsed.data } : { ok: false, errors: describeIssues(parsed.error), value };
+}
+
+/**
+ * What can be kept of an invalid reply: every field that validates on its
+ * own, list items that validate kept and the rest dropped, and defaults
+ * for the others. `incompleteFields` names the fields that fell back.
+ */
+export function salvageAiResponse<T extends object>(
+    value: unknown,
+    schema: z.AnyZodObject,
+    defaults: T,
+): T & { incompleteFields: string[] } {
+    const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...(defaults as Record<string, unknown>) };
+    const incompleteFields: string[] = [];
+
+    for (const [field, fieldSchema] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+        const parsed = fieldSchema.safeParse(source[field]);
+        if (parsed.success) {
+            result[field] = parsed.data;
+            continue;
+        }
+        incompleteFields.push(field);
+        const items = Array.isArray(source[field]) ? source[field] as unknown[] : null;
+        const itemSchema = items && unwrapArray(fieldSchema);
+        if (items && itemSchema) {
+            result[field] = items.flatMap((item) => {
+                const parsedItem = itemSchema.safeParse(item);
+                return parsedItem.success ? [parsedItem.data] : [];
+            });
+        }
+    }
+    return { ...result, incompleteFields } as T & { incompleteFields: string[] };
+}
+
+/** The item schema of a `list()` field */
+function unwrapArray(schema: z.ZodTypeAny): z.ZodTypeAny | null {
+    let current = schema;
+    while (current instanceof z.ZodEffects || current instanceof z.ZodDefault) {
+        current = current instanceof z.ZodEffects ? current.innerType() : current.removeDefault();
+    }
+    return current instanceof z.ZodArray ? current.element : null;
+}
+
+/** The prompt for the one repair attempt: the original task, the bad reply, and what was wrong with it */
+export function buildRepairPrompt(prompt: string, reply: string, errors: string[]): string {
+    return `${prompt}
+
+## YOUR PREVIOUS REPLY
+${reply.substring(0, 6000)}
+
+## PROBLEMS WITH IT
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with the complete, corrected JSON object only: no markdown, no commentary.`;
+}
@@ -1,4 +1,5 @@
-import { JobData, JobPlatform } from './job';
+import { JobData } from './job';
+import { JobPlatform } from './platforms';
 import { AnalysisResult } from './analysis';
 
 /**
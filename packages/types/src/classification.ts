@@ -0,0 +1,63 @@
+/**
+ * What kind of job a posting is: level, contract, where the work happens
+ * and whether a visa is sponsored. Boards that publish these as structured
+ * fields (JSON-LD, hh.ru) are read first; the description fills the rest.
+ */
+
+/** Career levels, most junior first */
+export const SENIORITY_LEVELS = ['intern', 'junior', 'middle', 'senior', 'lead', 'principal'] as const;
+
+export type Seniority = (typeof SENIORITY_LEVELS)[number];
+
+export const EMPLOYMENT_TYPES = ['full-time', 'part-time', 'contract', 'freelance'] as const;
+
+export type EmploymentType = (typeof EMPLOYMENT_TYPES)[number];
+
+export const WORK_MODES = ['onsite', 'hybrid', 'remote'] as const;
+
+export type WorkModeKind = (typeof WORK_MODES)[number];
+
+export interface WorkMode {
+    mode: WorkModeKind;
+    /** Days a week in the office, for hybrid roles that say ("3 days in office") */
+    officeDays: number | null;
+    /** Where remote applicants may live ("USA", "EU"); empty when anywhere or not said */
+    regions: string[];
+}
+
+export type VisaSponsorship = 'offered' | 'not-offered';
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+    intern: 'Intern',
+    junior: 'Junior',
+    middle: 'Middle',
+    senior: 'Senior',
+    lead: 'Lead',
+    principal: 'Principal',
+};
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+    'full-time': 'Full-time',
+    'part-time': 'Part-time',
+    contract: 'Contract',
+    freelance: 'Freelance',
+};
+
+export const WORK_MODE_LABELS: Record<WorkModeKind, string> = {
+    onsite: 'On-site',
+    hybrid: 'Hybrid',
+    remote: 'Remote',
+};
+
+export const VISA_SPONSORSHIP_LABELS: Record<VisaSponsorship, string> = {
+    offered: 'Visa sponsorship',
+    'not-offered': 'No visa sponsorship',
+};
+
+/** "Hybrid · 3 days in office", "Remote (USA, Canada)" */
+export function formatWorkMode(workMode: WorkMode): string {
+    let label = WORK_MODE_LABELS[workMode.mode];
+    if (workMode.regions.length > 0) label += ` (${workMode.regions.join(', ')})`;
+    if (workMode.officeDays) label += ` · ${workMode.officeDays} day${workMode.officeDays === 1 ? '' : 's'} in office`;
+    return label;
+}
@@ -0,0 +1,22 @@
+/**
+ * Companies the user never wants to see again (and recruiting agencies
+ * that spam reposts) and the ones they would like to work for. Kept in the
+ * synced `settings` object (Settings → Companies).
+ */
+
+/** What search result lists do with a blocked company's cards */
+export type BlockedCompanyDisplay = 'dim' | 'hide';
+
+export interface CompanyLists {
+    blocked: string[];
+    favourites: string[];
+    blockedDisplay: BlockedCompanyDisplay;
+}
+
+export type CompanyListStatus = 'blocked' | 'favourite';
+
+export const DEFAULT_COMPANY_LISTS: CompanyLists = {
+    blocked: [],
+    favourites: [],
+    blockedDisplay: 'dim',
+};
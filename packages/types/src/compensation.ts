@@ -0,0 +1,152 @@
+import type { SalaryData } from './job';
+
+/**
+ * Salary normalisation: any SalaryData → annual figures in the user's
+ * preferred currency, compared with their target range. Rates come from a
+ * user-editable table in settings, so nothing here touches the network.
+ */
+
+/** Units of each currency per 1 USD */
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CAD: 1.37,
+    AUD: 1.51,
+    CHF: 0.9,
+    PLN: 3.95,
+    SEK: 10.5,
+    INR: 83.5,
+    RUB: 90,
+    UAH: 41,
+    KZT: 470,
+    BYN: 3.27,
+};
+
+export interface CompensationPreferences {
+    /** ISO code every salary is converted to */
+    currency: string;
+    /** Annual floor in `currency`; jobs that can't reach it get a red flag */
+    targetMin: number | null;
+    /** Annual upper end of the target range */
+    targetMax: number | null;
+    exchangeRates: ExchangeRates;
+}
+
+export const DEFAULT_COMPENSATION_PREFERENCES: CompensationPreferences = {
+    currency: 'USD',
+    targetMin: null,
+    targetMax: null,
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+};
+
+export interface AnnualSalary {
+    min: number | null;
+    max: number | null;
+    currency: string;
+}
+
+export type SalaryComparison = 'below' | 'within' | 'above';
+
+export const SALARY_COMPARISON_LABELS: Record<SalaryComparison, string> = {
+    below: 'Below your target',
+    within: 'Within your target',
+    above: 'Above your target',
+};
+
+/** Full-time working year: 52 weeks × 5 days × 8 hours */
+export const ANNUAL_MULTIPLIERS: Record<SalaryData['period'], number> = {
+    YEAR: 1,
+    MONTH: 12,
+    WEEK: 52,
+    DAY: 260,
+    HOUR: 2080,
+};
+
+/**
+ * Convert between currencies via their USD rates; null when either rate is
+ * missing from the table
+ */
+export function convertCurrency(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+    if (from === to) return amount;
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+}
+
+/**
+ * Annualise a salary and convert it to the preferred currency
+ */
+export function normalizeSalary(
+    salary: SalaryData | null | undefined,
+    preferences: CompensationPreferences,
+): AnnualSalary | null {
+    if (!salary || (salary.min == null && salary.max == null)) return null;
+
+    const multiplier = ANNUAL_MULTIPLIERS[salary.period] ?? 1;
+    const convert = (value: number | null) => {
+        if (value == null) return null;
+        const converted = convertCurrency(value * multiplier, salary.currency, preferences.currency, preferences.exchangeRates);
+        return converted == null ? null : Math.round(converted);
+    };
+
+    const min = convert(salary.min);
+    const max = convert(salary.max);
+    if (min == null && max == null) return null;
+
+    return { min, max, currency: preferences.currency };
+}
+
+/**
+ * Place a salary relative to the user's target. Open-ended offers ("from X")
+ * are judged by the figure they give. Null without a target or a salary that
+ * can be converted.
+ */
+export function compareToTarget(
+    salary: SalaryData | null | undefined,
+    preferences: CompensationPreferences,
+): SalaryComparison | null {
+    const { targetMin, targetMax } = preferences;
+    if (targetMin == null && targetMax == null) return null;
+
+    const annual = normalizeSalary(salary, preferences);
+    if (!annual) return null;
+
+    const low = annual.min ?? annual.max!;
+    const high = annual.max ?? annual.min!;
+
+    if (targetMin != null && high < targetMin) return 'below';
+    if (targetMax != null && low > targetMax) return 'above';
+    return 'within';
+}
+
+/**
+ * Compact money label: "$52K", "₽1.8M"
+ */
+export function formatAnnualAmount(amount: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            notation: 'compact',
+            minimumFractionDigits: 0,
+            maximumFractionDigits: 1,
+        }).format(amount);
+    } catch {
+        return `${Math.round(amount / 1000)}K ${currency}`;
+    }
+}
+
+/**
+ * "$52K–$65K/yr", "$52K+/yr", "Up to $65K/yr"
+ */
+export function formatAnnualSalary({ min, max, currency }: AnnualSalary): string {
+    const fmt = (v: number) => formatAnnualAmount(v, currency);
+    if (min != null && max != null && min !== max) return `${fmt(min)}–${fmt(max)}/yr`;
+    if (min != null && max != null) return `${fmt(min)}/yr`;
+    if (min != null) return `${fmt(min)}+/yr`;
+    return `Up to ${fmt(max!)}/yr`;
+}
@@ -0,0 +1,41 @@
+import type { JobPlatform } from './platforms';
+
+/**
+ * How a parse run ended:
+ *  - success: title and company found
+ *  - partial: only one of title / company found (job is still shown)
+ *  - failed:  every attempt came back empty
+ *  - error:   the parser threw
+ */
+export type ParseOutcome = 'success' | 'partial' | 'failed' | 'error';
+
+/**
+ * One record per content-script parse run, kept in chrome.storage.local
+ * (newest first) and shown in Settings → Diagnostics
+ */
+export interface ParseDiagnostic {
+    id: string;
+    url: string;
+    platform: JobPlatform;
+    outcome: ParseOutcome;
+    startedAt: string; // ISO timestamp
+    attempts: number;
+    maxAttempts: number;
+    /** Wall time of the whole run, including retry delays */
+    durationMs: number;
+    /** Time spent in the last extractJobData() call */
+    extractMs: number;
+    /** JobData fields that came back empty on the last attempt */
+    emptyFields: string[];
+    /** Field → selector that matched (null = no candidate matched) */
+    selectorMatches: Record<string, string | null>;
+    hasJsonLd: boolean;
+    title?: string;
+    company?: string;
+    error?: string;
+    /**
+     * Trimmed page HTML for failed / partial runs, so the report can be
+     * turned into a parser fixture
+     */
+    htmlSnapshot?: string;
+}
@@ -0,0 +1,43 @@
+import type { Flag } from './job';
+
+/**
+ * User-defined flag rules (Settings → Flag Rules), stored in
+ * chrome.storage.sync under `flagRules` and merged with the built-in
+ * language packs whenever a job is analysed.
+ */
+
+export type FlagRuleKind = 'red' | 'green';
+
+/** keyword: a literal phrase matched as whole words; regex: a JS pattern (case-insensitive) */
+export type FlagRuleMatch = 'keyword' | 'regex';
+
+export interface FlagRule {
+    id: string;
+    kind: FlagRuleKind;
+    /** Shown as the flag's keyword; a rule with a built-in rule's label replaces it */
+    label: string;
+    category: Flag['category'];
+    severity: Flag['severity'];
+    match: FlagRuleMatch;
+    pattern: string;
+    enabled: boolean;
+}
+
+export interface FlagRuleSet {
+    version: 1;
+    rules: FlagRule[];
+    /** Labels of built-in rules the user switched off */
+    disabledBuiltIns: string[];
+}
+
+export const EMPTY_FLAG_RULE_SET: FlagRuleSet = {
+    version: 1,
+    rules: [],
+    disabledBuiltIns: [],
+};
+
+export const FLAG_CATEGORIES: Flag['category'][] = [
+    'culture', 'workload', 'management', 'compensation', 'growth', 'flexibility', 'benefits', 'hiring',
+];
+
+export const FLAG_SEVERITIES: Flag['severity'][] = ['low', 'medium', 'high', 'critical'];
@@ -1,11 +1,44 @@
 // Job types
 export * from './job';
 
+// Seniority, employment type, work mode
+export * from './classification';
+
+// Blocked and favourite companies
+export * from './companyLists';
+
+// Platform registry
+export * from './platforms';
+
+// Salary normalisation
+export * from './compensation';
+
 // Analysis types
 export * from './analysis';
 
+// Validation of AI replies
+export * from './analysisSchema';
+
 // Resume types
 export * from './resume';
 
 // Application types
 export * from './application';
+
+// Parser diagnostics
+export * from './diagnostics';
+
+// Posting history / ghost jobs
+export * from './postingHistory';
+
+// User-defined flag rules
+export * from './flagRules';
+
+// Local toxicity score
+export * from './toxicity';
+
+// Offline resume match
+export * from './match';
+
+// AI providers
+export * from './ai';
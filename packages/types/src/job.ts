@@ -1,3 +1,8 @@
+import type { EmploymentType, Seniority, VisaSponsorship, WorkMode } from './classification';
+import type { JobPlatform } from './platforms';
+import type { GhostJobAssessment } from './postingHistory';
+import type { LocalToxicityScore } from './toxicity';
+
 /**
  * Flag found in job posting
  */
@@ -9,7 +14,11 @@ export interface Flag {
     /** Severity level */
     severity: 'low' | 'medium' | 'high' | 'critical';
     /** Category of concern */
-    category: 'culture' | 'workload' | 'management' | 'compensation' | 'growth' | 'flexibility' | 'benefits';
+    category: 'culture' | 'workload' | 'management' | 'compensation' | 'growth' | 'flexibility' | 'benefits' | 'hiring';
+    /** 0-1, how sure the local analyzer is that the flag applies (absent on AI flags) */
+    confidence?: number;
+    /** The phrase as the posting words it, for highlighting it on the page (local flags only) */
+    match?: string;
 }
 
 /**
@@ -18,10 +27,45 @@ export interface Flag {
 export interface SalaryData {
     min: number | null;
     max: number | null;
-    currency: string;
-    period: 'YEAR' | 'MONTH' | 'HOUR';
+    currency: string; // ISO 4217 code
+    period: 'YEAR' | 'MONTH' | 'WEEK' | 'DAY' | 'HOUR';
+    /** Before or after income tax, when the posting says so ("на руки" = NET) */
+    taxBasis?: 'GROSS' | 'NET';
+}
+
+/**
+ * One listing of a saved job. The same role found on several boards is kept
+ * as a single saved job with one source per listing.
+ */
+export interface JobSource {
+    platform: JobPlatform;
+    url: string;
+    savedAt: string;
+}
+
+/**
+ * A description split into its usual parts, one entry per bullet or line
+ */
+export interface JobSections {
+    responsibilities: string[];
+    mustHave: string[];
+    niceToHave: string[];
+    benefits: string[];
 }
 
+/**
+ * Language of a posting's description; picks the flag rule packs that run
+ */
+export type JobLanguage = 'en' | 'ru';
+
+/**
+ * How much to trust `datePosted`:
+ * - exact: a published date, or a day-level count ("3 days ago", "вчера")
+ * - approximate: a coarse count ("2 weeks ago", "месяц назад")
+ * - minimum: an open-ended count ("30+ days ago"), the job is at least that old
+ */
+export type DateConfidence = 'exact' | 'approximate' | 'minimum';
+
 /**
  * Complete job data extracted from a job posting page
  */
@@ -32,28 +76,47 @@ export interface JobData {
     location: string;
     description: string;
     requirements: string[];
+    department?: string | null;
+    language?: JobLanguage | null;
+    sections?: JobSections | null;
+    /** Canonical skill names from the skills taxonomy, in order of appearance */
+    skills?: string[];
 
     // Hidden Metadata
     datePosted: string | null;
     validThrough: string | null;
     jobAge: number | null; // days since posted
+    datePostedConfidence?: DateConfidence | null;
 
     // Salary
     visibleSalary: string | null;
     hiddenSalary: SalaryData | null;
     salaryMismatch: boolean;
 
+    // Employer reputation (boards that publish reviews, e.g. Glassdoor)
+    employerRating?: number | null; // 0-5 stars
+    employerReviewCount?: number | null;
+    estimatedSalary?: SalaryData | null; // board estimate, not employer-provided
+
+    // Employment details: board fields first (JSON-LD, hh.ru), then the description (classifyJob)
+    seniority?: Seniority | null;
+    employmentType?: EmploymentType | null;
+    workMode?: WorkMode | null;
+    visaSponsorship?: VisaSponsorship | null;
+    jobLocationType?: string | null; // schema.org value as published, e.g. TELECOMMUTE
+
+    // Reposts / long-open roles, from the posting history (content script)
+    ghostJob?: GhostJobAssessment | null;
+
     // Flags
     redFlags: Flag[];
     greenFlags: Flag[];
 
+    // Rule-based toxicity from the flags and metadata above (FlagAnalyzer)
+    localToxicity?: LocalToxicityScore | null;
+
     // Meta
     url: string;
     platform: JobPlatform;
     scrapedAt: string;
 }
-
-/**
- * Supported job platforms
- */
-export type JobPlatform = 'linkedin' | 'indeed' | 'other';
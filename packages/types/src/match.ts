@@ -0,0 +1,39 @@
+import type { Seniority } from './classification';
+
+/**
+ * Offline resume-to-job match: how much of a posting the user's resume
+ * covers, computed without an AI call (parsers `matchResume`).
+ */
+
+export interface SkillCoverage {
+    matched: string[];
+    missing: string[];
+}
+
+export interface ResumeMatch {
+    /** 0-100, higher = better fit */
+    score: number;
+
+    /** Skills from the requirements / must-have section */
+    mustHave: SkillCoverage;
+
+    /** Skills from the nice-to-have section */
+    niceToHave: SkillCoverage;
+
+    /** Years of experience the posting asks for, null when it doesn't say */
+    requiredYears: number | null;
+
+    /** Years covered by the resume's experience entries, overlaps counted once */
+    resumeYears: number;
+
+    jobSeniority: Seniority | null;
+    resumeSeniority: Seniority | null;
+}
+
+export type MatchLevel = 'strong' | 'partial' | 'weak';
+
+export function matchLevel(score: number): MatchLevel {
+    if (score >= 70) return 'strong';
+    if (score >= 40) return 'partial';
+    return 'weak';
+}
@@ -0,0 +1,136 @@
+/**
+ * Registry of supported job platforms.
+ *
+ * Everything platform-specific outside the parsers' DOM logic derives from
+ * this list: the JobPlatform type, URL matching in parsers and the
+ * extension background, dashboard labels and the API validation schemas.
+ * supabase/schema.sql keeps a copy of the ids in its platform CHECK
+ * constraint — update it when adding an entry here.
+ */
+
+export interface PlatformInfo {
+    id: string;
+    name: string; // display name
+    icon: string; // emoji, rendered as text in dashboards
+    hostPatterns: readonly RegExp[]; // matched against the URL hostname
+    jobUrlPatterns: readonly RegExp[]; // matched against the full URL of a single-job view
+}
+
+export const PLATFORMS = [
+    {
+        id: 'linkedin',
+        name: 'LinkedIn',
+        icon: '💼',
+        hostPatterns: [/(^|\.)linkedin\.com$/],
+        jobUrlPatterns: [
+            /linkedin\.com\/jobs\/view\/([^/?#]+)/,
+            /linkedin\.com\/jobs\/(?:search|recommended|collections)\/.*[?&]currentJobId=(\d+)/,
+            // Some regional sites use /jobs/ root with currentJobId
+            /linkedin\.com\/jobs[/?].*[?&]currentJobId=(\d+)/,
+        ],
+    },
+    {
+        id: 'indeed',
+        name: 'Indeed',
+        icon: '🔎',
+        hostPatterns: [/(^|\.)indeed\.com$/],
+        jobUrlPatterns: [
+            /indeed\.com\/(m\/)?viewjob/,
+            /indeed\.com\/rc\/clk/,
+            /indeed\.com\/(m\/)?jobs/,
+            /indeed\.com\/pagead/,
+            /indeed\.com\/.*vjk=/, // split-pane with vjk= param (e.g. /?vjk=..., /jobs?...&vjk=...)
+            /indeed\.com\/.*[?&]jk=/, // direct job link with jk= param
+        ],
+    },
+    {
+        id: 'hh.ru',
+        name: 'hh.ru',
+        icon: '🇷🇺',
+        hostPatterns: [/(^|\.)hh\.ru$/, /(^|\.)headhunter\.ru$/],
+        jobUrlPatterns: [
+            /^https?:\/\/([\w-]+\.)?hh\.ru\/vacancy\/\d+/,
+            /^https?:\/\/([\w-]+\.)?headhunter\.ru\/vacancy\/\d+/,
+        ],
+    },
+    {
+        id: 'glassdoor',
+        name: 'Glassdoor',
+        icon: '🚪',
+        hostPatterns: [/(^|\.)glassdoor\.(com|co\.uk|ca|com\.au|de|fr|co\.in|ie|nl|be|ch|at)$/],
+        jobUrlPatterns: [
+            /^https?:\/\/(www\.)?glassdoor\.[a-z.]+\/job-listing\//i,
+            /^https?:\/\/(www\.)?glassdoor\.[a-z.]+\/Job\/.*[?&]jl=\d+/i,
+            /^https?:\/\/(www\.)?glassdoor\.[a-z.]+\/partner\/jobListing\.htm/i,
+        ],
+    },
+    {
+        id: 'greenhouse',
+        name: 'Greenhouse',
+        icon: '🌱',
+        hostPatterns: [/(^|\.)greenhouse\.io$/],
+        jobUrlPatterns: [
+            /^https?:\/\/(job-)?boards(\.eu)?\.greenhouse\.io\/[\w-]+\/jobs\/\d+/,
+            /^https?:\/\/(job-)?boards(\.eu)?\.greenhouse\.io\/embed\/job_app\?.*\btoken=\d+/,
+        ],
+    },
+    {
+        id: 'lever',
+        name: 'Lever',
+        icon: '⚙️',
+        hostPatterns: [/^jobs(\.eu)?\.lever\.co$/],
+        jobUrlPatterns: [/^https?:\/\/jobs(\.eu)?\.lever\.co\/[\w.-]+\/[0-9a-f-]{36}/i],
+    },
+    {
+        // Catch-all for opt-in career sites read through schema.org JSON-LD
+        id: 'other',
+        name: 'Other',
+        icon: '🌐',
+        hostPatterns: [],
+        jobUrlPatterns: [],
+    },
+] as const satisfies readonly PlatformInfo[];
+
+/**
+ * Supported job platforms
+ */
+export type JobPlatform = (typeof PLATFORMS)[number]['id'];
+
+/** Platform ids as a non-empty tuple (the shape z.enum() expects) */
+export const PLATFORM_IDS = PLATFORMS.map((p) => p.id) as [JobPlatform, ...JobPlatform[]];
+
+/**
+ * Look up a platform by id; unknown ids (e.g. rows saved by an older
+ * version) resolve to "other"
+ */
+export function getPlatform(id: string | null | undefined): PlatformInfo {
+    return PLATFORMS.find((p) => p.id === id) ?? PLATFORMS[PLATFORMS.length - 1];
+}
+
+/**
+ * Which platform serves this URL, judged by hostname
+ */
+export function getPlatformForUrl(url: string): JobPlatform {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+        return 'other';
+    }
+    const platform = PLATFORMS.find((p) => p.hostPatterns.some((re: RegExp) => re.test(hostname)));
+    return platform?.id ?? 'other';
+}
+
+/**
+ * Whether the URL shows a single job on the given platform
+ */
+export function isPlatformJobUrl(platform: JobPlatform, url: string): boolean {
+    return getPlatform(platform).jobUrlPatterns.some((re) => re.test(url));
+}
+
+/**
+ * Whether the URL shows a single job on any known platform
+ */
+export function isJobPageUrl(url: string): boolean {
+    return PLATFORMS.some((p) => p.jobUrlPatterns.some((re: RegExp) => re.test(url)));
+}
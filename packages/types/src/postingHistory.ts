@@ -0,0 +1,38 @@
+/**
+ * Posting history: every job page visit is folded into an entry keyed by
+ * company + normalised title + city, so the same role can be recognised when
+ * it is reposted under a new platform job ID or with a refreshed date.
+ */
+
+export interface PostingHistoryEntry {
+    company: string;
+    title: string;
+    /** Platform job keys this role has been listed under ("linkedin:3912345678") */
+    jobKeys: string[];
+    /** Distinct `datePosted` days seen (YYYY-MM-DD), oldest first */
+    postedDates: string[];
+    /** The same days by the platform that showed them; absent on entries recorded before it was kept */
+    platformPostedDates?: Record<string, string[]>;
+    firstSeenAt: string;
+    lastSeenAt: string;
+    visits: number;
+}
+
+/** Entries by posting key (see postingHistoryKey in the parsers package) */
+export type PostingHistory = Record<string, PostingHistoryEntry>;
+
+export type GhostJobLikelihood = 'low' | 'medium' | 'high';
+
+export interface GhostJobAssessment {
+    /** 0-100, higher = more likely the role isn't really being filled */
+    score: number;
+    likelihood: GhostJobLikelihood;
+    /** Human-readable evidence, most significant first */
+    reasons: string[];
+}
+
+export const GHOST_JOB_LABELS: Record<GhostJobLikelihood, string> = {
+    low: 'Unlikely ghost job',
+    medium: 'Possible ghost job',
+    high: 'Likely ghost job',
+};
@@ -0,0 +1,92 @@
+import type { Flag } from './job';
+
+/**
+ * Local toxicity score: a deterministic 0-100 estimate computed from the
+ * flags and posting metadata, so there is a score without an AI provider.
+ * Every point can be traced back to a factor; the weights are user-tunable
+ * in Settings → Toxicity Score.
+ */
+
+export interface ToxicityWeights {
+    /** Points added per red flag, by severity (scaled by the flag's confidence) */
+    redFlag: Record<Flag['severity'], number>;
+    /** Points taken off per green flag (scaled by the flag's confidence) */
+    greenFlag: number;
+    /** Multiplier on flags of each category; 0 ignores the category */
+    categories: Record<Flag['category'], number>;
+    /** No salary anywhere in the posting */
+    hiddenSalary: number;
+    /** Points taken off when the posting publishes a salary */
+    transparentSalary: number;
+    /** Salary in the page metadata but not in the visible text */
+    salaryMismatch: number;
+    /** Open for over a month; doubled past two months */
+    staleJob: number;
+    /** Points at a 100/100 ghost-job score (reposts, refreshed dates, past deadline) */
+    repostHistory: number;
+}
+
+export const DEFAULT_TOXICITY_WEIGHTS: ToxicityWeights = {
+    redFlag: { low: 4, medium: 8, high: 14, critical: 22 },
+    greenFlag: 4,
+    categories: {
+        culture: 1,
+        workload: 1,
+        management: 1,
+        compensation: 1,
+        growth: 1,
+        flexibility: 1,
+        benefits: 1,
+        hiring: 1,
+    },
+    hiddenSalary: 8,
+    transparentSalary: 6,
+    salaryMismatch: 10,
+    staleJob: 6,
+    repostHistory: 20,
+};
+
+export type PartialToxicityWeights = Partial<Omit<ToxicityWeights, 'redFlag' | 'categories'>> & {
+    redFlag?: Partial<ToxicityWeights['redFlag']>;
+    categories?: Partial<ToxicityWeights['categories']>;
+};
+
+/**
+ * Stored weights over the defaults; weights saved before a field existed
+ * keep its default
+ */
+export function resolveToxicityWeights(weights?: PartialToxicityWeights | null): ToxicityWeights {
+    return {
+        ...DEFAULT_TOXICITY_WEIGHTS,
+        ...weights,
+        redFlag: { ...DEFAULT_TOXICITY_WEIGHTS.redFlag, ...weights?.redFlag },
+        categories: { ...DEFAULT_TOXICITY_WEIGHTS.categories, ...weights?.categories },
+    };
+}
+
+export interface ToxicityFactor {
+    label: string;
+    /** Signed contribution to the score */
+    points: number;
+}
+
+export interface LocalToxicityScore {
+    /** 0-100 (0 = dream job, 100 = run away) */
+    score: number;
+    /** Contributions, largest first */
+    factors: ToxicityFactor[];
+}
+
+export type ToxicityLevel = 'low' | 'moderate' | 'high';
+
+/** Same bands as the dashboard's AI score badge */
+export function toxicityLevel(score: number): ToxicityLevel {
+    if (score > 60) return 'high';
+    if (score > 30) return 'moderate';
+    return 'low';
+}
+
+/** "+11 Likely overtime expected" */
+export function formatToxicityFactor(factor: ToxicityFactor): string {
+    return `${factor.points > 0 ? '+' : ''}${factor.points} ${factor.label}`;
+}
@@ -42,7 +42,7 @@ CREATE TABLE IF NOT EXISTS public.applications (
     job_title TEXT NOT NULL,
     company_name TEXT NOT NULL,
     location TEXT,
-    platform TEXT NOT NULL CHECK (platform IN ('linkedin', 'indeed', 'hh.ru', 'other')),
+    platform TEXT NOT NULL, -- see applications_platform_check below
     
     -- Analysis Results (stored as JSONB for flexibility)
     job_data JSONB,
@@ -78,6 +78,13 @@ CREATE TABLE IF NOT EXISTS public.applications (
     CONSTRAINT unique_user_job UNIQUE (user_id, job_url)
 );
 
+-- Platform ids mirror PLATFORMS in packages/types/src/platforms.ts.
+-- Dropped and re-added so re-running this file picks up new platforms.
+ALTER TABLE public.applications DROP CONSTRAINT IF EXISTS applications_platform_check;
+ALTER TABLE public.applications ADD CONSTRAINT applications_platform_check CHECK (platform IN (
+    'linkedin', 'indeed', 'hh.ru', 'glassdoor', 'greenhouse', 'lever', 'other'
+));
+
 -- ==========================================
 -- USAGE (rate limiting & analytics)
 -- ==========================================